@@ -1,5 +1,11 @@
 import { buildApp } from "../src/app";
 import { initStore } from "../src/store";
+import { initKeyProvider } from "../src/provider";
+import { initBlindIndexes } from "../src/blindIndex";
+import { initSigningKey } from "../src/signing";
+import { initApiAuth } from "../src/auth";
+import { initAuditLog } from "../src/audit";
+import { initRateLimits } from "../src/rateLimit";
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 
 /**
@@ -9,25 +15,48 @@ import type { VercelRequest, VercelResponse } from "@vercel/node";
  * serverless environment. Each request creates a new Fastify instance,
  * injects the request, and returns the response.
  *
- * Environment variables (MASTER_KEY_HEX) are configured in the Vercel dashboard.
+ * Environment variables (MASTER_KEY_HEX or MASTER_KEYRING, ADMIN_API_KEY)
+ * are configured in the Vercel dashboard.
+ *
+ * Injected requests have no socket of their own, so the client's address
+ * is passed in explicitly: without it every request would come from
+ * 127.0.0.1, sharing one decrypt rate limit and one audit IP.
  */
 
 let appPromise: ReturnType<typeof buildApp> | null = null;
 
 async function getApp() {
   if (!appPromise) {
+    initKeyProvider();
+    initBlindIndexes();
+    initSigningKey();
+    initApiAuth();
+    initRateLimits();
     await initStore();
+    initAuditLog();
     appPromise = buildApp();
   }
   return appPromise;
 }
 
+/**
+ * The client's IP. Vercel's edge sets X-Forwarded-For to the address it
+ * received the request from, replacing whatever the client sent, so its
+ * first entry is trusted here; the function's own socket only ever sees
+ * Vercel's proxy.
+ */
+function clientAddress(req: VercelRequest): string | undefined {
+  const forwarded = req.headers["x-forwarded-for"];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(",")[0].trim();
+  return first || req.socket?.remoteAddress;
+}
+
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // ── CORS headers (must be set before any response) ──────────────────
   const origin = req.headers.origin || "*";
   res.setHeader("Access-Control-Allow-Origin", origin);
-  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, PUT, DELETE, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
 
   // Handle preflight requests immediately
   if (req.method === "OPTIONS") {
@@ -46,6 +75,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       url: req.url || "/",
       headers: req.headers as Record<string, string>,
       payload: req.body ? JSON.stringify(req.body) : undefined,
+      remoteAddress: clientAddress(req),
     });
 
     // Forward Fastify response to Vercel
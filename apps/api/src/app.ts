@@ -1,9 +1,15 @@
-import Fastify, { FastifyInstance, FastifyError } from "fastify";
+import Fastify, { FastifyInstance, FastifyError, FastifyServerOptions } from "fastify";
 import cors from "@fastify/cors";
 import sensible from "@fastify/sensible";
 import { CryptoError } from "./crypto";
 import { healthRoutes } from "./routes/health";
 import { txRoutes } from "./routes/tx";
+import { adminRoutes } from "./routes/admin";
+import { partyRoutes } from "./routes/parties";
+import { keyRoutes } from "./routes/keys";
+import { ledgerRoutes } from "./routes/ledger";
+import { auditRoutes } from "./routes/audit";
+import { registerApiAuth } from "./auth";
 
 /**
  * Builds and configures the Fastify application.
@@ -15,13 +21,14 @@ import { txRoutes } from "./routes/tx";
 export async function buildApp(): Promise<FastifyInstance> {
   const app = Fastify({
     logger: true,
+    trustProxy: readTrustProxy(),
   });
 
   // ── CORS ──────────────────────────────────────────────────────────────
   // Allow requests from the Next.js frontend (local and deployed)
   await app.register(cors, {
     origin: true, // Reflect the request origin (allows any origin in dev)
-    methods: ["GET", "POST", "OPTIONS"],
+    methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
   });
 
   // ── Sensible defaults ─────────────────────────────────────────────────
@@ -56,9 +63,19 @@ export async function buildApp(): Promise<FastifyInstance> {
     }
   );
 
+  // ── Authentication ───────────────────────────────────────────────────
+  // Every route requires an API key unless its config says otherwise
+  // (see auth.ts); registered first so it covers every route below.
+  registerApiAuth(app);
+
   // ── Routes ────────────────────────────────────────────────────────────
   await app.register(healthRoutes);
   await app.register(txRoutes);
+  await app.register(adminRoutes);
+  await app.register(partyRoutes);
+  await app.register(keyRoutes);
+  await app.register(ledgerRoutes);
+  await app.register(auditRoutes);
 
   // ── Global error handler ──────────────────────────────────────────────
   // Catches unhandled errors and returns consistent JSON responses.
@@ -90,3 +107,19 @@ export async function buildApp(): Promise<FastifyInstance> {
 
   return app;
 }
+
+/**
+ * Which proxies' X-Forwarded-For to believe for `request.ip` — the client
+ * IP that decrypt rate limits and audit entries use. TRUST_PROXY is unset
+ * (none: the socket's peer is the client), "true" (every hop), a hop count,
+ * or a comma-separated list of proxy addresses and CIDR ranges. Only set
+ * it behind a proxy that overwrites the header: a client can put any
+ * address in it.
+ */
+function readTrustProxy(): FastifyServerOptions["trustProxy"] {
+  const raw = process.env.TRUST_PROXY?.trim();
+  if (!raw || raw === "false") return false;
+  if (raw === "true") return true;
+  if (/^\d+$/.test(raw)) return Number(raw);
+  return raw.split(",").map((address) => address.trim());
+}
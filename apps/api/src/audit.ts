@@ -0,0 +1,401 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { FastifyRequest } from "fastify";
+import {
+  CryptoError,
+  ExpiredRecordError,
+  KeyDestroyedError,
+  PoolQueueFullError,
+  TamperedDataError,
+  ValidationError,
+  WrongKeyError,
+  canonicalJson,
+} from "./crypto";
+import { createSupabaseAuditSink, usingSupabase } from "./store";
+
+/**
+ * Audit log — who encrypted, fetched, listed or decrypted which record, from
+ * where, and whether it worked.
+ *
+ *   AUDIT_SINK     — "memory", "supabase" (the `audit_log` table) or "file"
+ *                    (default: "supabase" when Supabase is configured,
+ *                    "memory" otherwise)
+ *   AUDIT_LOG_FILE — JSONL file for the "file" sink
+ *                    (default ./data/audit.jsonl)
+ *
+ * The log is append-only and hash-chained like the record ledger: each
+ * entry's `entry_hash` covers its fields and the previous entry's hash,
+ * so editing, deleting or reordering entries breaks the chain
+ * (verifyAuditChain(), GET /audit/verify). It does not stop whoever
+ * controls the sink from truncating the log or rewriting all of it.
+ *
+ * Routes write their entry before they answer: a request whose entry
+ * cannot be written fails with a 500 instead of going unrecorded.
+ */
+
+/** What a caller did ("list": GET /tx, one entry per page) */
+export type AuditOperation = "encrypt" | "fetch" | "list" | "decrypt";
+
+/** Why an operation failed */
+export type AuditReason =
+  | "forbidden"
+  | "not-found"
+  | "invalid"
+  | "tampered"
+  | "wrong-key"
+  | "expired"
+  | "key-destroyed"
+  | "overloaded"
+  | "rate-limited"
+  | "locked-out"
+  | "error";
+
+export type AuditEntry = {
+  /** Position in the log, from 1 */
+  seq: number;
+
+  /** ISO 8601 */
+  timestamp: string;
+
+  operation: AuditOperation;
+
+  outcome: "success" | "failure";
+
+  /** Set on failures only */
+  reason: AuditReason | null;
+
+  /** Null when it is not known (e.g. the record was not found) */
+  partyId: string | null;
+
+  /** Null when there is no record (e.g. a failed encrypt) */
+  recordId: string | null;
+
+  /** "admin", or the id of the party API key used */
+  caller: string;
+
+  /** Client IP as seen by Fastify */
+  ip: string;
+
+  /** entry_hash of the previous entry (AUDIT_GENESIS_HASH for the first) */
+  prev_hash: string;
+
+  /** SHA-256 over the fields above (see auditEntryHash()) */
+  entry_hash: string;
+};
+
+/** Conditions for queryAuditLog(); every given field must match */
+export type AuditFilter = {
+  partyId?: string;
+  recordId?: string;
+  operation?: AuditOperation;
+  outcome?: AuditEntry["outcome"];
+
+  /** Entries at or after this time (ISO 8601) */
+  from?: string;
+
+  /** Entries before this time (ISO 8601) */
+  to?: string;
+
+  /** Only entries after this seq (paging cursor) */
+  afterSeq?: number;
+
+  limit: number;
+};
+
+/** Where entries are kept */
+export type AuditSink = {
+  readonly kind: AuditSinkKind;
+
+  /**
+   * Append an entry (called one at a time, in seq order).
+   *
+   * @returns false if another writer already took the entry's seq
+   */
+  append(entry: AuditEntry): Promise<boolean>;
+
+  /** The last entry, or undefined if the log is empty */
+  head(): Promise<AuditEntry | undefined>;
+
+  /** Matching entries in seq order, at most `filter.limit` */
+  query(filter: AuditFilter): Promise<AuditEntry[]>;
+};
+
+export type AuditSinkKind = "memory" | "supabase" | "file";
+
+/** A break found by verifyAuditChain() */
+export type AuditBreak = {
+  seq: number;
+  message: string;
+};
+
+/** prev_hash of the first entry */
+export const AUDIT_GENESIS_HASH = "0".repeat(64);
+
+/** Domain separation from the ledger's hashes */
+const ENTRY_HASH_CONTEXT = "tx-secure/audit-entry/v1\n";
+
+const DEFAULT_AUDIT_LOG_FILE = "./data/audit.jsonl";
+
+/** Attempts at appending an entry before giving up on a contended head */
+const APPEND_ATTEMPTS = 5;
+
+let sink: AuditSink = createMemoryAuditSink();
+
+/** Appends within this process run one after another */
+let auditTail: Promise<unknown> = Promise.resolve();
+
+/**
+ * Choose the sink from the environment. Must be called after initStore()
+ * (called from the server entry point).
+ *
+ * @returns The sink's kind
+ * @throws Error if AUDIT_SINK is unknown, or "supabase" without Supabase
+ */
+export function initAuditLog(): AuditSinkKind {
+  const kind = process.env.AUDIT_SINK || (usingSupabase() ? "supabase" : "memory");
+
+  switch (kind) {
+    case "memory":
+      sink = createMemoryAuditSink();
+      break;
+    case "supabase":
+      sink = createSupabaseAuditSink();
+      break;
+    case "file":
+      sink = createFileAuditSink(process.env.AUDIT_LOG_FILE || DEFAULT_AUDIT_LOG_FILE);
+      break;
+    default:
+      throw new Error(`Unknown AUDIT_SINK "${kind}" — expected "memory", "supabase" or "file"`);
+  }
+  return sink.kind;
+}
+
+/** Hash of an entry's fields other than `entry_hash` */
+export function auditEntryHash(entry: Omit<AuditEntry, "entry_hash">): string {
+  // Only the entry's own fields: extra properties (e.g. database columns)
+  // must not change the hash
+  const { seq, timestamp, operation, outcome, reason, partyId, recordId, caller, ip, prev_hash } =
+    entry;
+  const fields = {
+    seq,
+    timestamp,
+    operation,
+    outcome,
+    reason,
+    partyId,
+    recordId,
+    caller,
+    ip,
+    prev_hash,
+  };
+  return crypto
+    .createHash("sha256")
+    .update(ENTRY_HASH_CONTEXT + canonicalJson(fields), "utf-8")
+    .digest("hex");
+}
+
+/**
+ * Check that `entries` (consecutive, in seq order) chain correctly.
+ *
+ * @param previous - The entry before entries[0], or null if it is the first
+ * @returns The first break, or null if the chain holds
+ */
+export function verifyAuditChain(
+  entries: AuditEntry[],
+  previous: AuditEntry | null = null
+): AuditBreak | null {
+  let prev = previous;
+  for (const entry of entries) {
+    const expectedSeq = prev ? prev.seq + 1 : 1;
+    if (entry.seq !== expectedSeq) {
+      return { seq: expectedSeq, message: `Audit entry ${expectedSeq} is missing` };
+    }
+    if (entry.entry_hash !== auditEntryHash(entry)) {
+      return { seq: entry.seq, message: `Audit entry ${entry.seq} was altered` };
+    }
+    if (entry.prev_hash !== (prev ? prev.entry_hash : AUDIT_GENESIS_HASH)) {
+      return {
+        seq: entry.seq,
+        message: `Audit entry ${entry.seq} does not follow entry ${expectedSeq - 1}`,
+      };
+    }
+    prev = entry;
+  }
+  return null;
+}
+
+/** What a route reports about one operation */
+export type AuditEvent = {
+  operation: AuditOperation;
+  outcome: AuditEntry["outcome"];
+  reason?: AuditReason;
+  partyId?: string;
+  recordId?: string;
+};
+
+/**
+ * Append an entry for `event`, with the request's caller and IP.
+ *
+ * @returns The appended entry
+ */
+export function recordAudit(request: FastifyRequest, event: AuditEvent): Promise<AuditEntry> {
+  const caller = request.caller;
+  const appended = auditTail.then(async () => {
+    for (let attempt = 1; ; attempt++) {
+      const head = await sink.head();
+      const fields: Omit<AuditEntry, "entry_hash"> = {
+        seq: head ? head.seq + 1 : 1,
+        timestamp: new Date().toISOString(),
+        operation: event.operation,
+        outcome: event.outcome,
+        reason: event.reason ?? null,
+        partyId: event.partyId ?? null,
+        recordId: event.recordId ?? null,
+        caller: caller?.kind === "party" ? caller.key.id : "admin",
+        ip: request.ip,
+        prev_hash: head ? head.entry_hash : AUDIT_GENESIS_HASH,
+      };
+      const entry: AuditEntry = { ...fields, entry_hash: auditEntryHash(fields) };
+
+      if (await sink.append(entry)) return entry;
+      if (attempt === APPEND_ATTEMPTS) {
+        throw new Error(`Audit append failed: seq ${entry.seq} kept being taken`);
+      }
+    }
+  });
+  auditTail = appended.catch(() => undefined);
+  return appended;
+}
+
+/** Maps an encrypt or decrypt error to the reason recorded for it */
+export function auditFailureReason(error: unknown): AuditReason {
+  if (error instanceof PoolQueueFullError) return "overloaded";
+  if (error instanceof KeyDestroyedError) return "key-destroyed";
+  if (error instanceof ExpiredRecordError) return "expired";
+  if (error instanceof WrongKeyError) return "wrong-key";
+  if (error instanceof TamperedDataError) return "tampered";
+  if (error instanceof ValidationError || error instanceof CryptoError) return "invalid";
+  return "error";
+}
+
+/** Entries matching `filter`, in seq order */
+export function queryAuditLog(filter: AuditFilter): Promise<AuditEntry[]> {
+  return sink.query(filter);
+}
+
+/** Entries read per sink call while verifying */
+const VERIFY_BATCH_SIZE = 500;
+
+/**
+ * Walk the whole log and check its hash chain.
+ *
+ * @returns How many entries were checked, and the first break if any
+ */
+export async function verifyAuditLog(): Promise<{ entries: number; break: AuditBreak | null }> {
+  let previous: AuditEntry | null = null;
+  let entries = 0;
+
+  for (;;) {
+    const batch = await sink.query({ afterSeq: previous?.seq ?? 0, limit: VERIFY_BATCH_SIZE });
+    if (batch.length === 0) return { entries, break: null };
+
+    const found = verifyAuditChain(batch, previous);
+    if (found) return { entries, break: found };
+    entries += batch.length;
+    previous = batch[batch.length - 1];
+  }
+}
+
+/** Whether an entry matches a filter (sinks that filter in memory) */
+function matchesFilter(entry: AuditEntry, filter: AuditFilter): boolean {
+  return (
+    (filter.partyId === undefined || entry.partyId === filter.partyId) &&
+    (filter.recordId === undefined || entry.recordId === filter.recordId) &&
+    (filter.operation === undefined || entry.operation === filter.operation) &&
+    (filter.outcome === undefined || entry.outcome === filter.outcome) &&
+    (filter.from === undefined || entry.timestamp >= filter.from) &&
+    (filter.to === undefined || entry.timestamp < filter.to) &&
+    (filter.afterSeq === undefined || entry.seq > filter.afterSeq)
+  );
+}
+
+/** Entries kept in this process only (lost on restart) */
+export function createMemoryAuditSink(): AuditSink {
+  const entries: AuditEntry[] = [];
+
+  return {
+    kind: "memory",
+
+    async append(entry) {
+      entries.push({ ...entry });
+      return true;
+    },
+
+    async head() {
+      return entries[entries.length - 1];
+    },
+
+    async query(filter) {
+      return entries
+        .filter((entry) => matchesFilter(entry, filter))
+        .slice(0, filter.limit)
+        .map((entry) => ({ ...entry }));
+    },
+  };
+}
+
+/**
+ * Entries appended to a local JSONL file, one entry per line. Only one
+ * process may write to the file; the head is read from it once, on the
+ * first append.
+ */
+export function createFileAuditSink(file: string): AuditSink {
+  let last: AuditEntry | undefined;
+  let loaded = false;
+
+  async function readAll(): Promise<AuditEntry[]> {
+    let text: string;
+    try {
+      text = await fs.promises.readFile(file, "utf-8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw err;
+    }
+    return text
+      .split("\n")
+      .filter((line) => line.trim() !== "")
+      .map((line, i) => {
+        try {
+          return JSON.parse(line) as AuditEntry;
+        } catch {
+          throw new Error(`Audit log ${file} has an unreadable line ${i + 1}`);
+        }
+      });
+  }
+
+  return {
+    kind: "file",
+
+    async append(entry) {
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await fs.promises.appendFile(file, JSON.stringify(entry) + "\n", "utf-8");
+      last = { ...entry };
+      loaded = true;
+      return true;
+    },
+
+    async head() {
+      if (!loaded) {
+        const entries = await readAll();
+        last = entries[entries.length - 1];
+        loaded = true;
+      }
+      return last && { ...last };
+    },
+
+    async query(filter) {
+      return (await readAll()).filter((entry) => matchesFilter(entry, filter)).slice(0, filter.limit);
+    },
+  };
+}
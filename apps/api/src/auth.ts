@@ -0,0 +1,192 @@
+import * as crypto from "crypto";
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { ApiKey, ApiKeyScope, findApiKeyByHash, revokeApiKey, saveApiKey } from "./store";
+
+/**
+ * API key authentication.
+ *
+ * Every request except public routes carries `Authorization: Bearer <key>`.
+ * Two kinds of key are accepted:
+ *
+ *   Party keys — issued per partyId by POST /admin/api-keys, with scopes
+ *                ("encrypt", "read", "decrypt"). Only their SHA-256 hash is
+ *                stored; the key itself is shown once, when it is issued.
+ *   Admin key  — ADMIN_API_KEY from the environment. Allowed on every
+ *                route, including /admin/*, for any party.
+ *
+ * Each route declares what it needs in its config (`config: { auth }`),
+ * checked by an onRequest hook before the body is even read. Routes that
+ * declare nothing are admin-only, so a new route is never open by
+ * accident. Ownership (a party key may only touch its own party's
+ * records) depends on the record, so the routes check it themselves with
+ * canAccessParty().
+ *
+ * Keys are 32 random bytes, so a plain SHA-256 — not a slow password hash
+ * — is enough to make a leaked api_keys table useless.
+ */
+
+/** Scopes a party key can be issued with */
+export const API_KEY_SCOPES: readonly ApiKeyScope[] = ["encrypt", "read", "decrypt"];
+
+/** What a route requires: nothing, a party key scope, or the admin key */
+export type RouteAuth = "public" | ApiKeyScope | "admin";
+
+/** Who sent a request: the admin, or a party through one of its keys */
+export type Caller = { kind: "admin" } | { kind: "party"; key: ApiKey };
+
+declare module "fastify" {
+  interface FastifyContextConfig {
+    /** Required credentials (default: "admin") */
+    auth?: RouteAuth;
+  }
+
+  interface FastifyRequest {
+    /** Set by the auth hook; null on public routes */
+    caller: Caller | null;
+  }
+}
+
+/** Prefix of every issued key, so leaked keys are easy to scan for */
+const API_KEY_PREFIX = "txk_";
+
+/** Random bytes in an issued key */
+const API_KEY_BYTES = 32;
+
+/** Shortest ADMIN_API_KEY accepted */
+const MIN_ADMIN_KEY_LENGTH = 32;
+
+let adminKeyHash: Buffer | null = null;
+
+/**
+ * Load the admin key from the environment. Must be called once before
+ * the server accepts requests (called from the server entry point).
+ *
+ * @throws Error if ADMIN_API_KEY is missing or too short — without it no
+ *         party key can be issued, so only the public routes would answer
+ */
+export function initApiAuth(): void {
+  adminKeyHash = null;
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    throw new Error(
+      "ADMIN_API_KEY is not set — it is needed to issue the API keys every non-public route requires"
+    );
+  }
+
+  if (adminKey.length < MIN_ADMIN_KEY_LENGTH) {
+    throw new Error(`ADMIN_API_KEY must be at least ${MIN_ADMIN_KEY_LENGTH} characters`);
+  }
+  adminKeyHash = hashApiKey(adminKey);
+}
+
+/** SHA-256 of an API key */
+function hashApiKey(key: string): Buffer {
+  return crypto.createHash("sha256").update(key, "utf-8").digest();
+}
+
+/**
+ * Issue a new party key.
+ *
+ * @returns The stored key and its secret — the only time the secret exists
+ */
+export async function issueApiKey(
+  partyId: string,
+  scopes: ApiKeyScope[],
+  name: string | null
+): Promise<{ apiKey: ApiKey; key: string }> {
+  const key = API_KEY_PREFIX + crypto.randomBytes(API_KEY_BYTES).toString("base64url");
+  const apiKey: ApiKey = {
+    id: crypto.randomUUID(),
+    partyId,
+    scopes: API_KEY_SCOPES.filter((scope) => scopes.includes(scope)),
+    name,
+    keyHash: hashApiKey(key).toString("hex"),
+    createdAt: new Date().toISOString(),
+    revokedAt: null,
+  };
+
+  await saveApiKey(apiKey);
+  return { apiKey, key };
+}
+
+/** Revoke a party key; undefined if there is no such key */
+export async function revokeApiKeyById(id: string): Promise<ApiKey | undefined> {
+  return revokeApiKey(id, new Date().toISOString());
+}
+
+/** An API key as returned by the admin routes: never its hash */
+export function presentApiKey(apiKey: ApiKey): Omit<ApiKey, "keyHash"> {
+  const { keyHash: _keyHash, ...rest } = apiKey;
+  return rest;
+}
+
+/** Whether the caller may act for `partyId` (the admin may act for any party) */
+export function canAccessParty(request: FastifyRequest, partyId: string): boolean {
+  const caller = request.caller;
+  return caller?.kind === "admin" || (caller?.kind === "party" && caller.key.partyId === partyId);
+}
+
+/** The caller's party, or undefined for the admin (who sees every party) */
+export function callerPartyId(request: FastifyRequest): string | undefined {
+  return request.caller?.kind === "party" ? request.caller.key.partyId : undefined;
+}
+
+/** 403 for a party key used on another party's record or settings */
+export function denyParty(reply: FastifyReply): FastifyReply {
+  return deny(reply, 403, "This API key's party does not own this resource");
+}
+
+/** Register the auth hook on `app` (before any route) */
+export function registerApiAuth(app: FastifyInstance): void {
+  app.decorateRequest("caller", null);
+  app.addHook("onRequest", authenticate);
+}
+
+/** onRequest hook: a denied request is answered here and never reaches its route */
+async function authenticate(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<FastifyReply | void> {
+  // CORS preflights carry no credentials, and unknown routes only 404
+  if (request.method === "OPTIONS" || request.is404) return;
+
+  const required = request.routeOptions.config.auth ?? "admin";
+  if (required === "public") return;
+
+  const key = bearerToken(request);
+  if (!key) {
+    return deny(reply, 401, "Missing API key (Authorization: Bearer <key>)");
+  }
+
+  const hash = hashApiKey(key);
+  if (adminKeyHash && crypto.timingSafeEqual(hash, adminKeyHash)) {
+    request.caller = { kind: "admin" };
+    return;
+  }
+
+  // The lookup is by hash: a key that differs from a stored one in any
+  // byte has an unrelated hash, so the comparison leaks nothing usable
+  const apiKey = await findApiKeyByHash(hash.toString("hex"));
+  if (!apiKey || apiKey.revokedAt !== null) {
+    return deny(reply, 401, "Invalid or revoked API key");
+  }
+
+  if (required === "admin") {
+    return deny(reply, 403, "This route requires the admin API key");
+  }
+  if (!apiKey.scopes.includes(required)) {
+    return deny(reply, 403, `API key lacks the "${required}" scope`);
+  }
+
+  request.caller = { kind: "party", key: apiKey };
+}
+
+function bearerToken(request: FastifyRequest): string | null {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(request.headers.authorization ?? "");
+  return match ? match[1] : null;
+}
+
+function deny(reply: FastifyReply, status: 401 | 403, error: string): FastifyReply {
+  if (status === 401) reply.header("WWW-Authenticate", 'Bearer realm="tx-secure"');
+  return reply.status(status).send({ success: false, error });
+}
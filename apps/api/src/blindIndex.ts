@@ -0,0 +1,58 @@
+import { BlindIndex, computeBlindIndex, computeBlindIndexes, keyringVersions } from "./crypto";
+import { getKeyring } from "./keyring";
+
+/**
+ * Blind indexes for GET /tx/search.
+ *
+ *   BLIND_INDEX_FIELDS — comma-separated payload paths to index, e.g.
+ *                        "counterparty.account,reference"
+ *
+ * On encrypt, each configured field present in the payload is indexed
+ * under the keyring's active version. Search computes the index under every
+ * version in the keyring, so records indexed before a rotation stay
+ * searchable for as long as their version stays in the keyring.
+ *
+ * The index keys are derived from the local master keyring, so blind
+ * indexes are not available with KEY_PROVIDER=http.
+ */
+
+let fields: string[] = [];
+
+/**
+ * Read BLIND_INDEX_FIELDS. Must be called after initKeyProvider().
+ *
+ * @returns The indexed fields (empty if none are configured)
+ * @throws Error if fields are configured but no local keyring is loaded
+ */
+export function initBlindIndexes(): string[] {
+  fields = (process.env.BLIND_INDEX_FIELDS || "")
+    .split(",")
+    .map((field) => field.trim())
+    .filter((field) => field.length > 0);
+
+  if (fields.length > 0 && !getKeyring()) {
+    throw new Error("BLIND_INDEX_FIELDS requires a local master keyring (KEY_PROVIDER=local)");
+  }
+  return fields;
+}
+
+/** The fields configured by initBlindIndexes() */
+export function getBlindIndexFields(): string[] {
+  return fields;
+}
+
+/** Blind indexes for a payload about to be encrypted */
+export function blindIndexesFor(payload: Record<string, unknown>): BlindIndex[] {
+  const keyring = getKeyring();
+  if (!keyring || fields.length === 0) return [];
+  return computeBlindIndexes(keyring, payload, fields);
+}
+
+/** The index values a search for `value` must match, one per keyring version */
+export function searchIndexes(field: string, value: string): BlindIndex[] {
+  const keyring = getKeyring();
+  if (!keyring) return [];
+  return keyringVersions(keyring).map((version) =>
+    computeBlindIndex(keyring, field, value, version)
+  );
+}
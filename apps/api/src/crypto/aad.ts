@@ -0,0 +1,161 @@
+import { TxSecureRecord } from "./types";
+import { canonicalJson } from "./canonical";
+
+/**
+ * Additional Authenticated Data (AAD) — binding metadata to ciphertext.
+ *
+ * GCM can authenticate extra bytes that are not encrypted. We feed the
+ * record's metadata into both GCM layers so that editing `partyId`,
+ * `createdAt`, `id`, `alg` or `mk_version` in the database, or moving
+ * `payload_*` / `dek_*` fields from one record to another, makes the
+ * tag check fail.
+ *
+ *   payload layer AAD = ["tx-secure/payload/v2", id, partyId, createdAt, alg]
+ *   DEK-wrap layer AAD = ["tx-secure/dek-wrap/v2", id, partyId, createdAt, alg, mk_version]
+ *
+ * The layer label keeps a ciphertext from one layer from being accepted
+ * by the other.
+ *
+ * Unlike the other fields, `mk_version` is bound by the DEK-wrap layer
+ * only. A changed version fails the unwrap, so the payload can never be
+ * reached under it. Binding it into the payload AAD as well would change
+ * the payload tag with every master key rotation: re-wrapping a DEK
+ * (rewrap.ts) would have to re-encrypt the payload too, instead of
+ * touching only the `dek_*` fields.
+ *
+ * Records using field-level encryption (see fields.ts) append their
+ * readable `payload_clear` object to the payload-layer AAD as a tagged
+ * pair, and authenticate each encrypted field with its own AAD:
+ *
+ *   payload layer AAD += ["payload_clear", canonicalJson(payload_clear)]
+ *   field AAD          = ["tx-secure/field/v2", id, partyId, createdAt, alg, path]
+ *
+ * Records whose DEK is wrapped by a party KEK (see partyKeys.ts) append
+ * the KEK id to the DEK-wrap AAD the same way:
+ *
+ *   DEK-wrap layer AAD += ["kek_id", kek_id]
+ *
+ * and records sealed to a recipient key (see sealed.ts) append the
+ * recipient key id and the ephemeral public key:
+ *
+ *   DEK-wrap layer AAD += ["recipient", recipient_key_id, recipient_epk]
+ *
+ * Records with an expiry append it to the payload-layer AAD, so it can
+ * be neither extended nor removed without failing the payload tag:
+ *
+ *   payload layer AAD += ["expiresAt", expiresAt]
+ *
+ * Encoding is a JSON array, which is unambiguous for strings and numbers.
+ *
+ * Format 3 keeps the same AAD and changes only the DEK-wrap key: the
+ * wrapping key is no longer used directly but through its "dek-wrap"
+ * subkey (see subkeys.ts and wrap.ts).
+ */
+
+/** Record format for records created before AAD binding (no `format_version` field) */
+export const RECORD_FORMAT_LEGACY = 1;
+
+/** Record format that binds metadata as AAD on both GCM layers */
+export const RECORD_FORMAT_AAD = 2;
+
+/** Record format that wraps DEKs under the "dek-wrap" subkey instead of the raw key */
+export const RECORD_FORMAT_SUBKEYS = 3;
+
+/** Format version written by encrypt() */
+export const CURRENT_RECORD_FORMAT = RECORD_FORMAT_SUBKEYS;
+
+/** Record formats that decrypt() knows how to open */
+export const SUPPORTED_RECORD_FORMATS: readonly number[] = [
+  RECORD_FORMAT_LEGACY,
+  RECORD_FORMAT_AAD,
+  RECORD_FORMAT_SUBKEYS,
+];
+
+/** The record fields that feed the AAD of the payload layer */
+export type PayloadAadFields = Pick<
+  TxSecureRecord,
+  "id" | "partyId" | "createdAt" | "alg" | "format_version" | "expiresAt"
+>;
+
+/** The payload-layer AAD fields, plus the readable part of a field-encrypted payload */
+export type SealedPayloadAadFields = PayloadAadFields & Pick<TxSecureRecord, "payload_clear">;
+
+/** The record fields that feed the AAD of the DEK-wrap layer */
+export type DekWrapAadFields = PayloadAadFields &
+  Pick<TxSecureRecord, "mk_version" | "kek_id" | "recipient_key_id" | "recipient_epk">;
+
+/** Returns the effective format version of a record (absent → legacy) */
+export function recordFormat(record: Pick<TxSecureRecord, "format_version">): number {
+  return record.format_version ?? RECORD_FORMAT_LEGACY;
+}
+
+/**
+ * Builds the AAD for the payload layer. It leaves out `mk_version`
+ * (bound by the DEK-wrap layer only, see above).
+ *
+ * @returns The AAD bytes, or undefined for legacy records that were
+ *          encrypted without AAD
+ */
+export function payloadAad(record: SealedPayloadAadFields): Buffer | undefined {
+  if (recordFormat(record) < RECORD_FORMAT_AAD) return undefined;
+
+  const parts: Array<string | number> = [
+    "tx-secure/payload/v2",
+    record.id,
+    record.partyId,
+    record.createdAt,
+    record.alg,
+  ];
+  if (record.payload_clear !== undefined) {
+    parts.push("payload_clear", canonicalJson(record.payload_clear));
+  }
+  if (record.expiresAt !== undefined) {
+    parts.push("expiresAt", record.expiresAt);
+  }
+  return encodeAad(parts);
+}
+
+/**
+ * Builds the AAD for one encrypted field. Binding the path means a field
+ * ciphertext cannot be moved to another path, or to another record.
+ */
+export function fieldAad(record: PayloadAadFields, path: string): Buffer {
+  return encodeAad([
+    "tx-secure/field/v2",
+    record.id,
+    record.partyId,
+    record.createdAt,
+    record.alg,
+    path,
+  ]);
+}
+
+/**
+ * Builds the AAD for the DEK-wrap layer.
+ *
+ * @returns The AAD bytes, or undefined for legacy records that were
+ *          encrypted without AAD
+ */
+export function dekWrapAad(record: DekWrapAadFields): Buffer | undefined {
+  if (recordFormat(record) < RECORD_FORMAT_AAD) return undefined;
+
+  const parts: Array<string | number> = [
+    "tx-secure/dek-wrap/v2",
+    record.id,
+    record.partyId,
+    record.createdAt,
+    record.alg,
+    record.mk_version,
+  ];
+  if (record.kek_id !== undefined) {
+    parts.push("kek_id", record.kek_id);
+  }
+  if (record.recipient_key_id !== undefined) {
+    parts.push("recipient", record.recipient_key_id, record.recipient_epk ?? "");
+  }
+  return encodeAad(parts);
+}
+
+function encodeAad(parts: Array<string | number>): Buffer {
+  return Buffer.from(JSON.stringify(parts), "utf-8");
+}
@@ -1,6 +1,13 @@
 import * as crypto from "crypto";
 import { TxSecureRecord } from "./types";
-import { DecryptionError, TamperedDataError } from "./errors";
+import { CryptoError, DecryptionError, ExpiredRecordError, ValidationError } from "./errors";
+import { MasterKeyInput, resolveMasterKey } from "./keyring";
+import { SUPPORTED_RECORD_FORMATS, recordFormat } from "./aad";
+import { openPayload } from "./payload";
+import { openFields } from "./fields";
+import { KeyProvider } from "./provider";
+import { unwrapDek } from "./wrap";
+import { JsonSchema, PayloadSchema, validatePayload } from "./schema";
 
 /**
  * Envelope Decryption — How it works:
@@ -12,6 +19,8 @@ import { DecryptionError, TamperedDataError } from "./errors";
  *
  *   Step 2: Decrypt the payload
  *     DEK + payload_nonce + payload_tag → original JSON payload
+ *     (field-encrypted records: each field is decrypted and merged back
+ *     into `payload_clear`)
  *
  * SECURITY: Constant-time tag comparison
  * ───────────────────────────────────────
@@ -23,92 +32,236 @@ import { DecryptionError, TamperedDataError } from "./errors";
  * to prevent timing side-channel attacks. A timing attack works by measuring
  * how long a comparison takes — if we used === or Buffer.equals(), an attacker
  * could learn partial tag information by observing response times.
+ *
+ * Record format versions
+ * ──────────────────────
+ * Records with format_version >= 2 authenticate their metadata as AAD on
+ * both layers, so a changed partyId, createdAt, id, alg or mk_version fails
+ * the tag check just like a changed ciphertext. Records without a
+ * format_version predate AAD binding and are decrypted without it.
+ * Records with format_version 3 wrap their DEK under the master key's
+ * "dek-wrap" subkey rather than the raw master key; version 2 records
+ * keep unwrapping with the raw key.
+ *
+ * Wrong key vs. tampering
+ * ───────────────────────
+ * Records carry a `key_check` of the key that wrapped their DEK (see
+ * wrap.ts). It is compared before unwrapping, so a wrong master key fails
+ * with WrongKeyError and a failed tag with a matching key is reported as
+ * tampering. Records without a `key_check` report both as tampering.
+ *
+ * Record expiry
+ * ─────────────
+ * A record with an `expiresAt` in the past is refused with
+ * ExpiredRecordError before its DEK is unwrapped. Moving `expiresAt`
+ * (or removing it) does not help: it is part of the payload AAD, so the
+ * payload then fails its tag check.
  */
 
 /**
  * Decrypts a TxSecureRecord back to the original JSON payload.
  *
- * @param masterKey - Hex-encoded 32-byte master key (must match the key used for encryption)
+ * @param masterKey - Hex-encoded 32-byte master key (must match the key used for encryption),
+ *                    or a Keyring, in which case the key is chosen by `record.mk_version`
  * @param record    - The encrypted TxSecureRecord to decrypt
+ * @param schema    - Optional schema the payload must match (see schema.ts);
+ *                    the result is then typed as the schema's payload type
  * @returns The original JSON payload as a parsed object
- * @throws TamperedDataError if any ciphertext or tag has been modified
- * @throws DecryptionError for other decryption failures (e.g. wrong key)
+ * @throws TamperedDataError if any ciphertext, tag or authenticated metadata has been modified
+ * @throws ValidationError if the record uses an unknown format version
+ * @throws ExpiredRecordError if the record's `expiresAt` has passed
+ * @throws PayloadSchemaError if the decrypted payload does not match `schema`
+ * @throws WrongKeyError if the record's `key_check` shows it was wrapped
+ *         under a different master key
+ * @throws DecryptionError for other decryption failures (e.g. no
+ *         key for the record's mk_version in the keyring, a DEK wrapped
+ *         by a party KEK, which needs decryptWithProvider(), or a record
+ *         sealed to a recipient key, which needs openSealedRecord())
  */
+export function decrypt(masterKey: MasterKeyInput, record: TxSecureRecord): Record<string, unknown>;
+export function decrypt<T>(
+  masterKey: MasterKeyInput,
+  record: TxSecureRecord,
+  schema: PayloadSchema<T>
+): T;
 export function decrypt(
-  masterKey: string,
-  record: TxSecureRecord
-): Record<string, unknown> {
-  const mkBuffer = Buffer.from(masterKey, "hex");
-  if (mkBuffer.length !== 32) {
+  masterKey: MasterKeyInput,
+  record: TxSecureRecord,
+  schema?: PayloadSchema
+): unknown {
+  assertNotSealed(record);
+  const mkBuffer = resolveMasterKey(masterKey, record.mk_version, DecryptionError);
+
+  assertSupportedFormat(record);
+  assertNotExpired(record);
+  if (record.kek_id !== undefined) {
     throw new DecryptionError(
-      `Master key must be 32 bytes (64 hex chars), got ${mkBuffer.length} bytes`
+      `Record's DEK is wrapped by party KEK "${record.kek_id}" — use decryptWithProvider() with createPartyKeyProvider()`
     );
   }
 
-  // Convert all hex strings back to Buffers
-  const dekWrapNonce = Buffer.from(record.dek_wrap_nonce, "hex");
-  const dekWrapped = Buffer.from(record.dek_wrapped, "hex");
-  const dekWrapTag = Buffer.from(record.dek_wrap_tag, "hex");
-  const payloadNonce = Buffer.from(record.payload_nonce, "hex");
-  const payloadCt = Buffer.from(record.payload_ct, "hex");
-  const payloadTag = Buffer.from(record.payload_tag, "hex");
-
-  let dek: Buffer;
-
   // ── Step 1: Unwrap the DEK using the Master Key ────────────────────
-  // The DEK was encrypted with AES-256-GCM using the Master Key.
-  // We decrypt it here. If the dek_wrap_tag doesn't match (tampering),
-  // Node.js will throw an "Unsupported state or unable to authenticate data" error.
+  // Throws TamperedDataError if the wrapped DEK, its tag or the
+  // authenticated metadata doesn't match.
+  const dek = unwrapDek(mkBuffer, record);
+
   try {
-    const dekDecipher = crypto.createDecipheriv("aes-256-gcm", mkBuffer, dekWrapNonce);
+    // ── Step 2: Decrypt the payload using the unwrapped DEK ───────────
+    // Now that we have the plaintext DEK, we use it to decrypt the actual
+    // payload. Again, GCM verifies the payload_tag to detect tampering.
+    // Only an authenticated payload is checked against the schema.
+    return openCheckedPayload(dek, record, schema);
+  } finally {
+    // ── Step 3: Zero out the DEK from memory ──────────────────────────
+    // Same defense-in-depth practice as in encrypt(): overwrite the DEK
+    // so it can't be recovered from a memory dump or core dump.
+    dek.fill(0);
+  }
+}
+
+/**
+ * Decrypts a TxSecureRecord, delegating DEK unwrapping to a KeyProvider
+ * (e.g. a remote KMS). The provider picks the key by `record.mk_version`.
+ *
+ * @param provider - KeyProvider that unwraps the DEK
+ * @param record   - The encrypted TxSecureRecord to decrypt
+ * @param schema   - Optional schema the payload must match (see decrypt())
+ * @returns The original JSON payload as a parsed object
+ * @throws TamperedDataError if any ciphertext, tag or authenticated metadata has been modified
+ * @throws ValidationError if the record uses an unknown format version
+ * @throws ExpiredRecordError if the record's `expiresAt` has passed
+ * @throws PayloadSchemaError if the decrypted payload does not match `schema`
+ * @throws KeyDestroyedError if the record's party KEK has been destroyed
+ * @throws WrongKeyError if the provider's key is not the one the record
+ *         (or its party KEK) was wrapped under
+ * @throws DecryptionError for other decryption failures (e.g. provider
+ *         unreachable, or a record sealed to a recipient key)
+ */
+export async function decryptWithProvider(
+  provider: KeyProvider,
+  record: TxSecureRecord
+): Promise<Record<string, unknown>>;
+export async function decryptWithProvider<T>(
+  provider: KeyProvider,
+  record: TxSecureRecord,
+  schema: PayloadSchema<T>
+): Promise<T>;
+export async function decryptWithProvider(
+  provider: KeyProvider,
+  record: TxSecureRecord,
+  schema?: PayloadSchema
+): Promise<unknown> {
+  return decryptWithOpener(provider, record, schema, openCheckedPayload);
+}
+
+/**
+ * Opens the payload layer of a record with its unwrapped DEK and checks
+ * it against the schema, if any. decrypt() does this in-process; a
+ * CryptoPool (see pool.ts) does it in a worker thread.
+ */
+export type PayloadOpener = (
+  dek: Buffer,
+  record: TxSecureRecord,
+  schema: JsonSchema | undefined
+) => unknown | Promise<unknown>;
 
-    // Set the authentication tag BEFORE calling update/final.
-    // GCM uses this tag to verify the integrity of the wrapped DEK.
-    dekDecipher.setAuthTag(dekWrapTag);
+/**
+ * decryptWithProvider() with Step 2 (payload decryption) delegated to
+ * `open`. Record checks and DEK unwrapping always happen in the caller.
+ */
+export async function decryptWithOpener(
+  provider: KeyProvider,
+  record: TxSecureRecord,
+  schema: JsonSchema | undefined,
+  open: PayloadOpener
+): Promise<unknown> {
+  assertSupportedFormat(record);
+  assertNotSealed(record);
+  assertNotExpired(record);
 
-    dek = Buffer.concat([
-      dekDecipher.update(dekWrapped),
-      dekDecipher.final(), // This is where tag verification happens
-    ]);
+  let dek: Buffer;
+  try {
+    dek = await provider.unwrapKey(record, record);
   } catch (error: unknown) {
-    // GCM auth failure means the DEK wrap was tampered with,
-    // or the wrong master key was used.
+    if (error instanceof CryptoError) throw error;
     const message = error instanceof Error ? error.message : "Unknown error";
-    if (message.includes("Unsupported state or unable to authenticate data")) {
-      throw new TamperedDataError(
-        "DEK unwrap failed — the wrapped DEK or its tag may have been tampered with, or the wrong master key was used"
-      );
-    }
     throw new DecryptionError(`DEK unwrap failed: ${message}`);
   }
 
   try {
-    // ── Step 2: Decrypt the payload using the unwrapped DEK ───────────
-    // Now that we have the plaintext DEK, we use it to decrypt the actual
-    // payload. Again, GCM verifies the payload_tag to detect tampering.
-    const payloadDecipher = crypto.createDecipheriv("aes-256-gcm", dek, payloadNonce);
-    payloadDecipher.setAuthTag(payloadTag);
+    return await open(dek, record, schema);
+  } finally {
+    dek.fill(0);
+  }
+}
 
-    const payloadPlaintext = Buffer.concat([
-      payloadDecipher.update(payloadCt),
-      payloadDecipher.final(), // Tag verification happens here
-    ]);
+/** Decrypts the payload layer and checks it against the caller's schema, if any */
+export function openCheckedPayload(
+  dek: Buffer,
+  record: TxSecureRecord,
+  schema: JsonSchema | undefined
+): unknown {
+  return checkPayloadSchema(openRecordPayload(dek, record), schema);
+}
 
-    // Parse the decrypted UTF-8 string back into a JSON object
-    return JSON.parse(payloadPlaintext.toString("utf-8")) as Record<string, unknown>;
-  } catch (error: unknown) {
-    const message = error instanceof Error ? error.message : "Unknown error";
-    if (message.includes("Unsupported state or unable to authenticate data")) {
-      throw new TamperedDataError(
-        "Payload decryption failed — the ciphertext or its tag may have been tampered with"
-      );
+/** Decrypts the payload layer (whole payload or fields) with an unwrapped DEK */
+export function openRecordPayload(dek: Buffer, record: TxSecureRecord): Record<string, unknown> {
+  if (record.payload_fields !== undefined || record.payload_clear !== undefined) {
+    if (record.payload_fields === undefined || record.payload_clear === undefined) {
+      throw new ValidationError("payload_clear and payload_fields must be present together");
     }
-    throw new DecryptionError(`Payload decryption failed: ${message}`);
-  } finally {
-    // ── Step 3: Zero out the DEK from memory ──────────────────────────
-    // Same defense-in-depth practice as in encrypt(): overwrite the DEK
-    // so it can't be recovered from a memory dump or core dump.
-    dek!.fill(0);
+    return openFields(dek, {
+      ...record,
+      payload_clear: record.payload_clear,
+      payload_fields: record.payload_fields,
+    });
+  }
+  return openPayload(dek, record);
+}
+
+export function assertSupportedFormat(record: TxSecureRecord): void {
+  assertSupportedFormatVersion(record);
+  if (record.alg === "AES-256-GCM-STREAM") {
+    throw new ValidationError(
+      'Record holds a streamed payload ("AES-256-GCM-STREAM") — use decryptStream()'
+    );
+  }
+}
+
+/** Refuses a record written in a format version this library doesn't know */
+export function assertSupportedFormatVersion(record: Pick<TxSecureRecord, "format_version">): void {
+  const format = recordFormat(record);
+  if (!SUPPORTED_RECORD_FORMATS.includes(format)) {
+    throw new ValidationError(`Unsupported record format_version ${format}`);
+  }
+}
+
+/** Refuses a record whose `expiresAt` is not in the future */
+export function assertNotExpired(record: Pick<TxSecureRecord, "expiresAt">): void {
+  if (record.expiresAt === undefined) return;
+  const expiresAt = Date.parse(record.expiresAt);
+  if (Number.isNaN(expiresAt)) {
+    throw new ValidationError(`expiresAt is not a valid timestamp: "${record.expiresAt}"`);
+  }
+  if (expiresAt <= Date.now()) {
+    throw new ExpiredRecordError(record.expiresAt);
+  }
+}
+
+/** Checks a decrypted payload against the caller's schema, if any */
+export function checkPayloadSchema(
+  payload: Record<string, unknown>,
+  schema: JsonSchema | undefined
+): unknown {
+  return schema === undefined ? payload : validatePayload(schema, payload);
+}
+
+/** Sealed records are opened by their recipient, never with a master key */
+function assertNotSealed(record: TxSecureRecord): void {
+  if (record.recipient_key_id !== undefined) {
+    throw new DecryptionError(
+      `Record is sealed to recipient key "${record.recipient_key_id}" — only its holder can decrypt it, with openSealedRecord()`
+    );
   }
 }
 
@@ -1,6 +1,16 @@
 import * as crypto from "crypto";
-import { TxSecureRecord } from "./types";
+import { EncryptOptions, TxSecureRecord } from "./types";
 import { EncryptionError } from "./errors";
+import { MasterKeyInput, resolveMasterKey } from "./keyring";
+import { CURRENT_RECORD_FORMAT } from "./aad";
+import { sealPayload, SealedPayload } from "./payload";
+import { sealFields } from "./fields";
+import { KeyProvider, WrappedKey } from "./provider";
+import { wrapDek } from "./wrap";
+import { DEFAULT_ALGORITHM, EnvelopeAlgorithm, algorithmSpec } from "./algorithms";
+import { SigningKey, signRecord } from "./signature";
+import { SealedDek, sealDek } from "./sealed";
+import { JsonSchema, validatePayload } from "./schema";
 
 /**
  * Envelope Encryption — How it works:
@@ -28,91 +38,88 @@ import { EncryptionError } from "./errors";
  * - Integrity: a 16-byte authentication tag detects any tampering
  * - No need for a separate HMAC step
  *
+ * Hosts without AES hardware support can choose ChaCha20-Poly1305 instead
+ * (options.alg), which gives the same guarantees with the same record
+ * layout. The record's `alg` then selects the cipher for both layers.
+ *
  * WHY random nonces?
  * ──────────────────
  * GCM requires a unique nonce (IV) for every encryption with the same key.
  * Reusing a nonce with the same key completely breaks GCM security.
  * We generate a fresh 12-byte random nonce for every operation.
+ *
+ * WHY additional authenticated data?
+ * ───────────────────────────────────
+ * The record metadata (id, partyId, createdAt, alg, mk_version) is stored
+ * in the clear next to the ciphertext. Binding it as GCM AAD means any edit
+ * to it — or moving ciphertext between records — fails the tag check.
+ * The same goes for `expiresAt` (options.ttlSeconds): it is bound to the
+ * payload layer, so a record's retention window cannot be stretched.
  */
 
 /**
  * Encrypts a JSON payload using envelope encryption.
  *
- * @param masterKey - Hex-encoded 32-byte master key (64 hex chars)
+ * @param masterKey - Hex-encoded 32-byte master key (64 hex chars), or a Keyring
+ *                    whose active key is used
  * @param partyId   - Identifier for the party owning this transaction
  * @param payload   - The JSON-serializable object to encrypt
- * @param mkVersion - Master key version (default: 1, for key rotation support)
+ * @param options   - Optional settings: an explicit master key version, the
+ *                    AEAD algorithm (default "AES-256-GCM"), JSON paths
+ *                    to encrypt individually (see fields.ts), a key to
+ *                    sign the record with (see signature.ts), a schema
+ *                    the payload must match (see schema.ts) and a TTL.
+ *                    A number is the master key version alone, as in
+ *                    the original `encrypt(masterKey, partyId, payload, mkVersion)`.
  * @returns A complete TxSecureRecord with all encrypted components
+ * @throws EncryptionError if an option is invalid (e.g. a non-positive TTL)
+ * @throws PayloadSchemaError if the payload does not match `options.schema`
  */
-export function encrypt(
-  masterKey: string,
+export function encrypt<T extends object = Record<string, unknown>>(
+  masterKey: MasterKeyInput,
   partyId: string,
-  payload: Record<string, unknown>,
-  mkVersion: number = 1
+  payload: T,
+  optionsOrVersion: EncryptOptions<T> | number = {}
 ): TxSecureRecord {
-  // ── Step 0: Validate the master key ──────────────────────────────────
+  const options: EncryptOptions<T> =
+    typeof optionsOrVersion === "number" ? { mkVersion: optionsOrVersion } : optionsOrVersion;
+
+  // ── Step 0: Resolve and validate the master key ──────────────────────
+  // A keyring encrypts with its active version unless one is requested.
   // The master key must be exactly 32 bytes (64 hex characters).
-  const mkBuffer = Buffer.from(masterKey, "hex");
-  if (mkBuffer.length !== 32) {
-    throw new EncryptionError(
-      `Master key must be 32 bytes (64 hex chars), got ${mkBuffer.length} bytes`
-    );
-  }
+  const mkVersion =
+    options.mkVersion ?? (typeof masterKey === "string" ? 1 : masterKey.activeVersion);
+  const mkBuffer = resolveMasterKey(masterKey, mkVersion, EncryptionError);
+  const alg = resolveAlgorithm(options.alg);
+  resolveTtl(options.ttlSeconds);
 
   // ── Step 1: Generate a random Data Encryption Key (DEK) ─────────────
   // Each transaction gets its own unique DEK. This is the "envelope" —
   // even if this DEK leaks, only this one record is compromised.
   const dek = crypto.randomBytes(32);
 
+  // The metadata is fixed up front because it is authenticated (as AAD)
+  // by both encryption layers below.
+  const metadata = newRecordMetadata(partyId, alg, options.ttlSeconds);
+
   try {
     // ── Step 2: Encrypt the payload with the DEK ────────────────────────
-    // Convert the JSON payload to a UTF-8 string, then encrypt it with
-    // AES-256-GCM using the DEK and a fresh random 12-byte nonce.
-    const payloadPlaintext = Buffer.from(JSON.stringify(payload), "utf-8");
-    const payloadNonce = crypto.randomBytes(12); // 12 bytes = 96 bits, standard for GCM
-
-    const payloadCipher = crypto.createCipheriv("aes-256-gcm", dek, payloadNonce);
-    const payloadCt = Buffer.concat([
-      payloadCipher.update(payloadPlaintext),
-      payloadCipher.final(),
-    ]);
-    const payloadTag = payloadCipher.getAuthTag(); // 16-byte authentication tag
+    // The record's AEAD with the DEK and a fresh random 12-byte nonce —
+    // either the whole payload, or each selected field separately.
+    const sealed = sealRecordPayload(dek, payload, options, metadata);
 
     // ── Step 3: Wrap (encrypt) the DEK with the Master Key ──────────────
     // The DEK itself is encrypted with the Master Key so it can be safely
     // stored alongside the ciphertext. Only someone with the MK can unwrap it.
-    const dekWrapNonce = crypto.randomBytes(12);
-
-    const dekCipher = crypto.createCipheriv("aes-256-gcm", mkBuffer, dekWrapNonce);
-    const dekWrapped = Buffer.concat([
-      dekCipher.update(dek),
-      dekCipher.final(),
-    ]);
-    const dekWrapTag = dekCipher.getAuthTag();
-
-    // ── Step 4: Assemble the secure record ──────────────────────────────
-    // All binary values are converted to hex strings for safe JSON storage.
-    const record: TxSecureRecord = {
-      id: crypto.randomUUID(),
-      partyId,
-      createdAt: new Date().toISOString(),
-
-      // Payload encryption components
-      payload_nonce: payloadNonce.toString("hex"),
-      payload_ct: payloadCt.toString("hex"),
-      payload_tag: payloadTag.toString("hex"),
-
-      // DEK wrapping components
-      dek_wrap_nonce: dekWrapNonce.toString("hex"),
-      dek_wrapped: dekWrapped.toString("hex"),
-      dek_wrap_tag: dekWrapTag.toString("hex"),
-
-      // Metadata
-      alg: "AES-256-GCM",
-      mk_version: mkVersion,
-    };
-
-    return record;
+    const wrapped = wrapDek(mkBuffer, dek, { ...metadata, mk_version: mkVersion });
+
+    // ── Step 4: Assemble (and optionally sign) the secure record ────────
+    return assembleRecord(
+      metadata,
+      sealed,
+      { ...wrapped, mk_version: mkVersion },
+      options.signingKey
+    );
   } finally {
     // ── Step 5: Zero out the DEK from memory ────────────────────────────
     // Defense in depth: overwrite the DEK buffer with zeros so it cannot
@@ -122,3 +129,241 @@ export function encrypt(
     dek.fill(0);
   }
 }
+
+/**
+ * Encrypts a JSON payload using envelope encryption, delegating DEK
+ * wrapping to a KeyProvider (e.g. a remote KMS).
+ *
+ * Identical to encrypt() except that Step 3 happens inside the provider,
+ * which also chooses the master key version recorded in `mk_version`.
+ *
+ * @param provider - KeyProvider that wraps the DEK
+ * @param partyId  - Identifier for the party owning this transaction
+ * @param payload  - The JSON-serializable object to encrypt
+ * @param options  - Optional settings: the AEAD algorithm, fields to
+ *                   encrypt individually, a signing key, a payload schema
+ *                   and a TTL (the master key version is the provider's choice)
+ * @returns A complete TxSecureRecord with all encrypted components
+ * @throws PayloadSchemaError if the payload does not match `options.schema`
+ */
+export async function encryptWithProvider<T extends object = Record<string, unknown>>(
+  provider: KeyProvider,
+  partyId: string,
+  payload: T,
+  options: Omit<EncryptOptions<T>, "mkVersion"> = {}
+): Promise<TxSecureRecord> {
+  return encryptWithSealer(provider, partyId, payload, options, sealRecordPayload);
+}
+
+/**
+ * Seals the payload layer of a new record with its DEK. encrypt() does
+ * this in-process; a CryptoPool (see pool.ts) does it in a worker thread.
+ */
+export type PayloadSealer = (
+  dek: Buffer,
+  payload: object,
+  options: SealOptions,
+  metadata: RecordMetadata
+) => SealedRecordPayload | Promise<SealedRecordPayload>;
+
+/**
+ * encryptWithProvider() with Step 2 (payload encryption) delegated to
+ * `seal`. DEK generation and wrapping always happen in the caller.
+ */
+export async function encryptWithSealer<T extends object>(
+  provider: KeyProvider,
+  partyId: string,
+  payload: T,
+  options: Omit<EncryptOptions<T>, "mkVersion">,
+  seal: PayloadSealer
+): Promise<TxSecureRecord> {
+  const alg = resolveAlgorithm(options.alg);
+  resolveTtl(options.ttlSeconds);
+  const dek = crypto.randomBytes(32);
+  const metadata = newRecordMetadata(partyId, alg, options.ttlSeconds);
+
+  try {
+    const sealOptions = { encryptFields: options.encryptFields, schema: options.schema };
+    const sealed = await seal(dek, payload, sealOptions, metadata);
+
+    let wrapped: WrappedKey;
+    try {
+      wrapped = await provider.wrapKey(dek, metadata);
+    } catch (error: unknown) {
+      if (error instanceof EncryptionError) throw error;
+      const message = error instanceof Error ? error.message : "Unknown error";
+      throw new EncryptionError(`DEK wrap failed: ${message}`);
+    }
+
+    return assembleRecord(metadata, sealed, wrapped, options.signingKey);
+  } finally {
+    dek.fill(0);
+  }
+}
+
+/**
+ * Encrypts a JSON payload so that only the holder of a recipient's X25519
+ * private key can decrypt it (see sealed.ts). The DEK is wrapped to the
+ * recipient's public key instead of a master key, so the record can be
+ * created without any master key and opened with openSealedRecord().
+ *
+ * @param recipientPublicKey - The recipient's X25519 public key (SPKI PEM or KeyObject)
+ * @param partyId            - Identifier for the party owning this transaction
+ * @param payload            - The JSON-serializable object to encrypt
+ * @param options            - Optional settings: the AEAD algorithm, fields
+ *                             to encrypt individually, a signing key, a
+ *                             payload schema and a TTL
+ * @returns A sealed TxSecureRecord (`mk_version` 0, with `recipient_key_id`
+ *          and `recipient_epk`)
+ * @throws EncryptionError if the recipient key is not an X25519 public key
+ * @throws PayloadSchemaError if the payload does not match `options.schema`
+ */
+export function encryptForRecipient<T extends object = Record<string, unknown>>(
+  recipientPublicKey: crypto.KeyObject | string,
+  partyId: string,
+  payload: T,
+  options: Omit<EncryptOptions<T>, "mkVersion"> = {}
+): TxSecureRecord {
+  const alg = resolveAlgorithm(options.alg);
+  resolveTtl(options.ttlSeconds);
+  const dek = crypto.randomBytes(32);
+  const metadata = newRecordMetadata(partyId, alg, options.ttlSeconds);
+
+  try {
+    const sealed = sealRecordPayload(dek, payload, options, metadata);
+    const wrapped = sealDek(recipientPublicKey, dek, metadata);
+    return assembleRecord(metadata, sealed, wrapped, options.signingKey);
+  } finally {
+    dek.fill(0);
+  }
+}
+
+/** The metadata of a new record, fixed before either layer is encrypted */
+export type RecordMetadata = Pick<
+  TxSecureRecord,
+  "id" | "partyId" | "createdAt" | "alg" | "format_version" | "expiresAt"
+>;
+
+/** Payload-layer output, plus the field-level fields when paths were given */
+export type SealedRecordPayload = SealedPayload & Pick<TxSecureRecord, "payload_clear" | "payload_fields">;
+
+/** The EncryptOptions the payload layer needs (no keys, so safe to pass to a worker) */
+export type SealOptions = Pick<EncryptOptions, "encryptFields"> & { schema?: JsonSchema };
+
+export function sealRecordPayload(
+  dek: Buffer,
+  payload: object,
+  options: SealOptions,
+  metadata: RecordMetadata
+): SealedRecordPayload {
+  // The whole payload is checked, before any field is split off
+  if (options.schema !== undefined) {
+    validatePayload(options.schema, payload);
+  }
+
+  const json = payload as Record<string, unknown>;
+  if (options.encryptFields === undefined) {
+    return sealPayload(dek, json, metadata);
+  }
+  return sealFields(dek, json, options.encryptFields, metadata);
+}
+
+/**
+ * Checks a requested algorithm. Streamed records have their own entry point
+ * (encryptStream()), so only single-shot AEADs are accepted here.
+ */
+function resolveAlgorithm(alg: string | undefined): EnvelopeAlgorithm {
+  if (alg === undefined) return DEFAULT_ALGORITHM;
+  try {
+    algorithmSpec(alg);
+  } catch (error: unknown) {
+    throw new EncryptionError((error as Error).message);
+  }
+  if (alg === "AES-256-GCM-STREAM") {
+    throw new EncryptionError(`Algorithm "${alg}" is produced by encryptStream(), not encrypt()`);
+  }
+  return alg as EnvelopeAlgorithm;
+}
+
+/** Longest accepted TTL (100 years), which keeps `expiresAt` a valid date */
+const MAX_TTL_SECONDS = 100 * 365 * 24 * 60 * 60;
+
+/** A TTL must be a whole, positive number of seconds */
+function resolveTtl(ttlSeconds: number | undefined): void {
+  if (ttlSeconds === undefined) return;
+  if (!Number.isSafeInteger(ttlSeconds) || ttlSeconds < 1 || ttlSeconds > MAX_TTL_SECONDS) {
+    throw new EncryptionError(
+      `ttlSeconds must be an integer from 1 to ${MAX_TTL_SECONDS}, got ${ttlSeconds}`
+    );
+  }
+}
+
+function newRecordMetadata(
+  partyId: string,
+  alg: EnvelopeAlgorithm,
+  ttlSeconds: number | undefined
+): RecordMetadata {
+  const now = Date.now();
+  const metadata: RecordMetadata = {
+    id: crypto.randomUUID(),
+    partyId,
+    createdAt: new Date(now).toISOString(),
+    alg,
+    format_version: CURRENT_RECORD_FORMAT,
+  };
+  if (ttlSeconds !== undefined) {
+    metadata.expiresAt = new Date(now + ttlSeconds * 1000).toISOString();
+  }
+  return metadata;
+}
+
+/** All binary values are already hex strings for safe JSON storage. */
+function assembleRecord(
+  metadata: RecordMetadata,
+  sealed: SealedRecordPayload,
+  wrapped: WrappedKey | SealedDek,
+  signingKey: SigningKey | undefined
+): TxSecureRecord {
+  const record: TxSecureRecord = {
+    id: metadata.id,
+    partyId: metadata.partyId,
+    createdAt: metadata.createdAt,
+    ...(metadata.expiresAt !== undefined && { expiresAt: metadata.expiresAt }),
+
+    // Payload encryption components
+    payload_nonce: sealed.payload_nonce,
+    payload_ct: sealed.payload_ct,
+    payload_tag: sealed.payload_tag,
+
+    // DEK wrapping components
+    dek_wrap_nonce: wrapped.dek_wrap_nonce,
+    dek_wrapped: wrapped.dek_wrapped,
+    dek_wrap_tag: wrapped.dek_wrap_tag,
+    ...(wrapped.key_check !== undefined && { key_check: wrapped.key_check }),
+
+    // Metadata
+    alg: metadata.alg,
+    mk_version: wrapped.mk_version,
+    format_version: metadata.format_version,
+  };
+
+  // Per-party key hierarchy: the KEK that wrapped the DEK
+  if ("kek_id" in wrapped && wrapped.kek_id !== undefined) {
+    record.kek_id = wrapped.kek_id;
+  }
+
+  // Sealed records: the recipient key and the ephemeral key agreement half
+  if ("recipient_key_id" in wrapped) {
+    record.recipient_key_id = wrapped.recipient_key_id;
+    record.recipient_epk = wrapped.recipient_epk;
+  }
+
+  // Field-level encryption components
+  if (sealed.payload_fields) {
+    record.payload_clear = sealed.payload_clear;
+    record.payload_fields = sealed.payload_fields;
+  }
+
+  // Signed last, so the signature covers every field above
+  return signingKey ? signRecord(record, signingKey) : record;
+}
@@ -30,14 +30,29 @@ export class DecryptionError extends CryptoError {
   }
 }
 
+/** One problem found in a record: the field it concerns and what is wrong */
+export type ValidationIssue = {
+  /** Field name, or a path like `payload_fields[0].nonce`; "" for the record itself */
+  field: string;
+
+  /** Human-readable description, naming the field */
+  message: string;
+};
+
 /**
  * Thrown when record validation fails.
  * Examples: wrong nonce length, invalid hex characters, empty ciphertext.
+ *
+ * `issues` lists every problem found when the record was checked as a
+ * whole (empty for errors raised before that, e.g. unreadable JSON).
  */
 export class ValidationError extends CryptoError {
-  constructor(message: string) {
+  readonly issues: ValidationIssue[];
+
+  constructor(message: string, issues: ValidationIssue[] = []) {
     super(message);
     this.name = "ValidationError";
+    this.issues = issues;
   }
 }
 
@@ -52,3 +67,81 @@ export class TamperedDataError extends CryptoError {
     this.name = "TamperedDataError";
   }
 }
+
+/**
+ * Thrown when a record's key has been deliberately destroyed
+ * (crypto-shredding, e.g. for an erasure request). The record can never
+ * be decrypted again; this is not a tampering or configuration problem.
+ */
+export class KeyDestroyedError extends CryptoError {
+  constructor(message: string = "The key for this record has been destroyed") {
+    super(message);
+    this.name = "KeyDestroyedError";
+  }
+}
+
+/**
+ * Thrown when a record's DEK was wrapped under a different key than the
+ * one supplied — told apart from tampering by the record's `key_check`.
+ * Usually a configuration problem (wrong master key or keyring version),
+ * not an attack.
+ */
+export class WrongKeyError extends CryptoError {
+  constructor(message: string = "The record was wrapped under a different key") {
+    super(message);
+    this.name = "WrongKeyError";
+  }
+}
+
+/**
+ * Thrown when a record is decrypted after its `expiresAt`. The ciphertext
+ * may be intact, but the record's retention window is over.
+ */
+export class ExpiredRecordError extends CryptoError {
+  readonly expiresAt: string;
+
+  constructor(expiresAt: string) {
+    super(`Record expired at ${expiresAt}`);
+    this.name = "ExpiredRecordError";
+    this.expiresAt = expiresAt;
+  }
+}
+
+/**
+ * Thrown when a CryptoPool already has its maximum number of tasks waiting
+ * for a worker. Nothing was encrypted or decrypted; retry later.
+ */
+export class PoolQueueFullError extends CryptoError {
+  constructor(message: string = "Crypto worker pool queue is full") {
+    super(message);
+    this.name = "PoolQueueFullError";
+  }
+}
+
+/**
+ * Thrown when a key file is opened with the wrong passphrase. Told apart
+ * from a corrupted file (TamperedDataError) by the file's check value.
+ */
+export class WrongPassphraseError extends CryptoError {
+  constructor(message: string = "Wrong passphrase for key file") {
+    super(message);
+    this.name = "WrongPassphraseError";
+  }
+}
+
+/**
+ * Thrown when a payload does not match its PayloadSchema — on encryption
+ * before anything is encrypted, on decryption after the payload has been
+ * authenticated. `issues` lists every mismatch, e.g.
+ * `$.amount: expected number, got string`.
+ */
+export class PayloadSchemaError extends CryptoError {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : "";
+    super(`Payload does not match schema: ${issues[0]}${more}`);
+    this.name = "PayloadSchemaError";
+    this.issues = issues;
+  }
+}
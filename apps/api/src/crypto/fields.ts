@@ -0,0 +1,198 @@
+import * as crypto from "crypto";
+import { EncryptedField, TxSecureRecord } from "./types";
+import { DecryptionError, EncryptionError, TamperedDataError } from "./errors";
+import { PayloadAadFields, fieldAad } from "./aad";
+import { createAeadCipher, createAeadDecipher } from "./algorithms";
+import { SealedPayload, openPayload, sealPayload } from "./payload";
+
+/**
+ * Field-level encryption — encrypt selected JSON paths, leave the rest readable.
+ *
+ *   payload = { amount: 100, currency: "AED", account: { number: "123" } }
+ *   paths   = ["amount", "account.number"]
+ *
+ *   payload_clear  = { currency: "AED", account: {} }
+ *   payload_fields = [{ path: "amount", … }, { path: "account.number", … }]
+ *   payload_ct     = AEAD(DEK, { fields: ["account.number", "amount"] })
+ *
+ * Every field is a separate AEAD ciphertext under the record's DEK with its
+ * own nonce; its AAD binds the path (see fieldAad()). The payload layer
+ * encrypts the list of encrypted paths and authenticates `payload_clear`
+ * as AAD, so editing the readable fields, dropping an encrypted field or
+ * adding one all fail decryption.
+ *
+ * Paths are dot-separated object keys. Arrays are treated as leaf values
+ * (an array is encrypted as a whole).
+ */
+
+/** The record fields produced by field-level encryption */
+export type SealedFields = SealedPayload & Required<Pick<TxSecureRecord, "payload_clear" | "payload_fields">>;
+
+/** Keys that would let a path write into Object.prototype */
+const FORBIDDEN_SEGMENTS = new Set(["__proto__", "prototype", "constructor"]);
+
+/** Payload-layer plaintext for field-encrypted records */
+type FieldManifest = { fields: string[] };
+
+/**
+ * Encrypts the given paths of a payload individually, and the list of
+ * paths as the payload layer.
+ *
+ * @throws EncryptionError if a path is malformed, missing from the payload,
+ *         or overlaps another path
+ */
+export function sealFields(
+  dek: Buffer,
+  payload: Record<string, unknown>,
+  paths: string[],
+  metadata: PayloadAadFields
+): SealedFields {
+  const sorted = [...new Set(paths)].sort();
+  if (sorted.length === 0) {
+    throw new EncryptionError("encryptFields must list at least one path");
+  }
+
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].startsWith(`${sorted[i - 1]}.`)) {
+      throw new EncryptionError(`encryptFields paths overlap: "${sorted[i - 1]}" and "${sorted[i]}"`);
+    }
+  }
+
+  // Deep copy so removing fields never touches the caller's object
+  const clear = JSON.parse(JSON.stringify(payload)) as Record<string, unknown>;
+
+  const fields = sorted.map((path): EncryptedField => {
+    const segments = parsePath(path, EncryptionError);
+    const parent = walk(clear, segments.slice(0, -1));
+    const key = segments[segments.length - 1];
+    if (!parent || !Object.prototype.hasOwnProperty.call(parent, key)) {
+      throw new EncryptionError(`encryptFields path "${path}" is not present in the payload`);
+    }
+
+    const value = parent[key];
+    delete parent[key];
+
+    const nonce = crypto.randomBytes(12);
+    const cipher = createAeadCipher(metadata.alg, dek, nonce);
+    const plaintext = Buffer.from(JSON.stringify(value), "utf-8");
+    cipher.setAAD(fieldAad(metadata, path), { plaintextLength: plaintext.length });
+    const ct = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+    return {
+      path,
+      nonce: nonce.toString("hex"),
+      ct: ct.toString("hex"),
+      tag: cipher.getAuthTag().toString("hex"),
+    };
+  });
+
+  const manifest: FieldManifest = { fields: sorted };
+  const sealed = sealPayload(dek, manifest, { ...metadata, payload_clear: clear });
+
+  return { ...sealed, payload_clear: clear, payload_fields: fields };
+}
+
+/**
+ * Decrypts a field-encrypted record and rebuilds the full payload.
+ *
+ * @throws TamperedDataError if any field, the readable part or the set of
+ *         encrypted paths was modified
+ * @throws DecryptionError for other failures
+ */
+export function openFields(
+  dek: Buffer,
+  record: PayloadAadFields & SealedFields
+): Record<string, unknown> {
+  // ── The payload layer authenticates payload_clear and lists the paths ──
+  const manifest = openPayload(dek, record) as FieldManifest;
+  const expected = Array.isArray(manifest.fields) ? manifest.fields : [];
+  const actual = record.payload_fields.map((field) => field.path).sort();
+
+  if (expected.length !== actual.length || expected.some((path, i) => path !== actual[i])) {
+    throw new TamperedDataError(
+      "Field decryption failed — encrypted fields were added, removed or renamed"
+    );
+  }
+
+  // ── Decrypt each field into a copy of the readable part ───────────
+  const payload = JSON.parse(JSON.stringify(record.payload_clear)) as Record<string, unknown>;
+
+  for (const field of record.payload_fields) {
+    const segments = parsePath(field.path, DecryptionError);
+    const parent = walk(payload, segments.slice(0, -1));
+    if (!parent) {
+      throw new DecryptionError(`Field "${field.path}" has no parent object in payload_clear`);
+    }
+    parent[segments[segments.length - 1]] = openField(dek, record, field);
+  }
+
+  return payload;
+}
+
+function openField(dek: Buffer, metadata: PayloadAadFields, field: EncryptedField): unknown {
+  try {
+    const ct = Buffer.from(field.ct, "hex");
+    const decipher = createAeadDecipher(metadata.alg, dek, Buffer.from(field.nonce, "hex"));
+    decipher.setAuthTag(Buffer.from(field.tag, "hex"));
+    decipher.setAAD(fieldAad(metadata, field.path), { plaintextLength: ct.length });
+
+    const plaintext = Buffer.concat([decipher.update(ct), decipher.final()]);
+    return JSON.parse(plaintext.toString("utf-8"));
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    if (message.includes("Unsupported state or unable to authenticate data")) {
+      throw new TamperedDataError(
+        `Field "${field.path}" decryption failed — its ciphertext, tag or path may have been tampered with`
+      );
+    }
+    throw new DecryptionError(`Field "${field.path}" decryption failed: ${message}`);
+  }
+}
+
+/**
+ * Reads the value at a dot-separated path.
+ *
+ * @returns The value, or undefined if the path is malformed or not present
+ */
+export function readPath(payload: Record<string, unknown>, path: string): unknown {
+  let segments: string[];
+  try {
+    segments = parsePath(path, EncryptionError);
+  } catch {
+    return undefined;
+  }
+
+  const parent = walk(payload, segments.slice(0, -1));
+  const key = segments[segments.length - 1];
+  if (!parent || !Object.prototype.hasOwnProperty.call(parent, key)) return undefined;
+  return parent[key];
+}
+
+/** Splits a dot-separated path, rejecting empty and prototype-polluting segments */
+function parsePath(
+  path: string,
+  ErrorType: typeof EncryptionError | typeof DecryptionError
+): string[] {
+  const segments = path.split(".");
+  for (const segment of segments) {
+    if (segment === "" || FORBIDDEN_SEGMENTS.has(segment)) {
+      throw new ErrorType(`Invalid field path "${path}"`);
+    }
+  }
+  return segments;
+}
+
+/** Follows `segments` through nested plain objects; undefined if one is missing */
+function walk(
+  root: Record<string, unknown>,
+  segments: string[]
+): Record<string, unknown> | undefined {
+  let node: unknown = root;
+  for (const segment of segments) {
+    if (typeof node !== "object" || node === null || Array.isArray(node)) return undefined;
+    if (!Object.prototype.hasOwnProperty.call(node, segment)) return undefined;
+    node = (node as Record<string, unknown>)[segment];
+  }
+  if (typeof node !== "object" || node === null || Array.isArray(node)) return undefined;
+  return node as Record<string, unknown>;
+}
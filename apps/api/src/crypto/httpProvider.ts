@@ -0,0 +1,119 @@
+import { DecryptionError, EncryptionError, TamperedDataError, WrongKeyError } from "./errors";
+import { KeyProvider, KeyWrapContext, WrappedKey, assertMasterWrapped } from "./provider";
+
+/**
+ * HTTP KeyProvider — delegates DEK wrapping to a KMS over HTTP.
+ *
+ * The master key stays inside the KMS process; this process only ever
+ * sees DEKs. Speaks the protocol served by the mock KMS (mockKms.ts):
+ *
+ *   POST {url}/wrap   { key, context }     → { mk_version, dek_wrap_nonce, dek_wrapped, dek_wrap_tag, key_check? }
+ *   POST {url}/unwrap { wrapped, context } → { key }
+ *
+ * Keys travel base64-encoded. Failures come back as { error, code }, where
+ * code "TAMPERED" is mapped to TamperedDataError and "WRONG_KEY" to
+ * WrongKeyError, so callers can tell tampering and a wrong key apart from
+ * an unreachable or misconfigured KMS.
+ */
+
+export type HttpKeyProviderOptions = {
+  /** Base URL of the KMS, e.g. "http://127.0.0.1:4100" */
+  url: string;
+
+  /** Bearer token the KMS expects, if it was started with one */
+  token?: string;
+
+  /** Per-request timeout in milliseconds (default: 5000) */
+  timeoutMs?: number;
+};
+
+/** Error body returned by the KMS */
+export type KmsErrorBody = {
+  error: string;
+  code: "TAMPERED" | "WRONG_KEY" | "ENCRYPTION" | "DECRYPTION" | "BAD_REQUEST" | "UNAUTHORIZED";
+};
+
+const DEFAULT_TIMEOUT_MS = 5000;
+
+/**
+ * Creates a KeyProvider backed by a KMS reachable over HTTP.
+ */
+export function createHttpKeyProvider(options: HttpKeyProviderOptions): KeyProvider {
+  const baseUrl = options.url.replace(/\/+$/, "");
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  async function call<T>(
+    path: string,
+    body: unknown,
+    ErrorType: typeof EncryptionError | typeof DecryptionError
+  ): Promise<T> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (options.token) headers.Authorization = `Bearer ${options.token}`;
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      throw new ErrorType(`KMS request to ${path} failed: ${message}`);
+    }
+
+    const json = (await response.json().catch(() => ({}))) as Partial<KmsErrorBody> & T;
+    if (!response.ok) {
+      const message = json.error ?? `HTTP ${response.status}`;
+      if (json.code === "TAMPERED") throw new TamperedDataError(message);
+      if (json.code === "WRONG_KEY") throw new WrongKeyError(message);
+      throw new ErrorType(`KMS ${path} failed: ${message}`);
+    }
+    return json;
+  }
+
+  return {
+    async wrapKey(key, context) {
+      return pickWrappedKey(
+        await call<WrappedKey>(
+          "/wrap",
+          { key: key.toString("base64"), context: pickContext(context) },
+          EncryptionError
+        )
+      );
+    },
+
+    async unwrapKey(wrapped, context) {
+      assertMasterWrapped(wrapped);
+      const { key } = await call<{ key: string }>(
+        "/unwrap",
+        { wrapped: pickWrappedKey(wrapped), context: pickContext(context) },
+        DecryptionError
+      );
+      return Buffer.from(key, "base64");
+    },
+  };
+}
+
+// Only send the fields the protocol defines — callers often pass whole records.
+
+function pickContext(context: KeyWrapContext): KeyWrapContext {
+  return {
+    id: context.id,
+    partyId: context.partyId,
+    createdAt: context.createdAt,
+    alg: context.alg,
+    format_version: context.format_version,
+  };
+}
+
+function pickWrappedKey(wrapped: WrappedKey): WrappedKey {
+  return {
+    mk_version: wrapped.mk_version,
+    dek_wrap_nonce: wrapped.dek_wrap_nonce,
+    dek_wrapped: wrapped.dek_wrapped,
+    dek_wrap_tag: wrapped.dek_wrap_tag,
+    ...(wrapped.key_check !== undefined && { key_check: wrapped.key_check }),
+  };
+}
@@ -5,7 +5,28 @@
  * in Vercel's serverless environment. The source of truth remains packages/crypto.
  */
 
-export type { TxSecureRecord } from "./types";
+export type { TxSecureRecord, RecordAlgorithm, EncryptOptions, EncryptedField } from "./types";
+export type { Keyring, MasterKeyInput } from "./keyring";
+export type { KeyProvider, KeyWrapContext, WrappedKey } from "./provider";
+export type { HttpKeyProviderOptions } from "./httpProvider";
+export type { StreamEncryptOptions } from "./stream";
+export type { EnvelopeAlgorithm } from "./algorithms";
+export type { BlindIndex } from "./blindIndex";
+export type { PartyKek, PartyKeyStore } from "./partyKeys";
+export type { SigningKey, SigningPublicKeys } from "./signature";
+export type { JsonSchema, JsonSchemaType, PayloadSchema } from "./schema";
+export type { ScryptParams } from "./keyfile";
+export type { SubkeyPurpose } from "./subkeys";
+export type { CryptoPool, CryptoPoolOptions } from "./pool";
+export type { JweJson } from "./jwe";
+export type { ValidationIssue } from "./errors";
+export type {
+  LedgerEntry,
+  LedgerOp,
+  LedgerCheckpoint,
+  LedgerBreak,
+  MerkleAccumulator,
+} from "./ledger";
 
 export {
   CryptoError,
@@ -13,8 +34,85 @@ export {
   DecryptionError,
   ValidationError,
   TamperedDataError,
+  KeyDestroyedError,
+  ExpiredRecordError,
+  PayloadSchemaError,
+  PoolQueueFullError,
+  WrongKeyError,
+  WrongPassphraseError,
 } from "./errors";
 
-export { encrypt } from "./encrypt";
-export { decrypt, constantTimeTagCompare } from "./decrypt";
+export { encrypt, encryptWithProvider, encryptForRecipient } from "./encrypt";
+export { decrypt, decryptWithProvider, constantTimeTagCompare } from "./decrypt";
+export { createCryptoPool, DEFAULT_POOL_MAX_QUEUE } from "./pool";
+export { rewrap } from "./rewrap";
+export {
+  encryptStream,
+  decryptStream,
+  STREAM_ALG,
+  DEFAULT_SEGMENT_SIZE,
+  MAX_SEGMENT_SIZE,
+} from "./stream";
 export { validateRecord } from "./validate";
+export {
+  serializeRecord,
+  parseRecord,
+  RECORD_ENVELOPE_MAGIC,
+  RECORD_ENVELOPE_VERSION,
+} from "./serialize";
+export { toJWE, fromJWE, JWE_KEY_ALG, JWE_CONTENT_ALG, JWE_RECORD_HEADER } from "./jwe";
+export { computeBlindIndex, computeBlindIndexes } from "./blindIndex";
+export { deriveSubkey, SUBKEY_LABELS } from "./subkeys";
+export { SUPPORTED_ALGORITHMS, DEFAULT_ALGORITHM, isRecordAlgorithm } from "./algorithms";
+export { createKeyring, parseKeyring, keyringVersions } from "./keyring";
+export { createLocalKeyProvider } from "./provider";
+export { createHttpKeyProvider } from "./httpProvider";
+export {
+  createPartyKeyProvider,
+  createMemoryPartyKeyStore,
+  rewrapPartyKek,
+} from "./partyKeys";
+export {
+  generateSigningKeyPair,
+  signingKeyId,
+  signRecord,
+  verifyRecordSignature,
+} from "./signature";
+export {
+  createLedgerEntry,
+  verifyLedgerChain,
+  ledgerRecordHash,
+  ledgerEntryHash,
+  createMerkleAccumulator,
+  merkleRoot,
+  merkleInclusionProof,
+  verifyMerkleInclusion,
+  signLedgerCheckpoint,
+  verifyLedgerCheckpoint,
+  LEDGER_GENESIS_HASH,
+} from "./ledger";
+export {
+  generateRecipientKeyPair,
+  recipientKeyId,
+  openSealedRecord,
+  SEALED_MK_VERSION,
+} from "./sealed";
+export { definePayloadSchema, validatePayload } from "./schema";
+export {
+  CURRENT_RECORD_FORMAT,
+  RECORD_FORMAT_LEGACY,
+  RECORD_FORMAT_AAD,
+  RECORD_FORMAT_SUBKEYS,
+  SUPPORTED_RECORD_FORMATS,
+  payloadAad,
+  dekWrapAad,
+  fieldAad,
+} from "./aad";
+export { canonicalJson } from "./canonical";
+export {
+  encryptKeyFile,
+  decryptKeyFile,
+  promptPassphrase,
+  KEY_FILE_TYPE,
+  KEY_FILE_VERSION,
+} from "./keyfile";
@@ -0,0 +1,308 @@
+import * as crypto from "crypto";
+import { TamperedDataError, ValidationError, WrongPassphraseError } from "./errors";
+import { canonicalJson } from "./canonical";
+import { constantTimeTagCompare } from "./decrypt";
+
+/**
+ * Passphrase-protected key files — a master key (or keyring) at rest.
+ *
+ * A raw MASTER_KEY_HEX ends up in shell history, .env files and process
+ * listings. A key file holds the key encrypted under a passphrase instead:
+ *
+ *   derived  = scrypt(passphrase, salt, N, r, p) → 64 bytes
+ *   key      = derived[0..32]
+ *   check    = SHA-256(derived[32..64])[0..16]
+ *   ct, tag  = AES-256-GCM(key, secret, AAD = canonicalJson(header))
+ *
+ * The file is JSON and stores everything needed to open it: the scrypt
+ * parameters and salt, the nonce, and `check`. A mismatching check means
+ * a wrong passphrase; a matching check with a failing tag means the file
+ * itself was modified. The header (format, version, KDF parameters and
+ * cipher) is bound as AAD.
+ *
+ * Opening a file costs about 128 MiB of memory and a fraction of a second
+ * at the default parameters, once at startup.
+ */
+
+/** `type` of every key file */
+export const KEY_FILE_TYPE = "tx-secure-key-file";
+
+/** Key file layout version written by encryptKeyFile() */
+export const KEY_FILE_VERSION = 1;
+
+/** scrypt cost parameters (see encryptKeyFile()) */
+export type ScryptParams = {
+  /** CPU/memory cost, a power of two (default 2^17) */
+  N?: number;
+
+  /** Block size (default 8) */
+  r?: number;
+
+  /** Parallelization (default 1) */
+  p?: number;
+};
+
+/** The fields of a key file that are authenticated as AAD */
+type KeyFileHeader = {
+  type: typeof KEY_FILE_TYPE;
+  version: number;
+  kdf: { alg: "scrypt"; N: number; r: number; p: number; salt: string };
+  alg: "AES-256-GCM";
+};
+
+/** Shape of a key file on disk */
+type KeyFile = KeyFileHeader & {
+  check: string;
+  nonce: string;
+  ct: string;
+  tag: string;
+};
+
+const DEFAULT_SCRYPT: Required<ScryptParams> = { N: 2 ** 17, r: 8, p: 1 };
+
+/**
+ * Parameter limits, checked before deriving anything: a modified file must
+ * not be able to make scrypt allocate gigabytes or run for minutes.
+ */
+const MIN_LOG2_N = 10;
+const MAX_LOG2_N = 20;
+const MAX_R = 32;
+const MAX_P = 16;
+const MAX_SCRYPT_MEMORY = 1024 * 1024 * 1024;
+
+const HEX_REGEX = /^[0-9a-f]*$/;
+
+/**
+ * Encrypts a secret (a hex master key or keyring JSON) under a passphrase.
+ *
+ * @param secret     - The text to protect
+ * @param passphrase - Passphrase the file is opened with
+ * @param params     - scrypt cost; the defaults suit a server starting up
+ * @returns The key file contents (JSON, with a trailing newline)
+ * @throws ValidationError if the passphrase is empty or the cost is out of range
+ */
+export function encryptKeyFile(
+  secret: string,
+  passphrase: string,
+  params: ScryptParams = {}
+): string {
+  if (passphrase.length === 0) {
+    throw new ValidationError("Key file passphrase must not be empty");
+  }
+
+  const kdf = {
+    alg: "scrypt" as const,
+    N: params.N ?? DEFAULT_SCRYPT.N,
+    r: params.r ?? DEFAULT_SCRYPT.r,
+    p: params.p ?? DEFAULT_SCRYPT.p,
+    salt: crypto.randomBytes(16).toString("hex"),
+  };
+  checkScryptParams(kdf);
+
+  const header: KeyFileHeader = {
+    type: KEY_FILE_TYPE,
+    version: KEY_FILE_VERSION,
+    kdf,
+    alg: "AES-256-GCM",
+  };
+  const { key, check } = deriveKeys(passphrase, kdf);
+
+  try {
+    const nonce = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv("aes-256-gcm", key, nonce);
+    cipher.setAAD(Buffer.from(canonicalJson(header), "utf-8"));
+    const ct = Buffer.concat([cipher.update(secret, "utf-8"), cipher.final()]);
+
+    const file: KeyFile = {
+      ...header,
+      check,
+      nonce: nonce.toString("hex"),
+      ct: ct.toString("hex"),
+      tag: cipher.getAuthTag().toString("hex"),
+    };
+    return `${JSON.stringify(file, null, 2)}\n`;
+  } finally {
+    key.fill(0);
+  }
+}
+
+/**
+ * Decrypts a key file written by encryptKeyFile().
+ *
+ * @param contents   - The key file contents
+ * @param passphrase - The passphrase it was written with
+ * @returns The protected secret
+ * @throws WrongPassphraseError if the passphrase is wrong
+ * @throws TamperedDataError if the encrypted contents were modified
+ * @throws ValidationError if the file is not a well-formed key file
+ */
+export function decryptKeyFile(contents: string, passphrase: string): string {
+  const file = parseKeyFile(contents);
+  const { key, check } = deriveKeys(passphrase, file.kdf);
+
+  try {
+    if (!constantTimeTagCompare(check, file.check)) {
+      throw new WrongPassphraseError();
+    }
+
+    const { check: _check, nonce, ct, tag, ...header } = file;
+    const decipher = crypto.createDecipheriv("aes-256-gcm", key, Buffer.from(nonce, "hex"));
+    decipher.setAAD(Buffer.from(canonicalJson(header), "utf-8"));
+    decipher.setAuthTag(Buffer.from(tag, "hex"));
+    try {
+      return Buffer.concat([decipher.update(Buffer.from(ct, "hex")), decipher.final()]).toString(
+        "utf-8"
+      );
+    } catch {
+      throw new TamperedDataError(
+        "Key file is corrupted — the passphrase is right but the contents fail the integrity check"
+      );
+    }
+  } finally {
+    key.fill(0);
+  }
+}
+
+/**
+ * Reads a passphrase from a terminal without echoing it. Backspace edits,
+ * Ctrl-C and Ctrl-D abort.
+ *
+ * @param prompt - Text shown before the input, on `output`
+ * @throws ValidationError if `input` is not a TTY or the prompt is aborted
+ */
+export function promptPassphrase(
+  prompt: string,
+  input: NodeJS.ReadStream = process.stdin,
+  output: NodeJS.WriteStream = process.stderr
+): Promise<string> {
+  if (!input.isTTY) {
+    return Promise.reject(
+      new ValidationError("Cannot prompt for a passphrase: input is not a terminal")
+    );
+  }
+
+  return new Promise((resolve, reject) => {
+    let passphrase = "";
+    const finish = (error?: Error) => {
+      input.off("data", onData);
+      input.setRawMode(false);
+      input.pause();
+      output.write("\n");
+      if (error) reject(error);
+      else resolve(passphrase);
+    };
+    const onData = (chunk: Buffer) => {
+      for (const char of chunk.toString("utf-8")) {
+        if (char === "\r" || char === "\n") return finish();
+        if (char === "\u0003" || char === "\u0004") {
+          return finish(new ValidationError("Passphrase prompt aborted"));
+        }
+        if (char === "\u007f" || char === "\b") {
+          passphrase = Array.from(passphrase).slice(0, -1).join("");
+        } else {
+          passphrase += char;
+        }
+      }
+    };
+
+    output.write(prompt);
+    input.setRawMode(true);
+    input.resume();
+    input.on("data", onData);
+  });
+}
+
+/** Splits the scrypt output into the file key and the passphrase check value */
+function deriveKeys(passphrase: string, kdf: KeyFile["kdf"]): { key: Buffer; check: string } {
+  // NFC, so the same passphrase typed on different systems derives the same key
+  const salt = Buffer.from(kdf.salt, "hex");
+  const derived = crypto.scryptSync(passphrase.normalize("NFC"), salt, 64, {
+    N: kdf.N,
+    r: kdf.r,
+    p: kdf.p,
+    maxmem: scryptMemory(kdf) + 1024 * 1024,
+  });
+
+  try {
+    const check = crypto.createHash("sha256").update(derived.subarray(32)).digest();
+    return {
+      key: Buffer.from(derived.subarray(0, 32)),
+      check: check.subarray(0, 16).toString("hex"),
+    };
+  } finally {
+    derived.fill(0);
+  }
+}
+
+/** Memory scrypt needs for these parameters */
+function scryptMemory(params: Required<ScryptParams>): number {
+  return 128 * params.N * params.r;
+}
+
+function checkScryptParams(params: Required<ScryptParams>): void {
+  const log2N = Math.log2(params.N);
+  if (!Number.isInteger(log2N) || log2N < MIN_LOG2_N || log2N > MAX_LOG2_N) {
+    throw new ValidationError(
+      `scrypt N must be a power of two from 2^${MIN_LOG2_N} to 2^${MAX_LOG2_N}, got ${params.N}`
+    );
+  }
+  if (!Number.isInteger(params.r) || params.r < 1 || params.r > MAX_R) {
+    throw new ValidationError(`scrypt r must be an integer from 1 to ${MAX_R}, got ${params.r}`);
+  }
+  if (!Number.isInteger(params.p) || params.p < 1 || params.p > MAX_P) {
+    throw new ValidationError(`scrypt p must be an integer from 1 to ${MAX_P}, got ${params.p}`);
+  }
+  if (scryptMemory(params) > MAX_SCRYPT_MEMORY) {
+    throw new ValidationError(`scrypt N and r need more than ${MAX_SCRYPT_MEMORY} bytes of memory`);
+  }
+}
+
+function parseKeyFile(contents: string): KeyFile {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(contents);
+  } catch (error: unknown) {
+    throw new ValidationError(`Key file is not valid JSON: ${(error as Error).message}`);
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new ValidationError("Key file must be a JSON object");
+  }
+
+  const file = parsed as KeyFile;
+  if (file.type !== KEY_FILE_TYPE) {
+    throw new ValidationError(`Not a key file (type must be "${KEY_FILE_TYPE}")`);
+  }
+  if (file.version !== KEY_FILE_VERSION) {
+    throw new ValidationError(
+      `Unsupported key file version ${file.version} — supported: ${KEY_FILE_VERSION}`
+    );
+  }
+  if (file.alg !== "AES-256-GCM") {
+    throw new ValidationError(`Unsupported key file cipher "${file.alg}"`);
+  }
+
+  const kdf = file.kdf;
+  if (typeof kdf !== "object" || kdf === null || kdf.alg !== "scrypt") {
+    throw new ValidationError('Key file kdf must be { alg: "scrypt", N, r, p, salt }');
+  }
+  checkScryptParams(kdf);
+
+  checkHex(kdf.salt, "kdf.salt", 16);
+  checkHex(file.check, "check", 16);
+  checkHex(file.nonce, "nonce", 12);
+  checkHex(file.tag, "tag", 16);
+  checkHex(file.ct, "ct");
+  return file;
+}
+
+function checkHex(value: unknown, field: string, bytes?: number): void {
+  if (typeof value !== "string" || !HEX_REGEX.test(value) || value.length % 2 !== 0) {
+    throw new ValidationError(`Key file ${field} must be a hex string`);
+  }
+  if (bytes !== undefined && value.length !== bytes * 2) {
+    throw new ValidationError(`Key file ${field} must be ${bytes} bytes, got ${value.length / 2}`);
+  }
+  if (bytes === undefined && value.length === 0) {
+    throw new ValidationError(`Key file ${field} must not be empty`);
+  }
+}
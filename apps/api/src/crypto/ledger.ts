@@ -0,0 +1,431 @@
+import * as crypto from "crypto";
+import { TxSecureRecord } from "./types";
+import { EncryptionError, ValidationError } from "./errors";
+import { canonicalJson } from "./canonical";
+import { SigningKey, SigningPublicKeys, resolvePublicKey, toKeyObject } from "./signature";
+
+/**
+ * Ledger — a hash chain and a Merkle tree over every write to the store.
+ *
+ * GCM tags protect each record on its own; nothing in a record notices
+ * when another record is deleted, or an older copy of it is put back. The
+ * ledger is an append-only log with one entry per insert, update (re-wrap)
+ * and delete, each hashed together with the one before it:
+ *
+ *   record_hash   = SHA-256("tx-secure/ledger-record/v1\n" ‖ canonicalJson(record))
+ *   entry_hash(n) = SHA-256("tx-secure/ledger-entry/v1\n" ‖
+ *                           canonicalJson({ seq, op, recordId, createdAt,
+ *                                           record_hash, prev_hash }))
+ *   prev_hash(n)  = entry_hash(n − 1), or LEDGER_GENESIS_HASH for seq 1
+ *
+ * Deleting, reordering or editing an entry breaks the chain at that point;
+ * verifyLedgerChain() reports the first break.
+ *
+ * Whoever can write the table can still cut the chain short or rebuild it
+ * from some point on. Signed checkpoints pin it down: the Merkle tree hash
+ * (RFC 6962) of the first `treeSize` entry hashes, signed with an Ed25519
+ * signing key (see signature.ts). Against a checkpoint, an inclusion proof
+ * of about log2(treeSize) hashes shows that an entry is in the log, and
+ * verifyMerkleInclusion() checks it without any other entry.
+ */
+
+/** What an entry records */
+export type LedgerOp = "insert" | "update" | "delete";
+
+export type LedgerEntry = {
+  /** Position in the log: 1, 2, 3, … without gaps */
+  seq: number;
+
+  op: LedgerOp;
+
+  /** The record written or deleted */
+  recordId: string;
+
+  /** When the entry was appended (ISO 8601) */
+  createdAt: string;
+
+  /** ledgerRecordHash() of the record as written; absent for "delete" */
+  record_hash?: string;
+
+  /** entry_hash of the previous entry, or LEDGER_GENESIS_HASH for seq 1 */
+  prev_hash: string;
+
+  /** ledgerEntryHash() of this entry */
+  entry_hash: string;
+};
+
+/** A signed Merkle tree head over the first `treeSize` entries */
+export type LedgerCheckpoint = {
+  /** Entries covered: seq 1 … treeSize */
+  treeSize: number;
+
+  /** merkleRoot() of their entry hashes */
+  root: string;
+
+  /** entry_hash of entry `treeSize`, the chain head when it was signed */
+  head_hash: string;
+
+  /** When the checkpoint was signed (ISO 8601) */
+  createdAt: string;
+
+  /** Id of the Ed25519 key that signed it (see signingKeyId()) */
+  signer_key_id: string;
+
+  /** Ed25519 signature over the other fields, hex-encoded */
+  signature: string;
+};
+
+/** The first inconsistency verifyLedgerChain() found */
+export type LedgerBreak = {
+  /** The entry at which the chain breaks */
+  seq: number;
+
+  /**
+   * gap           — entries are missing before this one
+   * out-of-order  — the entry's seq is at or below the previous one
+   * altered-entry — the entry's fields do not match its entry_hash
+   * broken-link   — prev_hash does not match the previous entry
+   */
+  reason: "gap" | "out-of-order" | "altered-entry" | "broken-link";
+
+  message: string;
+};
+
+/** prev_hash of the first entry */
+export const LEDGER_GENESIS_HASH = "0".repeat(64);
+
+const RECORD_HASH_CONTEXT = "tx-secure/ledger-record/v1\n";
+const ENTRY_HASH_CONTEXT = "tx-secure/ledger-entry/v1\n";
+const CHECKPOINT_CONTEXT = "tx-secure/ledger-checkpoint/v1\n";
+
+// RFC 6962 domain separation between leaves and inner nodes
+const LEAF_PREFIX = Buffer.from([0x00]);
+const NODE_PREFIX = Buffer.from([0x01]);
+
+const HASH_REGEX = /^[0-9a-f]{64}$/;
+
+/**
+ * Hash of a record as stored: every field, in canonical JSON (see
+ * canonical.ts), so it survives a round trip through the database.
+ */
+export function ledgerRecordHash(record: TxSecureRecord): string {
+  return sha256(RECORD_HASH_CONTEXT + canonicalJson(record)).toString("hex");
+}
+
+/** Hash of an entry's fields other than `entry_hash` */
+export function ledgerEntryHash(entry: Omit<LedgerEntry, "entry_hash">): string {
+  // Only the entry's own fields: extra properties (e.g. database columns)
+  // must not change the hash
+  const { seq, op, recordId, createdAt, record_hash, prev_hash } = entry;
+  const fields = { seq, op, recordId, createdAt, record_hash, prev_hash };
+  return sha256(ENTRY_HASH_CONTEXT + canonicalJson(fields)).toString("hex");
+}
+
+/**
+ * Creates the entry that follows `previous` in the chain.
+ *
+ * @param previous - The current chain head, or null for the first entry
+ * @param op       - What happened to the record
+ * @param recordId - The record's id
+ * @param record   - The record as written (not for "delete")
+ * @throws ValidationError if a record is missing for "insert"/"update" or
+ *         given for "delete"
+ */
+export function createLedgerEntry(
+  previous: LedgerEntry | null,
+  op: LedgerOp,
+  recordId: string,
+  record?: TxSecureRecord
+): LedgerEntry {
+  if ((op === "delete") !== (record === undefined)) {
+    throw new ValidationError(
+      op === "delete"
+        ? "A delete ledger entry must not carry a record"
+        : `A ${op} ledger entry needs the record as written`
+    );
+  }
+
+  const entry: Omit<LedgerEntry, "entry_hash"> = {
+    seq: previous ? previous.seq + 1 : 1,
+    op,
+    recordId,
+    createdAt: new Date().toISOString(),
+    ...(record !== undefined && { record_hash: ledgerRecordHash(record) }),
+    prev_hash: previous ? previous.entry_hash : LEDGER_GENESIS_HASH,
+  };
+  return { ...entry, entry_hash: ledgerEntryHash(entry) };
+}
+
+/**
+ * Checks that `entries` (in seq order) continue the chain after `previous`
+ * — pass the last entry of the previous batch to verify a long log batch
+ * by batch.
+ *
+ * @param previous - The entry before `entries[0]`, or null if `entries`
+ *                   starts at seq 1
+ * @returns The first break, or null if the entries chain correctly
+ */
+export function verifyLedgerChain(
+  entries: readonly LedgerEntry[],
+  previous: LedgerEntry | null = null
+): LedgerBreak | null {
+  let prev = previous;
+  for (const entry of entries) {
+    const expectedSeq = prev ? prev.seq + 1 : 1;
+    if (entry.seq > expectedSeq) {
+      const missing =
+        entry.seq === expectedSeq + 1
+          ? `Ledger entry ${expectedSeq} is missing`
+          : `Ledger entries ${expectedSeq}–${entry.seq - 1} are missing`;
+      return { seq: entry.seq, reason: "gap", message: missing };
+    }
+    if (entry.seq < expectedSeq) {
+      return {
+        seq: entry.seq,
+        reason: "out-of-order",
+        message: `Ledger entry ${entry.seq} follows entry ${expectedSeq - 1}`,
+      };
+    }
+
+    if (entry.entry_hash !== ledgerEntryHash(entry)) {
+      return {
+        seq: entry.seq,
+        reason: "altered-entry",
+        message: `Ledger entry ${entry.seq} does not match its entry_hash`,
+      };
+    }
+
+    const expectedPrev = prev ? prev.entry_hash : LEDGER_GENESIS_HASH;
+    if (entry.prev_hash !== expectedPrev) {
+      return {
+        seq: entry.seq,
+        reason: "broken-link",
+        message: `Ledger entry ${entry.seq} does not link to entry ${expectedSeq - 1}`,
+      };
+    }
+
+    prev = entry;
+  }
+  return null;
+}
+
+// ── Merkle tree (RFC 6962) ───────────────────────────────────────────
+// Leaves are entry hashes: leaf = SHA-256(0x00 ‖ entry_hash), node =
+// SHA-256(0x01 ‖ left ‖ right). A tree of n leaves splits into a perfect
+// left subtree of the largest power of two below n and the rest.
+
+/** Builds a Merkle root leaf by leaf, in O(log n) memory */
+export type MerkleAccumulator = {
+  /** Leaves added so far */
+  readonly size: number;
+
+  /** Adds the next entry hash */
+  add(entryHash: string): void;
+
+  /** Root of the leaves added so far (the hash of no data for none) */
+  root(): string;
+};
+
+/**
+ * Creates an accumulator for the Merkle root of a log that is read in
+ * order, e.g. to check checkpoints while walking the chain.
+ */
+export function createMerkleAccumulator(): MerkleAccumulator {
+  // Perfect subtrees over the leaves so far, largest (leftmost) first
+  const subtrees: Array<{ size: number; hash: Buffer }> = [];
+  let size = 0;
+
+  return {
+    get size() {
+      return size;
+    },
+
+    add(entryHash) {
+      let node = { size: 1, hash: leafHash(entryHash) };
+      while (subtrees.length > 0 && subtrees[subtrees.length - 1].size === node.size) {
+        const left = subtrees.pop()!;
+        node = { size: left.size * 2, hash: nodeHash(left.hash, node.hash) };
+      }
+      subtrees.push(node);
+      size++;
+    },
+
+    root() {
+      if (subtrees.length === 0) return sha256("").toString("hex");
+      let hash = subtrees[subtrees.length - 1].hash;
+      for (let i = subtrees.length - 2; i >= 0; i--) {
+        hash = nodeHash(subtrees[i].hash, hash);
+      }
+      return hash.toString("hex");
+    },
+  };
+}
+
+/** Merkle tree hash of a list of entry hashes */
+export function merkleRoot(entryHashes: readonly string[]): string {
+  const accumulator = createMerkleAccumulator();
+  for (const entryHash of entryHashes) accumulator.add(entryHash);
+  return accumulator.root();
+}
+
+/**
+ * Inclusion proof (RFC 6962 audit path) for one leaf of a tree.
+ *
+ * @param entryHashes - All leaves of the tree, in seq order
+ * @param index       - The leaf to prove: its entry's seq − 1
+ * @returns Sibling hashes from the leaf up to the root
+ * @throws ValidationError if `index` is not a leaf of the tree
+ */
+export function merkleInclusionProof(entryHashes: readonly string[], index: number): string[] {
+  if (!Number.isSafeInteger(index) || index < 0 || index >= entryHashes.length) {
+    throw new ValidationError(
+      `Leaf index ${index} is outside a Merkle tree of ${entryHashes.length} leaves`
+    );
+  }
+  const leaves = entryHashes.map(leafHash);
+  return auditPath(leaves, index, 0, leaves.length).map((hash) => hash.toString("hex"));
+}
+
+/**
+ * Checks an inclusion proof against a root (typically a checkpoint's).
+ * Needs nothing but the entry hash, so third parties can check a single
+ * entry offline.
+ *
+ * @param entryHash - The entry's entry_hash
+ * @param index     - Its leaf index: seq − 1
+ * @param treeSize  - Leaves in the tree the root is for
+ * @param proof     - From merkleInclusionProof()
+ * @param root      - The expected root
+ * @returns true if the entry is leaf `index` of the tree with that root
+ */
+export function verifyMerkleInclusion(
+  entryHash: string,
+  index: number,
+  treeSize: number,
+  proof: readonly string[],
+  root: string
+): boolean {
+  if (!Number.isSafeInteger(index) || !Number.isSafeInteger(treeSize)) return false;
+  if (index < 0 || index >= treeSize) return false;
+  if (!HASH_REGEX.test(entryHash) || !proof.every((hash) => HASH_REGEX.test(hash))) return false;
+
+  // RFC 9162 §2.1.3.2
+  let fn = index;
+  let sn = treeSize - 1;
+  let hash = leafHash(entryHash);
+  for (const sibling of proof) {
+    if (sn === 0) return false;
+    const siblingHash = Buffer.from(sibling, "hex");
+    if (fn % 2 === 1 || fn === sn) {
+      hash = nodeHash(siblingHash, hash);
+      while (fn % 2 === 0 && fn !== 0) {
+        fn = Math.floor(fn / 2);
+        sn = Math.floor(sn / 2);
+      }
+    } else {
+      hash = nodeHash(hash, siblingHash);
+    }
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+  return sn === 0 && hash.toString("hex") === root;
+}
+
+function auditPath(leaves: readonly Buffer[], index: number, start: number, end: number): Buffer[] {
+  const n = end - start;
+  if (n === 1) return [];
+  const k = largestPowerOfTwoBelow(n);
+  return index < start + k
+    ? [...auditPath(leaves, index, start, start + k), subtreeRoot(leaves, start + k, end)]
+    : [...auditPath(leaves, index, start + k, end), subtreeRoot(leaves, start, start + k)];
+}
+
+function subtreeRoot(leaves: readonly Buffer[], start: number, end: number): Buffer {
+  const n = end - start;
+  if (n === 1) return leaves[start];
+  const k = largestPowerOfTwoBelow(n);
+  return nodeHash(subtreeRoot(leaves, start, start + k), subtreeRoot(leaves, start + k, end));
+}
+
+function largestPowerOfTwoBelow(n: number): number {
+  let k = 1;
+  while (k * 2 < n) k *= 2;
+  return k;
+}
+
+function leafHash(entryHash: string): Buffer {
+  return crypto
+    .createHash("sha256")
+    .update(LEAF_PREFIX)
+    .update(Buffer.from(entryHash, "hex"))
+    .digest();
+}
+
+function nodeHash(left: Buffer, right: Buffer): Buffer {
+  return crypto.createHash("sha256").update(NODE_PREFIX).update(left).update(right).digest();
+}
+
+// ── Checkpoints ──────────────────────────────────────────────────────
+
+/**
+ * Signs a checkpoint over the first `treeSize` entries.
+ *
+ * @param checkpoint - Tree size, root and head hash (see merkleRoot())
+ * @param signingKey - Ed25519 private key and its id
+ * @throws EncryptionError if the key is not an Ed25519 private key
+ */
+export function signLedgerCheckpoint(
+  checkpoint: Pick<LedgerCheckpoint, "treeSize" | "root" | "head_hash">,
+  signingKey: SigningKey
+): LedgerCheckpoint {
+  const toSign: Omit<LedgerCheckpoint, "signature"> = {
+    treeSize: checkpoint.treeSize,
+    root: checkpoint.root,
+    head_hash: checkpoint.head_hash,
+    createdAt: new Date().toISOString(),
+    signer_key_id: signingKey.keyId,
+  };
+
+  let privateKey: crypto.KeyObject;
+  try {
+    privateKey = toKeyObject(signingKey.privateKey);
+  } catch (error: unknown) {
+    throw new EncryptionError(`Checkpoint signing failed: ${(error as Error).message}`);
+  }
+  if (privateKey.type !== "private") {
+    throw new EncryptionError("Checkpoint signing failed: an Ed25519 private key is required");
+  }
+
+  const signature = crypto.sign(null, checkpointSigningInput(toSign), privateKey);
+  return { ...toSign, signature: signature.toString("hex") };
+}
+
+/**
+ * Verifies a checkpoint's signature. It says nothing about the log by
+ * itself — compare `root` with the entries, or check inclusion proofs
+ * against it.
+ *
+ * @param publicKeys - Trusted public keys by key id (e.g. from the API's
+ *                     GET /keys/signing), or a single public key
+ * @returns true if the signature is valid
+ * @throws ValidationError if it was signed by a key not in `publicKeys`
+ */
+export function verifyLedgerCheckpoint(
+  checkpoint: LedgerCheckpoint,
+  publicKeys: SigningPublicKeys | crypto.KeyObject | string
+): boolean {
+  const { signature, ...signed } = checkpoint;
+  const publicKey = resolvePublicKey(publicKeys, checkpoint.signer_key_id, "Checkpoint");
+  const input = checkpointSigningInput(signed);
+  return crypto.verify(null, input, publicKey, Buffer.from(signature, "hex"));
+}
+
+function checkpointSigningInput(unsigned: Omit<LedgerCheckpoint, "signature">): Buffer {
+  const { treeSize, root, head_hash, createdAt, signer_key_id } = unsigned;
+  const fields = { treeSize, root, head_hash, createdAt, signer_key_id };
+  return Buffer.from(CHECKPOINT_CONTEXT + canonicalJson(fields), "utf-8");
+}
+
+function sha256(data: string): Buffer {
+  return crypto.createHash("sha256").update(data, "utf-8").digest();
+}
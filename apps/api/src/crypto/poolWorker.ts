@@ -0,0 +1,47 @@
+import { parentPort } from "worker_threads";
+import { sealRecordPayload } from "./encrypt";
+import { openCheckedPayload } from "./decrypt";
+import type { PoolRequest, PoolResponse, SerializedError } from "./pool";
+
+/**
+ * CryptoPool worker thread (see pool.ts).
+ *
+ * Runs the payload layer of one record at a time: sealing (schema check,
+ * JSON encoding, AEAD, hex encoding) or opening (the reverse). It never
+ * sees a master key — only the record's DEK, which arrives in a buffer
+ * transferred by the pool and is zeroed as soon as the task is done.
+ */
+
+const port = parentPort;
+if (!port) {
+  throw new Error("poolWorker must be started as a worker thread by createCryptoPool()");
+}
+
+port.on("message", (request: PoolRequest) => {
+  port.postMessage(run(request));
+});
+
+function run(request: PoolRequest): PoolResponse {
+  const dek = Buffer.from(request.dek);
+  try {
+    const result =
+      request.op === "seal"
+        ? sealRecordPayload(dek, request.payload, request.options, request.metadata)
+        : openCheckedPayload(dek, request.record, request.schema);
+    return { ok: true, result };
+  } catch (error: unknown) {
+    return { ok: false, error: serializeError(error) };
+  } finally {
+    dek.fill(0);
+  }
+}
+
+/** Error classes don't survive postMessage(), so send what's needed to rebuild them */
+function serializeError(error: unknown): SerializedError {
+  if (!(error instanceof Error)) {
+    return { name: "Error", message: String(error) };
+  }
+  const serialized: SerializedError = { name: error.name, message: error.message };
+  if ("issues" in error && Array.isArray(error.issues)) serialized.issues = error.issues;
+  return serialized;
+}
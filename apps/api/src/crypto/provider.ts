@@ -0,0 +1,94 @@
+import { TxSecureRecord } from "./types";
+import { DecryptionError, EncryptionError } from "./errors";
+import { PayloadAadFields } from "./aad";
+import { MasterKeyInput, resolveMasterKey } from "./keyring";
+import { WrappedDek, unwrapDek, wrapDek } from "./wrap";
+
+/**
+ * KeyProvider — where DEK wrapping happens.
+ *
+ * Cloud KMS services (AWS KMS, Google Cloud KMS, Azure Key Vault) never
+ * hand out the master key; callers send a DEK in and get a wrapped DEK
+ * back, and vice versa. A KeyProvider models exactly that contract, so
+ * encryptWithProvider()/decryptWithProvider() work the same whether the
+ * master key lives in this process or behind a network call.
+ *
+ * The provider, not the caller, decides which master key version wraps a
+ * new DEK and records it as `mk_version`. The record metadata is passed
+ * as context so the provider can bind it as AAD (like a KMS
+ * "encryption context").
+ *
+ * Implementations:
+ *   createLocalKeyProvider() — AES-256-GCM under a local key or keyring
+ *   createHttpKeyProvider()  — delegates to a KMS over HTTP (see mockKms.ts)
+ *   createPartyKeyProvider() — adds a per-party KEK layer on top of either
+ *                              (see partyKeys.ts)
+ */
+
+/** Record metadata bound to a wrapped DEK */
+export type KeyWrapContext = PayloadAadFields;
+
+/**
+ * A wrapped DEK plus the master key version that wrapped it (and, for the
+ * per-party key hierarchy, the party KEK that wrapped it)
+ */
+export type WrappedKey = WrappedDek & Pick<TxSecureRecord, "mk_version" | "kek_id">;
+
+export interface KeyProvider {
+  /**
+   * Wraps a DEK under the provider's active master key.
+   *
+   * @param key     - The raw 32-byte DEK (not retained by the provider)
+   * @param context - Record metadata to authenticate with the wrapped DEK
+   * @throws EncryptionError if wrapping fails
+   */
+  wrapKey(key: Buffer, context: KeyWrapContext): Promise<WrappedKey>;
+
+  /**
+   * Unwraps a DEK. The caller owns the returned buffer and must zero it.
+   *
+   * @param wrapped - The wrapped DEK and its mk_version
+   * @param context - The same metadata that was passed to wrapKey()
+   * @throws TamperedDataError if the wrapped DEK or its context was modified
+   * @throws WrongKeyError if the DEK's key_check does not match the provider's key
+   * @throws DecryptionError for other failures (e.g. unknown mk_version)
+   */
+  unwrapKey(wrapped: WrappedKey, context: KeyWrapContext): Promise<Buffer>;
+}
+
+/**
+ * Creates a provider that wraps DEKs in-process with AES-256-GCM — the
+ * same wrapping encrypt()/decrypt() perform.
+ *
+ * @param masterKey - Hex-encoded master key, or a keyring (new DEKs are
+ *                    wrapped under its active version)
+ */
+export function createLocalKeyProvider(masterKey: MasterKeyInput): KeyProvider {
+  const activeVersion = typeof masterKey === "string" ? 1 : masterKey.activeVersion;
+
+  return {
+    async wrapKey(key, context) {
+      const mkBuffer = resolveMasterKey(masterKey, activeVersion, EncryptionError);
+      const metadata = { ...context, mk_version: activeVersion };
+      return { ...wrapDek(mkBuffer, key, metadata), mk_version: activeVersion };
+    },
+
+    async unwrapKey(wrapped, context) {
+      assertMasterWrapped(wrapped);
+      const mkBuffer = resolveMasterKey(masterKey, wrapped.mk_version, DecryptionError);
+      return unwrapDek(mkBuffer, { ...context, ...wrapped });
+    },
+  };
+}
+
+/**
+ * Rejects DEKs wrapped by a party KEK, which only createPartyKeyProvider()
+ * can unwrap — without this they would fail as if tampered with.
+ */
+export function assertMasterWrapped(wrapped: WrappedKey): void {
+  if (wrapped.kek_id !== undefined) {
+    throw new DecryptionError(
+      `DEK is wrapped by party KEK "${wrapped.kek_id}" — use createPartyKeyProvider()`
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { TxSecureRecord } from "./types";
+import { DecryptionError, EncryptionError, ValidationError } from "./errors";
+import { MasterKeyInput, resolveMasterKey } from "./keyring";
+import { unwrapDek, wrapDek } from "./wrap";
+
+/**
+ * Re-wraps a record's DEK under a new master key version.
+ *
+ * This is the cheap half of key rotation that envelope encryption buys us:
+ * only the 32-byte DEK is decrypted and encrypted again. The payload
+ * ciphertext, nonce and tag are left untouched — the returned record
+ * differs from the input only in `dek_wrap_nonce`, `dek_wrapped`,
+ * `dek_wrap_tag`, `key_check` and `mk_version`. A signature no longer matches the
+ * re-wrapped record, so `signer_key_id` and `signature` are dropped — sign
+ * it again with signRecord().
+ *
+ * @param record     - The record to re-wrap
+ * @param oldKey     - Master key (or keyring) that currently wraps the DEK,
+ *                     resolved by `record.mk_version`
+ * @param newKey     - Master key (or keyring) to wrap the DEK with,
+ *                     resolved by `newVersion`
+ * @param newVersion - Master key version to record in `mk_version`
+ * @returns A new record; the input record is not modified
+ * @throws TamperedDataError if the current DEK wrap fails authentication
+ * @throws WrongKeyError if `oldKey` is not the key the DEK is wrapped under
+ * @throws DecryptionError if the old key cannot be resolved
+ * @throws EncryptionError if the new key cannot be resolved
+ * @throws ValidationError if the DEK is wrapped by a party KEK or sealed to
+ *         a recipient key rather than wrapped by the master key
+ */
+export function rewrap(
+  record: TxSecureRecord,
+  oldKey: MasterKeyInput,
+  newKey: MasterKeyInput,
+  newVersion: number
+): TxSecureRecord {
+  if (record.kek_id !== undefined) {
+    throw new ValidationError(
+      `Record's DEK is wrapped by party KEK "${record.kek_id}" — re-wrap the KEK (rewrapPartyKek()) instead`
+    );
+  }
+
+  if (record.recipient_key_id !== undefined) {
+    throw new ValidationError(
+      `Record is sealed to recipient key "${record.recipient_key_id}" — it has no master key wrap to rotate`
+    );
+  }
+
+  const oldMk = resolveMasterKey(oldKey, record.mk_version, DecryptionError);
+  const newMk = resolveMasterKey(newKey, newVersion, EncryptionError);
+
+  const dek = unwrapDek(oldMk, record);
+  try {
+    // The DEK-wrap AAD binds mk_version, so wrap against the new version
+    const wrapped = wrapDek(newMk, dek, { ...record, mk_version: newVersion });
+
+    const { signer_key_id: _signer, signature: _signature, ...unsigned } = record;
+    return {
+      ...unsigned,
+      ...wrapped,
+      mk_version: newVersion,
+    };
+  } finally {
+    // Same defense-in-depth practice as in encrypt()/decrypt()
+    dek.fill(0);
+  }
+}
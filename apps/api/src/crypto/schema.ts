@@ -0,0 +1,294 @@
+import { PayloadSchemaError, ValidationError } from "./errors";
+
+/**
+ * Payload schemas — a small JSON Schema subset for typed payloads.
+ *
+ * decrypt() returns whatever JSON the record holds, so a caller that casts
+ * the result to its payload type only finds a wrong shape when something
+ * downstream breaks. A PayloadSchema<T> is checked at runtime on the way in
+ * (encrypt) and on the way out (decrypt), and carries T for the compiler:
+ *
+ *   const paymentSchema = definePayloadSchema<Payment>({
+ *     type: "object",
+ *     required: ["amount", "currency"],
+ *     properties: {
+ *       amount: { type: "number", minimum: 0 },
+ *       currency: { type: "string", enum: ["EUR", "USD"] },
+ *     },
+ *   });
+ *   const payment = decrypt(masterKey, record, paymentSchema); // Payment
+ *
+ * Supported keywords: type, enum, properties, required,
+ * additionalProperties, items, minItems, maxItems, minLength, maxLength,
+ * pattern, minimum, maximum and description (ignored). Anything else is
+ * rejected by definePayloadSchema() rather than silently not enforced.
+ * The compiler trusts that the schema describes T; nothing checks that.
+ */
+
+/** JSON value types a schema can require */
+export type JsonSchemaType = "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+
+/** The supported JSON Schema subset, without a payload type */
+export type JsonSchema = {
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: Array<string | number | boolean | null>;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  /** false rejects properties not listed in `properties`; a schema checks them */
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  /** Regular expression (Unicode mode) that strings must match */
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  description?: string;
+};
+
+declare const payloadType: unique symbol;
+
+/** A JsonSchema that describes payloads of type T (type-level only) */
+export type PayloadSchema<T = unknown> = JsonSchema & { readonly [payloadType]?: T };
+
+const SCHEMA_TYPES: readonly string[] = [
+  "object",
+  "array",
+  "string",
+  "number",
+  "integer",
+  "boolean",
+  "null",
+];
+
+const COUNT_KEYWORDS = ["minItems", "maxItems", "minLength", "maxLength"] as const;
+
+const KEYWORDS = new Set([
+  "type",
+  "enum",
+  "properties",
+  "required",
+  "additionalProperties",
+  "items",
+  ...COUNT_KEYWORDS,
+  "pattern",
+  "minimum",
+  "maximum",
+  "description",
+]);
+
+/**
+ * Checks a schema and types it as describing T. Use this for schemas that
+ * come from outside the code (e.g. registered through the API) as well as
+ * for typed schemas in code.
+ *
+ * @throws ValidationError if the schema uses unsupported keywords or
+ *         malformed values
+ */
+export function definePayloadSchema<T = unknown>(schema: unknown): PayloadSchema<T> {
+  checkSchema(schema, "schema");
+  return schema as PayloadSchema<T>;
+}
+
+/**
+ * Checks a payload against a schema.
+ *
+ * @returns The payload, typed as T
+ * @throws PayloadSchemaError listing every mismatch
+ */
+export function validatePayload<T>(schema: PayloadSchema<T>, payload: unknown): T {
+  const issues: string[] = [];
+  collectIssues(schema, payload, "$", issues);
+  if (issues.length > 0) {
+    throw new PayloadSchemaError(issues);
+  }
+  return payload as T;
+}
+
+function collectIssues(schema: JsonSchema, value: unknown, path: string, issues: string[]): void {
+  const actual = jsonType(value);
+
+  if (schema.type !== undefined) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const matches = allowed.some(
+      (type) => type === actual || (type === "number" && actual === "integer")
+    );
+    if (!matches) {
+      issues.push(`${path}: expected ${allowed.join(" or ")}, got ${actual}`);
+      return;
+    }
+  }
+
+  if (schema.enum !== undefined && !schema.enum.some((option) => option === value)) {
+    const options = schema.enum.map((option) => JSON.stringify(option)).join(", ");
+    issues.push(`${path}: must be one of ${options}`);
+  }
+
+  switch (actual) {
+    case "object":
+      collectObjectIssues(schema, value as Record<string, unknown>, path, issues);
+      break;
+    case "array":
+      collectArrayIssues(schema, value as unknown[], path, issues);
+      break;
+    case "string":
+      collectStringIssues(schema, value as string, path, issues);
+      break;
+    case "number":
+    case "integer":
+      if (schema.minimum !== undefined && (value as number) < schema.minimum) {
+        issues.push(`${path}: must be at least ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && (value as number) > schema.maximum) {
+        issues.push(`${path}: must be at most ${schema.maximum}`);
+      }
+      break;
+  }
+}
+
+function collectObjectIssues(
+  schema: JsonSchema,
+  value: Record<string, unknown>,
+  path: string,
+  issues: string[]
+): void {
+  for (const key of schema.required ?? []) {
+    if (!hasOwn(value, key)) {
+      issues.push(`${path}: missing required property "${key}"`);
+    }
+  }
+
+  for (const [key, child] of Object.entries(value)) {
+    const childPath = `${path}.${key}`;
+    if (schema.properties !== undefined && hasOwn(schema.properties, key)) {
+      collectIssues(schema.properties[key], child, childPath, issues);
+    } else if (schema.additionalProperties === false) {
+      issues.push(`${childPath}: property is not allowed`);
+    } else if (typeof schema.additionalProperties === "object") {
+      collectIssues(schema.additionalProperties, child, childPath, issues);
+    }
+  }
+}
+
+function collectArrayIssues(schema: JsonSchema, value: unknown[], path: string, issues: string[]): void {
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    issues.push(`${path}: must have at least ${schema.minItems} items`);
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    issues.push(`${path}: must have at most ${schema.maxItems} items`);
+  }
+  if (schema.items !== undefined) {
+    const items = schema.items;
+    value.forEach((item, index) => collectIssues(items, item, `${path}[${index}]`, issues));
+  }
+}
+
+function collectStringIssues(schema: JsonSchema, value: string, path: string, issues: string[]): void {
+  // Lengths count characters (code points), as JSON Schema does
+  const length = [...value].length;
+  if (schema.minLength !== undefined && length < schema.minLength) {
+    issues.push(`${path}: must be at least ${schema.minLength} characters`);
+  }
+  if (schema.maxLength !== undefined && length > schema.maxLength) {
+    issues.push(`${path}: must be at most ${schema.maxLength} characters`);
+  }
+  if (schema.pattern !== undefined && !new RegExp(schema.pattern, "u").test(value)) {
+    issues.push(`${path}: must match pattern ${schema.pattern}`);
+  }
+}
+
+/** The JSON type of a value; whole numbers are "integer" */
+function jsonType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "number";
+  }
+  return typeof value;
+}
+
+function checkSchema(schema: unknown, path: string): asserts schema is JsonSchema {
+  if (jsonType(schema) !== "object") {
+    throw new ValidationError(`${path} must be an object`);
+  }
+  const s = schema as Record<string, unknown>;
+
+  for (const keyword of Object.keys(s)) {
+    if (!KEYWORDS.has(keyword)) {
+      throw new ValidationError(`${path}: unsupported schema keyword "${keyword}"`);
+    }
+  }
+
+  if (s.type !== undefined) {
+    const types = Array.isArray(s.type) ? s.type : [s.type];
+    if (types.length === 0 || !types.every((type) => SCHEMA_TYPES.includes(type as string))) {
+      throw new ValidationError(`${path}.type must be one of ${SCHEMA_TYPES.join(", ")}`);
+    }
+  }
+
+  if (s.enum !== undefined) {
+    const scalars = ["string", "number", "integer", "boolean", "null"];
+    if (!Array.isArray(s.enum) || !s.enum.every((option) => scalars.includes(jsonType(option)))) {
+      throw new ValidationError(`${path}.enum must be an array of strings, numbers, booleans or null`);
+    }
+  }
+
+  if (s.properties !== undefined) {
+    if (jsonType(s.properties) !== "object") {
+      throw new ValidationError(`${path}.properties must be an object`);
+    }
+    for (const [key, child] of Object.entries(s.properties as Record<string, unknown>)) {
+      checkSchema(child, `${path}.properties.${key}`);
+    }
+  }
+
+  if (s.required !== undefined) {
+    if (!Array.isArray(s.required) || !s.required.every((key) => typeof key === "string")) {
+      throw new ValidationError(`${path}.required must be an array of strings`);
+    }
+  }
+
+  if (s.additionalProperties !== undefined && typeof s.additionalProperties !== "boolean") {
+    checkSchema(s.additionalProperties, `${path}.additionalProperties`);
+  }
+
+  if (s.items !== undefined) {
+    checkSchema(s.items, `${path}.items`);
+  }
+
+  for (const keyword of COUNT_KEYWORDS) {
+    const count = s[keyword];
+    if (count !== undefined && (!Number.isInteger(count) || (count as number) < 0)) {
+      throw new ValidationError(`${path}.${keyword} must be a non-negative integer`);
+    }
+  }
+
+  for (const keyword of ["minimum", "maximum"]) {
+    if (s[keyword] !== undefined && typeof s[keyword] !== "number") {
+      throw new ValidationError(`${path}.${keyword} must be a number`);
+    }
+  }
+
+  if (s.pattern !== undefined) {
+    if (typeof s.pattern !== "string") {
+      throw new ValidationError(`${path}.pattern must be a string`);
+    }
+    try {
+      new RegExp(s.pattern, "u");
+    } catch (error: unknown) {
+      throw new ValidationError(
+        `${path}.pattern is not a valid regular expression: ${(error as Error).message}`
+      );
+    }
+  }
+
+  if (s.description !== undefined && typeof s.description !== "string") {
+    throw new ValidationError(`${path}.description must be a string`);
+  }
+}
+
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
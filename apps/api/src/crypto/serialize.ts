@@ -0,0 +1,255 @@
+import { TxSecureRecord } from "./types";
+import { ValidationError } from "./errors";
+import { validateRecord, validateRecordStrict } from "./validate";
+
+/**
+ * Compact binary serialization for TxSecureRecord.
+ *
+ * The JSON form stores every binary field as hex, doubling its size. The
+ * compact envelope stores those fields as raw bytes:
+ *
+ *   ┌──────────┬─────────┬──────────────────────────────────────┐
+ *   │ "TXSR"   │ version │ field, field, …                      │
+ *   │ 4 bytes  │ 1 byte  │ [tag u8][length u32 BE][value bytes] │
+ *   └──────────┴─────────┴──────────────────────────────────────┘
+ *
+ * Values are UTF-8 text (id, partyId, the timestamps, alg and the key ids), raw
+ * bytes (the hex fields), a u32 BE integer (mk_version, format_version) or
+ * UTF-8 JSON (the field-level encryption components). Optional fields are
+ * simply omitted. The text form is the envelope in base64url, which is safe
+ * in URLs, headers and JSON strings.
+ *
+ * The envelope only changes how a record is stored — the same record
+ * decrypts identically from either form, since no AAD covers the hex
+ * encoding.
+ */
+
+/** Magic bytes at the start of every envelope */
+export const RECORD_ENVELOPE_MAGIC = Buffer.from("TXSR", "ascii");
+
+/** Envelope layout version written by serializeRecord() */
+export const RECORD_ENVELOPE_VERSION = 1;
+
+type FieldKind = "text" | "bytes" | "uint" | "json";
+
+type FieldSpec = {
+  tag: number;
+  key: keyof TxSecureRecord;
+  kind: FieldKind;
+  required: boolean;
+};
+
+/** Field tags are part of the wire format: never renumber or reuse them */
+const FIELDS: readonly FieldSpec[] = [
+  { tag: 1, key: "id", kind: "text", required: true },
+  { tag: 2, key: "partyId", kind: "text", required: true },
+  { tag: 3, key: "createdAt", kind: "text", required: true },
+  { tag: 4, key: "alg", kind: "text", required: true },
+  { tag: 5, key: "payload_nonce", kind: "bytes", required: true },
+  { tag: 6, key: "payload_ct", kind: "bytes", required: true },
+  { tag: 7, key: "payload_tag", kind: "bytes", required: true },
+  { tag: 8, key: "dek_wrap_nonce", kind: "bytes", required: true },
+  { tag: 9, key: "dek_wrapped", kind: "bytes", required: true },
+  { tag: 10, key: "dek_wrap_tag", kind: "bytes", required: true },
+  { tag: 11, key: "mk_version", kind: "uint", required: true },
+  { tag: 12, key: "format_version", kind: "uint", required: false },
+  { tag: 13, key: "payload_clear", kind: "json", required: false },
+  { tag: 14, key: "payload_fields", kind: "json", required: false },
+  { tag: 15, key: "kek_id", kind: "text", required: false },
+  { tag: 16, key: "signer_key_id", kind: "text", required: false },
+  { tag: 17, key: "signature", kind: "bytes", required: false },
+  { tag: 18, key: "recipient_key_id", kind: "text", required: false },
+  { tag: 19, key: "recipient_epk", kind: "bytes", required: false },
+  { tag: 20, key: "expiresAt", kind: "text", required: false },
+  { tag: 21, key: "key_check", kind: "bytes", required: false },
+];
+
+const FIELDS_BY_TAG = new Map(FIELDS.map((field) => [field.tag, field]));
+
+const HEADER_BYTES = RECORD_ENVELOPE_MAGIC.length + 1;
+const FIELD_HEADER_BYTES = 5;
+const BASE64URL_REGEX = /^[A-Za-z0-9_-]+$/;
+const utf8 = new TextDecoder("utf-8", { fatal: true });
+
+/**
+ * Serializes a record into the compact binary envelope.
+ *
+ * @param record   - The record to serialize (validated first)
+ * @param encoding - "base64url" for the text form; omit for raw bytes
+ * @throws ValidationError if the record is malformed
+ */
+export function serializeRecord(record: TxSecureRecord): Buffer;
+export function serializeRecord(record: TxSecureRecord, encoding: "base64url"): string;
+export function serializeRecord(
+  record: TxSecureRecord,
+  encoding?: "base64url"
+): Buffer | string {
+  // Hex fields must be valid before they can be turned into bytes
+  validateRecord(record);
+
+  const parts: Buffer[] = [RECORD_ENVELOPE_MAGIC, Buffer.from([RECORD_ENVELOPE_VERSION])];
+
+  for (const field of FIELDS) {
+    const value = record[field.key];
+    if (value === undefined) continue;
+
+    const bytes = encodeValue(field, value);
+    const header = Buffer.alloc(FIELD_HEADER_BYTES);
+    header.writeUInt8(field.tag, 0);
+    header.writeUInt32BE(bytes.length, 1);
+    parts.push(header, bytes);
+  }
+
+  const envelope = Buffer.concat(parts);
+  return encoding === "base64url" ? envelope.toString("base64url") : envelope;
+}
+
+/**
+ * Parses a record from any of its stored forms:
+ *
+ * - a Buffer holding the binary envelope
+ * - a string holding the base64url envelope
+ * - a string holding the JSON (hex) form, as returned by the API
+ * - an already-parsed value (e.g. a request body or a database row mapped
+ *   to record fields), which is checked but not copied
+ *
+ * The result is always checked with validateRecordStrict(): every field
+ * must be present with its type, unknown fields are rejected, and every
+ * rule validateRecord() checks must hold. The ValidationError lists all
+ * problems found in `issues`.
+ *
+ * @throws ValidationError if the input is malformed
+ */
+export function parseRecord(input: unknown): TxSecureRecord {
+  if (Buffer.isBuffer(input)) {
+    return parseEnvelope(input);
+  }
+
+  if (typeof input !== "string") {
+    validateRecordStrict(input);
+    return input;
+  }
+
+  const text = input.trim();
+  if (text.startsWith("{")) {
+    return parseJsonRecord(text);
+  }
+
+  if (!BASE64URL_REGEX.test(text)) {
+    throw new ValidationError("Record is neither JSON nor a base64url envelope");
+  }
+  return parseEnvelope(Buffer.from(text, "base64url"));
+}
+
+function parseJsonRecord(text: string): TxSecureRecord {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error: unknown) {
+    throw new ValidationError(`Record JSON is invalid: ${(error as Error).message}`);
+  }
+
+  validateRecordStrict(parsed);
+  return parsed;
+}
+
+function parseEnvelope(envelope: Buffer): TxSecureRecord {
+  // ── Header: magic + version ───────────────────────────────────────
+  if (
+    envelope.length < HEADER_BYTES ||
+    !envelope.subarray(0, RECORD_ENVELOPE_MAGIC.length).equals(RECORD_ENVELOPE_MAGIC)
+  ) {
+    throw new ValidationError("Not a record envelope (bad magic header)");
+  }
+
+  const version = envelope.readUInt8(RECORD_ENVELOPE_MAGIC.length);
+  if (version !== RECORD_ENVELOPE_VERSION) {
+    throw new ValidationError(
+      `Unsupported record envelope version ${version} — supported: ${RECORD_ENVELOPE_VERSION}`
+    );
+  }
+
+  // ── Fields: [tag][length][value] until the end of the buffer ──────
+  const record: Record<string, unknown> = {};
+  let offset = HEADER_BYTES;
+
+  while (offset < envelope.length) {
+    if (envelope.length - offset < FIELD_HEADER_BYTES) {
+      throw new ValidationError(`Record envelope truncated in field header at byte ${offset}`);
+    }
+
+    const tag = envelope.readUInt8(offset);
+    const length = envelope.readUInt32BE(offset + 1);
+    offset += FIELD_HEADER_BYTES;
+
+    const field = FIELDS_BY_TAG.get(tag);
+    if (!field) {
+      throw new ValidationError(`Record envelope has unknown field tag ${tag}`);
+    }
+    if (field.key in record) {
+      throw new ValidationError(`Record envelope repeats field "${field.key}"`);
+    }
+    if (envelope.length - offset < length) {
+      throw new ValidationError(`Record envelope truncated in field "${field.key}"`);
+    }
+
+    record[field.key] = decodeValue(field, envelope.subarray(offset, offset + length));
+    offset += length;
+  }
+
+  for (const field of FIELDS) {
+    if (field.required && !(field.key in record)) {
+      throw new ValidationError(`Record envelope is missing field "${field.key}"`);
+    }
+  }
+
+  // Field-level checks (nonce/tag lengths, algorithm, versions, identity)
+  validateRecordStrict(record);
+  return record;
+}
+
+function encodeValue(field: FieldSpec, value: unknown): Buffer {
+  switch (field.kind) {
+    case "text":
+      return Buffer.from(String(value), "utf-8");
+    case "bytes":
+      return Buffer.from(String(value), "hex");
+    case "json":
+      return Buffer.from(JSON.stringify(value), "utf-8");
+    case "uint": {
+      const n = Number(value);
+      if (!Number.isInteger(n) || n < 0 || n > 0xffffffff) {
+        throw new ValidationError(`${field.key} must be an unsigned 32-bit integer, got ${value}`);
+      }
+      const bytes = Buffer.alloc(4);
+      bytes.writeUInt32BE(n, 0);
+      return bytes;
+    }
+  }
+}
+
+function decodeValue(field: FieldSpec, bytes: Buffer): unknown {
+  switch (field.kind) {
+    case "json":
+      try {
+        return JSON.parse(utf8.decode(bytes));
+      } catch {
+        throw new ValidationError(`Record envelope field "${field.key}" is not valid JSON`);
+      }
+    case "text":
+      try {
+        return utf8.decode(bytes);
+      } catch {
+        throw new ValidationError(`Record envelope field "${field.key}" is not valid UTF-8`);
+      }
+    case "bytes":
+      return bytes.toString("hex");
+    case "uint":
+      if (bytes.length !== 4) {
+        throw new ValidationError(
+          `Record envelope field "${field.key}" must be 4 bytes, got ${bytes.length}`
+        );
+      }
+      return bytes.readUInt32BE(0);
+  }
+}
@@ -0,0 +1,167 @@
+import * as crypto from "crypto";
+import { TxSecureRecord } from "./types";
+import { EncryptionError, ValidationError } from "./errors";
+import { canonicalJson } from "./canonical";
+
+/**
+ * Record signatures — Ed25519 over the whole record, for non-repudiation.
+ *
+ * GCM tags only convince someone who already holds the key, and the key
+ * holder could have produced the record itself. A signature can be checked
+ * by anyone with the signer's public key, without any decryption key:
+ *
+ *   signature = Ed25519(signingKey, "tx-secure/record-signature/v1\n" ‖
+ *                                   canonicalJson(record without `signature`))
+ *
+ * Every field is covered — metadata, ciphertexts, key wrap and
+ * `signer_key_id` — in the hex (JSON) form, with object keys sorted (see
+ * canonical.ts), so the signature survives a round trip through the
+ * database or the compact envelope.
+ *
+ * Re-wrapping the DEK changes the record, so rewrap() drops the signature;
+ * the holder of the signing key signs the re-wrapped record again.
+ */
+
+/** An Ed25519 private key and the id recorded as `signer_key_id` */
+export type SigningKey = {
+  /** Identifier published next to the public key (see signingKeyId()) */
+  keyId: string;
+
+  /** Ed25519 private key, as a KeyObject or PKCS#8 PEM */
+  privateKey: crypto.KeyObject | string;
+};
+
+/** Ed25519 public keys (KeyObject or SPKI PEM), by key id */
+export type SigningPublicKeys = Record<string, crypto.KeyObject | string>;
+
+const SIGNATURE_CONTEXT = "tx-secure/record-signature/v1\n";
+
+/**
+ * Generates an Ed25519 key pair for signing records.
+ *
+ * @returns The key id, the private key (PKCS#8 PEM) and the public key (SPKI PEM)
+ */
+export function generateSigningKeyPair(): { keyId: string; privateKey: string; publicKey: string } {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync("ed25519");
+  return {
+    keyId: signingKeyId(publicKey),
+    privateKey: privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+    publicKey: publicKey.export({ type: "spki", format: "pem" }).toString(),
+  };
+}
+
+/**
+ * The default key id of a signing key: the first 16 bytes of the SHA-256 of
+ * its public key (SPKI DER), as 32-char hex. Accepts either half of the pair.
+ *
+ * @throws ValidationError if the key is not an Ed25519 key
+ */
+export function signingKeyId(key: crypto.KeyObject | string): string {
+  const keyObject = toKeyObject(key);
+  const publicKey = keyObject.type === "private" ? crypto.createPublicKey(keyObject) : keyObject;
+  const der = publicKey.export({ type: "spki", format: "der" });
+  return crypto.createHash("sha256").update(der).digest("hex").slice(0, 32);
+}
+
+/**
+ * Signs a record.
+ *
+ * @param record     - The record to sign (any existing signature is replaced)
+ * @param signingKey - Ed25519 private key and its id
+ * @returns A new record with `signer_key_id` and `signature`; the input is
+ *          not modified
+ * @throws EncryptionError if the key is not an Ed25519 private key
+ */
+export function signRecord(record: TxSecureRecord, signingKey: SigningKey): TxSecureRecord {
+  const { signature: _previous, ...unsigned } = record;
+  const toSign: TxSecureRecord = { ...unsigned, signer_key_id: signingKey.keyId };
+
+  let privateKey: crypto.KeyObject;
+  try {
+    privateKey = toKeyObject(signingKey.privateKey);
+  } catch (error: unknown) {
+    throw new EncryptionError(`Record signing failed: ${(error as Error).message}`);
+  }
+  if (privateKey.type !== "private") {
+    throw new EncryptionError("Record signing failed: an Ed25519 private key is required");
+  }
+
+  const signature = crypto.sign(null, signingInput(toSign), privateKey);
+  return { ...toSign, signature: signature.toString("hex") };
+}
+
+/**
+ * Verifies a record's signature against the signer's public key. Needs no
+ * decryption key, so third parties can verify records offline.
+ *
+ * @param record     - A signed record
+ * @param publicKeys - Trusted public keys by key id (e.g. from the API's
+ *                     GET /keys/signing), or a single public key
+ * @returns true if the signature is valid, false if the record (or its
+ *          signature) was modified
+ * @throws ValidationError if the record is not signed, or was signed by a
+ *         key that is not in `publicKeys`
+ */
+export function verifyRecordSignature(
+  record: TxSecureRecord,
+  publicKeys: SigningPublicKeys | crypto.KeyObject | string
+): boolean {
+  const { signature, ...signed } = record;
+  if (signature === undefined || record.signer_key_id === undefined) {
+    throw new ValidationError("Record is not signed");
+  }
+
+  const publicKey = resolvePublicKey(publicKeys, record.signer_key_id);
+  return crypto.verify(null, signingInput(signed), publicKey, Buffer.from(signature, "hex"));
+}
+
+/** The bytes that are signed: a fixed context string and the canonical record */
+function signingInput(unsigned: Omit<TxSecureRecord, "signature">): Buffer {
+  return Buffer.from(SIGNATURE_CONTEXT + canonicalJson(unsigned), "utf-8");
+}
+
+/**
+ * Picks the public key for `keyId` (shared with ledger.ts, whose
+ * checkpoints are signed with the same keys).
+ *
+ * @param signed - What was signed, for the error message
+ */
+export function resolvePublicKey(
+  publicKeys: SigningPublicKeys | crypto.KeyObject | string,
+  keyId: string,
+  signed = "Record"
+): crypto.KeyObject {
+  const candidate =
+    typeof publicKeys === "string" || publicKeys instanceof crypto.KeyObject
+      ? publicKeys
+      : Object.prototype.hasOwnProperty.call(publicKeys, keyId)
+        ? publicKeys[keyId]
+        : undefined;
+  if (candidate === undefined) {
+    throw new ValidationError(`${signed} was signed by unknown key "${keyId}"`);
+  }
+
+  const keyObject = toKeyObject(candidate);
+  return keyObject.type === "private" ? crypto.createPublicKey(keyObject) : keyObject;
+}
+
+/** Parses a PEM key (private or public) and checks that it is Ed25519 */
+export function toKeyObject(key: crypto.KeyObject | string): crypto.KeyObject {
+  let keyObject = key;
+  if (typeof keyObject === "string") {
+    try {
+      keyObject = keyObject.includes("PRIVATE KEY")
+        ? crypto.createPrivateKey(keyObject)
+        : crypto.createPublicKey(keyObject);
+    } catch (error: unknown) {
+      throw new ValidationError(`Invalid signing key: ${(error as Error).message}`);
+    }
+  }
+
+  if (keyObject.asymmetricKeyType !== "ed25519") {
+    throw new ValidationError(
+      `Signing keys must be Ed25519, got ${keyObject.asymmetricKeyType ?? keyObject.type}`
+    );
+  }
+  return keyObject;
+}
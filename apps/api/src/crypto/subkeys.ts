@@ -0,0 +1,75 @@
+import * as crypto from "crypto";
+import { ValidationError } from "./errors";
+import { MasterKeyInput, resolveMasterKey } from "./keyring";
+
+/**
+ * Purpose-specific subkeys — one master key, many independent keys.
+ *
+ * Using the same raw key for two jobs (say, AES key wrapping and HMAC)
+ * lets a weakness in one use leak into the other. Every job that needs
+ * key material from the master key gets its own subkey instead:
+ *
+ *   subkey = HKDF-SHA256(MasterKey, salt = none,
+ *                        info = SUBKEY_LABELS[purpose] + context, 32 bytes)
+ *
+ * Purposes are a fixed registry rather than free-form strings, so two
+ * features can never end up deriving the same key by picking the same
+ * name. Each label ends in ":" and none is a prefix of another, so
+ * label + context is unambiguous. `context` separates keys within one
+ * purpose (e.g. one blind-index key per field).
+ *
+ * Labels are part of the stored data: changing one changes every key
+ * derived under it. Add a new purpose (or a new "/v2" label) instead.
+ */
+
+/** HKDF info label of every registered purpose */
+export const SUBKEY_LABELS = {
+  /** Wraps DEKs (and party KEKs) in records of format_version 3 or later */
+  "dek-wrap": "tx-secure/dek-wrap-key/v1:",
+
+  /** HMAC blind indexes; context = the indexed field path (see blindIndex.ts) */
+  "blind-index": "tx-secure/blind-index/v1:",
+
+  /** Key check values recorded as `key_check` (see wrap.ts) */
+  "key-check": "tx-secure/key-check/v1:",
+} as const;
+
+/** A registered subkey purpose */
+export type SubkeyPurpose = keyof typeof SUBKEY_LABELS;
+
+/**
+ * Derives a 32-byte subkey of a master key for one purpose.
+ *
+ * The caller owns the returned buffer and should zero it after use.
+ *
+ * @param masterKey - Hex master key, or a Keyring
+ * @param purpose   - A registered purpose (see SUBKEY_LABELS)
+ * @param context   - Separates keys within the purpose (default: none)
+ * @param mkVersion - Keyring version to derive from (default: the active one)
+ * @throws ValidationError if the purpose is not registered or the key is invalid
+ */
+export function deriveSubkey(
+  masterKey: MasterKeyInput,
+  purpose: SubkeyPurpose,
+  context: string = "",
+  mkVersion?: number
+): Buffer {
+  const version = mkVersion ?? (typeof masterKey === "string" ? 1 : masterKey.activeVersion);
+  const mkBuffer = resolveMasterKey(masterKey, version, ValidationError);
+  try {
+    return hkdfSubkey(mkBuffer, purpose, context);
+  } finally {
+    mkBuffer.fill(0);
+  }
+}
+
+/** deriveSubkey() from a raw key, for code that already holds one */
+export function hkdfSubkey(key: Buffer, purpose: SubkeyPurpose, context: string = ""): Buffer {
+  if (!Object.prototype.hasOwnProperty.call(SUBKEY_LABELS, purpose)) {
+    throw new ValidationError(
+      `Unknown subkey purpose "${purpose}" — registered: ${Object.keys(SUBKEY_LABELS).join(", ")}`
+    );
+  }
+  const info = SUBKEY_LABELS[purpose] + context;
+  return Buffer.from(crypto.hkdfSync("sha256", key, Buffer.alloc(0), info, 32));
+}
@@ -1,3 +1,17 @@
+import type { SigningKey } from "./signature";
+import type { PayloadSchema } from "./schema";
+
+/**
+ * Supported algorithm identifiers.
+ *
+ * - "AES-256-GCM"        — payload encrypted in one piece into `payload_ct`
+ * - "ChaCha20-Poly1305"  — same layout, for hosts without AES hardware support
+ * - "AES-256-GCM-STREAM" — payload encrypted as a segmented stream (see
+ *                          stream.ts); the ciphertext is stored outside the
+ *                          record and `payload_ct` is empty
+ */
+export type RecordAlgorithm = "AES-256-GCM" | "ChaCha20-Poly1305" | "AES-256-GCM-STREAM";
+
 /**
  * TxSecureRecord — The encrypted transaction record.
  *
@@ -5,7 +19,7 @@
  * that holds binary data is stored as a hex-encoded string for safe
  * serialization and transport over JSON.
  *
- * Envelope Encryption Layout:
+ * Envelope Encryption Layout (shown for AES-256-GCM; `alg` selects the AEAD):
  * ┌─────────────────────────────────────────────────────┐
  * │  payload_ct   = AES-256-GCM(DEK, plaintext)        │
  * │  payload_nonce = random 12-byte IV for payload      │
@@ -26,13 +40,24 @@ export type TxSecureRecord = {
   /** ISO 8601 timestamp of when the record was created */
   createdAt: string;
 
+  /**
+   * ISO 8601 timestamp after which the record must no longer be decrypted
+   * (see EncryptOptions.ttlSeconds). Authenticated as part of the
+   * payload-layer AAD, so it cannot be extended or removed. Absent on
+   * records that never expire.
+   */
+  expiresAt?: string;
+
   /** 12-byte nonce (IV) used to encrypt the payload, stored as 24-char hex */
   payload_nonce: string;
 
-  /** AES-256-GCM ciphertext of the JSON payload, stored as hex */
+  /** AEAD ciphertext of the JSON payload, stored as hex (empty for streamed records) */
   payload_ct: string;
 
-  /** 16-byte GCM authentication tag for the payload encryption, stored as 32-char hex */
+  /**
+   * 16-byte GCM authentication tag for the payload encryption, stored as 32-char hex
+   * (for streamed records: the tag of the final segment)
+   */
   payload_tag: string;
 
   /** 12-byte nonce (IV) used to wrap the DEK, stored as 24-char hex */
@@ -44,9 +69,123 @@ export type TxSecureRecord = {
   /** 16-byte GCM authentication tag for the DEK wrapping, stored as 32-char hex */
   dek_wrap_tag: string;
 
-  /** Algorithm identifier — always AES-256-GCM */
-  alg: "AES-256-GCM";
+  /**
+   * 8-byte key check value of the key that wrapped the DEK (master key or
+   * party KEK), stored as 16-char hex (see wrap.ts). Lets decryption tell
+   * a wrong key from tampering. Absent on sealed records and on records
+   * written before key check values.
+   */
+  key_check?: string;
+
+  /** Algorithm identifier */
+  alg: RecordAlgorithm;
 
-  /** Master Key version used for this record (supports future key rotation) */
+  /**
+   * Master Key version used for this record (supports future key rotation).
+   * 0 for sealed records, whose DEK is wrapped to a recipient key instead.
+   */
   mk_version: number;
+
+  /**
+   * Record format version. Version 2 binds the record metadata as GCM
+   * additional authenticated data (see aad.ts). Absent on records created
+   * before AAD binding, which are treated as version 1.
+   */
+  format_version?: number;
+
+  /**
+   * Field-level encryption only: the payload with the encrypted paths
+   * removed, readable without any key (e.g. for routing). Authenticated as
+   * part of the payload-layer AAD.
+   */
+  payload_clear?: Record<string, unknown>;
+
+  /**
+   * Field-level encryption only: one ciphertext per encrypted JSON path,
+   * each under the record's DEK. `payload_ct` then holds the list of
+   * encrypted paths, so a removed or added field is detected.
+   */
+  payload_fields?: EncryptedField[];
+
+  /**
+   * Per-party key hierarchy only: id of the party key-encryption key (KEK)
+   * that wraps the DEK. The KEK itself is wrapped by the master key
+   * (see partyKeys.ts). Absent when the DEK is wrapped by the master key
+   * directly.
+   */
+  kek_id?: string;
+
+  /**
+   * Sealed records only: id of the recipient X25519 public key the DEK is
+   * wrapped to (see sealed.ts). Only that key's private half can decrypt.
+   */
+  recipient_key_id?: string;
+
+  /**
+   * Sealed records only: the ephemeral X25519 public key of the key
+   * agreement, stored as 64-char hex (32 bytes)
+   */
+  recipient_epk?: string;
+
+  /**
+   * Signed records only: id of the Ed25519 key that signed the record
+   * (see signature.ts). Covered by the signature itself.
+   */
+  signer_key_id?: string;
+
+  /**
+   * Signed records only: 64-byte Ed25519 signature over the canonical
+   * record (every other field), stored as 128-char hex.
+   */
+  signature?: string;
+};
+
+/** A single JSON path encrypted under the record's DEK */
+export type EncryptedField = {
+  /** Dot-separated path into the payload, e.g. "account.number" */
+  path: string;
+
+  /** 12-byte nonce, stored as 24-char hex */
+  nonce: string;
+
+  /** AEAD ciphertext of the JSON-encoded value, stored as hex */
+  ct: string;
+
+  /** 16-byte authentication tag, stored as 32-char hex */
+  tag: string;
+};
+
+/** Optional settings for encrypt(), for a payload of type T */
+export type EncryptOptions<T = Record<string, unknown>> = {
+  /**
+   * Master key version to record in `mk_version`. Defaults to the keyring's
+   * active version, or 1 when a single hex key is given.
+   */
+  mkVersion?: number;
+
+  /** AEAD for both layers (default: "AES-256-GCM") */
+  alg?: Exclude<RecordAlgorithm, "AES-256-GCM-STREAM">;
+
+  /**
+   * JSON paths (dot-separated, e.g. "amount" or "account.number") to
+   * encrypt individually. The rest of the payload is stored readable in
+   * `payload_clear`. Omit to encrypt the whole payload as one blob.
+   */
+  encryptFields?: string[];
+
+  /** Sign the finished record with this Ed25519 key (see signRecord()) */
+  signingKey?: SigningKey;
+
+  /**
+   * Seconds from creation until the record expires (sets `expiresAt`).
+   * Decrypting an expired record throws ExpiredRecordError. Omit for a
+   * record that never expires.
+   */
+  ttlSeconds?: number;
+
+  /**
+   * Check the payload against this schema before encrypting (see
+   * schema.ts); a mismatch throws PayloadSchemaError.
+   */
+  schema?: PayloadSchema<T>;
 };
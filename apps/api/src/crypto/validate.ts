@@ -1,5 +1,10 @@
 import { TxSecureRecord } from "./types";
-import { ValidationError } from "./errors";
+import { ValidationError, ValidationIssue } from "./errors";
+import { RECORD_FORMAT_AAD, SUPPORTED_RECORD_FORMATS, recordFormat } from "./aad";
+import { STREAM_ALG } from "./stream";
+import { SEALED_MK_VERSION } from "./sealed";
+import { ALGORITHMS, SUPPORTED_ALGORITHMS, isRecordAlgorithm } from "./algorithms";
+import { KEY_CHECK_BYTES } from "./wrap";
 
 /**
  * Validates a TxSecureRecord to ensure all fields conform to the expected
@@ -9,60 +14,116 @@ import { ValidationError } from "./errors";
  * produces clear error messages instead of cryptic crypto failures.
  *
  * Validation rules:
- * - Nonces must be exactly 12 bytes (24 hex characters)
- * - Auth tags must be exactly 16 bytes (32 hex characters)
+ * - Algorithm must be one of SUPPORTED_ALGORITHMS ("AES-256-GCM",
+ *   "ChaCha20-Poly1305" or "AES-256-GCM-STREAM")
+ * - Nonces and auth tags must have the algorithm's lengths (12 and 16 bytes
+ *   — 24 and 32 hex characters — for every supported algorithm)
  * - All hex fields must contain only valid hex characters [0-9a-fA-F]
- * - Ciphertext must not be empty
- * - Algorithm must be "AES-256-GCM"
+ * - Ciphertext must not be empty (streamed records: payload_ct must be empty,
+ *   since the ciphertext is stored outside the record)
+ * - format_version, when present, must be a supported record format
+ * - expiresAt, when present, must be an ISO 8601 timestamp on a record
+ *   with format_version 2 or later (older formats cannot authenticate it)
+ * - kek_id, when present, must be a non-empty string
+ * - key_check, when present, must be 16 hex chars (8 bytes)
+ * - Sealed records: recipient_key_id and a 32-byte recipient_epk, mk_version 0,
+ *   no kek_id or key_check
+ * - signer_key_id and signature must be present together; the signature is
+ *   128 hex chars (64 bytes)
+ * - Field-level encryption: payload_clear (an object) and payload_fields
+ *   (entries with a path, 12-byte nonce, non-empty ciphertext and 16-byte
+ *   tag) must appear together, on a non-streamed, non-legacy record
+ *
+ * Every rule is checked and every violation collected: the ValidationError
+ * names the first one in its message and lists all of them in `issues`.
+ *
+ * validateRecordStrict() (used by parseRecord() and fromJWE()) additionally
+ * checks the record's shape, for input that is not known to be a record:
+ * - It must be a plain object with every required field and no unknown ones
+ * - Every field must have its type (strings, integer versions, an object
+ *   payload_clear, an array payload_fields)
+ * - id must be a UUID, partyId a non-empty string, createdAt an ISO 8601
+ *   timestamp
  */
 
 /** Regex that matches a valid hex string (even number of chars, only hex digits) */
 const HEX_REGEX = /^[0-9a-fA-F]+$/;
 
 /**
- * Validates that a string is valid hex of the expected byte length.
+ * Checks that a value is valid hex of the expected byte length.
  *
- * @param value     - The hex string to validate
+ * @param issues    - Collects the problems found
+ * @param value     - The value to check
  * @param fieldName - Human-readable field name for error messages
  * @param expectedBytes - Expected length in bytes (hex string will be 2x this)
  */
-function validateHexField(value: string, fieldName: string, expectedBytes: number): void {
+function checkHexField(
+  issues: ValidationIssue[],
+  value: unknown,
+  fieldName: string,
+  expectedBytes: number
+): void {
+  if (typeof value !== "string") {
+    issues.push({ field: fieldName, message: `${fieldName} must be a hex string` });
+    return;
+  }
+
   if (!HEX_REGEX.test(value)) {
-    throw new ValidationError(
-      `${fieldName} contains invalid hex characters: "${value.slice(0, 20)}..."`
-    );
+    issues.push({
+      field: fieldName,
+      message: `${fieldName} contains invalid hex characters: "${value.slice(0, 20)}..."`,
+    });
+    return;
   }
 
   const expectedHexLength = expectedBytes * 2;
   if (value.length !== expectedHexLength) {
-    throw new ValidationError(
-      `${fieldName} must be exactly ${expectedBytes} bytes (${expectedHexLength} hex chars), got ${value.length / 2} bytes (${value.length} hex chars)`
-    );
+    issues.push({
+      field: fieldName,
+      message: `${fieldName} must be exactly ${expectedBytes} bytes (${expectedHexLength} hex chars), got ${value.length / 2} bytes (${value.length} hex chars)`,
+    });
   }
 }
 
 /**
- * Validates that a string is valid hex and is non-empty.
+ * Checks that a value is valid hex and is non-empty.
  * Used for variable-length fields like ciphertext and wrapped DEK.
  */
-function validateHexFieldNonEmpty(value: string, fieldName: string): void {
-  if (!value || value.length === 0) {
-    throw new ValidationError(`${fieldName} must not be empty`);
+function checkHexFieldNonEmpty(issues: ValidationIssue[], value: unknown, fieldName: string): void {
+  if (typeof value !== "string") {
+    issues.push({ field: fieldName, message: `${fieldName} must be a hex string` });
+    return;
+  }
+
+  if (value.length === 0) {
+    issues.push({ field: fieldName, message: `${fieldName} must not be empty` });
+    return;
   }
 
   if (value.length % 2 !== 0) {
-    throw new ValidationError(
-      `${fieldName} has odd-length hex string (${value.length} chars) — invalid hex encoding`
-    );
+    issues.push({
+      field: fieldName,
+      message: `${fieldName} has odd-length hex string (${value.length} chars) — invalid hex encoding`,
+    });
+    return;
   }
 
   if (!HEX_REGEX.test(value)) {
-    throw new ValidationError(
-      `${fieldName} contains invalid hex characters: "${value.slice(0, 20)}..."`
-    );
+    issues.push({
+      field: fieldName,
+      message: `${fieldName} contains invalid hex characters: "${value.slice(0, 20)}..."`,
+    });
   }
 }
 
+/** Throws a ValidationError naming the first issue and listing all of them */
+function throwIfInvalid(issues: ValidationIssue[]): void {
+  if (issues.length === 0) return;
+
+  const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : "";
+  throw new ValidationError(`${issues[0].message}${more}`, issues);
+}
+
 /**
  * Validates a TxSecureRecord for structural correctness.
  *
@@ -73,33 +134,340 @@ function validateHexFieldNonEmpty(value: string, fieldName: string): void {
  * @throws ValidationError with a descriptive message if any field is invalid
  */
 export function validateRecord(record: TxSecureRecord): void {
-  // ── Validate nonces (must be exactly 12 bytes = 24 hex chars) ───────
-  // GCM standard specifies 96-bit (12-byte) nonces. Using a different
-  // size is technically possible but reduces security guarantees.
-  validateHexField(record.payload_nonce, "payload_nonce", 12);
-  validateHexField(record.dek_wrap_nonce, "dek_wrap_nonce", 12);
-
-  // ── Validate auth tags (must be exactly 16 bytes = 32 hex chars) ────
-  // GCM produces a 128-bit (16-byte) authentication tag by default.
+  throwIfInvalid(recordIssues(record));
+}
+
+/**
+ * Validates input that is not known to be a record — parsed JSON, a
+ * database row, a decoded envelope — checking its shape as well as every
+ * rule validateRecord() checks.
+ *
+ * @param input - The value to check
+ * @throws ValidationError listing every problem found
+ */
+export function validateRecordStrict(input: unknown): asserts input is TxSecureRecord {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    const message = "Record must be an object";
+    throw new ValidationError(message, [{ field: "", message }]);
+  }
+
+  // Rules on a field that already has the wrong shape would only repeat it
+  const issues = shapeIssues(input as Record<string, unknown>);
+  const misshapen = new Set(issues.map((issue) => issue.field));
+  for (const issue of recordIssues(input as TxSecureRecord)) {
+    if (!misshapen.has(issue.field.replace(/\[.*$/, ""))) issues.push(issue);
+  }
+
+  throwIfInvalid(issues);
+}
+
+/** Collects every rule violation in a record, in the order checked */
+function recordIssues(record: TxSecureRecord): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  // ── Validate algorithm identifier ──────────────────────────────────
+  // Checked first: the nonce and tag lengths below depend on it. An
+  // unknown algorithm's lengths are checked against the AES-256-GCM ones,
+  // which every supported algorithm shares.
+  if (!isRecordAlgorithm(record.alg)) {
+    issues.push({
+      field: "alg",
+      message: `Unsupported algorithm "${record.alg}" — supported: ${SUPPORTED_ALGORITHMS.join(", ")}`,
+    });
+  }
+  const spec = ALGORITHMS[isRecordAlgorithm(record.alg) ? record.alg : "AES-256-GCM"];
+
+  // ── Validate nonces (12 bytes = 24 hex chars for both AEADs) ────────
+  // GCM and RFC 8439 ChaCha20-Poly1305 both specify 96-bit nonces. Using
+  // a different size is technically possible but reduces security guarantees.
+  checkHexField(issues, record.payload_nonce, "payload_nonce", spec.nonceBytes);
+  checkHexField(issues, record.dek_wrap_nonce, "dek_wrap_nonce", spec.nonceBytes);
+
+  // ── Validate auth tags (16 bytes = 32 hex chars for both AEADs) ─────
+  // Both produce a 128-bit (16-byte) authentication tag by default.
   // A shorter tag would weaken integrity protection.
-  validateHexField(record.payload_tag, "payload_tag", 16);
-  validateHexField(record.dek_wrap_tag, "dek_wrap_tag", 16);
+  checkHexField(issues, record.payload_tag, "payload_tag", spec.tagBytes);
+  checkHexField(issues, record.dek_wrap_tag, "dek_wrap_tag", spec.tagBytes);
 
   // ── Validate ciphertext fields (must be valid hex, non-empty) ───────
-  validateHexFieldNonEmpty(record.payload_ct, "payload_ct");
-  validateHexFieldNonEmpty(record.dek_wrapped, "dek_wrapped");
+  // A streamed record's payload ciphertext lives outside the record.
+  if (record.alg === STREAM_ALG) {
+    if (record.payload_ct !== "") {
+      issues.push({
+        field: "payload_ct",
+        message: `payload_ct must be empty for "${STREAM_ALG}" records — the ciphertext is stored separately`,
+      });
+    }
+  } else {
+    checkHexFieldNonEmpty(issues, record.payload_ct, "payload_ct");
+  }
+  checkHexFieldNonEmpty(issues, record.dek_wrapped, "dek_wrapped");
 
-  // ── Validate algorithm identifier ──────────────────────────────────
-  if (record.alg !== "AES-256-GCM") {
-    throw new ValidationError(
-      `Unsupported algorithm "${record.alg}" — only "AES-256-GCM" is supported`
-    );
+  // ── Validate mk_version (0 on sealed records: no master key) ───────
+  if (record.recipient_key_id !== undefined || record.recipient_epk !== undefined) {
+    checkRecipient(issues, record);
+  } else if (typeof record.mk_version !== "number" || record.mk_version < 1) {
+    issues.push({
+      field: "mk_version",
+      message: `mk_version must be a positive number, got ${record.mk_version}`,
+    });
+  }
+
+  // ── Validate format_version (absent on legacy records) ─────────────
+  if (
+    record.format_version !== undefined &&
+    !SUPPORTED_RECORD_FORMATS.includes(record.format_version)
+  ) {
+    issues.push({
+      field: "format_version",
+      message: `Unsupported format_version ${record.format_version} — supported: ${SUPPORTED_RECORD_FORMATS.join(", ")}`,
+    });
+  }
+
+  // ── Validate expiresAt (records with a TTL only) ─────────────────────
+  if (record.expiresAt !== undefined) {
+    checkExpiresAt(issues, record);
+  }
+
+  // ── Validate kek_id (per-party key hierarchy only) ─────────────────
+  if (record.kek_id !== undefined && (typeof record.kek_id !== "string" || record.kek_id === "")) {
+    issues.push({ field: "kek_id", message: "kek_id must be a non-empty string when present" });
+  }
+
+  // ── Validate key_check (absent on older and sealed records) ─────────
+  if (record.key_check !== undefined) {
+    checkHexField(issues, record.key_check, "key_check", KEY_CHECK_BYTES);
+  }
+
+  // ── Validate signature (signed records only) ──────────────────────
+  checkSignature(issues, record);
+
+  // ── Validate field-level encryption components ─────────────────────
+  if (record.payload_clear !== undefined || record.payload_fields !== undefined) {
+    checkFieldComponents(issues, record, spec.nonceBytes, spec.tagBytes);
+  }
+
+  return issues;
+}
+
+function checkFieldComponents(
+  issues: ValidationIssue[],
+  record: TxSecureRecord,
+  nonceBytes: number,
+  tagBytes: number
+): void {
+  if (record.alg === STREAM_ALG || recordFormat(record) < RECORD_FORMAT_AAD) {
+    issues.push({
+      field: "payload_fields",
+      message: "Field-level encryption requires a non-streamed record with format_version 2 or later",
+    });
+  }
+
+  const clear = record.payload_clear;
+  if (typeof clear !== "object" || clear === null || Array.isArray(clear)) {
+    issues.push({
+      field: "payload_clear",
+      message: "payload_clear must be an object when payload_fields is present",
+    });
   }
 
-  // ── Validate mk_version ────────────────────────────────────────────
-  if (typeof record.mk_version !== "number" || record.mk_version < 1) {
-    throw new ValidationError(
-      `mk_version must be a positive number, got ${record.mk_version}`
-    );
+  const fields: unknown = record.payload_fields;
+  if (!Array.isArray(fields) || fields.length === 0) {
+    issues.push({
+      field: "payload_fields",
+      message: "payload_fields must be a non-empty array when payload_clear is present",
+    });
+    return;
+  }
+
+  const paths = new Set<string>();
+  fields.forEach((field: unknown, i) => {
+    const at = `payload_fields[${i}]`;
+    if (typeof field !== "object" || field === null) {
+      issues.push({ field: at, message: `${at} must be an object` });
+      return;
+    }
+
+    const { path, nonce, ct, tag } = field as Record<string, unknown>;
+    if (typeof path !== "string" || path === "") {
+      issues.push({ field: `${at}.path`, message: `${at}.path must be a non-empty string` });
+    } else if (paths.has(path)) {
+      issues.push({
+        field: `${at}.path`,
+        message: `payload_fields lists "${path}" more than once`,
+      });
+    } else {
+      paths.add(path);
+    }
+
+    checkHexField(issues, nonce, `${at}.nonce`, nonceBytes);
+    checkHexFieldNonEmpty(issues, ct, `${at}.ct`);
+    checkHexField(issues, tag, `${at}.tag`, tagBytes);
+  });
+}
+
+/** Matches the output of Date.prototype.toISOString(), which encrypt() writes */
+const ISO_TIMESTAMP_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/;
+
+function isIsoTimestamp(value: unknown): boolean {
+  return (
+    typeof value === "string" &&
+    ISO_TIMESTAMP_REGEX.test(value) &&
+    !Number.isNaN(Date.parse(value))
+  );
+}
+
+function checkExpiresAt(issues: ValidationIssue[], record: TxSecureRecord): void {
+  if (!isIsoTimestamp(record.expiresAt)) {
+    issues.push({
+      field: "expiresAt",
+      message: `expiresAt must be an ISO 8601 timestamp, got ${JSON.stringify(record.expiresAt)}`,
+    });
+  }
+  if (recordFormat(record) < RECORD_FORMAT_AAD) {
+    issues.push({
+      field: "expiresAt",
+      message: "expiresAt requires a record with format_version 2 or later",
+    });
+  }
+}
+
+/** Ed25519 signatures are always 64 bytes */
+const SIGNATURE_BYTES = 64;
+
+function checkSignature(issues: ValidationIssue[], record: TxSecureRecord): void {
+  if (record.signer_key_id === undefined && record.signature === undefined) return;
+
+  if (typeof record.signer_key_id !== "string" || record.signer_key_id === "") {
+    issues.push({
+      field: "signer_key_id",
+      message: "signer_key_id must be a non-empty string on a signed record",
+    });
+  }
+  if (record.signature === undefined) {
+    issues.push({
+      field: "signature",
+      message: "signature is required when signer_key_id is present",
+    });
+  } else {
+    checkHexField(issues, record.signature, "signature", SIGNATURE_BYTES);
+  }
+}
+
+/** X25519 public keys are always 32 bytes */
+const RECIPIENT_EPK_BYTES = 32;
+
+function checkRecipient(issues: ValidationIssue[], record: TxSecureRecord): void {
+  if (typeof record.recipient_key_id !== "string" || record.recipient_key_id === "") {
+    issues.push({
+      field: "recipient_key_id",
+      message: "recipient_key_id must be a non-empty string on a sealed record",
+    });
+  }
+  if (record.recipient_epk === undefined) {
+    issues.push({
+      field: "recipient_epk",
+      message: "recipient_epk is required when recipient_key_id is present",
+    });
+  } else {
+    checkHexField(issues, record.recipient_epk, "recipient_epk", RECIPIENT_EPK_BYTES);
+  }
+
+  if (record.mk_version !== SEALED_MK_VERSION) {
+    issues.push({
+      field: "mk_version",
+      message: `mk_version must be ${SEALED_MK_VERSION} on a sealed record, got ${record.mk_version}`,
+    });
+  }
+  if (record.kek_id !== undefined) {
+    issues.push({ field: "kek_id", message: "A sealed record cannot also have a kek_id" });
+  }
+  if (record.key_check !== undefined) {
+    issues.push({ field: "key_check", message: "A sealed record cannot have a key_check" });
+  }
+}
+
+// ── Record shape (validateRecordStrict only) ─────────────────────────
+
+type FieldRule = {
+  required: boolean;
+  type: "string" | "integer" | "object" | "array";
+};
+
+/** Every TxSecureRecord field: anything else in untrusted input is rejected */
+const RECORD_FIELDS: Readonly<Record<keyof TxSecureRecord, FieldRule>> = {
+  id: { required: true, type: "string" },
+  partyId: { required: true, type: "string" },
+  createdAt: { required: true, type: "string" },
+  expiresAt: { required: false, type: "string" },
+  payload_nonce: { required: true, type: "string" },
+  payload_ct: { required: true, type: "string" },
+  payload_tag: { required: true, type: "string" },
+  dek_wrap_nonce: { required: true, type: "string" },
+  dek_wrapped: { required: true, type: "string" },
+  dek_wrap_tag: { required: true, type: "string" },
+  key_check: { required: false, type: "string" },
+  alg: { required: true, type: "string" },
+  mk_version: { required: true, type: "integer" },
+  format_version: { required: false, type: "integer" },
+  payload_clear: { required: false, type: "object" },
+  payload_fields: { required: false, type: "array" },
+  kek_id: { required: false, type: "string" },
+  recipient_key_id: { required: false, type: "string" },
+  recipient_epk: { required: false, type: "string" },
+  signer_key_id: { required: false, type: "string" },
+  signature: { required: false, type: "string" },
+};
+
+/** Record ids are UUIDs (encrypt() writes crypto.randomUUID()) */
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Collects missing, unknown and mistyped fields, and checks id/partyId/createdAt */
+function shapeIssues(input: Record<string, unknown>): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  for (const field of Object.keys(input)) {
+    if (!Object.prototype.hasOwnProperty.call(RECORD_FIELDS, field)) {
+      issues.push({ field, message: `Unknown field "${field}"` });
+    }
+  }
+
+  for (const [field, rule] of Object.entries(RECORD_FIELDS)) {
+    const value = input[field];
+    if (value === undefined) {
+      if (rule.required) issues.push({ field, message: `${field} is required` });
+    } else if (!hasType(value, rule.type)) {
+      const article = rule.type === "string" ? "a" : "an";
+      issues.push({ field, message: `${field} must be ${article} ${rule.type}` });
+    }
+  }
+
+  // Identity fields: validateRecord() leaves these to the caller
+  if (typeof input.id === "string" && !UUID_REGEX.test(input.id)) {
+    issues.push({ field: "id", message: `id must be a UUID, got ${JSON.stringify(input.id)}` });
+  }
+  if (input.partyId === "") {
+    issues.push({ field: "partyId", message: "partyId must not be empty" });
+  }
+  if (typeof input.createdAt === "string" && !isIsoTimestamp(input.createdAt)) {
+    issues.push({
+      field: "createdAt",
+      message: `createdAt must be an ISO 8601 timestamp, got ${JSON.stringify(input.createdAt)}`,
+    });
+  }
+
+  return issues;
+}
+
+function hasType(value: unknown, type: FieldRule["type"]): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "integer":
+      return Number.isInteger(value);
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    case "array":
+      return Array.isArray(value);
   }
 }
@@ -1,6 +1,17 @@
 import * as dotenv from "dotenv";
 import { buildApp } from "./app";
 import { initStore } from "./store";
+import { getKeyring, promptKeyFilePassphrase } from "./keyring";
+import { initKeyProvider } from "./provider";
+import { initBlindIndexes } from "./blindIndex";
+import { initSigningKey } from "./signing";
+import { startExpirySweeper } from "./sweeper";
+import { startLedgerCheckpointer } from "./ledger";
+import { initCryptoPool } from "./pool";
+import { keyringVersions } from "./crypto";
+import { initApiAuth } from "./auth";
+import { initAuditLog } from "./audit";
+import { initRateLimits } from "./rateLimit";
 
 // Load environment variables from .env file (for local development)
 dotenv.config({ path: "../../.env" });
@@ -8,34 +19,122 @@ dotenv.config({ path: "../../.env" });
 /**
  * Standalone Fastify server entry point.
  *
- * Validates that the MASTER_KEY_HEX environment variable is set and correctly
- * formatted before starting the server. This is a "fail fast" approach —
+ * Validates that a master key (MASTER_KEY_HEX, MASTER_KEY_FILE) or keyring
+ * (MASTER_KEYRING, MASTER_KEYRING_FILE) — or a remote KMS (KEY_PROVIDER=http) — is configured
+ * and correctly formatted before starting the server. This is a "fail fast" approach —
  * better to crash on startup with a clear message than to fail silently
  * on the first request.
  */
 async function main(): Promise<void> {
-  // ── Validate MASTER_KEY_HEX ─────────────────────────────────────────────
-  const masterKey = process.env.MASTER_KEY_HEX;
+  // ── Set up the key provider (local keyring or remote KMS) ────────────
+  // An encrypted MASTER_KEY_FILE may need its passphrase typed in first.
+  let provider;
+  try {
+    await promptKeyFilePassphrase();
+    provider = initKeyProvider();
+  } catch (err) {
+    console.error(`❌ ${(err as Error).message}`);
+    process.exit(1);
+  }
 
-  if (!masterKey) {
-    console.error("❌ MASTER_KEY_HEX environment variable is not set.");
+  if (!provider) {
+    console.error(
+      "❌ No master key configured (MASTER_KEY_HEX, MASTER_KEY_FILE, MASTER_KEYRING or MASTER_KEYRING_FILE)."
+    );
     console.error("   Run: pnpm generate-master-key");
     console.error("   Then set MASTER_KEY_HEX in your .env file.");
     process.exit(1);
   }
 
-  if (masterKey.length !== 64 || !/^[0-9a-fA-F]+$/.test(masterKey)) {
-    console.error("❌ MASTER_KEY_HEX must be exactly 64 hex characters (32 bytes).");
-    console.error(`   Got ${masterKey.length} characters.`);
+  const keyring = getKeyring();
+  if (keyring) {
+    console.log(
+      `✅ Master keyring loaded (versions ${keyringVersions(keyring).join(", ")}; active ${keyring.activeVersion})`
+    );
+  } else {
+    console.log(`✅ Using remote key provider at ${process.env.KMS_URL}`);
+  }
+
+  // ── Blind-indexed fields for GET /tx/search ─────────────────────────
+  try {
+    const fields = initBlindIndexes();
+    if (fields.length > 0) console.log(`✅ Blind indexes enabled for: ${fields.join(", ")}`);
+  } catch (err) {
+    console.error(`❌ ${(err as Error).message}`);
+    process.exit(1);
+  }
+
+  // ── Record signing key (optional) ──────────────────────────────────
+  try {
+    const signingKey = initSigningKey();
+    if (signingKey) console.log(`✅ Signing records with Ed25519 key ${signingKey.keyId}`);
+  } catch (err) {
+    console.error(`❌ ${(err as Error).message}`);
+    process.exit(1);
+  }
+
+  // ── Admin API key (issues and revokes party keys) ───────────────────
+  try {
+    initApiAuth();
+    console.log("✅ Admin API key loaded");
+  } catch (err) {
+    console.error(`❌ ${(err as Error).message}`);
+    process.exit(1);
+  }
+
+  // ── Decrypt rate limits and tamper lockouts ─────────────────────────
+  try {
+    const limits = initRateLimits();
+    const describe = (limit: { capacity: number; windowSeconds: number } | null) =>
+      limit ? `${limit.capacity}/${limit.windowSeconds}s` : "off";
+    console.log(
+      `✅ Decrypt rate limits: ${describe(limits.ip)} per IP, ${describe(limits.party)} per party, ` +
+        `${describe(limits.record)} per record`
+    );
+  } catch (err) {
+    console.error(`❌ ${(err as Error).message}`);
     process.exit(1);
   }
 
-  console.log("✅ MASTER_KEY_HEX loaded and validated (32 bytes)");
+  // ── Worker threads for encrypt/decrypt (optional) ──────────────────
+  try {
+    const pool = initCryptoPool();
+    if (pool) console.log(`✅ Crypto pool started with ${pool.size} worker thread(s)`);
+  } catch (err) {
+    console.error(`❌ ${(err as Error).message}`);
+    process.exit(1);
+  }
 
   // ── Initialize store (Supabase PostgreSQL) ─────────────────────────
   await initStore();
   console.log("✅ Store initialized");
 
+  // ── Audit log sink (needs the store for AUDIT_SINK=supabase) ───────
+  try {
+    console.log(`✅ Audit log sink: ${initAuditLog()}`);
+  } catch (err) {
+    console.error(`❌ ${(err as Error).message}`);
+    process.exit(1);
+  }
+
+  // ── Delete records past their expiresAt ────────────────────────────
+  try {
+    const interval = startExpirySweeper();
+    if (interval !== null) console.log(`✅ Sweeping expired records every ${interval}s`);
+  } catch (err) {
+    console.error(`❌ ${(err as Error).message}`);
+    process.exit(1);
+  }
+
+  // ── Sign ledger checkpoints (needs the signing key) ─────────────────
+  try {
+    const interval = startLedgerCheckpointer();
+    if (interval !== null) console.log(`✅ Signing ledger checkpoints every ${interval}s`);
+  } catch (err) {
+    console.error(`❌ ${(err as Error).message}`);
+    process.exit(1);
+  }
+
   // ── Start server ────────────────────────────────────────────────────
   const app = await buildApp();
   const port = parseInt(process.env.PORT || "3001", 10);
@@ -0,0 +1,151 @@
+import * as fs from "fs";
+import { createKeyring, decryptKeyFile, parseKeyring, promptPassphrase, Keyring } from "./crypto";
+
+/**
+ * Master keyring loaded from the environment.
+ *
+ * Sources, in order of precedence:
+ *   MASTER_KEY_FILE     — path to a passphrase-protected key file (written by
+ *                         `pnpm --filter @repo/crypto keygen --out`) holding a
+ *                         single key or keyring JSON. The passphrase comes from
+ *                         MASTER_KEY_PASSPHRASE, MASTER_KEY_PASSPHRASE_FD (an
+ *                         open file descriptor, e.g. `3<passphrase.txt`), or a
+ *                         prompt when the server is started on a terminal
+ *   MASTER_KEYRING_FILE — path to a keyring JSON file
+ *   MASTER_KEYRING      — keyring JSON inline, e.g.
+ *                         {"activeVersion":2,"keys":{"1":"<hex>","2":"<hex>"}}
+ *   MASTER_KEY_HEX      — a single key, registered as MASTER_KEY_VERSION (default 1)
+ *
+ * To rotate without downtime, add the new version to the keyring, make it
+ * active, and keep the old versions until every record has been re-wrapped.
+ */
+
+let keyring: Keyring | null = null;
+let keyFilePassphrase: string | null = null;
+
+/**
+ * Load the keyring from the environment. Must be called once before any
+ * encrypt/decrypt request (called by initKeyProvider() for KEY_PROVIDER=local).
+ *
+ * @returns The loaded keyring, or null if no master key is configured
+ * @throws Error with a descriptive message if the configuration is invalid
+ */
+export function initKeyring(): Keyring | null {
+  keyring = loadKeyring();
+  return keyring;
+}
+
+/** The keyring loaded by initKeyring(), or null if none is configured */
+export function getKeyring(): Keyring | null {
+  return keyring;
+}
+
+/**
+ * Asks for the MASTER_KEY_FILE passphrase on the terminal, unless no key
+ * file is configured, the passphrase comes from the environment, or stdin
+ * is not a TTY. Interactive entry points call this before initKeyProvider().
+ */
+export async function promptKeyFilePassphrase(): Promise<void> {
+  const file = process.env.MASTER_KEY_FILE;
+  if (!file || keyFilePassphrase !== null || !process.stdin.isTTY) return;
+  if (process.env.MASTER_KEY_PASSPHRASE || process.env.MASTER_KEY_PASSPHRASE_FD) return;
+
+  keyFilePassphrase = await promptPassphrase(`🔐 Passphrase for ${file}: `);
+}
+
+function loadKeyring(): Keyring | null {
+  const keyFile = process.env.MASTER_KEY_FILE;
+  if (keyFile) {
+    let contents: string;
+    try {
+      contents = fs.readFileSync(keyFile, "utf-8");
+    } catch (err) {
+      throw new Error(`Cannot read MASTER_KEY_FILE "${keyFile}": ${(err as Error).message}`);
+    }
+
+    let secret: string;
+    try {
+      secret = decryptKeyFile(contents, readKeyFilePassphrase()).trim();
+    } catch (err) {
+      throw new Error(`Cannot open MASTER_KEY_FILE "${keyFile}": ${(err as Error).message}`);
+    } finally {
+      // Only needed to open the file; don't keep it around for the process lifetime
+      keyFilePassphrase = null;
+    }
+    // The file holds either keyring JSON or a single hex key
+    return withSource(
+      () =>
+        secret.startsWith("{")
+          ? parseKeyring(secret)
+          : createKeyring({ [masterKeyVersion()]: secret }),
+      "MASTER_KEY_FILE"
+    );
+  }
+
+  const file = process.env.MASTER_KEYRING_FILE;
+  if (file) {
+    let contents: string;
+    try {
+      contents = fs.readFileSync(file, "utf-8");
+    } catch (err) {
+      throw new Error(`Cannot read MASTER_KEYRING_FILE "${file}": ${(err as Error).message}`);
+    }
+    return withSource(() => parseKeyring(contents), "MASTER_KEYRING_FILE");
+  }
+
+  const inline = process.env.MASTER_KEYRING;
+  if (inline) {
+    return withSource(() => parseKeyring(inline), "MASTER_KEYRING");
+  }
+
+  const masterKey = process.env.MASTER_KEY_HEX;
+  if (masterKey) {
+    return withSource(() => createKeyring({ [masterKeyVersion()]: masterKey }), "MASTER_KEY_HEX");
+  }
+
+  return null;
+}
+
+/** Version a single master key is registered as */
+function masterKeyVersion(): number {
+  return parseInt(process.env.MASTER_KEY_VERSION || "1", 10);
+}
+
+/** The key file passphrase: prompted for, or read once from the environment */
+function readKeyFilePassphrase(): string {
+  if (keyFilePassphrase !== null) return keyFilePassphrase;
+
+  const fromEnv = process.env.MASTER_KEY_PASSPHRASE;
+  if (fromEnv) {
+    keyFilePassphrase = fromEnv;
+    return keyFilePassphrase;
+  }
+
+  const fd = process.env.MASTER_KEY_PASSPHRASE_FD;
+  if (fd) {
+    const descriptor = parseInt(fd, 10);
+    if (!Number.isInteger(descriptor) || descriptor < 0) {
+      throw new Error(`MASTER_KEY_PASSPHRASE_FD must be a file descriptor number, got "${fd}"`);
+    }
+    try {
+      // The descriptor can only be read once (e.g. a pipe)
+      keyFilePassphrase = fs.readFileSync(descriptor, "utf-8").replace(/\r?\n$/, "");
+      fs.closeSync(descriptor);
+    } catch (err) {
+      throw new Error(`Cannot read MASTER_KEY_PASSPHRASE_FD ${descriptor}: ${(err as Error).message}`);
+    }
+    return keyFilePassphrase;
+  }
+
+  throw new Error(
+    "No passphrase: set MASTER_KEY_PASSPHRASE or MASTER_KEY_PASSPHRASE_FD, or start the server on a terminal"
+  );
+}
+
+function withSource(load: () => Keyring, source: string): Keyring {
+  try {
+    return load();
+  } catch (err) {
+    throw new Error(`Invalid ${source}: ${(err as Error).message}`);
+  }
+}
@@ -0,0 +1,458 @@
+import {
+  LedgerCheckpoint,
+  LedgerEntry,
+  SigningPublicKeys,
+  createMerkleAccumulator,
+  ledgerRecordHash,
+  merkleInclusionProof,
+  signLedgerCheckpoint,
+  verifyLedgerChain,
+  verifyLedgerCheckpoint,
+} from "./crypto";
+import { getSigningKey, getSigningPublicKeys } from "./signing";
+import {
+  findLedgerEntry,
+  getLatestLedgerCheckpoint,
+  getLedgerHead,
+  getRecord,
+  listLedgerCheckpoints,
+  saveLedgerCheckpoint,
+  scanLedgerEntries,
+  scanRecords,
+} from "./store";
+
+/**
+ * Tamper-evident ledger over the `transactions` table.
+ *
+ * The store appends an entry to a hash chain for every record it inserts,
+ * re-wraps or deletes (see createLedgerEntry()). This module adds:
+ *   - signed checkpoints: the Merkle root of the ledger so far, signed with
+ *     the record signing key (SIGNING_KEY) on an interval
+ *   - verifyLedger(): walks the chain, checks every checkpoint against it
+ *     and every stored record against its latest entry
+ *   - proveInclusion(): a Merkle inclusion proof of a record's entry
+ *     against the latest checkpoint
+ *
+ *   LEDGER_CHECKPOINT_INTERVAL_SECONDS — seconds between checkpoints
+ *                                        (default 300; 0 disables them)
+ *
+ * Checkpoints need a signing key; without one the checkpointer does not
+ * start. Like the expiry sweeper it runs in the standalone server only;
+ * serverless deployments can checkpoint with POST /admin/ledger/checkpoint.
+ *
+ * Checkpoints and proofs recompute the tree from every entry, which is
+ * fine at this scale; a larger ledger would store the tree's inner nodes.
+ */
+
+const DEFAULT_INTERVAL_SECONDS = 300;
+
+/** Entries and records read per store call */
+const BATCH_SIZE = 500;
+
+/** Why verifyLedger() found the ledger invalid */
+export type LedgerBreakReason =
+  | "gap"
+  | "out-of-order"
+  | "altered-entry"
+  | "broken-link"
+  | "checkpoint-mismatch"
+  | "checkpoint-signature"
+  | "truncated"
+  | "missing-record"
+  | "altered-record"
+  | "unledgered-record";
+
+export type LedgerReport = {
+  valid: boolean;
+
+  /** Ledger entries checked */
+  entries: number;
+
+  /** Checkpoints checked against the entries */
+  checkpoints: number;
+
+  /** Stored records checked against their latest entry */
+  records: number;
+
+  /**
+   * Stored records with no ledger entry, created before the ledger's first
+   * entry (written before the ledger existed). One created later is a break.
+   */
+  unledgeredRecords: number;
+
+  /** The first problem found, or null if the ledger is valid */
+  break: {
+    reason: LedgerBreakReason;
+    /** The entry (or checkpoint size) at which it was found */
+    seq?: number;
+    recordId?: string;
+    message: string;
+  } | null;
+};
+
+/** A record's latest entry, provably in the tree of a signed checkpoint */
+export type LedgerInclusionProof = {
+  entry: LedgerEntry;
+
+  /** The entry's leaf index in the tree: seq − 1 */
+  leafIndex: number;
+
+  /** Sibling hashes for verifyMerkleInclusion() */
+  proof: string[];
+
+  checkpoint: LedgerCheckpoint;
+};
+
+let timer: NodeJS.Timeout | null = null;
+let running: Promise<LedgerCheckpoint | null> | null = null;
+
+/**
+ * Start checkpointing on an interval. Must be called after initStore() and
+ * initSigningKey().
+ *
+ * @returns The interval in seconds, or null if checkpoints are disabled or
+ *          no signing key is configured
+ * @throws Error if LEDGER_CHECKPOINT_INTERVAL_SECONDS is not a non-negative integer
+ */
+export function startLedgerCheckpointer(): number | null {
+  const raw = process.env.LEDGER_CHECKPOINT_INTERVAL_SECONDS;
+  const seconds = raw === undefined || raw === "" ? DEFAULT_INTERVAL_SECONDS : Number(raw);
+  if (!Number.isSafeInteger(seconds) || seconds < 0) {
+    throw new Error(
+      `LEDGER_CHECKPOINT_INTERVAL_SECONDS must be a non-negative integer, got "${raw}"`
+    );
+  }
+
+  stopLedgerCheckpointer();
+  if (seconds === 0 || !getSigningKey()) return null;
+
+  timer = setInterval(() => {
+    checkpointLedger().catch((err) => {
+      console.error("Ledger checkpoint failed:", err);
+    });
+  }, seconds * 1000);
+  // Never keep the process alive just for the checkpointer
+  timer.unref();
+  return seconds;
+}
+
+/** Stop the interval started by startLedgerCheckpointer() */
+export function stopLedgerCheckpointer(): void {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
+
+/**
+ * Sign a checkpoint over every entry so far. A checkpoint that is still
+ * being written is joined rather than started twice.
+ *
+ * @returns The new checkpoint, or null if nothing was appended since the last one
+ * @throws Error if no signing key is configured
+ */
+export function checkpointLedger(): Promise<LedgerCheckpoint | null> {
+  if (!running) {
+    running = checkpoint().finally(() => {
+      running = null;
+    });
+  }
+  return running;
+}
+
+async function checkpoint(): Promise<LedgerCheckpoint | null> {
+  const signingKey = getSigningKey();
+  if (!signingKey) {
+    throw new Error("Ledger checkpoints are signed with SIGNING_KEY, which is not configured");
+  }
+
+  const head = await getLedgerHead();
+  const latest = await getLatestLedgerCheckpoint();
+  if (!head || (latest && latest.treeSize >= head.seq)) return null;
+
+  // Entries appended meanwhile are left for the next checkpoint
+  const accumulator = createMerkleAccumulator();
+  let last: LedgerEntry | null = null;
+  while (accumulator.size < head.seq) {
+    const batch = await scanLedgerEntries(
+      accumulator.size,
+      Math.min(BATCH_SIZE, head.seq - accumulator.size)
+    );
+    const broken = verifyLedgerChain(batch, last);
+    if (broken) throw new Error(`Refusing to checkpoint a broken ledger: ${broken.message}`);
+    if (batch.length === 0) break;
+    for (const entry of batch) accumulator.add(entry.entry_hash);
+    last = batch[batch.length - 1];
+  }
+  if (!last || last.seq !== head.seq) {
+    throw new Error(`Refusing to checkpoint a broken ledger: entry ${head.seq} is missing`);
+  }
+
+  const signed = signLedgerCheckpoint(
+    { treeSize: head.seq, root: accumulator.root(), head_hash: last.entry_hash },
+    signingKey
+  );
+  await saveLedgerCheckpoint(signed);
+  return signed;
+}
+
+/**
+ * Verify the whole ledger: the hash chain, every checkpoint (signature,
+ * root and head) and every stored record against its latest entry. Stops
+ * at the first problem.
+ */
+export async function verifyLedger(): Promise<LedgerReport> {
+  const report: LedgerReport = {
+    valid: false,
+    entries: 0,
+    checkpoints: 0,
+    records: 0,
+    unledgeredRecords: 0,
+    break: null,
+  };
+
+  const checkpoints = await listLedgerCheckpoints();
+  const publicKeys: SigningPublicKeys = Object.fromEntries(
+    getSigningPublicKeys().map((key) => [key.keyId, key.publicKey])
+  );
+
+  // Latest entry per record, as the chain is walked
+  const latest = new Map<string, LedgerEntry>();
+  const accumulator = createMerkleAccumulator();
+  let last: LedgerEntry | null = null;
+  let firstEntry: LedgerEntry | null = null;
+
+  /** Walks entries after `last`; returns false at the first break */
+  async function walk(): Promise<boolean> {
+    for (;;) {
+      const batch = await scanLedgerEntries(last?.seq ?? 0, BATCH_SIZE);
+      const broken = verifyLedgerChain(batch, last);
+      if (broken) {
+        report.break = { reason: broken.reason, seq: broken.seq, message: broken.message };
+        return false;
+      }
+
+      for (const entry of batch) {
+        firstEntry ??= entry;
+        accumulator.add(entry.entry_hash);
+        latest.set(entry.recordId, entry);
+        report.entries++;
+        while (checkpoints[report.checkpoints]?.treeSize === entry.seq) {
+          const problem = checkCheckpoint(
+            checkpoints[report.checkpoints],
+            entry,
+            accumulator.root(),
+            publicKeys
+          );
+          if (problem) {
+            report.break = problem;
+            return false;
+          }
+          report.checkpoints++;
+        }
+      }
+
+      if (batch.length > 0) last = batch[batch.length - 1];
+      if (batch.length < BATCH_SIZE) return true;
+    }
+  }
+
+  // ── Hash chain and checkpoints ────────────────────────────────────
+  if (!(await walk())) return report;
+
+  // A checkpoint beyond the end: entries were cut off the tail
+  const beyond = checkpoints[report.checkpoints];
+  if (beyond) {
+    report.break = {
+      reason: "truncated",
+      seq: beyond.treeSize,
+      message: `A checkpoint covers ${beyond.treeSize} entries, but the ledger has only ${report.entries}`,
+    };
+    return report;
+  }
+
+  // ── Stored records ────────────────────────────────────────────────
+  const mismatched = new Map<string, NonNullable<LedgerReport["break"]>>();
+  // Unledgered record ids, with their creation time
+  const unledgered = new Map<string, string>();
+  const seen = new Set<string>();
+  let afterId: string | null = null;
+  const invalid = new Set<string>();
+  for (;;) {
+    const batch = await scanRecords(afterId, BATCH_SIZE);
+    for (const record of batch.records) {
+      report.records++;
+      seen.add(record.id);
+      const entry = latest.get(record.id);
+      if (!entry) unledgered.set(record.id, record.createdAt);
+      else {
+        const problem = checkRecord(record.id, entry, ledgerRecordHash(record));
+        if (problem) mismatched.set(record.id, problem);
+      }
+    }
+    // A row that no longer parses as a record was altered in the store
+    for (const { id, error } of batch.invalid) {
+      report.records++;
+      seen.add(id);
+      invalid.add(id);
+      mismatched.set(id, {
+        reason: "altered-record",
+        seq: latest.get(id)?.seq,
+        recordId: id,
+        message: error,
+      });
+    }
+    if (!batch.last || batch.rows < BATCH_SIZE) break;
+    afterId = batch.last.id;
+  }
+  for (const [recordId, entry] of latest) {
+    if (entry.op !== "delete" && !seen.has(recordId)) {
+      mismatched.set(recordId, {
+        reason: "missing-record",
+        seq: entry.seq,
+        recordId,
+        message: `Record ${recordId} (ledger entry ${entry.seq}) is not in the store`,
+      });
+    }
+  }
+
+  // Writes that landed while the records were scanned: their entries are
+  // past the walk, so catch up and recheck the records they touched
+  const before = report.entries;
+  if (!(await walk())) return report;
+  if (report.entries > before) {
+    for (const recordId of [...mismatched.keys(), ...unledgered.keys()]) {
+      const entry = latest.get(recordId);
+      if (!entry || entry.seq <= before || invalid.has(recordId)) continue;
+      mismatched.delete(recordId);
+      unledgered.delete(recordId);
+      const record = await getRecord(recordId);
+      const problem = record
+        ? checkRecord(recordId, entry, ledgerRecordHash(record))
+        : checkRecord(recordId, entry, undefined);
+      if (problem) mismatched.set(recordId, problem);
+    }
+  }
+
+  // Only records from before the ledger may lack an entry: every write
+  // since has committed together with its entry
+  const ledgerStart = firstEntry === null ? null : Date.parse(firstEntry.createdAt);
+  for (const [recordId, createdAt] of unledgered) {
+    if (ledgerStart === null || Date.parse(createdAt) < ledgerStart) {
+      report.unledgeredRecords++;
+      continue;
+    }
+    mismatched.set(recordId, {
+      reason: "unledgered-record",
+      recordId,
+      message: `Record ${recordId} was created after the ledger started but has no ledger entry`,
+    });
+  }
+
+  const earliest = [...mismatched.values()].sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0))[0];
+  report.break = earliest ?? null;
+  report.valid = !earliest;
+  return report;
+}
+
+function checkCheckpoint(
+  checkpoint: LedgerCheckpoint,
+  head: LedgerEntry,
+  root: string,
+  publicKeys: SigningPublicKeys
+): LedgerReport["break"] {
+  let signed: boolean;
+  try {
+    signed = verifyLedgerCheckpoint(checkpoint, publicKeys);
+  } catch (err) {
+    return {
+      reason: "checkpoint-signature",
+      seq: checkpoint.treeSize,
+      message: `Checkpoint over ${checkpoint.treeSize} entries cannot be verified: ${(err as Error).message}`,
+    };
+  }
+  if (!signed) {
+    return {
+      reason: "checkpoint-signature",
+      seq: checkpoint.treeSize,
+      message: `Checkpoint over ${checkpoint.treeSize} entries has an invalid signature`,
+    };
+  }
+  if (checkpoint.root !== root || checkpoint.head_hash !== head.entry_hash) {
+    return {
+      reason: "checkpoint-mismatch",
+      seq: checkpoint.treeSize,
+      message: `Ledger entries 1–${checkpoint.treeSize} no longer match their signed checkpoint`,
+    };
+  }
+  return null;
+}
+
+/** Compares a record (or its absence) with its latest entry */
+function checkRecord(
+  recordId: string,
+  entry: LedgerEntry,
+  recordHash: string | undefined
+): LedgerReport["break"] {
+  if (entry.op === "delete") {
+    return recordHash === undefined
+      ? null
+      : {
+          reason: "altered-record",
+          seq: entry.seq,
+          recordId,
+          message: `Record ${recordId} was deleted at ledger entry ${entry.seq} but is in the store`,
+        };
+  }
+  if (recordHash === undefined) {
+    return {
+      reason: "missing-record",
+      seq: entry.seq,
+      recordId,
+      message: `Record ${recordId} (ledger entry ${entry.seq}) is not in the store`,
+    };
+  }
+  if (recordHash !== entry.record_hash) {
+    return {
+      reason: "altered-record",
+      seq: entry.seq,
+      recordId,
+      message: `Record ${recordId} does not match its ledger entry ${entry.seq}`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Merkle inclusion proof of a record's latest entry covered by the latest
+ * checkpoint.
+ *
+ * @returns The proof, or undefined if there is no checkpoint yet or it
+ *          covers no entry for the record
+ */
+export async function proveInclusion(recordId: string): Promise<LedgerInclusionProof | undefined> {
+  const checkpoint = await getLatestLedgerCheckpoint();
+  if (!checkpoint) return undefined;
+
+  const entry = await findLedgerEntry(recordId, checkpoint.treeSize);
+  if (!entry) return undefined;
+
+  const entryHashes: string[] = [];
+  while (entryHashes.length < checkpoint.treeSize) {
+    const batch = await scanLedgerEntries(
+      entryHashes.length,
+      Math.min(BATCH_SIZE, checkpoint.treeSize - entryHashes.length)
+    );
+    if (batch.length === 0) {
+      throw new Error(
+        `The ledger has ${entryHashes.length} entries, fewer than its latest checkpoint covers`
+      );
+    }
+    for (const ledgerEntry of batch) entryHashes.push(ledgerEntry.entry_hash);
+  }
+
+  return {
+    entry,
+    leafIndex: entry.seq - 1,
+    proof: merkleInclusionProof(entryHashes, entry.seq - 1),
+    checkpoint,
+  };
+}
@@ -0,0 +1,47 @@
+import { CryptoPool, createCryptoPool, DEFAULT_POOL_MAX_QUEUE } from "./crypto";
+
+/**
+ * Worker-thread pool for encrypt/decrypt requests (see createCryptoPool()).
+ *
+ *   CRYPTO_POOL_SIZE      — worker threads (unset or 0: no pool; requests
+ *                           are encrypted and decrypted on the event loop)
+ *   CRYPTO_POOL_MAX_QUEUE — requests allowed to wait for a free worker
+ *                           (default 1000); beyond that the API answers 503
+ *
+ * With a pool, a large payload no longer stalls every other request while
+ * it is encrypted. Master keys stay in the main thread: the key provider
+ * still wraps and unwraps DEKs, workers only see one record's DEK at a time.
+ * Records sealed to a party's public key are always encrypted inline.
+ */
+
+let pool: CryptoPool | null = null;
+
+/**
+ * Start the pool configured in the environment. Called once from the server
+ * entry point; serverless deployments run without one.
+ *
+ * @returns The pool, or null if it is disabled
+ * @throws Error if CRYPTO_POOL_SIZE or CRYPTO_POOL_MAX_QUEUE is not a non-negative integer
+ */
+export function initCryptoPool(): CryptoPool | null {
+  const size = readCount("CRYPTO_POOL_SIZE", 0);
+  const maxQueue = readCount("CRYPTO_POOL_MAX_QUEUE", DEFAULT_POOL_MAX_QUEUE);
+
+  void pool?.close();
+  pool = size === 0 ? null : createCryptoPool({ size, maxQueue });
+  return pool;
+}
+
+/** The pool started by initCryptoPool(), or null if requests run inline */
+export function getCryptoPool(): CryptoPool | null {
+  return pool;
+}
+
+function readCount(name: string, fallback: number): number {
+  const raw = process.env[name];
+  const value = raw === undefined || raw === "" ? fallback : Number(raw);
+  if (!Number.isSafeInteger(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative integer, got "${raw}"`);
+  }
+  return value;
+}
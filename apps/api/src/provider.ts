@@ -0,0 +1,104 @@
+import {
+  createHttpKeyProvider,
+  createLocalKeyProvider,
+  createPartyKeyProvider,
+  DEFAULT_ALGORITHM,
+  EnvelopeAlgorithm,
+  KeyProvider,
+} from "./crypto";
+import { initKeyring } from "./keyring";
+import { partyKeyStore } from "./store";
+
+/**
+ * KeyProvider selection — who wraps and unwraps DEKs for the API.
+ *
+ *   KEY_PROVIDER=local (default) — the master keyring is loaded into this
+ *     process (see keyring.ts) and DEKs are wrapped in-process.
+ *   KEY_PROVIDER=http — DEKs are wrapped by a KMS at KMS_URL (optionally
+ *     authenticated with KMS_TOKEN). The master key never enters this
+ *     process; run `pnpm --filter @repo/crypto mock-kms` for a local one.
+ *
+ * ENCRYPTION_ALG picks the AEAD for new records when a request doesn't:
+ * "AES-256-GCM" (default) or "ChaCha20-Poly1305" for hosts without AES-NI.
+ *
+ * PARTY_KEKS=true puts a per-party key-encryption key between the master key
+ * and the DEKs of new records (see createPartyKeyProvider()), so
+ * DELETE /parties/:partyId/keys can crypto-shred one party. Existing records
+ * stay wrapped by the master key.
+ */
+
+export type KeyProviderKind = "local" | "http";
+
+let provider: KeyProvider | null = null;
+let providerKind: KeyProviderKind = "local";
+let defaultAlgorithm: EnvelopeAlgorithm = DEFAULT_ALGORITHM;
+let partyKeks = false;
+
+/** Algorithms a deployment or request may choose for new records */
+export const ENCRYPTION_ALGORITHMS: readonly EnvelopeAlgorithm[] = [
+  "AES-256-GCM",
+  "ChaCha20-Poly1305",
+];
+
+/**
+ * Set up the key provider from the environment. Must be called once before
+ * any encrypt/decrypt request (called from the server entry point).
+ *
+ * @returns The provider, or null if no master key is configured
+ * @throws Error with a descriptive message if the configuration is invalid
+ */
+export function initKeyProvider(): KeyProvider | null {
+  const alg = process.env.ENCRYPTION_ALG || DEFAULT_ALGORITHM;
+  if (!ENCRYPTION_ALGORITHMS.includes(alg as EnvelopeAlgorithm)) {
+    throw new Error(
+      `Unknown ENCRYPTION_ALG "${alg}" — expected one of: ${ENCRYPTION_ALGORITHMS.join(", ")}`
+    );
+  }
+  defaultAlgorithm = alg as EnvelopeAlgorithm;
+  partyKeks = process.env.PARTY_KEKS === "true";
+
+  const kind = process.env.KEY_PROVIDER || "local";
+
+  if (kind === "http") {
+    const url = process.env.KMS_URL;
+    if (!url) {
+      throw new Error("KEY_PROVIDER=http requires KMS_URL");
+    }
+    providerKind = "http";
+    provider = withPartyKeks(createHttpKeyProvider({ url, token: process.env.KMS_TOKEN }));
+    return provider;
+  }
+
+  if (kind !== "local") {
+    throw new Error(`Unknown KEY_PROVIDER "${kind}" — expected "local" or "http"`);
+  }
+
+  const keyring = initKeyring();
+  providerKind = "local";
+  provider = keyring ? withPartyKeks(createLocalKeyProvider(keyring)) : null;
+  return provider;
+}
+
+function withPartyKeks(master: KeyProvider): KeyProvider {
+  return partyKeks ? createPartyKeyProvider(master, partyKeyStore) : master;
+}
+
+/** The provider set up by initKeyProvider(), or null if none is configured */
+export function getKeyProvider(): KeyProvider | null {
+  return provider;
+}
+
+/** Which kind of provider is in use */
+export function getKeyProviderKind(): KeyProviderKind {
+  return providerKind;
+}
+
+/** Whether new records are wrapped by per-party KEKs (PARTY_KEKS=true) */
+export function partyKeksEnabled(): boolean {
+  return partyKeks;
+}
+
+/** Algorithm for new records when the request doesn't choose one */
+export function getDefaultAlgorithm(): EnvelopeAlgorithm {
+  return defaultAlgorithm;
+}
@@ -0,0 +1,355 @@
+import { FastifyReply } from "fastify";
+
+/**
+ * Rate limits and lockouts for POST /tx/:id/decrypt.
+ *
+ *   DECRYPT_RATE_LIMIT_PER_IP      — "<requests>/<seconds>" per client IP
+ *                                    (default 60/60)
+ *   DECRYPT_RATE_LIMIT_PER_PARTY   — per party that owns the record
+ *                                    (default 300/60)
+ *   DECRYPT_RATE_LIMIT_PER_RECORD  — per record (default 10/60)
+ *   DECRYPT_LOCKOUT_THRESHOLD      — failures that lock out an IP or record
+ *                                    (default 5; 0 disables)
+ *   DECRYPT_LOCKOUT_WINDOW_SECONDS — window the failures are counted in
+ *                                    (default 600)
+ *   DECRYPT_LOCKOUT_SECONDS        — how long a lockout lasts (default 900)
+ *
+ * A limit of "0" disables that bucket. Each limit is a token bucket: it
+ * holds up to <requests> tokens, refills at <requests> per <seconds>, and
+ * every decrypt attempt takes one token. Buckets are taken narrowest first
+ * (record, party, IP) and the first empty one answers 429; tokens already
+ * taken from narrower buckets stay spent.
+ *
+ * Lockouts count only what their subject is to blame for, and last a
+ * while — even the admin key gets 429 until one ends:
+ *   - a record is locked out after repeated TamperedDataErrors. The stored
+ *     record failed authentication, which says nothing about the caller,
+ *     so the client IP is not counted.
+ *   - a client IP is locked out after repeated attempts with a key for the
+ *     wrong party. The record is not counted, so no one can lock its
+ *     owner out.
+ *
+ * Counters live in a RateLimitStore. The default one is in memory, so
+ * each process (and each serverless instance) counts on its own; a shared
+ * backend only has to implement the interface.
+ */
+
+/** A token bucket's size and refill rate */
+export type RateLimit = {
+  /** Tokens in a full bucket (the burst allowed) */
+  capacity: number;
+
+  /** Seconds to refill an empty bucket */
+  windowSeconds: number;
+};
+
+/** A bucket's state after taking a token from it */
+export type BucketState = {
+  /** Whether a token was taken */
+  allowed: boolean;
+
+  /** Whole tokens left */
+  remaining: number;
+
+  /** Seconds until the bucket is full again */
+  resetSeconds: number;
+
+  /** Seconds until the next token (0 if one is available now) */
+  retryAfterSeconds: number;
+};
+
+/** Where buckets, tamper counts and lockouts are kept */
+export type RateLimitStore = {
+  /** Refill bucket `key` up to `now`, then take one token if there is one */
+  take(key: string, limit: RateLimit, now: number): Promise<BucketState>;
+
+  /**
+   * Count one failure against `key`.
+   *
+   * @returns Failures within the last `windowMs`, this one included
+   */
+  strike(key: string, windowMs: number, now: number): Promise<number>;
+
+  /** Lock `key` out until `until` (ms since the epoch) */
+  lock(key: string, until: number): Promise<void>;
+
+  /** When the lockout on `key` ends, or null if it is not locked out */
+  lockedUntil(key: string, now: number): Promise<number | null>;
+};
+
+/** Limits read by initRateLimits() */
+export type DecryptLimits = {
+  ip: RateLimit | null;
+  party: RateLimit | null;
+  record: RateLimit | null;
+
+  /** Failures that trigger a lockout (0: never) */
+  lockoutThreshold: number;
+  lockoutWindowSeconds: number;
+  lockoutSeconds: number;
+};
+
+/** Whether a decrypt attempt may go ahead, and the headers describing it */
+export type Throttle =
+  | { limited: false; bucket: BucketState & RateLimit }
+  | {
+      limited: true;
+      reason: "rate-limited" | "locked-out";
+      error: string;
+      retryAfterSeconds: number;
+      bucket: (BucketState & RateLimit) | null;
+    };
+
+const DEFAULT_LIMITS: DecryptLimits = {
+  ip: { capacity: 60, windowSeconds: 60 },
+  party: { capacity: 300, windowSeconds: 60 },
+  record: { capacity: 10, windowSeconds: 60 },
+  lockoutThreshold: 5,
+  lockoutWindowSeconds: 600,
+  lockoutSeconds: 900,
+};
+
+/**
+ * Keys the memory store keeps of each kind (buckets, strikes, lockouts).
+ * At the cap it drops idle ones, then the least recently used.
+ */
+const MEMORY_STORE_MAX_KEYS = 10_000;
+
+let limits: DecryptLimits | null = null;
+let store: RateLimitStore = createMemoryRateLimitStore();
+
+/**
+ * Read the limits from the environment. Until this is called, decrypts
+ * are not limited (called from the server entry point).
+ *
+ * @param limitStore - Where counters are kept (default: this process's memory)
+ * @returns The limits in force
+ * @throws Error if a limit or lockout setting is malformed
+ */
+export function initRateLimits(
+  limitStore: RateLimitStore = createMemoryRateLimitStore()
+): DecryptLimits {
+  limits = {
+    ip: readLimit("DECRYPT_RATE_LIMIT_PER_IP", DEFAULT_LIMITS.ip),
+    party: readLimit("DECRYPT_RATE_LIMIT_PER_PARTY", DEFAULT_LIMITS.party),
+    record: readLimit("DECRYPT_RATE_LIMIT_PER_RECORD", DEFAULT_LIMITS.record),
+    lockoutThreshold: readCount("DECRYPT_LOCKOUT_THRESHOLD", DEFAULT_LIMITS.lockoutThreshold),
+    lockoutWindowSeconds: readCount(
+      "DECRYPT_LOCKOUT_WINDOW_SECONDS",
+      DEFAULT_LIMITS.lockoutWindowSeconds
+    ),
+    lockoutSeconds: readCount("DECRYPT_LOCKOUT_SECONDS", DEFAULT_LIMITS.lockoutSeconds),
+  };
+  store = limitStore;
+  return limits;
+}
+
+/**
+ * Check lockouts and take a token from each bucket for one decrypt
+ * attempt. Without a record (it was not found) only the IP counts.
+ */
+export async function throttleDecrypt(
+  ip: string,
+  record: { id: string; partyId: string } | undefined
+): Promise<Throttle | null> {
+  if (!limits) return null;
+  const now = Date.now();
+
+  const lockable = [[`ip:${ip}`, "this client after repeated attempts on other parties' records"]];
+  if (record) {
+    lockable.push([`record:${record.id}`, "this record after repeated tamper detections"]);
+  }
+
+  for (const [key, why] of lockable) {
+    const until = await store.lockedUntil(`lockout:${key}`, now);
+    if (until !== null) {
+      return {
+        limited: true,
+        reason: "locked-out",
+        error: `Decryption is locked for ${why}`,
+        retryAfterSeconds: Math.ceil((until - now) / 1000),
+        bucket: null,
+      };
+    }
+  }
+
+  const ipBucket: [string, RateLimit | null, string] = [`ip:${ip}`, limits.ip, "this client"];
+  const buckets: [string, RateLimit | null, string][] = record
+    ? [
+        [`record:${record.id}`, limits.record, "this record"],
+        [`party:${record.partyId}`, limits.party, "this party"],
+        ipBucket,
+      ]
+    : [ipBucket];
+
+  // The headers describe the bucket closest to running out
+  let tightest: (BucketState & RateLimit) | null = null;
+  for (const [key, limit, what] of buckets) {
+    if (!limit) continue;
+    const bucket = { ...(await store.take(`bucket:${key}`, limit, now)), ...limit };
+    if (!bucket.allowed) {
+      return {
+        limited: true,
+        reason: "rate-limited",
+        error: `Too many decrypt requests for ${what}`,
+        retryAfterSeconds: bucket.retryAfterSeconds,
+        bucket,
+      };
+    }
+    if (!tightest || bucket.remaining / bucket.capacity < tightest.remaining / tightest.capacity) {
+      tightest = bucket;
+    }
+  }
+
+  return tightest && { limited: false, bucket: tightest };
+}
+
+/** Count a tamper detection against the record (not the client) */
+export async function reportTamperedDecrypt(recordId: string): Promise<void> {
+  await strike(`record:${recordId}`);
+}
+
+/** Count an attempt on another party's record against the client (not the record) */
+export async function reportForbiddenDecrypt(ip: string): Promise<void> {
+  await strike(`ip:${ip}`);
+}
+
+/** Count a failure against `key`, and lock it out once it reaches the threshold */
+async function strike(key: string): Promise<void> {
+  if (!limits || limits.lockoutThreshold === 0) return;
+  const now = Date.now();
+
+  const strikes = await store.strike(`strikes:${key}`, limits.lockoutWindowSeconds * 1000, now);
+  if (strikes >= limits.lockoutThreshold) {
+    await store.lock(`lockout:${key}`, now + limits.lockoutSeconds * 1000);
+  }
+}
+
+/**
+ * Set the RateLimit-Limit / -Remaining / -Reset headers (IETF
+ * draft-ietf-httpapi-ratelimit-headers) and, on a 429, Retry-After.
+ */
+export function setRateLimitHeaders(reply: FastifyReply, throttle: Throttle | null): void {
+  if (!throttle) return;
+
+  if (throttle.bucket) {
+    reply.header("RateLimit-Limit", throttle.bucket.capacity);
+    reply.header("RateLimit-Remaining", throttle.bucket.remaining);
+    reply.header("RateLimit-Reset", throttle.bucket.resetSeconds);
+  }
+  if (throttle.limited) {
+    reply.header("Retry-After", Math.max(throttle.retryAfterSeconds, 1));
+  }
+}
+
+/**
+ * Counters kept in this process only. Each map is kept in least recently
+ * used order (a key is re-inserted whenever it is written), so at
+ * `maxKeys` the oldest keys are the ones evicted.
+ */
+export function createMemoryRateLimitStore(
+  maxKeys: number = MEMORY_STORE_MAX_KEYS
+): RateLimitStore {
+  const buckets = new Map<string, { tokens: number; updatedAt: number; limit: RateLimit }>();
+  const strikes = new Map<string, number[]>();
+  const locks = new Map<string, number>();
+
+  /** Forget full buckets, old strikes and ended lockouts */
+  function prune(now: number): void {
+    for (const [key, bucket] of buckets) {
+      if (refill(bucket, now) >= bucket.limit.capacity) buckets.delete(key);
+    }
+    for (const [key, until] of locks) {
+      if (until <= now) locks.delete(key);
+    }
+    // Strike windows are not stored, so keep anything from the last day
+    for (const [key, times] of strikes) {
+      if (times[times.length - 1] <= now - 86_400_000) strikes.delete(key);
+    }
+  }
+
+  /** Make room for `key` in `map`: prune, then evict the least recently used */
+  function reserve<V>(map: Map<string, V>, key: string, now: number): void {
+    map.delete(key);
+    if (map.size < maxKeys) return;
+    prune(now);
+    for (const oldest of map.keys()) {
+      if (map.size < maxKeys) break;
+      map.delete(oldest);
+    }
+  }
+
+  return {
+    async take(key, limit, now) {
+      const bucket = buckets.get(key) ?? { tokens: limit.capacity, updatedAt: now, limit };
+      reserve(buckets, key, now);
+      const rate = limit.capacity / limit.windowSeconds;
+      bucket.tokens = refill(bucket, now);
+      bucket.updatedAt = now;
+      bucket.limit = limit;
+
+      const allowed = bucket.tokens >= 1;
+      if (allowed) bucket.tokens -= 1;
+      buckets.set(key, bucket);
+
+      return {
+        allowed,
+        remaining: Math.floor(bucket.tokens),
+        resetSeconds: Math.ceil((limit.capacity - bucket.tokens) / rate),
+        retryAfterSeconds: allowed ? 0 : Math.ceil((1 - bucket.tokens) / rate),
+      };
+    },
+
+    async strike(key, windowMs, now) {
+      const recent = (strikes.get(key) ?? []).filter((time) => time > now - windowMs);
+      reserve(strikes, key, now);
+      recent.push(now);
+      strikes.set(key, recent);
+      return recent.length;
+    },
+
+    async lock(key, until) {
+      const current = locks.get(key) ?? 0;
+      reserve(locks, key, Date.now());
+      locks.set(key, Math.max(until, current));
+    },
+
+    async lockedUntil(key, now) {
+      const until = locks.get(key);
+      return until !== undefined && until > now ? until : null;
+    },
+  };
+}
+
+/** Tokens in a bucket at `now`, refilled since it was last touched */
+function refill(
+  bucket: { tokens: number; updatedAt: number; limit: RateLimit },
+  now: number
+): number {
+  const rate = bucket.limit.capacity / bucket.limit.windowSeconds;
+  return Math.min(bucket.limit.capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * rate);
+}
+
+/** Parse "<requests>/<seconds>"; "0" disables the limit */
+function readLimit(name: string, fallback: RateLimit | null): RateLimit | null {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return fallback;
+  if (raw.trim() === "0") return null;
+
+  const match = /^\s*(\d+)\s*\/\s*(\d+)\s*$/.exec(raw);
+  const capacity = match ? Number(match[1]) : NaN;
+  const windowSeconds = match ? Number(match[2]) : NaN;
+  if (!(capacity > 0) || !(windowSeconds > 0)) {
+    throw new Error(`${name} must be "<requests>/<seconds>" (e.g. "10/60") or "0", got "${raw}"`);
+  }
+  return { capacity, windowSeconds };
+}
+
+function readCount(name: string, fallback: number): number {
+  const raw = process.env[name];
+  const value = raw === undefined || raw === "" ? fallback : Number(raw);
+  if (!Number.isSafeInteger(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative integer, got "${raw}"`);
+  }
+  return value;
+}
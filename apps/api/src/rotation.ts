@@ -0,0 +1,239 @@
+import * as crypto from "crypto";
+import { Keyring, TxSecureRecord, rewrap, rewrapPartyKek, signRecord } from "./crypto";
+import { getSigningKey } from "./signing";
+import {
+  findUnfinishedRotationJob,
+  getRecordCount,
+  listPartyKeksBelowVersion,
+  saveRotationJob,
+  scanRecords,
+  updatePartyKekWrap,
+  updateRecordKeyWrap,
+} from "./store";
+
+/**
+ * Bulk master key rotation — re-wraps every DEK below a target version.
+ *
+ * The job walks the store in id order, batch by batch. After each batch it
+ * persists its cursor (the last id processed) and counters, so:
+ *   - progress can be polled while it runs
+ *   - a job interrupted by a restart or a store error resumes from its
+ *     cursor when started again for the same target version
+ *
+ * Only the DEK wrapping of each record changes (see rewrap()), so records
+ * stay decryptable throughout: the keyring still holds the old versions.
+ *
+ * Re-wrapping invalidates a record's signature, so signed records are
+ * signed again with the current signing key, if one is configured.
+ *
+ * Records whose DEK is wrapped by a party KEK (PARTY_KEKS=true) are skipped:
+ * the master key only wraps their KEK, so once the records are done the job
+ * re-wraps every party KEK below the target version instead. Records sealed
+ * to a party's public key have no master key wrap and are skipped too.
+ */
+
+export type RotationJob = {
+  /** UUIDv4 identifier for this job */
+  id: string;
+
+  /** Master key version every record is re-wrapped to */
+  targetVersion: number;
+
+  /** "running" while batches are processed; "failed" jobs can be resumed */
+  status: "running" | "completed" | "failed";
+
+  /** Id of the last record processed, or null before the first batch */
+  cursor: string | null;
+
+  /** Record count when the job started (the store may grow while it runs) */
+  total: number;
+
+  /** Records visited so far */
+  scanned: number;
+
+  /** Records re-wrapped to the target version */
+  rewrapped: number;
+
+  /**
+   * Records already at or above the target version, or not wrapped by the
+   * master key (party KEK or sealed to a recipient key)
+   */
+  skipped: number;
+
+  /** Party KEKs re-wrapped to the target version */
+  keksRewrapped: number;
+
+  /** Records (or party KEKs) that could not be re-wrapped (e.g. tampered, unknown version) */
+  failed: number;
+
+  /** Ids of the first failed records and KEKs, for follow-up */
+  failedIds: string[];
+
+  /** Message of the last error, if any */
+  lastError: string | null;
+
+  startedAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+};
+
+const DEFAULT_BATCH_SIZE = 100;
+
+/** Cap on failedIds so a badly broken store can't grow the job unboundedly */
+const MAX_FAILED_IDS = 100;
+
+/** Jobs with a runner in this process, so a job never runs twice at once */
+const runningJobs = new Map<string, Promise<void>>();
+
+/**
+ * Starts a rotation to `targetVersion`, or resumes the unfinished one.
+ *
+ * Returns immediately with the job's current state; batches are processed
+ * in the background.
+ *
+ * @param keyring       - Keyring holding the target version and every
+ *                        version still in use by stored records
+ * @param targetVersion - Master key version to re-wrap DEKs to
+ * @param batchSize     - Records read per batch
+ */
+export async function startRotation(
+  keyring: Keyring,
+  targetVersion: number,
+  batchSize: number = DEFAULT_BATCH_SIZE
+): Promise<RotationJob> {
+  const now = new Date().toISOString();
+  let job = await findUnfinishedRotationJob(targetVersion);
+
+  if (!job) {
+    job = {
+      id: crypto.randomUUID(),
+      targetVersion,
+      status: "running",
+      cursor: null,
+      total: await getRecordCount(),
+      scanned: 0,
+      rewrapped: 0,
+      skipped: 0,
+      keksRewrapped: 0,
+      failed: 0,
+      failedIds: [],
+      lastError: null,
+      startedAt: now,
+      updatedAt: now,
+      finishedAt: null,
+    };
+  } else if (!runningJobs.has(job.id)) {
+    job = { ...job, status: "running", lastError: null, updatedAt: now };
+  }
+
+  if (!runningJobs.has(job.id)) {
+    await saveRotationJob(job);
+
+    const jobId = job.id;
+    const runner = runRotation({ ...job }, keyring, batchSize).finally(() => {
+      runningJobs.delete(jobId);
+    });
+    runningJobs.set(jobId, runner);
+  }
+
+  return job;
+}
+
+async function runRotation(job: RotationJob, keyring: Keyring, batchSize: number): Promise<void> {
+  try {
+    for (;;) {
+      const batch = await scanRecords(job.cursor, batchSize);
+      if (!batch.last) break;
+
+      // Rows that fail the record checks cannot be re-wrapped; count them
+      // as failures and carry on with the rest
+      for (const { id, error } of batch.invalid) {
+        job.scanned++;
+        recordFailure(job, id, error);
+      }
+
+      for (const record of batch.records) {
+        job.scanned++;
+
+        if (
+          record.mk_version >= job.targetVersion ||
+          record.kek_id !== undefined ||
+          record.recipient_key_id !== undefined
+        ) {
+          job.skipped++;
+          continue;
+        }
+
+        try {
+          const rewrapped = resign(record, rewrap(record, keyring, keyring, job.targetVersion));
+          if (await updateRecordKeyWrap(rewrapped, record.mk_version)) {
+            job.rewrapped++;
+          } else {
+            // Changed underneath us (e.g. by another rotation) — leave it
+            job.skipped++;
+          }
+        } catch (error: unknown) {
+          recordFailure(job, record.id, error);
+        }
+      }
+
+      job.cursor = batch.last.id;
+      job.updatedAt = new Date().toISOString();
+      await saveRotationJob(job);
+    }
+
+    await rewrapPartyKeks(job, keyring, batchSize);
+
+    job.status = "completed";
+    job.finishedAt = new Date().toISOString();
+  } catch (error: unknown) {
+    // Store failure — keep the cursor so the job resumes where it stopped
+    job.status = "failed";
+    job.lastError = error instanceof Error ? error.message : String(error);
+  }
+
+  job.updatedAt = new Date().toISOString();
+  await saveRotationJob(job).catch((err) => {
+    console.error(`Failed to save rotation job ${job.id}:`, err);
+  });
+}
+
+/**
+ * Re-wraps every live party KEK below the target version. Idempotent, so a
+ * resumed job simply runs it again.
+ */
+async function rewrapPartyKeks(job: RotationJob, keyring: Keyring, batchSize: number): Promise<void> {
+  let afterKekId: string | null = null;
+
+  for (;;) {
+    const batch = await listPartyKeksBelowVersion(job.targetVersion, afterKekId, batchSize);
+    if (batch.length === 0) break;
+
+    for (const kek of batch) {
+      try {
+        const rewrapped = rewrapPartyKek(kek, keyring, keyring, job.targetVersion);
+        // false: destroyed or re-wrapped underneath us — nothing left to do
+        if (await updatePartyKekWrap(rewrapped, kek.mk_version)) job.keksRewrapped++;
+      } catch (error: unknown) {
+        recordFailure(job, kek.kek_id, error);
+      }
+    }
+
+    afterKekId = batch[batch.length - 1].kek_id;
+    job.updatedAt = new Date().toISOString();
+    await saveRotationJob(job);
+  }
+}
+
+/** Signs a re-wrapped record again if the original was signed */
+function resign(original: TxSecureRecord, rewrapped: TxSecureRecord): TxSecureRecord {
+  const signingKey = getSigningKey();
+  if (original.signature === undefined || !signingKey) return rewrapped;
+  return signRecord(rewrapped, signingKey);
+}
+
+function recordFailure(job: RotationJob, id: string, error: unknown): void {
+  job.failed++;
+  job.lastError = `${id}: ${error instanceof Error ? error.message : String(error)}`;
+  if (job.failedIds.length < MAX_FAILED_IDS) job.failedIds.push(id);
+}
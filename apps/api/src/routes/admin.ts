@@ -0,0 +1,246 @@
+import { FastifyInstance } from "fastify";
+import { getKeyring } from "../keyring";
+import { startRotation } from "../rotation";
+import { getRotationJob } from "../store";
+import { getSigningKey } from "../signing";
+import { checkpointLedger } from "../ledger";
+import { ApiKeyScope, listApiKeys } from "../store";
+import { API_KEY_SCOPES, issueApiKey, presentApiKey, revokeApiKeyById } from "../auth";
+
+/**
+ * Admin routes — operational tasks that are not part of the public API.
+ *
+ * POST /admin/rotation     → Start (or resume) re-wrapping DEKs to a master key version
+ * GET  /admin/rotation/:id → Progress of a rotation job
+ * POST /admin/ledger/checkpoint → Sign a ledger checkpoint now
+ * POST   /admin/api-keys     → Issue an API key for a party
+ * GET    /admin/api-keys     → List issued API keys
+ * DELETE /admin/api-keys/:id → Revoke an API key
+ *
+ * Every admin route needs the admin API key (ADMIN_API_KEY; see auth.ts).
+ */
+export async function adminRoutes(app: FastifyInstance): Promise<void> {
+  /**
+   * POST /admin/rotation
+   *
+   * Re-wraps every record whose mk_version is below `targetVersion`
+   * (default: the keyring's active version). If an unfinished job for the
+   * same target exists, it is resumed from its cursor instead.
+   * Responds 202 immediately; poll GET /admin/rotation/:id for progress.
+   */
+  app.post(
+    "/admin/rotation",
+    {
+      schema: {
+        body: {
+          type: "object",
+          properties: {
+            targetVersion: { type: "integer", minimum: 1 },
+            batchSize: { type: "integer", minimum: 1, maximum: 1000 },
+          },
+          additionalProperties: false,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { targetVersion, batchSize } = (request.body ?? {}) as {
+        targetVersion?: number;
+        batchSize?: number;
+      };
+
+      // Re-wrapping needs every old key version in this process, which a
+      // remote KMS never exposes — rotate inside the KMS instead.
+      const keyring = getKeyring();
+      if (!keyring) {
+        return reply.status(400).send({
+          success: false,
+          error: "Key rotation requires a local master keyring (KEY_PROVIDER=local)",
+        });
+      }
+
+      const target = targetVersion ?? keyring.activeVersion;
+      if (!(target in keyring.keys)) {
+        return reply.status(400).send({
+          success: false,
+          error: `Master key version ${target} is not in the keyring`,
+        });
+      }
+
+      const job = await startRotation(keyring, target, batchSize);
+
+      return reply.status(202).send({
+        success: true,
+        job,
+      });
+    }
+  );
+
+  /**
+   * GET /admin/rotation/:id
+   *
+   * Returns the job's status, cursor and counters.
+   */
+  app.get(
+    "/admin/rotation/:id",
+    {
+      schema: {
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: {
+            id: { type: "string" },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const job = await getRotationJob(id);
+
+      if (!job) {
+        return reply.status(404).send({
+          success: false,
+          error: "Rotation job not found",
+        });
+      }
+
+      return reply.status(200).send({
+        success: true,
+        job,
+      });
+    }
+  );
+
+  /**
+   * POST /admin/ledger/checkpoint
+   *
+   * Signs a checkpoint over every ledger entry so far, without waiting for
+   * the checkpointer (which serverless deployments do not run). 200 with
+   * `checkpoint: null` if nothing was written since the last one.
+   */
+  app.post("/admin/ledger/checkpoint", async (_request, reply) => {
+    if (!getSigningKey()) {
+      return reply.status(400).send({
+        success: false,
+        error: "Ledger checkpoints require a signing key (SIGNING_KEY or SIGNING_KEY_FILE)",
+      });
+    }
+
+    const checkpoint = await checkpointLedger();
+    return reply.status(checkpoint ? 201 : 200).send({
+      success: true,
+      checkpoint,
+    });
+  });
+
+  /**
+   * POST /admin/api-keys
+   *
+   * Issues a key that acts for `partyId` with the given scopes. The key is
+   * in this response only: the server keeps just its SHA-256 hash, so a
+   * lost key is revoked and replaced, never recovered.
+   */
+  app.post(
+    "/admin/api-keys",
+    {
+      schema: {
+        body: {
+          type: "object",
+          required: ["partyId", "scopes"],
+          properties: {
+            partyId: { type: "string", minLength: 1 },
+            scopes: {
+              type: "array",
+              minItems: 1,
+              uniqueItems: true,
+              items: { type: "string", enum: API_KEY_SCOPES },
+            },
+            name: { type: "string", minLength: 1, maxLength: 200 },
+          },
+          additionalProperties: false,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { partyId, scopes, name } = request.body as {
+        partyId: string;
+        scopes: ApiKeyScope[];
+        name?: string;
+      };
+
+      const { apiKey, key } = await issueApiKey(partyId, scopes, name ?? null);
+
+      return reply.status(201).send({
+        success: true,
+        key,
+        apiKey: presentApiKey(apiKey),
+      });
+    }
+  );
+
+  /**
+   * GET /admin/api-keys
+   *
+   * Lists issued keys (revoked ones included, with `revokedAt`), oldest
+   * first — only `partyId`'s, if given. Never the keys themselves.
+   */
+  app.get(
+    "/admin/api-keys",
+    {
+      schema: {
+        querystring: {
+          type: "object",
+          properties: {
+            partyId: { type: "string", minLength: 1 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { partyId } = request.query as { partyId?: string };
+      const apiKeys = await listApiKeys(partyId);
+
+      return reply.status(200).send({
+        success: true,
+        apiKeys: apiKeys.map(presentApiKey),
+      });
+    }
+  );
+
+  /**
+   * DELETE /admin/api-keys/:id
+   *
+   * Revokes a key: every request with it gets 401 from now on. Revoking is
+   * permanent and idempotent.
+   */
+  app.delete(
+    "/admin/api-keys/:id",
+    {
+      schema: {
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: {
+            id: { type: "string" },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const apiKey = await revokeApiKeyById(id);
+
+      if (!apiKey) {
+        return reply.status(404).send({
+          success: false,
+          error: "API key not found",
+        });
+      }
+
+      return reply.status(200).send({
+        success: true,
+        apiKey: presentApiKey(apiKey),
+      });
+    }
+  );
+}
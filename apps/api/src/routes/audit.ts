@@ -0,0 +1,87 @@
+import { FastifyInstance } from "fastify";
+import { AuditFilter, queryAuditLog, verifyAuditLog } from "../audit";
+import { callerPartyId, canAccessParty, denyParty } from "../auth";
+
+/**
+ * Audit routes — the log of encrypt, fetch, list and decrypt operations (see
+ * audit.ts).
+ *
+ * GET /audit        → Entries filtered by party, record, operation and time
+ * GET /audit/verify → Check the log's hash chain
+ *
+ * A party key with the "read" scope sees its own party's entries only;
+ * verifying the whole log needs the admin API key.
+ */
+
+/** Entries per page when no limit is given */
+const DEFAULT_LIMIT = 100;
+
+export async function auditRoutes(app: FastifyInstance): Promise<void> {
+  /**
+   * GET /audit
+   *
+   * Entries in log order. `from` is inclusive and `to` exclusive. Pages
+   * hold at most `limit` entries; pass `nextAfterSeq` as `afterSeq` for
+   * the next page (null on the last page).
+   */
+  app.get(
+    "/audit",
+    {
+      config: { auth: "read" },
+      schema: {
+        querystring: {
+          type: "object",
+          properties: {
+            partyId: { type: "string", minLength: 1 },
+            recordId: { type: "string", minLength: 1 },
+            operation: { type: "string", enum: ["encrypt", "fetch", "list", "decrypt"] },
+            outcome: { type: "string", enum: ["success", "failure"] },
+            from: { type: "string", format: "date-time" },
+            to: { type: "string", format: "date-time" },
+            afterSeq: { type: "integer", minimum: 0 },
+            limit: { type: "integer", minimum: 1, maximum: 1000, default: DEFAULT_LIMIT },
+          },
+          additionalProperties: false,
+        },
+      },
+    },
+    async (request, reply) => {
+      const filter = { ...(request.query as AuditFilter) };
+
+      // A party key is confined to its own party's entries
+      if (filter.partyId !== undefined && !canAccessParty(request, filter.partyId)) {
+        return denyParty(reply);
+      }
+      filter.partyId ??= callerPartyId(request);
+
+      // Timestamps are compared as strings, so normalize them to the
+      // format entries are written in
+      if (filter.from !== undefined) filter.from = new Date(filter.from).toISOString();
+      if (filter.to !== undefined) filter.to = new Date(filter.to).toISOString();
+
+      const entries = await queryAuditLog(filter);
+
+      return reply.status(200).send({
+        success: true,
+        entries,
+        nextAfterSeq: entries.length === filter.limit ? entries[entries.length - 1].seq : null,
+      });
+    }
+  );
+
+  /**
+   * GET /audit/verify
+   *
+   * Walks the whole log. Always 200: `valid` says whether the chain holds,
+   * and `break` describes the first missing, altered or out-of-place entry
+   * otherwise.
+   */
+  app.get("/audit/verify", async (_request, reply) => {
+    const report = await verifyAuditLog();
+    return reply.status(200).send({
+      success: true,
+      valid: report.break === null,
+      ...report,
+    });
+  });
+}
@@ -1,19 +1,23 @@
 import { FastifyInstance } from "fastify";
 import { getRecordCount } from "../store";
+import { getKeyring } from "../keyring";
+import { getKeyProvider, getKeyProviderKind } from "../provider";
 
 /**
  * Health check endpoint.
- * Returns server status, whether the master key is loaded, and record count.
+ * Returns server status, whether the master key is loaded (its active version
+ * when the keyring is local, and which key provider is in use), and record count.
  */
 export async function healthRoutes(app: FastifyInstance): Promise<void> {
-  app.get("/health", async (_request, reply) => {
-    const masterKey = process.env.MASTER_KEY_HEX;
-    const mkLoaded = typeof masterKey === "string" && masterKey.length === 64;
+  app.get("/health", { config: { auth: "public" } }, async (_request, reply) => {
+    const keyring = getKeyring();
 
     return reply.status(200).send({
       status: "ok",
       timestamp: new Date().toISOString(),
-      mk_loaded: mkLoaded,
+      mk_loaded: getKeyProvider() !== null,
+      mk_active_version: keyring?.activeVersion ?? null,
+      key_provider: getKeyProviderKind(),
       records: await getRecordCount(),
     });
   });
@@ -0,0 +1,25 @@
+import { FastifyInstance } from "fastify";
+import { getSigningPublicKeys } from "../signing";
+
+/**
+ * Public key routes — what third parties need to verify records offline.
+ *
+ * GET /keys/signing → Ed25519 public keys that sign records
+ *
+ * No API key needed: public keys are meant to be shared.
+ */
+export async function keyRoutes(app: FastifyInstance): Promise<void> {
+  /**
+   * GET /keys/signing
+   *
+   * Lists the public keys by `keyId`, matching a record's `signer_key_id`.
+   * Pass them to verifyRecordSignature() from @repo/crypto. Empty when the
+   * API does not sign records (no SIGNING_KEY configured).
+   */
+  app.get("/keys/signing", { config: { auth: "public" } }, async (_request, reply) => {
+    return reply.status(200).send({
+      success: true,
+      keys: getSigningPublicKeys(),
+    });
+  });
+}
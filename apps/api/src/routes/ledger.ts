@@ -0,0 +1,108 @@
+import { FastifyInstance } from "fastify";
+import { proveInclusion, verifyLedger } from "../ledger";
+import { getLatestLedgerCheckpoint, getRecord } from "../store";
+import { callerPartyId, canAccessParty, denyParty } from "../auth";
+
+/**
+ * Ledger routes — evidence that no record was deleted, reordered or
+ * replaced behind the API's back (see ledger.ts).
+ *
+ * GET /ledger/verify     → Check the hash chain, checkpoints and records
+ * GET /ledger/checkpoint → Latest signed checkpoint
+ * GET /ledger/proof/:id  → Merkle inclusion proof of a record's entry
+ *
+ * Verifying the whole ledger needs the admin API key; the checkpoint and
+ * proofs need the "read" scope (a party key: proofs of its own records).
+ */
+export async function ledgerRoutes(app: FastifyInstance): Promise<void> {
+  /**
+   * GET /ledger/verify
+   *
+   * Walks the whole ledger and the whole store, so it is slow on large
+   * stores. Always 200: `valid` says whether the ledger checks out, and
+   * `break` describes the first gap or break otherwise.
+   */
+  app.get("/ledger/verify", async (_request, reply) => {
+    const report = await verifyLedger();
+    return reply.status(200).send({
+      success: true,
+      ...report,
+    });
+  });
+
+  /**
+   * GET /ledger/checkpoint
+   *
+   * The signed checkpoint over the most entries. Verify it with
+   * verifyLedgerCheckpoint() and the keys from GET /keys/signing.
+   */
+  app.get("/ledger/checkpoint", { config: { auth: "read" } }, async (_request, reply) => {
+    const checkpoint = await getLatestLedgerCheckpoint();
+    if (!checkpoint) {
+      return reply.status(404).send({
+        success: false,
+        error: "No ledger checkpoint has been signed yet",
+      });
+    }
+
+    return reply.status(200).send({
+      success: true,
+      checkpoint,
+    });
+  });
+
+  /**
+   * GET /ledger/proof/:id
+   *
+   * Proves that the record's latest ledger entry (up to the latest
+   * checkpoint) is in the checkpoint's tree: check it with
+   * verifyMerkleInclusion(entry.entry_hash, leafIndex, checkpoint.treeSize,
+   * proof, checkpoint.root), and compare entry.record_hash with
+   * ledgerRecordHash() of the record. 404 until a checkpoint covers the
+   * record. A party key gets proofs of its own, still stored, records only.
+   */
+  app.get(
+    "/ledger/proof/:id",
+    {
+      config: { auth: "read" },
+      schema: {
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: {
+            id: { type: "string" },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      if (callerPartyId(request) !== undefined) {
+        const record = await getRecord(id);
+        if (!record) {
+          return reply.status(404).send({
+            success: false,
+            error: "Record not found",
+          });
+        }
+        if (!canAccessParty(request, record.partyId)) {
+          return denyParty(reply);
+        }
+      }
+
+      const inclusion = await proveInclusion(id);
+
+      if (!inclusion) {
+        return reply.status(404).send({
+          success: false,
+          error: "No ledger checkpoint covers this record yet",
+        });
+      }
+
+      return reply.status(200).send({
+        success: true,
+        ...inclusion,
+      });
+    }
+  );
+}
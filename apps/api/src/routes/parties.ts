@@ -0,0 +1,287 @@
+import { FastifyInstance } from "fastify";
+import { CryptoError, JsonSchema, definePayloadSchema, recipientKeyId } from "../crypto";
+import {
+  partyKeyStore,
+  countMasterWrappedRecords,
+  deletePartyBlindIndexes,
+  getPartyPublicKey,
+  savePartyPublicKey,
+  getPartySchema,
+  savePartySchema,
+  deletePartySchema,
+} from "../store";
+import { partyKeksEnabled } from "../provider";
+import { canAccessParty, denyParty } from "../auth";
+
+/**
+ * Party routes — per-party key management.
+ *
+ * PUT    /parties/:partyId/public-key → Register the party's X25519 public key
+ * GET    /parties/:partyId/public-key → The party's registered public key
+ * PUT    /parties/:partyId/schema     → Register the party's payload schema
+ * GET    /parties/:partyId/schema     → The party's registered payload schema
+ * DELETE /parties/:partyId/schema     → Stop enforcing a payload schema
+ * DELETE /parties/:partyId/keys       → Crypto-shred every record of a party
+ *
+ * Changes need the admin API key; a party key with the "read" scope can
+ * read its own party's settings.
+ */
+
+/** Params schema shared by every party route */
+const partyParams = {
+  type: "object",
+  required: ["partyId"],
+  properties: {
+    partyId: { type: "string", minLength: 1 },
+  },
+} as const;
+
+export async function partyRoutes(app: FastifyInstance): Promise<void> {
+  /**
+   * PUT /parties/:partyId/public-key
+   *
+   * Registers the X25519 public key (SPKI PEM) that records encrypted with
+   * `recipient: "party-public-key"` are sealed to, replacing any previous
+   * key. The party keeps the private key and decrypts with
+   * openSealedRecord(); the server never can.
+   */
+  app.put(
+    "/parties/:partyId/public-key",
+    {
+      schema: {
+        params: partyParams,
+        body: {
+          type: "object",
+          required: ["publicKey"],
+          properties: {
+            publicKey: {
+              type: "string",
+              minLength: 1,
+              description: "X25519 public key, SPKI PEM",
+            },
+          },
+          additionalProperties: false,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { partyId } = request.params as { partyId: string };
+      const { publicKey } = request.body as { publicKey: string };
+
+      if (publicKey.includes("PRIVATE KEY")) {
+        return reply.status(400).send({
+          success: false,
+          error: "Send the public key only — the private key must never leave the party",
+        });
+      }
+
+      let keyId: string;
+      try {
+        keyId = recipientKeyId(publicKey);
+      } catch (error: unknown) {
+        if (error instanceof CryptoError) {
+          return reply.status(400).send({
+            success: false,
+            error: error.message,
+          });
+        }
+        throw error;
+      }
+
+      const registered = {
+        partyId,
+        keyId,
+        publicKey,
+        registeredAt: new Date().toISOString(),
+      };
+      await savePartyPublicKey(registered);
+
+      return reply.status(200).send({
+        success: true,
+        ...registered,
+      });
+    }
+  );
+
+  /**
+   * GET /parties/:partyId/public-key
+   *
+   * Returns the party's registered public key and its key id.
+   */
+  app.get(
+    "/parties/:partyId/public-key",
+    { config: { auth: "read" }, schema: { params: partyParams } },
+    async (request, reply) => {
+      const { partyId } = request.params as { partyId: string };
+      if (!canAccessParty(request, partyId)) {
+        return denyParty(reply);
+      }
+
+      const key = await getPartyPublicKey(partyId);
+
+      if (!key) {
+        return reply.status(404).send({
+          success: false,
+          error: "No public key registered for this party",
+        });
+      }
+
+      return reply.status(200).send({
+        success: true,
+        ...key,
+      });
+    }
+  );
+
+  /**
+   * PUT /parties/:partyId/schema
+   *
+   * Registers the JSON schema (the subset supported by
+   * definePayloadSchema()) that every payload encrypted for the party must
+   * match, replacing any previous schema. POST /tx/encrypt refuses
+   * mismatching payloads with 400 and the list of mismatches. Records that
+   * are already stored are not re-checked.
+   */
+  app.put(
+    "/parties/:partyId/schema",
+    {
+      schema: {
+        params: partyParams,
+        body: {
+          type: "object",
+          required: ["schema"],
+          properties: {
+            schema: {
+              type: "object",
+              description: "Payload schema, e.g. { type: \"object\", required: [\"amount\"] }",
+            },
+          },
+          additionalProperties: false,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { partyId } = request.params as { partyId: string };
+      const { schema } = request.body as { schema: unknown };
+
+      let checked: JsonSchema;
+      try {
+        checked = definePayloadSchema(schema);
+      } catch (error: unknown) {
+        if (error instanceof CryptoError) {
+          return reply.status(400).send({
+            success: false,
+            error: error.message,
+          });
+        }
+        throw error;
+      }
+
+      const registered = {
+        partyId,
+        schema: checked,
+        registeredAt: new Date().toISOString(),
+      };
+      await savePartySchema(registered);
+
+      return reply.status(200).send({
+        success: true,
+        ...registered,
+      });
+    }
+  );
+
+  /**
+   * GET /parties/:partyId/schema
+   *
+   * Returns the party's registered payload schema.
+   */
+  app.get(
+    "/parties/:partyId/schema",
+    { config: { auth: "read" }, schema: { params: partyParams } },
+    async (request, reply) => {
+      const { partyId } = request.params as { partyId: string };
+      if (!canAccessParty(request, partyId)) {
+        return denyParty(reply);
+      }
+
+      const partySchema = await getPartySchema(partyId);
+
+      if (!partySchema) {
+        return reply.status(404).send({
+          success: false,
+          error: "No payload schema registered for this party",
+        });
+      }
+
+      return reply.status(200).send({
+        success: true,
+        ...partySchema,
+      });
+    }
+  );
+
+  /**
+   * DELETE /parties/:partyId/schema
+   *
+   * Removes the party's payload schema; its payloads are no longer checked.
+   */
+  app.delete(
+    "/parties/:partyId/schema",
+    { schema: { params: partyParams } },
+    async (request, reply) => {
+      const { partyId } = request.params as { partyId: string };
+
+      if (!(await deletePartySchema(partyId))) {
+        return reply.status(404).send({
+          success: false,
+          error: "No payload schema registered for this party",
+        });
+      }
+
+      return reply.status(200).send({
+        success: true,
+        partyId,
+      });
+    }
+  );
+
+  /**
+   * DELETE /parties/:partyId/keys
+   *
+   * Destroys the party's KEKs, so every record wrapped by them fails to
+   * decrypt (410) from now on, and deletes the party's blind indexes.
+   * The records themselves are kept. Irreversible.
+   *
+   * Only records written with PARTY_KEKS=true are covered: records wrapped
+   * by the master key directly, or sealed to the party's public key, are
+   * not affected. The response counts the master-wrapped ones in
+   * `notShredded`, since the server can still decrypt them; the shred is
+   * only complete when that is 0.
+   */
+  app.delete(
+    "/parties/:partyId/keys",
+    { schema: { params: partyParams } },
+    async (request, reply) => {
+      const { partyId } = request.params as { partyId: string };
+
+      if (!partyKeksEnabled()) {
+        return reply.status(400).send({
+          success: false,
+          error: "Per-party keys are not enabled (PARTY_KEKS=true)",
+        });
+      }
+
+      const destroyed = await partyKeyStore.destroyKeks(partyId);
+      await deletePartyBlindIndexes(partyId);
+      const notShredded = await countMasterWrappedRecords(partyId);
+
+      return reply.status(200).send({
+        success: true,
+        partyId,
+        destroyed,
+        notShredded,
+      });
+    }
+  );
+}
@@ -1,33 +1,159 @@
 import { FastifyInstance } from "fastify";
 import {
-  encrypt,
-  decrypt,
+  encryptWithProvider,
+  encryptForRecipient,
+  decryptWithProvider,
   validateRecord,
   CryptoError,
+  ExpiredRecordError,
+  KeyDestroyedError,
+  PayloadSchemaError,
+  PoolQueueFullError,
   TamperedDataError,
   ValidationError,
+  WrongKeyError,
+  EnvelopeAlgorithm,
+  TxSecureRecord,
+  serializeRecord,
+  toJWE,
 } from "../crypto";
-import { saveRecord, getRecord } from "../store";
+import {
+  saveRecord,
+  getRecord,
+  listRecords,
+  findIdsByBlindIndex,
+  getPartyPublicKey,
+  getPartySchema,
+  PartyPublicKey,
+  RecordCursor,
+  RecordFilter,
+} from "../store";
+import { blindIndexesFor, getBlindIndexFields, searchIndexes } from "../blindIndex";
+import { getKeyProvider, getDefaultAlgorithm, ENCRYPTION_ALGORITHMS } from "../provider";
+import { getSigningKey } from "../signing";
+import { getCryptoPool } from "../pool";
+import { callerPartyId, canAccessParty, denyParty } from "../auth";
+import { auditFailureReason, recordAudit } from "../audit";
+import {
+  reportForbiddenDecrypt,
+  reportTamperedDecrypt,
+  setRateLimitHeaders,
+  throttleDecrypt,
+} from "../rateLimit";
 
 /**
  * Transaction routes — the core API for the secure transaction service.
  *
  * POST /tx/encrypt   → Encrypt a payload and store the record
+ * GET  /tx           → List encrypted records, newest first (no decryption)
  * GET  /tx/:id       → Retrieve an encrypted record (no decryption)
  * POST /tx/:id/decrypt → Decrypt a stored record
+ * GET  /tx/search    → Find record ids by a blind-indexed field value
+ *
+ * Every route needs an API key with the matching scope ("encrypt", "read",
+ * "decrypt"; see auth.ts), and a party key only reaches its own party's
+ * records: 403 otherwise.
+ *
+ * Every encrypt, fetch, list and decrypt, failed ones included, is written
+ * to the audit log (see audit.ts) before the route answers.
+ *
+ * Routes that return a record accept `?format=compact` to receive it as a
+ * base64url record envelope (see serializeRecord()) instead of hex JSON.
+ *
+ * With CRYPTO_POOL_SIZE set, encrypt and decrypt run on worker threads
+ * (see pool.ts); when too many are waiting, they answer 503 with Retry-After.
+ */
+
+type RecordFormat = "json" | "compact" | "jwe";
+
+/** Retry-After sent with a 503 when the crypto pool's queue is full */
+const POOL_RETRY_AFTER_SECONDS = 1;
+
+/** Querystring schema shared by routes that return a record */
+const recordFormatQuerystring = {
+  type: "object",
+  properties: {
+    format: { type: "string", enum: ["json", "compact"], default: "json" },
+  },
+} as const;
+
+/**
+ * GET /tx/:id also exports JWE. Not offered on encrypt, where a record
+ * without a JWE form (see toJWE()) would only be found out after storing it.
  */
+const recordReadQuerystring = {
+  type: "object",
+  properties: {
+    format: { type: "string", enum: ["json", "compact", "jwe"], default: "json" },
+  },
+} as const;
+
+/** Records per GET /tx page when no limit is given */
+const DEFAULT_LIST_LIMIT = 50;
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Opaque GET /tx cursor: the page's last row, base64url JSON */
+function encodeRecordCursor(position: RecordCursor): string {
+  const cursor: RecordCursor = { createdAt: position.createdAt, id: position.id };
+  return Buffer.from(JSON.stringify(cursor), "utf-8").toString("base64url");
+}
+
+/** The cursor's position, or null if it was not issued by GET /tx */
+function decodeRecordCursor(cursor: string): RecordCursor | null {
+  try {
+    const { createdAt, id } = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    if (typeof id !== "string" || !UUID_REGEX.test(id)) return null;
+    if (typeof createdAt !== "string" || Number.isNaN(Date.parse(createdAt))) return null;
+    return { createdAt: new Date(createdAt).toISOString(), id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Response fields for a record in the requested format
+ *
+ * @throws ValidationError if the record has no JWE form
+ */
+function presentRecord(
+  record: TxSecureRecord,
+  format: RecordFormat
+): { record: TxSecureRecord } | { format: "compact" | "jwe"; record: string } {
+  if (format === "compact") {
+    return { format, record: serializeRecord(record, "base64url") };
+  }
+  if (format === "jwe") {
+    return { format, record: toJWE(record) };
+  }
+  return { record };
+}
+
 export async function txRoutes(app: FastifyInstance): Promise<void> {
   /**
    * POST /tx/encrypt
    *
    * Accepts a partyId and JSON payload, encrypts using envelope encryption,
    * stores the record in memory, and returns the encrypted record.
+   * An optional `alg` overrides the deployment default (ENCRYPTION_ALG), and
+   * an optional `encryptFields` list of JSON paths encrypts just those
+   * fields, leaving the rest of the payload readable in `payload_clear`.
+   * With a signing key configured, the record is signed (see GET /keys/signing).
+   * `recipient: "party-public-key"` seals the record to the party's
+   * registered X25519 key (PUT /parties/:partyId/public-key) instead of the
+   * master key: only the party can decrypt it, with openSealedRecord().
+   * If the party has a payload schema (PUT /parties/:partyId/schema), a
+   * payload that does not match it is refused with 400 and its `issues`.
+   * An optional `ttlSeconds` sets the record's `expiresAt`: after it, the
+   * record can no longer be decrypted, and the sweeper deletes it.
+   * A party key can only encrypt for its own partyId.
    *
    * Request body is validated using Fastify's built-in JSON schema validation.
    */
   app.post(
     "/tx/encrypt",
     {
+      config: { auth: "encrypt" },
       schema: {
         body: {
           type: "object",
@@ -42,19 +168,85 @@ export async function txRoutes(app: FastifyInstance): Promise<void> {
               type: "object",
               description: "The JSON payload to encrypt (must be a non-null object)",
             },
+            alg: {
+              type: "string",
+              enum: ENCRYPTION_ALGORITHMS,
+              description: "AEAD algorithm for this record (default: ENCRYPTION_ALG)",
+            },
+            encryptFields: {
+              type: "array",
+              minItems: 1,
+              items: { type: "string", minLength: 1 },
+              description: 'JSON paths to encrypt individually, e.g. ["amount", "account.number"]',
+            },
+            recipient: {
+              type: "string",
+              enum: ["server", "party-public-key"],
+              default: "server",
+              description: "Who can decrypt: the server's master key, or only the party's own key",
+            },
+            ttlSeconds: {
+              type: "integer",
+              minimum: 1,
+              description: "Seconds until the record expires and can no longer be decrypted",
+            },
           },
           additionalProperties: false,
         },
+        querystring: recordFormatQuerystring,
       },
     },
     async (request, reply) => {
-      const { partyId, payload } = request.body as {
+      const { format } = request.query as { format: RecordFormat };
+      const { partyId, payload, alg, encryptFields, recipient, ttlSeconds } = request.body as {
         partyId: string;
         payload: Record<string, unknown>;
+        alg?: EnvelopeAlgorithm;
+        encryptFields?: string[];
+        recipient: "server" | "party-public-key";
+        ttlSeconds?: number;
       };
 
-      const masterKey = process.env.MASTER_KEY_HEX;
-      if (!masterKey) {
+      if (!canAccessParty(request, partyId)) {
+        await recordAudit(request, {
+          operation: "encrypt",
+          outcome: "failure",
+          reason: "forbidden",
+          partyId,
+        });
+        return denyParty(reply);
+      }
+
+      const partySchema = await getPartySchema(partyId);
+      const options = {
+        alg: alg ?? getDefaultAlgorithm(),
+        encryptFields,
+        signingKey: getSigningKey() ?? undefined,
+        schema: partySchema?.schema,
+        ttlSeconds,
+      };
+
+      // Sealed records need the party's key instead of a master key
+      let partyKey: PartyPublicKey | undefined;
+      if (recipient === "party-public-key") {
+        partyKey = await getPartyPublicKey(partyId);
+        if (!partyKey) {
+          await recordAudit(request, {
+            operation: "encrypt",
+            outcome: "failure",
+            reason: "invalid",
+            partyId,
+          });
+          return reply.status(400).send({
+            success: false,
+            error: `No public key registered for party "${partyId}" (PUT /parties/:partyId/public-key)`,
+          });
+        }
+      }
+
+      const provider = getKeyProvider();
+      if (!partyKey && !provider) {
+        await recordAudit(request, { operation: "encrypt", outcome: "failure", reason: "error", partyId });
         return reply.status(500).send({
           success: false,
           error: "Server misconfiguration: MASTER_KEY not set",
@@ -62,20 +254,56 @@ export async function txRoutes(app: FastifyInstance): Promise<void> {
       }
 
       try {
-        // Encrypt the payload using envelope encryption from @repo/crypto
-        const record = encrypt(masterKey, partyId, payload);
+        // Encrypt the payload using envelope encryption from @repo/crypto;
+        // the DEK is sealed to the party's public key, or wrapped by the key
+        // provider under its active master key (on a worker thread if the
+        // crypto pool is enabled)
+        const pool = getCryptoPool();
+        const record = partyKey
+          ? encryptForRecipient(partyKey.publicKey, partyId, payload, options)
+          : pool
+            ? await pool.encryptAsync(provider!, partyId, payload, options)
+            : await encryptWithProvider(provider!, partyId, payload, options);
 
         // Validate the record structure before storing (defense in depth)
         validateRecord(record);
 
-        // Store in PostgreSQL (Supabase)
-        await saveRecord(record);
+        // Store in PostgreSQL (Supabase), with blind indexes of the
+        // configured fields (computed from the plaintext payload); the
+        // ledger entry's seq orders the record among all writes
+        const entry = await saveRecord(record, blindIndexesFor(payload));
+        await recordAudit(request, {
+          operation: "encrypt",
+          outcome: "success",
+          partyId,
+          recordId: record.id,
+        });
 
         return reply.status(201).send({
           success: true,
-          record,
+          ...presentRecord(record, format),
+          ledgerSeq: entry.seq,
         });
       } catch (error: unknown) {
+        await recordAudit(request, {
+          operation: "encrypt",
+          outcome: "failure",
+          reason: auditFailureReason(error),
+          partyId,
+        });
+        if (error instanceof PoolQueueFullError) {
+          return reply.status(503).header("Retry-After", POOL_RETRY_AFTER_SECONDS).send({
+            success: false,
+            error: error.message,
+          });
+        }
+        if (error instanceof PayloadSchemaError) {
+          return reply.status(400).send({
+            success: false,
+            error: error.message,
+            issues: error.issues,
+          });
+        }
         if (error instanceof CryptoError) {
           return reply.status(400).send({
             success: false,
@@ -87,15 +315,162 @@ export async function txRoutes(app: FastifyInstance): Promise<void> {
     }
   );
 
+  /**
+   * GET /tx/search?field=&value=
+   *
+   * Returns the ids of records whose blind-indexed `field` equals `value`.
+   * Only fields listed in BLIND_INDEX_FIELDS can be searched. Nothing is
+   * decrypted — the value is HMAC'd and matched against stored indexes.
+   * A party key only finds its own party's records.
+   */
+  app.get(
+    "/tx/search",
+    {
+      config: { auth: "read" },
+      schema: {
+        querystring: {
+          type: "object",
+          required: ["field", "value"],
+          properties: {
+            field: { type: "string", minLength: 1 },
+            value: { type: "string" },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { field, value } = request.query as { field: string; value: string };
+
+      if (!getBlindIndexFields().includes(field)) {
+        return reply.status(400).send({
+          success: false,
+          error: `Field "${field}" is not blind-indexed — indexed fields: ${getBlindIndexFields().join(", ") || "none"}`,
+        });
+      }
+
+      const ids = await findIdsByBlindIndex(
+        field,
+        searchIndexes(field, value),
+        callerPartyId(request)
+      );
+
+      return reply.status(200).send({
+        success: true,
+        field,
+        ids,
+      });
+    }
+  );
+
+  /**
+   * GET /tx
+   *
+   * Lists encrypted records, newest first, without decrypting them.
+   * Filters: `partyId`, `createdAfter` / `createdBefore` (both exclusive)
+   * and `mkVersion`. Pass `nextCursor` back as `cursor` for the next page
+   * (null on the last page); new records never shift the pages after a
+   * cursor. A party key only lists its own party's records. Stored rows
+   * that fail the record checks are left out and listed by id in
+   * `invalidRecordIds`.
+   */
+  app.get(
+    "/tx",
+    {
+      config: { auth: "read" },
+      schema: {
+        querystring: {
+          type: "object",
+          properties: {
+            partyId: { type: "string", minLength: 1 },
+            createdAfter: { type: "string", format: "date-time" },
+            createdBefore: { type: "string", format: "date-time" },
+            mkVersion: { type: "integer", minimum: 0 },
+            limit: { type: "integer", minimum: 1, maximum: 200, default: DEFAULT_LIST_LIMIT },
+            cursor: { type: "string", minLength: 1 },
+            format: recordFormatQuerystring.properties.format,
+          },
+          additionalProperties: false,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { limit, cursor, format, ...query } = request.query as RecordFilter & {
+        limit: number;
+        cursor?: string;
+        format: "json" | "compact";
+      };
+      // Offsets such as "+02:00" become UTC "Z" times, the form the store
+      // compares and PostgREST filter strings take safely
+      const filter: RecordFilter = {
+        ...query,
+        ...(query.createdAfter && { createdAfter: new Date(query.createdAfter).toISOString() }),
+        ...(query.createdBefore && { createdBefore: new Date(query.createdBefore).toISOString() }),
+      };
+
+      // A party key is confined to its own party's records
+      if (filter.partyId !== undefined && !canAccessParty(request, filter.partyId)) {
+        await recordAudit(request, {
+          operation: "list",
+          outcome: "failure",
+          reason: "forbidden",
+          partyId: filter.partyId,
+        });
+        return denyParty(reply);
+      }
+      filter.partyId ??= callerPartyId(request);
+
+      const after = cursor === undefined ? null : decodeRecordCursor(cursor);
+      if (after === null && cursor !== undefined) {
+        await recordAudit(request, {
+          operation: "list",
+          outcome: "failure",
+          reason: "invalid",
+          partyId: filter.partyId,
+        });
+        return reply.status(400).send({
+          success: false,
+          error: "Invalid cursor — pass back a nextCursor from GET /tx",
+        });
+      }
+
+      const batch = await listRecords(filter, after, limit);
+      if (batch.invalid.length > 0) {
+        request.log.error({ invalid: batch.invalid }, "Skipped invalid records in GET /tx");
+      }
+      // A full page has a next one only if a record follows it
+      const more = batch.rows === limit && (await listRecords(filter, batch.last, 1)).rows > 0;
+      const page = batch.records;
+      await recordAudit(request, {
+        operation: "list",
+        outcome: "success",
+        partyId: filter.partyId,
+      });
+
+      return reply.status(200).send({
+        success: true,
+        ...(format === "compact" && { format }),
+        records:
+          format === "compact"
+            ? page.map((record) => serializeRecord(record, "base64url"))
+            : page,
+        invalidRecordIds: batch.invalid.map((row) => row.id),
+        nextCursor: more && batch.last ? encodeRecordCursor(batch.last) : null,
+      });
+    }
+  );
+
   /**
    * GET /tx/:id
    *
    * Retrieves an encrypted record by its ID.
    * Returns the raw encrypted record — no decryption is performed.
+   * With `?format=compact` the record is a base64url envelope string, and
+   * with `?format=jwe` a compact JWE (AES-256-GCM records only; 400 otherwise).
    */
   app.get(
     "/tx/:id",
     {
+      config: { auth: "read" },
       schema: {
         params: {
           type: "object",
@@ -104,23 +479,49 @@ export async function txRoutes(app: FastifyInstance): Promise<void> {
             id: { type: "string" },
           },
         },
+        querystring: recordReadQuerystring,
       },
     },
     async (request, reply) => {
       const { id } = request.params as { id: string };
+      const { format } = request.query as { format: RecordFormat };
       const record = await getRecord(id);
 
       if (!record) {
+        await recordAudit(request, {
+          operation: "fetch",
+          outcome: "failure",
+          reason: "not-found",
+          recordId: id,
+        });
         return reply.status(404).send({
           success: false,
           error: "Record not found",
         });
       }
+      const audited = { operation: "fetch", partyId: record.partyId, recordId: id } as const;
+      if (!canAccessParty(request, record.partyId)) {
+        await recordAudit(request, { ...audited, outcome: "failure", reason: "forbidden" });
+        return denyParty(reply);
+      }
 
-      return reply.status(200).send({
-        success: true,
-        record,
-      });
+      try {
+        const presented = presentRecord(record, format);
+        await recordAudit(request, { ...audited, outcome: "success" });
+        return reply.status(200).send({
+          success: true,
+          ...presented,
+        });
+      } catch (error: unknown) {
+        if (error instanceof ValidationError) {
+          await recordAudit(request, { ...audited, outcome: "failure", reason: "invalid" });
+          return reply.status(400).send({
+            success: false,
+            error: `Cannot export record as ${format}: ${error.message}`,
+          });
+        }
+        throw error;
+      }
     }
   );
 
@@ -128,11 +529,17 @@ export async function txRoutes(app: FastifyInstance): Promise<void> {
    * POST /tx/:id/decrypt
    *
    * Decrypts a stored record and returns the original payload.
-   * If the data has been tampered with, returns a 400 error.
+   * If the data has been tampered with, returns a 400 error; if its DEK was
+   * wrapped under a different key than the server holds for it (key check
+   * mismatch), a 409; if its party's key was destroyed
+   * (DELETE /parties/:partyId/keys) or the record is past its `expiresAt`,
+   * a 410. Attempts are rate-limited per IP, party and record, and repeated
+   * tamper detections lock out the IP and the record (429; see rateLimit.ts).
    */
   app.post(
     "/tx/:id/decrypt",
     {
+      config: { auth: "decrypt" },
       schema: {
         params: {
           type: "object",
@@ -147,15 +554,53 @@ export async function txRoutes(app: FastifyInstance): Promise<void> {
       const { id } = request.params as { id: string };
       const record = await getRecord(id);
 
+      // Another party's record is refused before it can use up the
+      // record's rate limit; the attempt counts toward the client's lockout
+      if (record && !canAccessParty(request, record.partyId)) {
+        await recordAudit(request, {
+          operation: "decrypt",
+          outcome: "failure",
+          reason: "forbidden",
+          partyId: record.partyId,
+          recordId: id,
+        });
+        await reportForbiddenDecrypt(request.ip);
+        return denyParty(reply);
+      }
+
+      const throttle = await throttleDecrypt(request.ip, record);
+      setRateLimitHeaders(reply, throttle);
+      if (throttle?.limited) {
+        await recordAudit(request, {
+          operation: "decrypt",
+          outcome: "failure",
+          reason: throttle.reason,
+          partyId: record?.partyId,
+          recordId: id,
+        });
+        return reply.status(429).send({
+          success: false,
+          error: throttle.error,
+        });
+      }
+
       if (!record) {
+        await recordAudit(request, {
+          operation: "decrypt",
+          outcome: "failure",
+          reason: "not-found",
+          recordId: id,
+        });
         return reply.status(404).send({
           success: false,
           error: "Record not found",
         });
       }
+      const audited = { operation: "decrypt", partyId: record.partyId, recordId: id } as const;
 
-      const masterKey = process.env.MASTER_KEY_HEX;
-      if (!masterKey) {
+      const provider = getKeyProvider();
+      if (!provider) {
+        await recordAudit(request, { ...audited, outcome: "failure", reason: "error" });
         return reply.status(500).send({
           success: false,
           error: "Server misconfiguration: MASTER_KEY not set",
@@ -163,7 +608,12 @@ export async function txRoutes(app: FastifyInstance): Promise<void> {
       }
 
       try {
-        const payload = decrypt(masterKey, record);
+        // The key provider picks the master key matching record.mk_version
+        const pool = getCryptoPool();
+        const payload = pool
+          ? await pool.decryptAsync(provider, record)
+          : await decryptWithProvider(provider, record);
+        await recordAudit(request, { ...audited, outcome: "success" });
 
         return reply.status(200).send({
           success: true,
@@ -172,7 +622,39 @@ export async function txRoutes(app: FastifyInstance): Promise<void> {
           decryptedAt: new Date().toISOString(),
         });
       } catch (error: unknown) {
+        // Tamper detections, wrong keys, expired and shredded records alike
+        await recordAudit(request, {
+          ...audited,
+          outcome: "failure",
+          reason: auditFailureReason(error),
+        });
+        if (error instanceof PoolQueueFullError) {
+          return reply.status(503).header("Retry-After", POOL_RETRY_AFTER_SECONDS).send({
+            success: false,
+            error: error.message,
+          });
+        }
+        if (error instanceof KeyDestroyedError) {
+          return reply.status(410).send({
+            success: false,
+            error: error.message,
+          });
+        }
+        if (error instanceof ExpiredRecordError) {
+          return reply.status(410).send({
+            success: false,
+            error: error.message,
+            expiresAt: error.expiresAt,
+          });
+        }
+        if (error instanceof WrongKeyError) {
+          return reply.status(409).send({
+            success: false,
+            error: `Wrong key: ${error.message}`,
+          });
+        }
         if (error instanceof TamperedDataError) {
+          await reportTamperedDecrypt(id);
           return reply.status(400).send({
             success: false,
             error: `Tampered data detected: ${error.message}`,
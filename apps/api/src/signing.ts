@@ -0,0 +1,82 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import { SigningKey, signingKeyId } from "./crypto";
+
+/**
+ * Ed25519 key the API signs new records with (see signRecord()).
+ *
+ * Sources, in order of precedence:
+ *   SIGNING_KEY_FILE — path to a PKCS#8 PEM private key
+ *   SIGNING_KEY      — the PEM inline (literal "\n" sequences are accepted)
+ *
+ * SIGNING_KEY_ID overrides the key id recorded in `signer_key_id` (default:
+ * derived from the public key, see signingKeyId()). Without a key, records
+ * are not signed.
+ *
+ * Generate a key with: openssl genpkey -algorithm ed25519
+ */
+
+/** A public key as published at GET /keys/signing */
+export type PublishedSigningKey = {
+  keyId: string;
+  alg: "Ed25519";
+  /** SPKI PEM */
+  publicKey: string;
+};
+
+let signingKey: SigningKey | null = null;
+let publicKeyPem: string | null = null;
+
+/**
+ * Load the signing key from the environment. Must be called once before
+ * any encrypt request (called from the server entry point).
+ *
+ * @returns The key, or null if signing is not configured
+ * @throws Error with a descriptive message if the key is invalid
+ */
+export function initSigningKey(): SigningKey | null {
+  const { pem, source } = readSigningKeyPem();
+  if (!pem) {
+    signingKey = null;
+    publicKeyPem = null;
+    return null;
+  }
+
+  let privateKey: crypto.KeyObject;
+  let keyId: string;
+  try {
+    privateKey = crypto.createPrivateKey(pem);
+    keyId = process.env.SIGNING_KEY_ID || signingKeyId(privateKey);
+  } catch (err) {
+    throw new Error(`Invalid ${source}: ${(err as Error).message}`);
+  }
+
+  signingKey = { keyId, privateKey };
+  publicKeyPem = crypto.createPublicKey(privateKey).export({ type: "spki", format: "pem" }).toString();
+  return signingKey;
+}
+
+/** The key loaded by initSigningKey(), or null if signing is not configured */
+export function getSigningKey(): SigningKey | null {
+  return signingKey;
+}
+
+/** Public keys third parties can verify record signatures with */
+export function getSigningPublicKeys(): PublishedSigningKey[] {
+  if (!signingKey || !publicKeyPem) return [];
+  return [{ keyId: signingKey.keyId, alg: "Ed25519", publicKey: publicKeyPem }];
+}
+
+function readSigningKeyPem(): { pem: string | null; source: string } {
+  const file = process.env.SIGNING_KEY_FILE;
+  if (file) {
+    try {
+      return { pem: fs.readFileSync(file, "utf-8"), source: "SIGNING_KEY_FILE" };
+    } catch (err) {
+      throw new Error(`Cannot read SIGNING_KEY_FILE "${file}": ${(err as Error).message}`);
+    }
+  }
+
+  const inline = process.env.SIGNING_KEY;
+  return { pem: inline ? inline.replace(/\\n/g, "\n") : null, source: "SIGNING_KEY" };
+}
@@ -1,5 +1,20 @@
 import { createClient, SupabaseClient } from "@supabase/supabase-js";
-import { TxSecureRecord } from "./crypto";
+import {
+  BlindIndex,
+  JsonSchema,
+  LedgerCheckpoint,
+  LedgerEntry,
+  LedgerOp,
+  PartyKek,
+  PartyKeyStore,
+  TxSecureRecord,
+  ValidationError,
+  createLedgerEntry,
+  parseRecord,
+  serializeRecord,
+} from "./crypto";
+import type { RotationJob } from "./rotation";
+import type { AuditEntry, AuditFilter, AuditSink } from "./audit";
 
 /**
  * PostgreSQL-backed persistent storage via Supabase.
@@ -11,15 +26,35 @@ import { TxSecureRecord } from "./crypto";
  * Environment variables required:
  *   SUPABASE_URL        — your Supabase project URL
  *   SUPABASE_SERVICE_KEY — service_role key (server-side only, never expose)
+ *
+ * The tables are created by the SQL migrations in apps/api/supabase/migrations.
+ *
+ * Optional:
+ *   STORE_RECORD_FORMAT — "hex" (default) stores each binary field in its
+ *                         own hex column; "compact" stores them together as
+ *                         a base64url record envelope in the `envelope`
+ *                         column, about half the size. Rows in either form
+ *                         are always readable, and re-wraps convert hex rows
+ *                         to compact. Once rows are compact, keep this set:
+ *                         hex mode does not clear the `envelope` column.
  */
 
+export type StoreRecordFormat = "hex" | "compact";
+
 let supabase: SupabaseClient | null = null;
+let recordFormat: StoreRecordFormat = "hex";
 
 /**
  * Initialize the Supabase client. Must be called once before any
  * read/write operations (called from the server entry point).
  */
 export async function initStore(): Promise<void> {
+  const format = process.env.STORE_RECORD_FORMAT || "hex";
+  if (format !== "hex" && format !== "compact") {
+    throw new Error(`Unknown STORE_RECORD_FORMAT "${format}" — expected "hex" or "compact"`);
+  }
+  recordFormat = format;
+
   const url = process.env.SUPABASE_URL;
   const key = process.env.SUPABASE_SERVICE_KEY;
 
@@ -31,37 +66,247 @@ export async function initStore(): Promise<void> {
   supabase = createClient(url, key);
 }
 
-// ── In-memory fallback (if Supabase is not configured) ───────────────
-const fallbackStore = new Map<string, TxSecureRecord>();
+/** Whether initStore() connected to Supabase (false: in-memory fallback) */
+export function usingSupabase(): boolean {
+  return supabase !== null;
+}
 
-/** Store a new encrypted record */
-export async function saveRecord(record: TxSecureRecord): Promise<void> {
-  if (!supabase) {
-    fallbackStore.set(record.id, record);
-    return;
+// ── Row mapping ──────────────────────────────────────────────────────
+// The `transactions` table uses snake_case column names throughout.
+// The metadata columns are always written so rows stay queryable; the
+// binary fields live either in their hex columns or in `envelope`.
+
+/** Shape of a row in the Supabase `transactions` table */
+type TransactionRow = {
+  id: string;
+  party_id: string;
+  created_at: string;
+  expires_at?: string | null;
+  payload_nonce: string | null;
+  payload_ct: string | null;
+  payload_tag: string | null;
+  dek_wrap_nonce: string | null;
+  dek_wrapped: string | null;
+  dek_wrap_tag: string | null;
+  key_check?: string | null;
+  alg: string;
+  mk_version: number;
+  format_version: number | null;
+  payload_clear?: Record<string, unknown> | null;
+  payload_fields?: TxSecureRecord["payload_fields"] | null;
+  kek_id?: string | null;
+  recipient_key_id?: string | null;
+  recipient_epk?: string | null;
+  signer_key_id?: string | null;
+  signature?: string | null;
+  envelope?: string | null;
+};
+
+function toRow(record: TxSecureRecord): TransactionRow {
+  if (recordFormat === "compact") {
+    return {
+      id: record.id,
+      party_id: record.partyId,
+      created_at: record.createdAt,
+      // Kept as a column too, so the expiry sweeper can find expired rows
+      expires_at: record.expiresAt ?? null,
+      payload_nonce: null,
+      payload_ct: null,
+      payload_tag: null,
+      dek_wrap_nonce: null,
+      dek_wrapped: null,
+      dek_wrap_tag: null,
+      alg: record.alg,
+      mk_version: record.mk_version,
+      format_version: record.format_version ?? null,
+      // Kept as a column too, so readable fields stay queryable for routing
+      payload_clear: record.payload_clear,
+      kek_id: record.kek_id,
+      envelope: serializeRecord(record, "base64url"),
+    };
   }
 
-  const { error } = await supabase.from("transactions").insert({
+  return {
     id: record.id,
     party_id: record.partyId,
     created_at: record.createdAt,
+    expires_at: record.expiresAt ?? null,
     payload_nonce: record.payload_nonce,
     payload_ct: record.payload_ct,
     payload_tag: record.payload_tag,
     dek_wrap_nonce: record.dek_wrap_nonce,
     dek_wrapped: record.dek_wrapped,
     dek_wrap_tag: record.dek_wrap_tag,
+    key_check: record.key_check ?? null,
     alg: record.alg,
     mk_version: record.mk_version,
-  });
+    format_version: record.format_version ?? null,
+    payload_clear: record.payload_clear,
+    payload_fields: record.payload_fields,
+    kek_id: record.kek_id,
+    recipient_key_id: record.recipient_key_id ?? null,
+    recipient_epk: record.recipient_epk ?? null,
+    signer_key_id: record.signer_key_id ?? null,
+    signature: record.signature ?? null,
+  };
+}
 
-  if (error) throw new Error(`Supabase insert failed: ${error.message}`);
+function fromRow(row: TransactionRow): TxSecureRecord {
+  if (row.envelope) {
+    const record = parseStoredRecord(row.id, row.envelope);
+    if (record.id !== row.id) {
+      throw new Error(`Record ${row.id} has an envelope for record ${record.id}`);
+    }
+    return record;
+  }
+
+  // Null columns are left out, so parseStoredRecord() reports them as
+  // missing rather than as malformed values
+  const record: Record<string, unknown> = {
+    id: row.id,
+    partyId: row.party_id,
+    createdAt: isoTimestamp(row.created_at),
+    payload_nonce: row.payload_nonce ?? undefined,
+    payload_ct: row.payload_ct ?? undefined,
+    payload_tag: row.payload_tag ?? undefined,
+    dek_wrap_nonce: row.dek_wrap_nonce ?? undefined,
+    dek_wrapped: row.dek_wrapped ?? undefined,
+    dek_wrap_tag: row.dek_wrap_tag ?? undefined,
+    alg: row.alg,
+    mk_version: row.mk_version,
+  };
+
+  // Legacy rows (written before AAD binding) have no format_version
+  if (row.format_version !== null && row.format_version !== undefined) {
+    record.format_version = row.format_version;
+  }
+
+  // Rows written before key check values (and sealed rows) have none
+  if (row.key_check) {
+    record.key_check = row.key_check;
+  }
+
+  // Only rows written with a TTL have this
+  if (row.expires_at) {
+    record.expiresAt = isoTimestamp(row.expires_at);
+  }
+
+  // Only field-level encrypted rows have these
+  if (row.payload_clear && row.payload_fields) {
+    record.payload_clear = row.payload_clear;
+    record.payload_fields = row.payload_fields;
+  }
+
+  // Only rows whose DEK is wrapped by a party KEK have this
+  if (row.kek_id) {
+    record.kek_id = row.kek_id;
+  }
+
+  // Only rows sealed to a recipient key have these
+  if (row.recipient_key_id && row.recipient_epk) {
+    record.recipient_key_id = row.recipient_key_id;
+    record.recipient_epk = row.recipient_epk;
+  }
+
+  // Only signed rows have these
+  if (row.signer_key_id && row.signature) {
+    record.signer_key_id = row.signer_key_id;
+    record.signature = row.signature;
+  }
+
+  // Columns are free text in the database; `alg`, for one, selects the
+  // cipher on decrypt, so nothing is passed on without the strict checks
+  return parseStoredRecord(row.id, record);
+}
+
+/**
+ * Timestamps as records hold them (toISOString() output, which their AAD
+ * binds). timestamptz columns come back as e.g.
+ * "2026-01-15T10:30:00.123+00:00"; anything unparseable is returned as is
+ * for parseRecord() to report.
+ */
+function isoTimestamp(value: string): string {
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? value : new Date(time).toISOString();
+}
+
+/**
+ * Parse a batch of scanned rows, setting aside the ones that fail the
+ * checks: one corrupt row must not stop a scan over all the others.
+ */
+function toRecordBatch<T>(
+  rows: T[],
+  position: (row: T) => RecordCursor,
+  parse: (row: T) => TxSecureRecord
+): RecordBatch {
+  const batch: RecordBatch = { records: [], invalid: [], last: null, rows: rows.length };
+  for (const row of rows) {
+    batch.last = position(row);
+    try {
+      batch.records.push(parse(row));
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      batch.invalid.push({ id: batch.last.id, error: message });
+    }
+  }
+  return batch;
+}
+
+/**
+ * Parses a record read from the store with parseRecord()'s strict checks.
+ * A stored record that fails them is corrupt, not bad client input, so the
+ * ValidationError becomes a plain Error (a 500 in the routes) listing
+ * every issue.
+ */
+function parseStoredRecord(id: string, input: unknown): TxSecureRecord {
+  try {
+    return parseRecord(input);
+  } catch (error: unknown) {
+    if (!(error instanceof ValidationError)) throw error;
+    const issues = error.issues.length > 0 ? error.issues.map((i) => i.message) : [error.message];
+    throw new Error(`Record ${id} in the store is invalid: ${issues.join("; ")}`);
+  }
+}
+
+// ── In-memory fallback (if Supabase is not configured) ───────────────
+const fallbackStore = new Map<string, TxSecureRecord>();
+
+/**
+ * Store a new encrypted record with its blind indexes and append it to the
+ * ledger. With Supabase all three are written in one transaction (the
+ * insert_record_with_ledger_entry SQL function), so no record is stored
+ * without its ledger entry or its indexes.
+ *
+ * @returns The record's ledger entry (its `seq` orders it among all writes)
+ */
+export async function saveRecord(
+  record: TxSecureRecord,
+  blindIndexes: BlindIndex[] = []
+): Promise<LedgerEntry> {
+  const indexRows = blindIndexes.map((index) => ({
+    tx_id: record.id,
+    party_id: record.partyId,
+    ...index,
+  }));
+
+  if (!supabase) {
+    fallbackStore.set(record.id, record);
+    fallbackBlindIndexes.push(...indexRows);
+    return (await appendLedgerEntry("insert", record.id, record)).entry;
+  }
+
+  const { entry } = await appendLedgerEntry("insert", record.id, record, {
+    fn: "insert_record_with_ledger_entry",
+    args: { record: toRow(record), blind_indexes: indexRows },
+  });
+  return entry;
 }
 
 /** Retrieve a record by ID, or undefined if not found */
 export async function getRecord(id: string): Promise<TxSecureRecord | undefined> {
   if (!supabase) {
-    return fallbackStore.get(id);
+    const record = fallbackStore.get(id);
+    return record && parseStoredRecord(id, record);
   }
 
   const { data, error } = await supabase
@@ -72,19 +317,7 @@ export async function getRecord(id: string): Promise<TxSecureRecord | undefined>
 
   if (error || !data) return undefined;
 
-  return {
-    id: data.id,
-    partyId: data.party_id,
-    createdAt: data.created_at,
-    payload_nonce: data.payload_nonce,
-    payload_ct: data.payload_ct,
-    payload_tag: data.payload_tag,
-    dek_wrap_nonce: data.dek_wrap_nonce,
-    dek_wrapped: data.dek_wrapped,
-    dek_wrap_tag: data.dek_wrap_tag,
-    alg: data.alg,
-    mk_version: data.mk_version,
-  };
+  return fromRow(data);
 }
 
 /** Get the total number of stored records */
@@ -100,3 +333,1284 @@ export async function getRecordCount(): Promise<number> {
   if (error) return 0;
   return count ?? 0;
 }
+
+/** A batch of rows read by scanRecords() or listRecords() */
+export type RecordBatch = {
+  /** The rows that passed parseRecord()'s checks, in order */
+  records: TxSecureRecord[];
+
+  /** The rows that did not, left out of `records` */
+  invalid: Array<{ id: string; error: string }>;
+
+  /** The batch's last row, valid or not — the next batch starts after it */
+  last: RecordCursor | null;
+
+  /** Rows read: `records` plus `invalid` */
+  rows: number;
+};
+
+/**
+ * Read a batch of records in ascending id order, starting after `afterId`.
+ *
+ * Keyset pagination (rather than offsets) keeps a long-running scan stable
+ * while records are inserted concurrently, and lets a scan resume from the
+ * last id it processed.
+ */
+export async function scanRecords(afterId: string | null, limit: number): Promise<RecordBatch> {
+  if (!supabase) {
+    const ids = [...fallbackStore.keys()]
+      .filter((id) => afterId === null || id > afterId)
+      .sort()
+      .slice(0, limit);
+    return toRecordBatch(ids, fallbackPosition, (id) =>
+      parseStoredRecord(id, fallbackStore.get(id))
+    );
+  }
+
+  let query = supabase.from("transactions").select("*").order("id").limit(limit);
+  if (afterId !== null) query = query.gt("id", afterId);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Supabase scan failed: ${error.message}`);
+
+  return toRecordBatch(data as TransactionRow[], rowPosition, fromRow);
+}
+
+function rowPosition(row: TransactionRow): RecordCursor {
+  return { createdAt: isoTimestamp(row.created_at), id: row.id };
+}
+
+function fallbackPosition(id: string): RecordCursor {
+  return { createdAt: fallbackStore.get(id)?.createdAt ?? "", id };
+}
+
+/** Conditions for listRecords(); every given field must match */
+export type RecordFilter = {
+  partyId?: string;
+
+  /** Records created strictly after this time (ISO 8601) */
+  createdAfter?: string;
+
+  /** Records created strictly before this time (ISO 8601) */
+  createdBefore?: string;
+
+  mkVersion?: number;
+};
+
+/** A position in listRecords() order: the last record of the previous page */
+export type RecordCursor = {
+  createdAt: string;
+  id: string;
+};
+
+/**
+ * List records newest first (by `createdAt`, then `id` for records created
+ * in the same millisecond), starting after `after`.
+ *
+ * Like scanRecords(), this pages by key rather than by offset. Records
+ * inserted while a client pages are newer than its cursor, so they land
+ * before the pages it has read instead of shifting the ones still to come:
+ * no record is repeated or skipped.
+ *
+ * @param after - Must hold an ISO 8601 timestamp and a UUID; it ends up in
+ *                a PostgREST filter string
+ */
+export async function listRecords(
+  filter: RecordFilter,
+  after: RecordCursor | null,
+  limit: number
+): Promise<RecordBatch> {
+  if (!supabase) {
+    const isAfter = (id: string, created: number) => {
+      if (!after) return true;
+      const afterTime = Date.parse(after.createdAt);
+      return created < afterTime || (created === afterTime && id < after.id);
+    };
+    const ids = [...fallbackStore.entries()]
+      .filter(([id, record]) => {
+        const created = Date.parse(record.createdAt);
+        return (
+          (filter.partyId === undefined || record.partyId === filter.partyId) &&
+          (filter.createdAfter === undefined || created > Date.parse(filter.createdAfter)) &&
+          (filter.createdBefore === undefined || created < Date.parse(filter.createdBefore)) &&
+          (filter.mkVersion === undefined || record.mk_version === filter.mkVersion) &&
+          isAfter(id, created)
+        );
+      })
+      .sort(
+        ([idA, a], [idB, b]) =>
+          Date.parse(b.createdAt) - Date.parse(a.createdAt) || (idA < idB ? 1 : idA > idB ? -1 : 0)
+      )
+      .slice(0, limit)
+      .map(([id]) => id);
+
+    return toRecordBatch(ids, fallbackPosition, (id) =>
+      parseStoredRecord(id, fallbackStore.get(id))
+    );
+  }
+
+  let query = supabase
+    .from("transactions")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(limit);
+  if (filter.partyId !== undefined) query = query.eq("party_id", filter.partyId);
+  if (filter.createdAfter !== undefined) query = query.gt("created_at", filter.createdAfter);
+  if (filter.createdBefore !== undefined) query = query.lt("created_at", filter.createdBefore);
+  if (filter.mkVersion !== undefined) query = query.eq("mk_version", filter.mkVersion);
+  if (after) {
+    // Quoted: timestamps contain characters PostgREST's filter syntax reserves
+    const createdAt = `"${after.createdAt}"`;
+    query = query.or(
+      `created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.lt.${after.id})`
+    );
+  }
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Supabase list failed: ${error.message}`);
+
+  return toRecordBatch(data as TransactionRow[], rowPosition, fromRow);
+}
+
+/**
+ * Replace a record's DEK wrapping after a re-wrap.
+ *
+ * Only the dek_* fields, key_check, mk_version and the signature
+ * (re-wrapping changes what is signed) are written — in compact mode the
+ * whole row is rewritten, since the envelope holds every field. The update
+ * is conditional on the record still having `expectedMkVersion`, so two
+ * concurrent rotations cannot overwrite each other. With Supabase the
+ * update and its ledger entry are written in one transaction (the
+ * update_record_key_wrap_with_ledger_entry SQL function).
+ *
+ * @returns true if the record was updated
+ */
+export async function updateRecordKeyWrap(
+  record: TxSecureRecord,
+  expectedMkVersion: number
+): Promise<boolean> {
+  const fields = {
+    dek_wrap_nonce: record.dek_wrap_nonce,
+    dek_wrapped: record.dek_wrapped,
+    dek_wrap_tag: record.dek_wrap_tag,
+    key_check: record.key_check,
+    mk_version: record.mk_version,
+  };
+
+  if (!supabase) {
+    const current = fallbackStore.get(record.id);
+    if (!current || current.mk_version !== expectedMkVersion) return false;
+    const { signer_key_id: _signer, signature: _signature, ...unsigned } = current;
+    fallbackStore.set(record.id, {
+      ...unsigned,
+      ...fields,
+      ...(record.signature !== undefined && {
+        signer_key_id: record.signer_key_id,
+        signature: record.signature,
+      }),
+    });
+    await appendLedgerEntry("update", record.id, record);
+    return true;
+  }
+
+  const { id: _id, ...compactColumns } = toRow(record);
+  const columns =
+    recordFormat === "compact"
+      ? compactColumns
+      : {
+          ...fields,
+          signer_key_id: record.signer_key_id ?? null,
+          signature: record.signature ?? null,
+        };
+
+  const { written } = await appendLedgerEntry("update", record.id, record, {
+    fn: "update_record_key_wrap_with_ledger_entry",
+    args: { record: { id: record.id, ...columns }, expected_mk_version: expectedMkVersion },
+  });
+  return written;
+}
+
+// ── Blind indexes ────────────────────────────────────────────────────
+// Kept in a side table (`transaction_blind_indexes`, one row per record
+// and field) so any number of fields can be indexed without schema changes.
+// Each row carries its record's party_id, so a party's search only sees
+// its own records.
+
+/** Maximum number of ids returned by one search */
+const SEARCH_LIMIT = 100;
+
+const fallbackBlindIndexes: Array<BlindIndex & { tx_id: string; party_id: string }> = [];
+
+/**
+ * Find the ids of records whose `field` has any of the given blind indexes
+ * (one per master key version), oldest first — only `partyId`'s records,
+ * if given.
+ */
+export async function findIdsByBlindIndex(
+  field: string,
+  indexes: BlindIndex[],
+  partyId?: string
+): Promise<string[]> {
+  const hmacs = indexes.map((index) => index.hmac);
+  if (hmacs.length === 0) return [];
+
+  if (!supabase) {
+    const ids = fallbackBlindIndexes
+      .filter((row) => row.field === field && hmacs.includes(row.hmac))
+      .filter((row) => partyId === undefined || row.party_id === partyId)
+      .map((row) => row.tx_id);
+    return [...new Set(ids)].slice(0, SEARCH_LIMIT);
+  }
+
+  let query = supabase
+    .from("transaction_blind_indexes")
+    .select("tx_id")
+    .eq("field", field)
+    .in("hmac", hmacs)
+    .limit(SEARCH_LIMIT);
+  if (partyId !== undefined) query = query.eq("party_id", partyId);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Supabase blind index search failed: ${error.message}`);
+  return [...new Set((data as Array<{ tx_id: string }>).map((row) => row.tx_id))];
+}
+
+/**
+ * Delete the blind indexes of every record of a party, so a shredded
+ * party's records can no longer be matched by value.
+ *
+ * @returns The number of records whose indexes were deleted
+ */
+export async function deletePartyBlindIndexes(partyId: string): Promise<number> {
+  if (!supabase) {
+    const ids = new Set(
+      [...fallbackStore.values()].filter((r) => r.partyId === partyId).map((r) => r.id)
+    );
+    const kept = fallbackBlindIndexes.filter((row) => !ids.has(row.tx_id));
+    fallbackBlindIndexes.splice(0, fallbackBlindIndexes.length, ...kept);
+    return ids.size;
+  }
+
+  const { data, error } = await supabase
+    .from("transactions")
+    .select("id")
+    .eq("party_id", partyId);
+  if (error) throw new Error(`Supabase party scan failed: ${error.message}`);
+
+  const ids = (data as Array<{ id: string }>).map((row) => row.id);
+  for (let i = 0; i < ids.length; i += SEARCH_LIMIT) {
+    const { error: deleteError } = await supabase
+      .from("transaction_blind_indexes")
+      .delete()
+      .in("tx_id", ids.slice(i, i + SEARCH_LIMIT));
+    if (deleteError) {
+      throw new Error(`Supabase blind index delete failed: ${deleteError.message}`);
+    }
+  }
+  return ids.length;
+}
+
+/**
+ * Count a party's records that destroying its KEKs does not shred: those
+ * whose DEK is wrapped by the master key itself (written before
+ * PARTY_KEKS=true), which the master key still decrypts. Sealed records
+ * are not counted — the server could never decrypt them.
+ */
+export async function countMasterWrappedRecords(partyId: string): Promise<number> {
+  if (!supabase) {
+    return [...fallbackStore.values()].filter(
+      (r) => r.partyId === partyId && !r.kek_id && !r.recipient_key_id
+    ).length;
+  }
+
+  const { count, error } = await supabase
+    .from("transactions")
+    .select("id", { count: "exact", head: true })
+    .eq("party_id", partyId)
+    .is("kek_id", null)
+    .is("recipient_key_id", null);
+  if (error) throw new Error(`Supabase party count failed: ${error.message}`);
+  return count ?? 0;
+}
+
+// ── Expiry ───────────────────────────────────────────────────────────
+// Records written with a TTL carry `expires_at`; decrypting one after that
+// fails anyway, so the sweeper (see sweeper.ts) deletes the rows.
+
+/**
+ * Delete up to `limit` records whose `expiresAt` is at or before `now`,
+ * together with their blind indexes, oldest expiry first. Each deletion
+ * is appended to the ledger.
+ *
+ * @returns The number of records deleted (less than `limit` once none are left)
+ */
+export async function deleteExpiredRecords(now: Date, limit: number): Promise<number> {
+  const cutoff = now.toISOString();
+
+  if (!supabase) {
+    const ids = [...fallbackStore.values()]
+      .filter(
+        (record): record is TxSecureRecord & { expiresAt: string } =>
+          record.expiresAt !== undefined && record.expiresAt <= cutoff
+      )
+      .sort((a, b) => a.expiresAt.localeCompare(b.expiresAt))
+      .slice(0, limit)
+      .map((record) => record.id);
+    const expired = new Set(ids);
+    for (const id of ids) fallbackStore.delete(id);
+    const kept = fallbackBlindIndexes.filter((row) => !expired.has(row.tx_id));
+    fallbackBlindIndexes.splice(0, fallbackBlindIndexes.length, ...kept);
+    for (const id of ids) await appendLedgerEntry("delete", id);
+    return ids.length;
+  }
+
+  // `expires_at` is a timestamptz (see supabase/migrations), so this compares times
+  const { data, error } = await supabase
+    .from("transactions")
+    .select("id")
+    .lte("expires_at", cutoff)
+    .order("expires_at")
+    .limit(limit);
+  if (error) throw new Error(`Supabase expiry scan failed: ${error.message}`);
+
+  // One transaction per row (delete_record_with_ledger_entry), since each
+  // entry chains onto the one before it. A row another instance's sweeper
+  // got to first is not deleted again and gets no entry. Its blind indexes
+  // go with it (on delete cascade).
+  let deleted = 0;
+  for (const { id } of data as Array<{ id: string }>) {
+    const { written } = await appendLedgerEntry("delete", id, undefined, {
+      fn: "delete_record_with_ledger_entry",
+      args: { record_id: id },
+    });
+    if (written) deleted++;
+  }
+  return deleted;
+}
+
+// ── Ledger ───────────────────────────────────────────────────────────
+// Hash-chained log of every record write (see createLedgerEntry()) in
+// `ledger_entries`, keyed by `seq`, and signed checkpoints over it in
+// `ledger_checkpoints`, keyed by `tree_size`. Entries are only ever
+// inserted; the primary key on `seq` makes two instances appending at once
+// collide instead of forking the chain, and the loser retries on the new
+// head.
+
+/** Attempts at appending an entry before giving up on a contended head */
+const LEDGER_APPEND_ATTEMPTS = 5;
+
+/** PostgreSQL unique_violation */
+const UNIQUE_VIOLATION = "23505";
+
+const fallbackLedger: LedgerEntry[] = [];
+const fallbackCheckpoints: LedgerCheckpoint[] = [];
+
+/** Appends within this process run one after another */
+let ledgerTail: Promise<unknown> = Promise.resolve();
+
+/**
+ * A record write committed in one transaction with its ledger entry: an
+ * SQL function called with `args` plus the entry row as `entry`. A function
+ * that returns false wrote nothing, and the entry is not appended either.
+ */
+type LedgerWrite = {
+  fn: string;
+  args: Record<string, unknown>;
+};
+
+/** Shape of a row in the Supabase `ledger_entries` table */
+type LedgerEntryRow = {
+  seq: number;
+  op: LedgerOp;
+  record_id: string;
+  created_at: string;
+  record_hash: string | null;
+  prev_hash: string;
+  entry_hash: string;
+};
+
+/** Shape of a row in the Supabase `ledger_checkpoints` table */
+type LedgerCheckpointRow = {
+  tree_size: number;
+  root: string;
+  head_hash: string;
+  created_at: string;
+  signer_key_id: string;
+  signature: string;
+};
+
+function toLedgerEntryRow(entry: LedgerEntry): LedgerEntryRow {
+  return {
+    seq: entry.seq,
+    op: entry.op,
+    record_id: entry.recordId,
+    created_at: entry.createdAt,
+    record_hash: entry.record_hash ?? null,
+    prev_hash: entry.prev_hash,
+    entry_hash: entry.entry_hash,
+  };
+}
+
+function fromLedgerEntryRow(row: LedgerEntryRow): LedgerEntry {
+  const entry: LedgerEntry = {
+    seq: Number(row.seq),
+    op: row.op,
+    recordId: row.record_id,
+    createdAt: row.created_at,
+    prev_hash: row.prev_hash,
+    entry_hash: row.entry_hash,
+  };
+  // Delete entries have none
+  if (row.record_hash) entry.record_hash = row.record_hash;
+  return entry;
+}
+
+function toLedgerCheckpointRow(checkpoint: LedgerCheckpoint): LedgerCheckpointRow {
+  return {
+    tree_size: checkpoint.treeSize,
+    root: checkpoint.root,
+    head_hash: checkpoint.head_hash,
+    created_at: checkpoint.createdAt,
+    signer_key_id: checkpoint.signer_key_id,
+    signature: checkpoint.signature,
+  };
+}
+
+function fromLedgerCheckpointRow(row: LedgerCheckpointRow): LedgerCheckpoint {
+  return {
+    treeSize: Number(row.tree_size),
+    root: row.root,
+    head_hash: row.head_hash,
+    createdAt: row.created_at,
+    signer_key_id: row.signer_key_id,
+    signature: row.signature,
+  };
+}
+
+/**
+ * Append an entry for a record write to the ledger.
+ *
+ * @param record - The record as written (not for "delete")
+ * @param write  - The write itself, committed with the entry (Supabase only)
+ * @returns The entry, and whether it (and the write) went in
+ */
+function appendLedgerEntry(
+  op: LedgerOp,
+  recordId: string,
+  record?: TxSecureRecord,
+  write?: LedgerWrite
+): Promise<{ entry: LedgerEntry; written: boolean }> {
+  const appended = ledgerTail.then(async () => {
+    for (let attempt = 1; ; attempt++) {
+      const entry = createLedgerEntry((await getLedgerHead()) ?? null, op, recordId, record);
+      if (!supabase) {
+        fallbackLedger.push(entry);
+        return { entry, written: true };
+      }
+
+      const { data, error } = write
+        ? await supabase.rpc(write.fn, { ...write.args, entry: toLedgerEntryRow(entry) })
+        : await supabase.from("ledger_entries").insert(toLedgerEntryRow(entry));
+      if (!error) return { entry, written: data !== false };
+      if (error.code !== UNIQUE_VIOLATION || attempt === LEDGER_APPEND_ATTEMPTS) {
+        throw new Error(`Supabase ledger append failed: ${error.message}`);
+      }
+    }
+  });
+  ledgerTail = appended.catch(() => undefined);
+  return appended;
+}
+
+/** The latest ledger entry, or undefined if the ledger is empty */
+export async function getLedgerHead(): Promise<LedgerEntry | undefined> {
+  if (!supabase) {
+    return fallbackLedger[fallbackLedger.length - 1];
+  }
+
+  const { data, error } = await supabase
+    .from("ledger_entries")
+    .select("*")
+    .order("seq", { ascending: false })
+    .limit(1);
+
+  if (error) throw new Error(`Supabase ledger read failed: ${error.message}`);
+  return data.length > 0 ? fromLedgerEntryRow(data[0]) : undefined;
+}
+
+/**
+ * Read a batch of ledger entries in ascending seq order, starting after
+ * `afterSeq` (0 for the start of the ledger).
+ */
+export async function scanLedgerEntries(afterSeq: number, limit: number): Promise<LedgerEntry[]> {
+  if (!supabase) {
+    return fallbackLedger.filter((entry) => entry.seq > afterSeq).slice(0, limit);
+  }
+
+  const { data, error } = await supabase
+    .from("ledger_entries")
+    .select("*")
+    .gt("seq", afterSeq)
+    .order("seq")
+    .limit(limit);
+
+  if (error) throw new Error(`Supabase ledger scan failed: ${error.message}`);
+  return (data as LedgerEntryRow[]).map(fromLedgerEntryRow);
+}
+
+/** The latest ledger entry for a record up to `maxSeq`, or undefined if there is none */
+export async function findLedgerEntry(
+  recordId: string,
+  maxSeq: number
+): Promise<LedgerEntry | undefined> {
+  if (!supabase) {
+    return fallbackLedger
+      .filter((entry) => entry.recordId === recordId && entry.seq <= maxSeq)
+      .pop();
+  }
+
+  const { data, error } = await supabase
+    .from("ledger_entries")
+    .select("*")
+    .eq("record_id", recordId)
+    .lte("seq", maxSeq)
+    .order("seq", { ascending: false })
+    .limit(1);
+
+  if (error) throw new Error(`Supabase ledger read failed: ${error.message}`);
+  return data.length > 0 ? fromLedgerEntryRow(data[0]) : undefined;
+}
+
+/** Store a signed checkpoint */
+export async function saveLedgerCheckpoint(checkpoint: LedgerCheckpoint): Promise<void> {
+  if (!supabase) {
+    fallbackCheckpoints.push(checkpoint);
+    return;
+  }
+
+  const { error } = await supabase
+    .from("ledger_checkpoints")
+    .insert(toLedgerCheckpointRow(checkpoint));
+  if (error) throw new Error(`Supabase checkpoint insert failed: ${error.message}`);
+}
+
+/** All checkpoints, in ascending treeSize order */
+export async function listLedgerCheckpoints(): Promise<LedgerCheckpoint[]> {
+  if (!supabase) {
+    return [...fallbackCheckpoints].sort((a, b) => a.treeSize - b.treeSize);
+  }
+
+  const { data, error } = await supabase.from("ledger_checkpoints").select("*").order("tree_size");
+  if (error) throw new Error(`Supabase checkpoint scan failed: ${error.message}`);
+  return (data as LedgerCheckpointRow[]).map(fromLedgerCheckpointRow);
+}
+
+/** The checkpoint over the most entries, or undefined if there is none */
+export async function getLatestLedgerCheckpoint(): Promise<LedgerCheckpoint | undefined> {
+  if (!supabase) {
+    const checkpoints = await listLedgerCheckpoints();
+    return checkpoints[checkpoints.length - 1];
+  }
+
+  const { data, error } = await supabase
+    .from("ledger_checkpoints")
+    .select("*")
+    .order("tree_size", { ascending: false })
+    .limit(1);
+
+  if (error) throw new Error(`Supabase checkpoint read failed: ${error.message}`);
+  return data.length > 0 ? fromLedgerCheckpointRow(data[0]) : undefined;
+}
+
+// ── Party KEKs ───────────────────────────────────────────────────────
+// One row per key-encryption key in `party_keys`. Destroyed KEKs keep
+// their row (with the key material blanked) so decrypting one of their
+// records reports the destruction instead of an unknown key.
+
+const fallbackPartyKeks = new Map<string, PartyKek>();
+
+/** Shape of a row in the Supabase `party_keys` table */
+type PartyKekRow = {
+  kek_id: string;
+  party_id: string;
+  created_at: string;
+  mk_version: number;
+  kek_wrap_nonce: string;
+  kek_wrapped: string;
+  kek_wrap_tag: string;
+  kek_key_check: string | null;
+  format_version: number | null;
+  destroyed_at: string | null;
+};
+
+function toPartyKekRow(kek: PartyKek): PartyKekRow {
+  return {
+    kek_id: kek.kek_id,
+    party_id: kek.partyId,
+    created_at: kek.createdAt,
+    mk_version: kek.mk_version,
+    kek_wrap_nonce: kek.kek_wrap_nonce,
+    kek_wrapped: kek.kek_wrapped,
+    kek_wrap_tag: kek.kek_wrap_tag,
+    kek_key_check: kek.kek_key_check ?? null,
+    format_version: kek.format_version ?? null,
+    destroyed_at: kek.destroyedAt ?? null,
+  };
+}
+
+function fromPartyKekRow(row: PartyKekRow): PartyKek {
+  const kek: PartyKek = {
+    kek_id: row.kek_id,
+    partyId: row.party_id,
+    createdAt: row.created_at,
+    mk_version: row.mk_version,
+    kek_wrap_nonce: row.kek_wrap_nonce,
+    kek_wrapped: row.kek_wrapped,
+    kek_wrap_tag: row.kek_wrap_tag,
+  };
+  // KEKs created before subkeys have no format_version (format 2)
+  if (row.format_version !== null && row.format_version !== undefined) {
+    kek.format_version = row.format_version;
+  }
+  // KEKs created before key check values have none
+  if (row.kek_key_check) kek.kek_key_check = row.kek_key_check;
+  if (row.destroyed_at) kek.destroyedAt = row.destroyed_at;
+  return kek;
+}
+
+/** PartyKeyStore backed by the `party_keys` table (or memory) */
+export const partyKeyStore: PartyKeyStore = {
+  async findActiveKek(partyId) {
+    if (!supabase) {
+      return [...fallbackPartyKeks.values()]
+        .filter((kek) => kek.partyId === partyId && kek.destroyedAt === undefined)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+    }
+
+    const { data, error } = await supabase
+      .from("party_keys")
+      .select("*")
+      .eq("party_id", partyId)
+      .is("destroyed_at", null)
+      .order("created_at", { ascending: false })
+      .limit(1);
+
+    if (error) throw new Error(`Supabase party key lookup failed: ${error.message}`);
+    return data && data.length > 0 ? fromPartyKekRow(data[0]) : undefined;
+  },
+
+  async getKek(kekId) {
+    if (!supabase) {
+      return fallbackPartyKeks.get(kekId);
+    }
+
+    const { data, error } = await supabase
+      .from("party_keys")
+      .select("*")
+      .eq("kek_id", kekId)
+      .single();
+
+    if (error || !data) return undefined;
+    return fromPartyKekRow(data);
+  },
+
+  async saveKek(kek) {
+    if (!supabase) {
+      fallbackPartyKeks.set(kek.kek_id, { ...kek });
+      return;
+    }
+
+    const { error } = await supabase.from("party_keys").insert(toPartyKekRow(kek));
+    if (error) throw new Error(`Supabase party key insert failed: ${error.message}`);
+  },
+
+  async destroyKeks(partyId) {
+    const destroyedAt = new Date().toISOString();
+    const erased = { kek_wrap_nonce: "", kek_wrapped: "", kek_wrap_tag: "" };
+
+    if (!supabase) {
+      let destroyed = 0;
+      for (const kek of fallbackPartyKeks.values()) {
+        if (kek.partyId !== partyId || kek.destroyedAt !== undefined) continue;
+        fallbackPartyKeks.set(kek.kek_id, { ...kek, ...erased, destroyedAt });
+        destroyed++;
+      }
+      return destroyed;
+    }
+
+    const { data, error } = await supabase
+      .from("party_keys")
+      .update({ ...erased, destroyed_at: destroyedAt })
+      .eq("party_id", partyId)
+      .is("destroyed_at", null)
+      .select("kek_id");
+
+    if (error) throw new Error(`Supabase party key destroy failed: ${error.message}`);
+    return (data ?? []).length;
+  },
+};
+
+/**
+ * Read a batch of live party KEKs wrapped below a master key version, in
+ * ascending kek_id order starting after `afterKekId` (keyset pagination, as
+ * in scanRecords()).
+ */
+export async function listPartyKeksBelowVersion(
+  version: number,
+  afterKekId: string | null,
+  limit: number
+): Promise<PartyKek[]> {
+  if (!supabase) {
+    return [...fallbackPartyKeks.values()]
+      .filter((kek) => kek.destroyedAt === undefined && kek.mk_version < version)
+      .filter((kek) => afterKekId === null || kek.kek_id > afterKekId)
+      .sort((a, b) => a.kek_id.localeCompare(b.kek_id))
+      .slice(0, limit);
+  }
+
+  let query = supabase
+    .from("party_keys")
+    .select("*")
+    .is("destroyed_at", null)
+    .lt("mk_version", version)
+    .order("kek_id")
+    .limit(limit);
+  if (afterKekId !== null) query = query.gt("kek_id", afterKekId);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Supabase party key scan failed: ${error.message}`);
+  return (data as PartyKekRow[]).map(fromPartyKekRow);
+}
+
+/**
+ * Replace a party KEK's wrapping after a re-wrap — conditional on it still
+ * having `expectedMkVersion` and not having been destroyed meanwhile.
+ *
+ * @returns true if the KEK was updated
+ */
+export async function updatePartyKekWrap(
+  kek: PartyKek,
+  expectedMkVersion: number
+): Promise<boolean> {
+  const fields = {
+    kek_wrap_nonce: kek.kek_wrap_nonce,
+    kek_wrapped: kek.kek_wrapped,
+    kek_wrap_tag: kek.kek_wrap_tag,
+    kek_key_check: kek.kek_key_check,
+    mk_version: kek.mk_version,
+  };
+
+  if (!supabase) {
+    const current = fallbackPartyKeks.get(kek.kek_id);
+    if (!current || current.destroyedAt !== undefined || current.mk_version !== expectedMkVersion) {
+      return false;
+    }
+    fallbackPartyKeks.set(kek.kek_id, { ...current, ...fields });
+    return true;
+  }
+
+  const { data, error } = await supabase
+    .from("party_keys")
+    .update(fields)
+    .eq("kek_id", kek.kek_id)
+    .eq("mk_version", expectedMkVersion)
+    .is("destroyed_at", null)
+    .select("kek_id");
+
+  if (error) throw new Error(`Supabase party key update failed: ${error.message}`);
+  return (data ?? []).length > 0;
+}
+
+// ── Party public keys ────────────────────────────────────────────────
+// One X25519 public key per party in `party_public_keys`, for records
+// sealed with `recipient: "party-public-key"`. Registering a new key
+// replaces the old one; records already sealed keep its key id.
+
+/** A party's registered recipient key */
+export type PartyPublicKey = {
+  partyId: string;
+
+  /** recipientKeyId() of the key */
+  keyId: string;
+
+  /** X25519 public key, SPKI PEM */
+  publicKey: string;
+
+  registeredAt: string;
+};
+
+const fallbackPartyPublicKeys = new Map<string, PartyPublicKey>();
+
+/** Shape of a row in the Supabase `party_public_keys` table */
+type PartyPublicKeyRow = {
+  party_id: string;
+  key_id: string;
+  public_key: string;
+  registered_at: string;
+};
+
+/** Register (or replace) a party's public key */
+export async function savePartyPublicKey(key: PartyPublicKey): Promise<void> {
+  if (!supabase) {
+    fallbackPartyPublicKeys.set(key.partyId, { ...key });
+    return;
+  }
+
+  const row: PartyPublicKeyRow = {
+    party_id: key.partyId,
+    key_id: key.keyId,
+    public_key: key.publicKey,
+    registered_at: key.registeredAt,
+  };
+  const { error } = await supabase.from("party_public_keys").upsert(row);
+  if (error) throw new Error(`Supabase upsert failed: ${error.message}`);
+}
+
+/** A party's public key, or undefined if none is registered */
+export async function getPartyPublicKey(partyId: string): Promise<PartyPublicKey | undefined> {
+  if (!supabase) {
+    return fallbackPartyPublicKeys.get(partyId);
+  }
+
+  const { data, error } = await supabase
+    .from("party_public_keys")
+    .select("*")
+    .eq("party_id", partyId)
+    .single();
+
+  if (error || !data) return undefined;
+  const row = data as PartyPublicKeyRow;
+  return {
+    partyId: row.party_id,
+    keyId: row.key_id,
+    publicKey: row.public_key,
+    registeredAt: row.registered_at,
+  };
+}
+
+// ── Party payload schemas ────────────────────────────────────────────
+// At most one payload schema per party in `party_schemas`. POST
+// /tx/encrypt refuses payloads for the party that do not match it.
+
+/** A party's registered payload schema */
+export type PartySchema = {
+  partyId: string;
+
+  /** Checked with definePayloadSchema() before it is saved */
+  schema: JsonSchema;
+
+  registeredAt: string;
+};
+
+const fallbackPartySchemas = new Map<string, PartySchema>();
+
+/** Shape of a row in the Supabase `party_schemas` table */
+type PartySchemaRow = {
+  party_id: string;
+  schema: JsonSchema;
+  registered_at: string;
+};
+
+/** Register (or replace) a party's payload schema */
+export async function savePartySchema(partySchema: PartySchema): Promise<void> {
+  if (!supabase) {
+    fallbackPartySchemas.set(partySchema.partyId, { ...partySchema });
+    return;
+  }
+
+  const row: PartySchemaRow = {
+    party_id: partySchema.partyId,
+    schema: partySchema.schema,
+    registered_at: partySchema.registeredAt,
+  };
+  const { error } = await supabase.from("party_schemas").upsert(row);
+  if (error) throw new Error(`Supabase upsert failed: ${error.message}`);
+}
+
+/** A party's payload schema, or undefined if none is registered */
+export async function getPartySchema(partyId: string): Promise<PartySchema | undefined> {
+  if (!supabase) {
+    return fallbackPartySchemas.get(partyId);
+  }
+
+  const { data, error } = await supabase
+    .from("party_schemas")
+    .select("*")
+    .eq("party_id", partyId)
+    .single();
+
+  if (error || !data) return undefined;
+  const row = data as PartySchemaRow;
+  return {
+    partyId: row.party_id,
+    schema: row.schema,
+    registeredAt: row.registered_at,
+  };
+}
+
+/** Remove a party's payload schema; false if none was registered */
+export async function deletePartySchema(partyId: string): Promise<boolean> {
+  if (!supabase) {
+    return fallbackPartySchemas.delete(partyId);
+  }
+
+  const { data, error } = await supabase
+    .from("party_schemas")
+    .delete()
+    .eq("party_id", partyId)
+    .select("party_id");
+  if (error) throw new Error(`Supabase delete failed: ${error.message}`);
+  return (data ?? []).length > 0;
+}
+
+// ── API keys ─────────────────────────────────────────────────────────
+// Per-party API keys in `api_keys`. Only the SHA-256 hash of a key is
+// stored (see auth.ts); revoking a key sets revoked_at, so the key id
+// stays known for audit.
+
+/** Permissions an API key can be issued with */
+export type ApiKeyScope = "encrypt" | "read" | "decrypt";
+
+/** An issued API key, without its secret */
+export type ApiKey = {
+  id: string;
+
+  /** The party the key acts for */
+  partyId: string;
+
+  scopes: ApiKeyScope[];
+
+  /** Free-text label, e.g. the client the key was issued to */
+  name: string | null;
+
+  /** SHA-256 of the key, hex */
+  keyHash: string;
+
+  createdAt: string;
+
+  revokedAt: string | null;
+};
+
+const fallbackApiKeys = new Map<string, ApiKey>();
+
+/** Shape of a row in the Supabase `api_keys` table */
+type ApiKeyRow = {
+  id: string;
+  party_id: string;
+  scopes: ApiKeyScope[];
+  name: string | null;
+  key_hash: string;
+  created_at: string;
+  revoked_at: string | null;
+};
+
+function apiKeyFromRow(row: ApiKeyRow): ApiKey {
+  return {
+    id: row.id,
+    partyId: row.party_id,
+    scopes: row.scopes,
+    name: row.name,
+    keyHash: row.key_hash,
+    createdAt: row.created_at,
+    revokedAt: row.revoked_at,
+  };
+}
+
+/** Store a newly issued API key */
+export async function saveApiKey(key: ApiKey): Promise<void> {
+  if (!supabase) {
+    fallbackApiKeys.set(key.id, { ...key });
+    return;
+  }
+
+  const row: ApiKeyRow = {
+    id: key.id,
+    party_id: key.partyId,
+    scopes: key.scopes,
+    name: key.name,
+    key_hash: key.keyHash,
+    created_at: key.createdAt,
+    revoked_at: key.revokedAt,
+  };
+  const { error } = await supabase.from("api_keys").insert(row);
+  if (error) throw new Error(`Supabase insert failed: ${error.message}`);
+}
+
+/** The API key with this hash (revoked or not), or undefined */
+export async function findApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+  if (!supabase) {
+    for (const key of fallbackApiKeys.values()) {
+      if (key.keyHash === keyHash) return { ...key };
+    }
+    return undefined;
+  }
+
+  const { data, error } = await supabase
+    .from("api_keys")
+    .select("*")
+    .eq("key_hash", keyHash)
+    .maybeSingle();
+
+  if (error) throw new Error(`Supabase API key lookup failed: ${error.message}`);
+  return data ? apiKeyFromRow(data as ApiKeyRow) : undefined;
+}
+
+/** API keys, oldest first — all of them, or one party's */
+export async function listApiKeys(partyId?: string): Promise<ApiKey[]> {
+  if (!supabase) {
+    return [...fallbackApiKeys.values()]
+      .filter((key) => partyId === undefined || key.partyId === partyId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map((key) => ({ ...key }));
+  }
+
+  let query = supabase.from("api_keys").select("*").order("created_at");
+  if (partyId !== undefined) query = query.eq("party_id", partyId);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Supabase API key list failed: ${error.message}`);
+  return (data as ApiKeyRow[]).map(apiKeyFromRow);
+}
+
+/**
+ * Revoke an API key. Revoking an already revoked key keeps its original
+ * revokedAt.
+ *
+ * @returns The key as revoked, or undefined if there is no such key
+ */
+export async function revokeApiKey(id: string, revokedAt: string): Promise<ApiKey | undefined> {
+  if (!supabase) {
+    const key = fallbackApiKeys.get(id);
+    if (!key) return undefined;
+    key.revokedAt ??= revokedAt;
+    return { ...key };
+  }
+
+  const { error } = await supabase
+    .from("api_keys")
+    .update({ revoked_at: revokedAt })
+    .eq("id", id)
+    .is("revoked_at", null);
+  if (error) throw new Error(`Supabase update failed: ${error.message}`);
+
+  const { data, error: readError } = await supabase
+    .from("api_keys")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+  if (readError) throw new Error(`Supabase API key lookup failed: ${readError.message}`);
+  return data ? apiKeyFromRow(data as ApiKeyRow) : undefined;
+}
+
+// ── Audit log ────────────────────────────────────────────────────────
+// The "supabase" audit sink (see audit.ts): entries in `audit_log`, keyed
+// by `seq`. Like the ledger, rows are only ever inserted, and the primary
+// key makes two instances appending at once collide instead of forking
+// the chain.
+
+/** Shape of a row in the Supabase `audit_log` table */
+type AuditEntryRow = {
+  seq: number;
+  timestamp: string;
+  operation: AuditEntry["operation"];
+  outcome: AuditEntry["outcome"];
+  reason: AuditEntry["reason"];
+  party_id: string | null;
+  record_id: string | null;
+  caller: string;
+  ip: string;
+  prev_hash: string;
+  entry_hash: string;
+};
+
+function fromAuditEntryRow(row: AuditEntryRow): AuditEntry {
+  return {
+    seq: Number(row.seq),
+    timestamp: row.timestamp,
+    operation: row.operation,
+    outcome: row.outcome,
+    reason: row.reason,
+    partyId: row.party_id,
+    recordId: row.record_id,
+    caller: row.caller,
+    ip: row.ip,
+    prev_hash: row.prev_hash,
+    entry_hash: row.entry_hash,
+  };
+}
+
+/**
+ * Audit sink backed by the `audit_log` table.
+ *
+ * @throws Error if Supabase is not configured
+ */
+export function createSupabaseAuditSink(): AuditSink {
+  const client = supabase;
+  if (!client) {
+    throw new Error("AUDIT_SINK=supabase requires SUPABASE_URL and SUPABASE_SERVICE_KEY");
+  }
+
+  return {
+    kind: "supabase",
+
+    async append(entry) {
+      const row: AuditEntryRow = {
+        seq: entry.seq,
+        timestamp: entry.timestamp,
+        operation: entry.operation,
+        outcome: entry.outcome,
+        reason: entry.reason,
+        party_id: entry.partyId,
+        record_id: entry.recordId,
+        caller: entry.caller,
+        ip: entry.ip,
+        prev_hash: entry.prev_hash,
+        entry_hash: entry.entry_hash,
+      };
+      const { error } = await client.from("audit_log").insert(row);
+      if (!error) return true;
+      if (error.code === UNIQUE_VIOLATION) return false;
+      throw new Error(`Supabase audit append failed: ${error.message}`);
+    },
+
+    async head() {
+      const { data, error } = await client
+        .from("audit_log")
+        .select("*")
+        .order("seq", { ascending: false })
+        .limit(1);
+
+      if (error) throw new Error(`Supabase audit head failed: ${error.message}`);
+      const rows = data as AuditEntryRow[];
+      return rows.length > 0 ? fromAuditEntryRow(rows[0]) : undefined;
+    },
+
+    async query(filter: AuditFilter) {
+      let query = client.from("audit_log").select("*").order("seq").limit(filter.limit);
+      if (filter.partyId !== undefined) query = query.eq("party_id", filter.partyId);
+      if (filter.recordId !== undefined) query = query.eq("record_id", filter.recordId);
+      if (filter.operation !== undefined) query = query.eq("operation", filter.operation);
+      if (filter.outcome !== undefined) query = query.eq("outcome", filter.outcome);
+      if (filter.from !== undefined) query = query.gte("timestamp", filter.from);
+      if (filter.to !== undefined) query = query.lt("timestamp", filter.to);
+      if (filter.afterSeq !== undefined) query = query.gt("seq", filter.afterSeq);
+
+      const { data, error } = await query;
+      if (error) throw new Error(`Supabase audit query failed: ${error.message}`);
+      return (data as AuditEntryRow[]).map(fromAuditEntryRow);
+    },
+  };
+}
+
+// ── Key rotation jobs ────────────────────────────────────────────────
+// Persisted so a rotation can resume from its cursor after a restart.
+
+const fallbackRotationJobs = new Map<string, RotationJob>();
+
+/** Shape of a row in the Supabase `rotation_jobs` table */
+type RotationJobRow = {
+  id: string;
+  target_version: number;
+  status: RotationJob["status"];
+  cursor: string | null;
+  total: number;
+  scanned: number;
+  rewrapped: number;
+  skipped: number;
+  keks_rewrapped: number;
+  failed: number;
+  failed_ids: string[];
+  last_error: string | null;
+  started_at: string;
+  updated_at: string;
+  finished_at: string | null;
+};
+
+function toRotationJobRow(job: RotationJob): RotationJobRow {
+  return {
+    id: job.id,
+    target_version: job.targetVersion,
+    status: job.status,
+    cursor: job.cursor,
+    total: job.total,
+    scanned: job.scanned,
+    rewrapped: job.rewrapped,
+    skipped: job.skipped,
+    keks_rewrapped: job.keksRewrapped,
+    failed: job.failed,
+    failed_ids: job.failedIds,
+    last_error: job.lastError,
+    started_at: job.startedAt,
+    updated_at: job.updatedAt,
+    finished_at: job.finishedAt,
+  };
+}
+
+function fromRotationJobRow(row: RotationJobRow): RotationJob {
+  return {
+    id: row.id,
+    targetVersion: row.target_version,
+    status: row.status,
+    cursor: row.cursor,
+    total: row.total,
+    scanned: row.scanned,
+    rewrapped: row.rewrapped,
+    skipped: row.skipped,
+    keksRewrapped: row.keks_rewrapped ?? 0,
+    failed: row.failed,
+    failedIds: row.failed_ids ?? [],
+    lastError: row.last_error,
+    startedAt: row.started_at,
+    updatedAt: row.updated_at,
+    finishedAt: row.finished_at,
+  };
+}
+
+/** Insert or update a rotation job */
+export async function saveRotationJob(job: RotationJob): Promise<void> {
+  if (!supabase) {
+    fallbackRotationJobs.set(job.id, { ...job, failedIds: [...job.failedIds] });
+    return;
+  }
+
+  const { error } = await supabase.from("rotation_jobs").upsert(toRotationJobRow(job));
+  if (error) throw new Error(`Supabase upsert failed: ${error.message}`);
+}
+
+/** Retrieve a rotation job by ID, or undefined if not found */
+export async function getRotationJob(id: string): Promise<RotationJob | undefined> {
+  if (!supabase) {
+    return fallbackRotationJobs.get(id);
+  }
+
+  const { data, error } = await supabase
+    .from("rotation_jobs")
+    .select("*")
+    .eq("id", id)
+    .single();
+
+  if (error || !data) return undefined;
+  return fromRotationJobRow(data);
+}
+
+/** Find the most recent unfinished rotation job for a target version */
+export async function findUnfinishedRotationJob(
+  targetVersion: number
+): Promise<RotationJob | undefined> {
+  if (!supabase) {
+    return [...fallbackRotationJobs.values()]
+      .filter((job) => job.targetVersion === targetVersion && job.status !== "completed")
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt))[0];
+  }
+
+  const { data, error } = await supabase
+    .from("rotation_jobs")
+    .select("*")
+    .eq("target_version", targetVersion)
+    .neq("status", "completed")
+    .order("started_at", { ascending: false })
+    .limit(1);
+
+  if (error || !data || data.length === 0) return undefined;
+  return fromRotationJobRow(data[0]);
+}
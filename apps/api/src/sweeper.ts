@@ -0,0 +1,77 @@
+import { deleteExpiredRecords } from "./store";
+
+/**
+ * Expiry sweeper — deletes records whose `expiresAt` has passed.
+ *
+ *   EXPIRY_SWEEP_INTERVAL_SECONDS — seconds between sweeps (default 60;
+ *                                   0 disables the sweeper)
+ *
+ * Decryption already refuses an expired record (ExpiredRecordError), so
+ * the sweeper only removes what can no longer be used: the row and its
+ * blind indexes. It runs in the standalone server; serverless deployments
+ * have no long-lived process to run it in.
+ */
+
+const DEFAULT_INTERVAL_SECONDS = 60;
+
+/** Records deleted per store call */
+const BATCH_SIZE = 100;
+
+let timer: NodeJS.Timeout | null = null;
+let running: Promise<number> | null = null;
+
+/**
+ * Start sweeping on an interval. Must be called after initStore().
+ *
+ * @returns The interval in seconds, or null if the sweeper is disabled
+ * @throws Error if EXPIRY_SWEEP_INTERVAL_SECONDS is not a non-negative integer
+ */
+export function startExpirySweeper(): number | null {
+  const raw = process.env.EXPIRY_SWEEP_INTERVAL_SECONDS;
+  const seconds = raw === undefined || raw === "" ? DEFAULT_INTERVAL_SECONDS : Number(raw);
+  if (!Number.isSafeInteger(seconds) || seconds < 0) {
+    throw new Error(`EXPIRY_SWEEP_INTERVAL_SECONDS must be a non-negative integer, got "${raw}"`);
+  }
+
+  stopExpirySweeper();
+  if (seconds === 0) return null;
+
+  timer = setInterval(() => {
+    sweepExpiredRecords().catch((err) => {
+      console.error("Expiry sweep failed:", err);
+    });
+  }, seconds * 1000);
+  // Never keep the process alive just for the sweeper
+  timer.unref();
+  return seconds;
+}
+
+/** Stop the interval started by startExpirySweeper() */
+export function stopExpirySweeper(): void {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
+
+/**
+ * Delete every record expired at `now`, batch by batch. A sweep that is
+ * still running is joined rather than started twice.
+ *
+ * @returns The number of records deleted
+ */
+export function sweepExpiredRecords(now: Date = new Date()): Promise<number> {
+  if (!running) {
+    running = sweep(now).finally(() => {
+      running = null;
+    });
+  }
+  return running;
+}
+
+async function sweep(now: Date): Promise<number> {
+  let deleted = 0;
+  for (;;) {
+    const batch = await deleteExpiredRecords(now, BATCH_SIZE);
+    deleted += batch;
+    if (batch < BATCH_SIZE) return deleted;
+  }
+}
@@ -0,0 +1,22 @@
+-- Encrypted records (store.ts: toRow / fromRow).
+--
+-- Deployments created before these migrations already have the table, so
+-- everything here is idempotent: columns added later are added only if
+-- missing.
+
+create table if not exists transactions (
+  id             text collate "C" primary key,
+  party_id       text    not null,
+  created_at     text    not null,
+  payload_nonce  text    not null,
+  payload_ct     text    not null,
+  payload_tag    text    not null,
+  dek_wrap_nonce text    not null,
+  dek_wrapped    text    not null,
+  dek_wrap_tag   text    not null,
+  alg            text    not null,
+  mk_version     integer not null
+);
+
+-- Null on legacy rows written before AAD binding
+alter table transactions add column if not exists format_version integer;
@@ -0,0 +1,21 @@
+-- Resumable master key rotation jobs (POST /admin/rotation).
+
+create table if not exists rotation_jobs (
+  id             text primary key,
+  target_version integer     not null,
+  status         text        not null,
+  cursor         text,
+  total          integer     not null default 0,
+  scanned        integer     not null default 0,
+  rewrapped      integer     not null default 0,
+  skipped        integer     not null default 0,
+  failed         integer     not null default 0,
+  failed_ids     text[]      not null default '{}',
+  last_error     text,
+  started_at     timestamptz not null,
+  updated_at     timestamptz not null,
+  finished_at    timestamptz
+);
+
+create index if not exists rotation_jobs_target_idx
+  on rotation_jobs (target_version, started_at desc);
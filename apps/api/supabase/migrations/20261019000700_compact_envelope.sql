@@ -0,0 +1,11 @@
+-- Compact rows (STORE_RECORD_FORMAT=compact) keep the binary fields in
+-- `envelope` and leave the hex columns null.
+
+alter table transactions add column if not exists envelope text;
+
+alter table transactions alter column payload_nonce  drop not null;
+alter table transactions alter column payload_ct     drop not null;
+alter table transactions alter column payload_tag    drop not null;
+alter table transactions alter column dek_wrap_nonce drop not null;
+alter table transactions alter column dek_wrapped    drop not null;
+alter table transactions alter column dek_wrap_tag   drop not null;
@@ -0,0 +1,5 @@
+-- Field-level encryption: the payload with the encrypted paths removed,
+-- and the per-path ciphertexts.
+
+alter table transactions add column if not exists payload_clear  jsonb;
+alter table transactions add column if not exists payload_fields jsonb;
@@ -0,0 +1,13 @@
+-- Blind indexes for GET /tx/search: one row per record, field and master
+-- key version.
+
+create table if not exists transaction_blind_indexes (
+  tx_id      text    not null references transactions (id) on delete cascade,
+  field      text    not null,
+  mk_version integer not null,
+  hmac       text    not null,
+  primary key (tx_id, field, mk_version)
+);
+
+create index if not exists transaction_blind_indexes_lookup_idx
+  on transaction_blind_indexes (field, hmac);
@@ -0,0 +1,25 @@
+-- Party KEKs for crypto-shredding. Destroyed KEKs keep their row with the
+-- key material blanked. `created_at` is text: it is part of the KEK's wrap
+-- context (AAD) and must come back exactly as written.
+
+create table if not exists party_keys (
+  kek_id         text collate "C" primary key,
+  party_id       text    not null,
+  created_at     text    not null,
+  mk_version     integer not null,
+  kek_wrap_nonce text    not null,
+  kek_wrapped    text    not null,
+  kek_wrap_tag   text    not null,
+  format_version integer,
+  destroyed_at   timestamptz
+);
+
+-- Live KEK lookup. Not unique: two instances may create a party's first
+-- KEK at once, and the newest one is used from then on.
+create index if not exists party_keys_active_idx
+  on party_keys (party_id, created_at desc) where destroyed_at is null;
+
+-- The KEK a record's DEK is wrapped under (null: wrapped under the master key)
+alter table transactions add column if not exists kek_id text;
+
+alter table rotation_jobs add column if not exists keks_rewrapped integer not null default 0;
@@ -0,0 +1,4 @@
+-- Ed25519 record signatures.
+
+alter table transactions add column if not exists signer_key_id text;
+alter table transactions add column if not exists signature     text;
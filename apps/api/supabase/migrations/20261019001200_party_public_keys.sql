@@ -0,0 +1,12 @@
+-- Sealed records: X25519 recipient keys, one per party, and the recipient
+-- key and ephemeral public key of each sealed record.
+
+create table if not exists party_public_keys (
+  party_id      text primary key,
+  key_id        text        not null,
+  public_key    text        not null,
+  registered_at timestamptz not null
+);
+
+alter table transactions add column if not exists recipient_key_id text;
+alter table transactions add column if not exists recipient_epk    text;
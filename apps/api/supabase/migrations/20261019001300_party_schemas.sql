@@ -0,0 +1,7 @@
+-- Payload schemas enforced on encrypt, one per party.
+
+create table if not exists party_schemas (
+  party_id      text primary key,
+  schema        jsonb       not null,
+  registered_at timestamptz not null
+);
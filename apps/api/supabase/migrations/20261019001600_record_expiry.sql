@@ -0,0 +1,7 @@
+-- Record expiry. A timestamptz, so the sweeper's `expires_at <= now`
+-- compares times.
+
+alter table transactions add column if not exists expires_at timestamptz;
+
+create index if not exists transactions_expires_at_idx
+  on transactions (expires_at) where expires_at is not null;
@@ -0,0 +1,4 @@
+-- Key check values of the key each DEK and KEK was wrapped under.
+
+alter table transactions add column if not exists key_check text;
+alter table party_keys add column if not exists kek_key_check text;
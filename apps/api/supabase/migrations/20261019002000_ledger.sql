@@ -0,0 +1,30 @@
+-- Hash-chained ledger of record writes and signed checkpoints over it.
+--
+-- The primary key on `seq` is what keeps the chain from forking: two
+-- instances appending the same seq collide (unique_violation), and the
+-- loser retries on the new head. `created_at` is text because it is hashed
+-- (entries) or signed (checkpoints) exactly as written; a timestamptz
+-- would come back in a different format and no longer verify.
+--
+-- Append-only: in production, grant the API's role INSERT and SELECT only.
+
+create table if not exists ledger_entries (
+  seq         bigint primary key check (seq > 0),
+  op          text   not null check (op in ('insert', 'update', 'delete')),
+  record_id   text   not null,
+  created_at  text   not null,
+  record_hash text,
+  prev_hash   text   not null,
+  entry_hash  text   not null unique
+);
+
+create index if not exists ledger_entries_record_idx on ledger_entries (record_id, seq desc);
+
+create table if not exists ledger_checkpoints (
+  tree_size     bigint primary key check (tree_size > 0),
+  root          text not null,
+  head_hash     text not null,
+  created_at    text not null,
+  signer_key_id text not null,
+  signature     text not null
+);
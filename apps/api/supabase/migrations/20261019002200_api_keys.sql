@@ -0,0 +1,26 @@
+-- Per-party API keys. Only the SHA-256 of each key is stored.
+
+create table if not exists api_keys (
+  id         text primary key,
+  party_id   text        not null,
+  scopes     text[]      not null,
+  name       text,
+  key_hash   text        not null unique,
+  created_at timestamptz not null,
+  revoked_at timestamptz
+);
+
+create index if not exists api_keys_party_idx on api_keys (party_id, created_at);
+
+-- GET /tx/search is scoped to the caller's party, so blind index rows carry
+-- it. Existing rows take it from their record.
+alter table transaction_blind_indexes add column if not exists party_id text;
+update transaction_blind_indexes b
+  set party_id = t.party_id
+  from transactions t
+  where t.id = b.tx_id and b.party_id is null;
+alter table transaction_blind_indexes alter column party_id set not null;
+
+drop index if exists transaction_blind_indexes_lookup_idx;
+create index transaction_blind_indexes_lookup_idx
+  on transaction_blind_indexes (field, hmac, party_id);
@@ -0,0 +1,28 @@
+-- Hash-chained audit log (AUDIT_SINK=supabase).
+--
+-- As with ledger_entries, the primary key on `seq` makes concurrent
+-- appends collide and retry instead of forking the chain. `timestamp` is
+-- text because it is hashed exactly as written; entries are always
+-- toISOString() output, so text order is time order. `record_id` is text,
+-- not a reference: failed requests record the id they were given, and
+-- records are deleted while their entries stay.
+--
+-- Append-only: in production, grant the API's role INSERT and SELECT only.
+
+create table if not exists audit_log (
+  seq        bigint primary key check (seq > 0),
+  timestamp  text not null,
+  operation  text not null check (operation in ('encrypt', 'fetch', 'decrypt')),
+  outcome    text not null check (outcome in ('success', 'failure')),
+  reason     text,
+  party_id   text,
+  record_id  text,
+  caller     text not null,
+  ip         text not null,
+  prev_hash  text not null,
+  entry_hash text not null unique
+);
+
+create index if not exists audit_log_party_idx on audit_log (party_id, seq);
+create index if not exists audit_log_record_idx on audit_log (record_id, seq);
+create index if not exists audit_log_timestamp_idx on audit_log (timestamp);
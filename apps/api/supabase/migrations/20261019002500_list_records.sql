@@ -0,0 +1,15 @@
+-- GET /tx: time filters and keyset pagination need real timestamps, not
+-- text, and an index for newest-first order by party or across parties.
+
+alter table transactions
+  alter column created_at type timestamptz using created_at::timestamptz;
+
+create index if not exists transactions_created_at_idx
+  on transactions (created_at desc, id desc);
+create index if not exists transactions_party_created_at_idx
+  on transactions (party_id, created_at desc, id desc);
+
+-- One "list" audit entry per page
+alter table audit_log drop constraint if exists audit_log_operation_check;
+alter table audit_log add constraint audit_log_operation_check
+  check (operation in ('encrypt', 'fetch', 'list', 'decrypt'));
@@ -0,0 +1,23 @@
+-- Store a new record, its blind indexes and its ledger entry in one
+-- transaction (saveRecord() in store.ts), so a record can never exist
+-- without its "insert" entry or its indexes. The arguments are rows as JSON
+-- (`blind_indexes` an array of them). A unique_violation on the entry's seq
+-- rolls the record back too, and the API retries all of it on the new head.
+
+create or replace function insert_record_with_ledger_entry(
+  record jsonb,
+  entry jsonb,
+  blind_indexes jsonb default '[]'
+)
+returns void
+language plpgsql
+as $$
+begin
+  insert into transactions
+    select * from jsonb_populate_record(null::transactions, record);
+  insert into transaction_blind_indexes
+    select * from jsonb_populate_recordset(null::transaction_blind_indexes, blind_indexes);
+  insert into ledger_entries
+    select * from jsonb_populate_record(null::ledger_entries, entry);
+end;
+$$;
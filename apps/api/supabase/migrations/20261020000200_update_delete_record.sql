@@ -0,0 +1,60 @@
+-- Re-wrap and expiry delete, each in one transaction with its ledger entry
+-- (updateRecordKeyWrap() and deleteExpiredRecords() in store.ts), like
+-- insert_record_with_ledger_entry. Both return false, and append nothing,
+-- when there was no row to change.
+
+-- Columns present in `record` (a partial row as JSON) overwrite the stored
+-- ones; the update only applies while the row still has
+-- `expected_mk_version`, so concurrent rotations cannot overwrite each other.
+create or replace function update_record_key_wrap_with_ledger_entry(
+  record jsonb,
+  expected_mk_version integer,
+  entry jsonb
+)
+returns boolean
+language plpgsql
+as $$
+begin
+  update transactions t
+    set (
+      party_id, created_at, expires_at,
+      payload_nonce, payload_ct, payload_tag,
+      dek_wrap_nonce, dek_wrapped, dek_wrap_tag, key_check,
+      alg, mk_version, format_version, payload_clear, payload_fields, kek_id,
+      recipient_key_id, recipient_epk, signer_key_id, signature, envelope
+    ) = (
+      select
+        r.party_id, r.created_at, r.expires_at,
+        r.payload_nonce, r.payload_ct, r.payload_tag,
+        r.dek_wrap_nonce, r.dek_wrapped, r.dek_wrap_tag, r.key_check,
+        r.alg, r.mk_version, r.format_version, r.payload_clear, r.payload_fields, r.kek_id,
+        r.recipient_key_id, r.recipient_epk, r.signer_key_id, r.signature, r.envelope
+      from jsonb_populate_record(t, record) r
+    )
+    where t.id = record ->> 'id' and t.mk_version = expected_mk_version;
+  if not found then
+    return false;
+  end if;
+
+  insert into ledger_entries
+    select * from jsonb_populate_record(null::ledger_entries, entry);
+  return true;
+end;
+$$;
+
+-- The row's blind indexes are deleted with it (on delete cascade)
+create or replace function delete_record_with_ledger_entry(record_id text, entry jsonb)
+returns boolean
+language plpgsql
+as $$
+begin
+  delete from transactions t where t.id = delete_record_with_ledger_entry.record_id;
+  if not found then
+    return false;
+  end if;
+
+  insert into ledger_entries
+    select * from jsonb_populate_record(null::ledger_entries, entry);
+  return true;
+end;
+$$;
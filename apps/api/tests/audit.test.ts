@@ -0,0 +1,152 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { FastifyInstance } from "fastify";
+import {
+  AuditEntry,
+  createFileAuditSink,
+  initAuditLog,
+  verifyAuditChain,
+} from "../src/audit";
+import { getRecord } from "../src/store";
+import { ADMIN_KEY, encryptAs, issueKey, send, startTestApp } from "./helpers";
+
+let app: FastifyInstance;
+
+async function auditEntries(key: string, query: string): Promise<AuditEntry[]> {
+  const res = await send(app, key, "GET", `/audit?${query}`);
+  expect(res.statusCode).toBe(200);
+  return res.json().entries;
+}
+
+beforeAll(async () => {
+  app = await startTestApp({ BLIND_INDEX_FIELDS: "ref", AUDIT_SINK: undefined });
+  expect(initAuditLog()).toBe("memory");
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+describe("Audit log", () => {
+  it("records encrypt, fetch and decrypt with the caller", async () => {
+    const { key } = await issueKey(app, "party_audit", ["encrypt", "read", "decrypt"]);
+    const { id } = await encryptAs(app, key, "party_audit", { amount: 5 });
+    await send(app, key, "GET", `/tx/${id}`);
+    await send(app, key, "POST", `/tx/${id}/decrypt`);
+
+    const entries = await auditEntries(ADMIN_KEY, `recordId=${id}`);
+    expect(entries.map((e) => [e.operation, e.outcome])).toEqual([
+      ["encrypt", "success"],
+      ["fetch", "success"],
+      ["decrypt", "success"],
+    ]);
+    expect(entries[0]).toMatchObject({ partyId: "party_audit", reason: null });
+    expect(entries[0].caller).not.toBe("admin");
+    expect(entries[0].caller).not.toContain("txk_");
+  });
+
+  it("records failures, including tamper detection", async () => {
+    const { id } = await encryptAs(app, ADMIN_KEY, "party_tamper", { amount: 7 });
+
+    // The in-memory store returns the stored object, so this tampers with it
+    const record = (await getRecord(id))!;
+    const flipped = (parseInt(record.payload_ct.slice(0, 2), 16) ^ 0x01).toString(16);
+    record.payload_ct = flipped.padStart(2, "0") + record.payload_ct.slice(2);
+
+    const decrypt = await send(app, ADMIN_KEY, "POST", `/tx/${id}/decrypt`);
+    expect(decrypt.statusCode).toBe(400);
+
+    const other = (await issueKey(app, "party_other", ["read", "decrypt"])).key;
+    await send(app, other, "POST", `/tx/${id}/decrypt`);
+    await send(app, ADMIN_KEY, "GET", "/tx/00000000-0000-4000-8000-000000000000");
+
+    const failures = await auditEntries(ADMIN_KEY, "outcome=failure");
+    expect(failures.map((e) => [e.operation, e.reason, e.partyId])).toEqual([
+      ["decrypt", "tampered", "party_tamper"],
+      ["decrypt", "forbidden", "party_tamper"],
+      ["fetch", "not-found", null],
+    ]);
+  });
+
+  it("confines a party key to its own party's entries", async () => {
+    const a = (await issueKey(app, "party_audit_a", ["encrypt", "read"])).key;
+    await issueKey(app, "party_audit_b", ["encrypt", "read"]);
+    await encryptAs(app, a, "party_audit_a", { amount: 1 });
+    await encryptAs(app, ADMIN_KEY, "party_audit_b", { amount: 2 });
+
+    const own = await auditEntries(a, "operation=encrypt");
+    expect(own.map((e) => e.partyId)).toEqual(["party_audit_a"]);
+
+    const other = await send(app, a, "GET", "/audit?partyId=party_audit_b");
+    expect(other.statusCode).toBe(403);
+
+    // Admin-only
+    expect((await send(app, a, "GET", "/audit/verify")).statusCode).toBe(403);
+  });
+
+  it("filters by time range and pages with afterSeq", async () => {
+    const future = new Date(Date.now() + 60_000).toISOString();
+    expect(await auditEntries(ADMIN_KEY, `from=${future}`)).toEqual([]);
+    expect((await auditEntries(ADMIN_KEY, `to=${future}`)).length).toBeGreaterThan(2);
+
+    const first = await send(app, ADMIN_KEY, "GET", "/audit?limit=2");
+    expect(first.json().entries.map((e: AuditEntry) => e.seq)).toEqual([1, 2]);
+    expect(first.json().nextAfterSeq).toBe(2);
+
+    const next = await auditEntries(ADMIN_KEY, "limit=2&afterSeq=2");
+    expect(next.map((e) => e.seq)).toEqual([3, 4]);
+
+    const invalid = await send(app, ADMIN_KEY, "GET", "/audit?from=yesterday");
+    expect(invalid.statusCode).toBe(400);
+  });
+
+  it("verifies the hash chain", async () => {
+    const res = await send(app, ADMIN_KEY, "GET", "/audit/verify");
+    expect(res.json()).toMatchObject({ success: true, valid: true, break: null });
+    expect(res.json().entries).toBeGreaterThan(5);
+  });
+});
+
+describe("Audit hash chain", () => {
+  it("detects altered and missing entries", async () => {
+    const entries = await auditEntries(ADMIN_KEY, "limit=4");
+    expect(verifyAuditChain(entries)).toBeNull();
+
+    const altered = entries.map((e) => ({ ...e }));
+    altered[1].outcome = "failure";
+    expect(verifyAuditChain(altered)).toEqual({ seq: 2, message: "Audit entry 2 was altered" });
+
+    const missing = [entries[0], entries[2], entries[3]];
+    expect(verifyAuditChain(missing)?.seq).toBe(2);
+
+    // Later pages verify against the entry before them
+    expect(verifyAuditChain(entries.slice(2), entries[1])).toBeNull();
+    expect(verifyAuditChain(entries.slice(2), entries[0])?.seq).toBe(2);
+  });
+});
+
+describe("File audit sink", () => {
+  it("appends JSONL and picks up the head after a restart", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "tx-audit-"));
+    const file = path.join(dir, "nested", "audit.jsonl");
+
+    try {
+      const entries = await auditEntries(ADMIN_KEY, "limit=3");
+      const sink = createFileAuditSink(file);
+      expect(await sink.head()).toBeUndefined();
+      for (const entry of entries.slice(0, 2)) await sink.append(entry);
+
+      const reopened = createFileAuditSink(file);
+      expect(await reopened.head()).toEqual(entries[1]);
+      await reopened.append(entries[2]);
+
+      const lines = fs.readFileSync(file, "utf-8").trim().split("\n");
+      expect(lines.map((line) => JSON.parse(line))).toEqual(entries);
+      expect(await reopened.query({ afterSeq: 1, limit: 10 })).toEqual(entries.slice(1));
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { FastifyInstance } from "fastify";
+import { initApiAuth } from "../src/auth";
+import { ADMIN_KEY, encryptAs, issueKey, send, startTestApp } from "./helpers";
+
+let app: FastifyInstance;
+
+beforeAll(async () => {
+  app = await startTestApp({ BLIND_INDEX_FIELDS: "ref" });
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+describe("API keys", () => {
+  it("leaves public routes open and rejects requests without a valid key", async () => {
+    expect((await app.inject({ method: "GET", url: "/health" })).statusCode).toBe(200);
+    expect((await app.inject({ method: "GET", url: "/keys/signing" })).statusCode).toBe(200);
+
+    const missing = await app.inject({ method: "POST", url: "/tx/encrypt", payload: {} });
+    expect(missing.statusCode).toBe(401);
+    expect(missing.headers["www-authenticate"]).toMatch(/^Bearer/);
+
+    const wrong = await app.inject({
+      method: "GET",
+      url: "/tx/search?field=ref&value=x",
+      headers: { authorization: "Bearer txk_not-a-key" },
+    });
+    expect(wrong.statusCode).toBe(401);
+  });
+
+  it("issues keys shown once and lists them without their hashes", async () => {
+    const res = await send(app, ADMIN_KEY, "POST", "/admin/api-keys", {
+      payload: { partyId: "party_list", scopes: ["read"], name: "reporting" },
+    });
+    expect(res.statusCode).toBe(201);
+    expect(res.json().key).toMatch(/^txk_/);
+    expect(res.json().apiKey).toMatchObject({ partyId: "party_list", scopes: ["read"], revokedAt: null });
+
+    const list = await send(app, ADMIN_KEY, "GET", "/admin/api-keys?partyId=party_list");
+    expect(list.json().apiKeys).toEqual([res.json().apiKey]);
+    expect(list.body).not.toContain("keyHash");
+    expect(list.body).not.toContain(res.json().key);
+  });
+
+  it("refuses unknown scopes", async () => {
+    const res = await send(app, ADMIN_KEY, "POST", "/admin/api-keys", {
+      payload: { partyId: "party_a", scopes: ["admin"] },
+    });
+    expect(res.statusCode).toBe(400);
+  });
+
+  it("keeps admin routes to the admin key", async () => {
+    const { key } = await issueKey(app, "party_a", ["encrypt", "read", "decrypt"]);
+
+    const res = await send(app, key, "GET", "/admin/api-keys");
+    expect(res.statusCode).toBe(403);
+  });
+
+  it("enforces scopes", async () => {
+    const writer = await issueKey(app, "party_a", ["encrypt"]);
+    const id = (await encryptAs(app, writer.key, "party_a", { amount: 1 })).id;
+
+    const read = await send(app, writer.key, "GET", `/tx/${id}`);
+    expect(read.statusCode).toBe(403);
+    expect(read.json().error).toContain('"read" scope');
+
+    const reader = await issueKey(app, "party_a", ["read"]);
+    const decrypt = await send(app, reader.key, "POST", `/tx/${id}/decrypt`);
+    expect(decrypt.statusCode).toBe(403);
+  });
+
+  it("lets a party key reach only its own party's records", async () => {
+    const a = await issueKey(app, "party_a", ["encrypt", "read", "decrypt"]);
+    const b = await issueKey(app, "party_b", ["encrypt", "read", "decrypt"]);
+    const id = (await encryptAs(app, a.key, "party_a", { amount: 42 })).id;
+
+    const own = await send(app, a.key, "POST", `/tx/${id}/decrypt`);
+    expect(own.statusCode).toBe(200);
+    expect(own.json().payload).toEqual({ amount: 42 });
+
+    for (const [method, url] of [
+      ["POST", `/tx/${id}/decrypt`],
+      ["GET", `/tx/${id}`],
+      ["GET", "/parties/party_a/schema"],
+    ] as const) {
+      const res = await send(app, b.key, method, url);
+      expect(res.statusCode).toBe(403);
+    }
+
+    const forOther = await send(app, b.key, "POST", "/tx/encrypt", {
+      payload: { partyId: "party_a", payload: { amount: 1 } },
+    });
+    expect(forOther.statusCode).toBe(403);
+
+    // The admin key may act for any party
+    const admin = await send(app, ADMIN_KEY, "POST", `/tx/${id}/decrypt`);
+    expect(admin.statusCode).toBe(200);
+  });
+
+  it("limits a party's search to its own records", async () => {
+    const a = await issueKey(app, "party_search_a", ["encrypt", "read"]);
+    const b = await issueKey(app, "party_search_b", ["encrypt", "read"]);
+    const idA = (await encryptAs(app, a.key, "party_search_a", { ref: "INV-1" })).id;
+    const idB = (await encryptAs(app, b.key, "party_search_b", { ref: "INV-1" })).id;
+
+    const search = (key: string) => send(app, key, "GET", "/tx/search?field=ref&value=INV-1");
+
+    expect((await search(a.key)).json().ids).toEqual([idA]);
+    expect((await search(b.key)).json().ids).toEqual([idB]);
+    expect((await search(ADMIN_KEY)).json().ids).toEqual([idA, idB]);
+  });
+
+  it("rejects a key once it is revoked", async () => {
+    const { id, key } = await issueKey(app, "party_a", ["encrypt"]);
+    await encryptAs(app, key, "party_a", { amount: 1 });
+
+    const revoke = await send(app, ADMIN_KEY, "DELETE", `/admin/api-keys/${id}`);
+    expect(revoke.statusCode).toBe(200);
+    expect(revoke.json().apiKey.revokedAt).not.toBeNull();
+
+    const res = await send(app, key, "POST", "/tx/encrypt", {
+      payload: { partyId: "party_a", payload: { amount: 1 } },
+    });
+    expect(res.statusCode).toBe(401);
+
+    const unknownId = "00000000-0000-4000-8000-000000000000";
+    const missing = await send(app, ADMIN_KEY, "DELETE", `/admin/api-keys/${unknownId}`);
+    expect(missing.statusCode).toBe(404);
+  });
+});
+
+describe("Admin key setup", () => {
+  it("refuses to start without a usable ADMIN_API_KEY", () => {
+    try {
+      delete process.env.ADMIN_API_KEY;
+      expect(() => initApiAuth()).toThrow(/ADMIN_API_KEY is not set/);
+      process.env.ADMIN_API_KEY = "too-short";
+      expect(() => initApiAuth()).toThrow(/at least 32 characters/);
+    } finally {
+      process.env.ADMIN_API_KEY = ADMIN_KEY;
+      initApiAuth();
+    }
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import handler from "../api/index";
+import { queryAuditLog } from "../src/audit";
+import { ADMIN_KEY, startTestApp } from "./helpers";
+
+/** Runs one request through the Vercel handler */
+async function call(
+  method: string,
+  url: string,
+  headers: Record<string, string>,
+  body?: object
+): Promise<{ statusCode: number; body: string }> {
+  const req = {
+    method,
+    url,
+    headers: { authorization: `Bearer ${ADMIN_KEY}`, ...headers },
+    body,
+    socket: { remoteAddress: "10.0.0.1" },
+  };
+  const result = { statusCode: 0, body: "" };
+  const res = {
+    status(code: number) {
+      result.statusCode = code;
+      return res;
+    },
+    setHeader() {
+      return res;
+    },
+    send(payload: string) {
+      result.body = payload;
+      return res;
+    },
+    json(payload: object) {
+      result.body = JSON.stringify(payload);
+      return res;
+    },
+    end() {
+      return res;
+    },
+  };
+  await handler(req as unknown as VercelRequest, res as unknown as VercelResponse);
+  return result;
+}
+
+beforeAll(() => {
+  process.env.MASTER_KEY_HEX = "11".repeat(32);
+  process.env.ADMIN_API_KEY = ADMIN_KEY;
+  process.env.DECRYPT_RATE_LIMIT_PER_IP = "1/60";
+  process.env.DECRYPT_RATE_LIMIT_PER_RECORD = "0";
+  delete process.env.SUPABASE_URL;
+  delete process.env.AUDIT_SINK;
+  delete process.env.TRUST_PROXY;
+});
+
+describe("Vercel handler", () => {
+  it("takes the client IP from X-Forwarded-For for audit entries and rate limits", async () => {
+    const encrypt = await call(
+      "POST",
+      "/tx/encrypt",
+      { "content-type": "application/json", "x-forwarded-for": "203.0.113.7, 10.1.1.1" },
+      { partyId: "party_vercel", payload: { amount: 1 } }
+    );
+    expect(encrypt.statusCode).toBe(201);
+    const id = JSON.parse(encrypt.body).record.id;
+
+    const [entry] = await queryAuditLog({ recordId: id, operation: "encrypt", limit: 1 });
+    expect(entry.ip).toBe("203.0.113.7");
+
+    // One decrypt per IP: a second client is not limited by the first
+    const decrypt = (ip: string) =>
+      call("POST", `/tx/${id}/decrypt`, { "x-forwarded-for": ip }).then((r) => r.statusCode);
+    expect(await decrypt("203.0.113.7")).toBe(200);
+    expect(await decrypt("203.0.113.7")).toBe(429);
+    expect(await decrypt("198.51.100.9")).toBe(200);
+  });
+});
+
+describe("TRUST_PROXY", () => {
+  it("believes X-Forwarded-For only from the configured proxies", async () => {
+    const app = await startTestApp({ TRUST_PROXY: "10.0.0.0/8" });
+    try {
+      const ips: string[] = [];
+      for (const remoteAddress of ["10.0.0.5", "198.51.100.1"]) {
+        const res = await app.inject({
+          method: "POST",
+          url: "/tx/encrypt",
+          headers: { authorization: `Bearer ${ADMIN_KEY}`, "x-forwarded-for": "203.0.113.50" },
+          payload: { partyId: "party_proxy", payload: { amount: 1 } },
+          remoteAddress,
+        });
+        const id = res.json().record.id;
+        const [entry] = await queryAuditLog({ recordId: id, operation: "encrypt", limit: 1 });
+        ips.push(entry.ip);
+      }
+      expect(ips).toEqual(["203.0.113.50", "198.51.100.1"]);
+    } finally {
+      await app.close();
+    }
+  });
+});
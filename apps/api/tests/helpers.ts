@@ -0,0 +1,77 @@
+import { expect } from "vitest";
+import { FastifyInstance, InjectOptions, LightMyRequestResponse } from "fastify";
+import { buildApp } from "../src/app";
+import { initApiAuth } from "../src/auth";
+import { initBlindIndexes } from "../src/blindIndex";
+import { TxSecureRecord } from "../src/crypto";
+import { initKeyProvider } from "../src/provider";
+import { initStore } from "../src/store";
+
+/**
+ * Setup shared by the API tests: an app on the in-memory store, with a
+ * fixed master key and admin key.
+ */
+
+export const ADMIN_KEY = "admin-".padEnd(48, "x");
+
+/**
+ * Set the environment and build the app. `env` is applied on top of the
+ * defaults (undefined deletes a variable); init functions the helper does
+ * not call (rate limits, the audit log) are left to the test.
+ */
+export async function startTestApp(
+  env: Record<string, string | undefined> = {}
+): Promise<FastifyInstance> {
+  process.env.MASTER_KEY_HEX = "11".repeat(32);
+  process.env.ADMIN_API_KEY = ADMIN_KEY;
+  delete process.env.SUPABASE_URL;
+  for (const [name, value] of Object.entries(env)) {
+    if (value === undefined) delete process.env[name];
+    else process.env[name] = value;
+  }
+
+  initKeyProvider();
+  initBlindIndexes();
+  initApiAuth();
+  await initStore();
+
+  const app = await buildApp();
+  app.log.level = "silent";
+  return app;
+}
+
+/** Inject a request with `key` as the bearer token */
+export function send(
+  app: FastifyInstance,
+  key: string,
+  method: InjectOptions["method"],
+  url: string,
+  options: { payload?: object; remoteAddress?: string } = {}
+): Promise<LightMyRequestResponse> {
+  return app.inject({ method, url, headers: { authorization: `Bearer ${key}` }, ...options });
+}
+
+/** Issue a party key through the admin route */
+export async function issueKey(
+  app: FastifyInstance,
+  partyId: string,
+  scopes: string[]
+): Promise<{ id: string; key: string }> {
+  const res = await send(app, ADMIN_KEY, "POST", "/admin/api-keys", {
+    payload: { partyId, scopes },
+  });
+  expect(res.statusCode).toBe(201);
+  return { id: res.json().apiKey.id, key: res.json().key };
+}
+
+/** Encrypt a payload for `partyId` and return the stored record */
+export async function encryptAs(
+  app: FastifyInstance,
+  key: string,
+  partyId: string,
+  payload: object = { amount: 1 }
+): Promise<TxSecureRecord> {
+  const res = await send(app, key, "POST", "/tx/encrypt", { payload: { partyId, payload } });
+  expect(res.statusCode).toBe(201);
+  return res.json().record;
+}
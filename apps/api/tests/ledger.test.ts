@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from "vitest";
+import { FastifyInstance } from "fastify";
+import { encrypt, TxSecureRecord } from "../src/crypto";
+import { ADMIN_KEY, encryptAs, send, startTestApp } from "./helpers";
+
+// Rows inserted behind the store's back: scans return them, but no ledger
+// entry was ever written for them
+const extraRows = vi.hoisted(() => [] as TxSecureRecord[]);
+
+vi.mock("../src/store", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../src/store")>();
+  return {
+    ...actual,
+    scanRecords: async (afterId: string | null, limit: number) => {
+      const batch = await actual.scanRecords(afterId, limit);
+      return afterId === null ? { ...batch, records: [...batch.records, ...extraRows] } : batch;
+    },
+  };
+});
+
+let app: FastifyInstance;
+
+beforeAll(async () => {
+  app = await startTestApp();
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+afterEach(() => {
+  extraRows.length = 0;
+});
+
+/** A record that was never saved through the store */
+function unsavedRecord(createdAt?: string): TxSecureRecord {
+  const record = encrypt("11".repeat(32), "party_ledger", { amount: 1 });
+  return createdAt === undefined ? record : { ...record, createdAt };
+}
+
+describe("GET /ledger/verify", () => {
+  it("counts records from before the ledger started as unledgered", async () => {
+    await encryptAs(app, ADMIN_KEY, "party_ledger");
+    extraRows.push(unsavedRecord("2020-01-01T00:00:00.000Z"));
+
+    const res = await send(app, ADMIN_KEY, "GET", "/ledger/verify");
+    expect(res.json()).toMatchObject({ valid: true, unledgeredRecords: 1, break: null });
+  });
+
+  it("breaks on a record created after the ledger started that has no entry", async () => {
+    await encryptAs(app, ADMIN_KEY, "party_ledger");
+    const inserted = unsavedRecord();
+    extraRows.push(inserted);
+
+    const res = await send(app, ADMIN_KEY, "GET", "/ledger/verify");
+    expect(res.json()).toMatchObject({
+      valid: false,
+      unledgeredRecords: 0,
+      break: { reason: "unledgered-record", recordId: inserted.id },
+    });
+  });
+});
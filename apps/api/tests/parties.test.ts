@@ -0,0 +1,35 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { FastifyInstance } from "fastify";
+import { initKeyProvider } from "../src/provider";
+import { ADMIN_KEY, encryptAs, send, startTestApp } from "./helpers";
+
+let app: FastifyInstance;
+
+beforeAll(async () => {
+  app = await startTestApp({ PARTY_KEKS: undefined });
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+describe("DELETE /parties/:partyId/keys", () => {
+  it("shreds KEK-wrapped records and counts the master-wrapped ones it cannot", async () => {
+    const before = await encryptAs(app, ADMIN_KEY, "party_shred");
+
+    process.env.PARTY_KEKS = "true";
+    initKeyProvider();
+    const after = await encryptAs(app, ADMIN_KEY, "party_shred");
+    expect(after.kek_id).toEqual(expect.any(String));
+
+    const shred = await send(app, ADMIN_KEY, "DELETE", "/parties/party_shred/keys");
+    expect(shred.statusCode).toBe(200);
+    expect(shred.json()).toMatchObject({ destroyed: 1, notShredded: 1 });
+
+    expect((await send(app, ADMIN_KEY, "POST", `/tx/${after.id}/decrypt`)).statusCode).toBe(410);
+    expect((await send(app, ADMIN_KEY, "POST", `/tx/${before.id}/decrypt`)).statusCode).toBe(200);
+
+    const clean = await send(app, ADMIN_KEY, "DELETE", "/parties/party_shred_new/keys");
+    expect(clean.json()).toMatchObject({ destroyed: 0, notShredded: 0 });
+  });
+});
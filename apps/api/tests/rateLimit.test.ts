@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { FastifyInstance } from "fastify";
+import { queryAuditLog } from "../src/audit";
+import { createMemoryRateLimitStore, initRateLimits } from "../src/rateLimit";
+import { getRecord } from "../src/store";
+import { ADMIN_KEY, encryptAs, issueKey, send, startTestApp } from "./helpers";
+
+let app: FastifyInstance;
+
+async function encrypt(partyId: string): Promise<string> {
+  return (await encryptAs(app, ADMIN_KEY, partyId)).id;
+}
+
+function decrypt(id: string, ip: string, key = ADMIN_KEY) {
+  return send(app, key, "POST", `/tx/${id}/decrypt`, { remoteAddress: ip });
+}
+
+beforeAll(async () => {
+  app = await startTestApp({
+    DECRYPT_RATE_LIMIT_PER_IP: "20/60",
+    DECRYPT_RATE_LIMIT_PER_PARTY: "0",
+    DECRYPT_RATE_LIMIT_PER_RECORD: "3/60",
+    DECRYPT_LOCKOUT_THRESHOLD: "2",
+  });
+  initRateLimits();
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+describe("Decrypt rate limits", () => {
+  it("sends RateLimit headers and answers 429 once a record's bucket is empty", async () => {
+    const id = await encrypt("party_limits");
+
+    const first = await decrypt(id, "198.51.100.1");
+    expect(first.statusCode).toBe(200);
+    expect(first.headers["ratelimit-limit"]).toBe("3");
+    expect(first.headers["ratelimit-remaining"]).toBe("2");
+    expect(Number(first.headers["ratelimit-reset"])).toBeGreaterThan(0);
+
+    await decrypt(id, "198.51.100.1");
+    await decrypt(id, "198.51.100.2");
+
+    const limited = await decrypt(id, "198.51.100.3");
+    expect(limited.statusCode).toBe(429);
+    expect(limited.json().error).toContain("this record");
+    expect(limited.headers["ratelimit-remaining"]).toBe("0");
+    expect(Number(limited.headers["retry-after"])).toBeGreaterThanOrEqual(1);
+
+    const audited = await queryAuditLog({ recordId: id, outcome: "failure", limit: 10 });
+    expect(audited.map((entry) => entry.reason)).toEqual(["rate-limited"]);
+  });
+
+  it("limits each IP across records", async () => {
+    const ip = "198.51.100.20";
+    for (let i = 0; i < 20; i++) {
+      const res = await decrypt("00000000-0000-4000-8000-000000000000", ip);
+      expect(res.statusCode).toBe(404);
+    }
+    const limited = await decrypt(await encrypt("party_ip"), ip);
+    expect(limited.statusCode).toBe(429);
+    expect(limited.json().error).toContain("this client");
+  });
+
+  it("does not let another party use up a record's bucket", async () => {
+    const id = await encrypt("party_owner");
+    const intruder = (await issueKey(app, "party_intruder", ["decrypt"])).key;
+
+    for (let i = 0; i < 5; i++) {
+      expect((await decrypt(id, "198.51.100.30", intruder)).statusCode).toBe(403);
+    }
+    expect((await decrypt(id, "198.51.100.31")).statusCode).toBe(200);
+  });
+
+  it("locks out the record, not the client, after repeated tamper detections", async () => {
+    const id = await encrypt("party_tamper");
+    const record = (await getRecord(id))!;
+    record.payload_tag = (record.payload_tag[0] === "0" ? "1" : "0") + record.payload_tag.slice(1);
+
+    expect((await decrypt(id, "198.51.100.40")).statusCode).toBe(400);
+    expect((await decrypt(id, "198.51.100.40")).statusCode).toBe(400);
+
+    // The record is locked out, from any IP
+    const locked = await decrypt(id, "198.51.100.41");
+    expect(locked.statusCode).toBe(429);
+    expect(locked.json().error).toContain("tamper");
+    expect(Number(locked.headers["retry-after"])).toBeGreaterThan(800);
+
+    // The client is not: corrupt storage is not its fault
+    const other = await encrypt("party_tamper");
+    expect((await decrypt(other, "198.51.100.40")).statusCode).toBe(200);
+
+    const audited = await queryAuditLog({ recordId: id, outcome: "failure", limit: 10 });
+    expect(audited.map((entry) => entry.reason)).toEqual(["tampered", "tampered", "locked-out"]);
+  });
+
+  it("locks out the client, not the record, after repeated wrong-party attempts", async () => {
+    const id = await encrypt("party_victim");
+    const intruder = (await issueKey(app, "party_prober", ["decrypt"])).key;
+
+    expect((await decrypt(id, "198.51.100.50", intruder)).statusCode).toBe(403);
+    expect((await decrypt(id, "198.51.100.50", intruder)).statusCode).toBe(403);
+
+    // The client is locked out, even for its own party's records
+    const own = await encrypt("party_prober");
+    const locked = await decrypt(own, "198.51.100.50", intruder);
+    expect(locked.statusCode).toBe(429);
+    expect(locked.json().error).toContain("other parties' records");
+
+    // The record's owner is not
+    expect((await decrypt(id, "198.51.100.51")).statusCode).toBe(200);
+  });
+});
+
+describe("Memory rate-limit store", () => {
+  it("refills a token bucket over time", async () => {
+    const store = createMemoryRateLimitStore();
+    const limit = { capacity: 2, windowSeconds: 10 };
+
+    expect((await store.take("k", limit, 0)).allowed).toBe(true);
+    expect(await store.take("k", limit, 0)).toEqual({
+      allowed: true,
+      remaining: 0,
+      resetSeconds: 10,
+      retryAfterSeconds: 0,
+    });
+    expect(await store.take("k", limit, 1_000)).toMatchObject({
+      allowed: false,
+      retryAfterSeconds: 4,
+    });
+    expect((await store.take("k", limit, 5_000)).allowed).toBe(true);
+  });
+
+  it("counts strikes within the window and ends lockouts", async () => {
+    const store = createMemoryRateLimitStore();
+    expect(await store.strike("s", 1_000, 0)).toBe(1);
+    expect(await store.strike("s", 1_000, 500)).toBe(2);
+    expect(await store.strike("s", 1_000, 1_200)).toBe(2);
+
+    await store.lock("l", 2_000);
+    expect(await store.lockedUntil("l", 1_999)).toBe(2_000);
+    expect(await store.lockedUntil("l", 2_000)).toBeNull();
+  });
+
+  it("evicts the least recently used keys at its cap", async () => {
+    const store = createMemoryRateLimitStore(2);
+    const limit = { capacity: 1, windowSeconds: 60 };
+
+    await store.take("a", limit, 0);
+    await store.take("b", limit, 0);
+    await store.take("a", limit, 0);
+    await store.take("c", limit, 0);
+
+    // "a" was kept; "b" was evicted and starts over with a full bucket
+    expect((await store.take("a", limit, 0)).allowed).toBe(false);
+    expect((await store.take("b", limit, 0)).allowed).toBe(true);
+  });
+
+  it("rejects malformed limits", () => {
+    process.env.DECRYPT_RATE_LIMIT_PER_IP = "ten/60";
+    try {
+      expect(() => initRateLimits()).toThrow(/DECRYPT_RATE_LIMIT_PER_IP/);
+    } finally {
+      process.env.DECRYPT_RATE_LIMIT_PER_IP = "20/60";
+    }
+  });
+});
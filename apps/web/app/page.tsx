@@ -4,6 +4,13 @@ import { useState, useEffect, useCallback } from "react";
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
 
+/**
+ * Optional default for the API key field. Anything NEXT_PUBLIC_ ends up in
+ * the browser bundle, so only ever put a demo party key here — never the
+ * admin key.
+ */
+const DEFAULT_API_KEY = process.env.NEXT_PUBLIC_API_KEY || "";
+
 /** Generic API response types */
 interface ApiSuccess<T> {
   success: true;
@@ -38,6 +45,12 @@ export default function Home() {
   // ── Flow tracking ──────────────────────────────────────────────────
   const [flowStep, setFlowStep] = useState<FlowStep>("idle");
 
+  // ── API key (sent with every request but /health) ──────────────────
+  const [apiKey, setApiKey] = useState(DEFAULT_API_KEY);
+  const authHeaders: Record<string, string> = apiKey
+    ? { Authorization: `Bearer ${apiKey}` }
+    : {};
+
   // ── Encrypt section ─────────────────────────────────────────────────
   const [partyId, setPartyId] = useState("party_123");
   const [payloadText, setPayloadText] = useState(
@@ -88,7 +101,7 @@ export default function Home() {
 
       const res = await fetch(`${API_URL}/tx/encrypt`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", ...authHeaders },
         body: JSON.stringify({ partyId, payload }),
       });
 
@@ -125,7 +138,7 @@ export default function Home() {
     setFetchLoading(true);
 
     try {
-      const res = await fetch(`${API_URL}/tx/${fetchId}`);
+      const res = await fetch(`${API_URL}/tx/${fetchId}`, { headers: authHeaders });
       const data: ApiResponse<unknown> = await res.json();
 
       if (!data.success) {
@@ -150,6 +163,7 @@ export default function Home() {
     try {
       const res = await fetch(`${API_URL}/tx/${decryptId}/decrypt`, {
         method: "POST",
+        headers: authHeaders,
       });
       const data: ApiResponse<unknown> = await res.json();
 
@@ -287,6 +301,16 @@ export default function Home() {
             </div>
           </div>
           <div className="px-6 py-5 space-y-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1.5">API Key</label>
+              <input
+                type="password"
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+                className="w-full px-3 py-2.5 rounded-lg bg-gray-800/70 border border-gray-700/60 text-gray-100 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500/40 focus:border-blue-500/40 transition-all placeholder:text-gray-600"
+                placeholder="txk_… (party key with encrypt, read and decrypt scopes)"
+              />
+            </div>
             <div>
               <label className="block text-xs font-medium text-gray-400 mb-1.5">Party ID</label>
               <input
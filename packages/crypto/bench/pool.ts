@@ -0,0 +1,101 @@
+import { monitorEventLoopDelay } from "perf_hooks";
+import { createCryptoPool, decrypt, encrypt, generateMasterKey, TxSecureRecord } from "../src/index";
+
+/**
+ * Event-loop latency benchmark: encrypt()/decrypt() vs a CryptoPool.
+ *
+ * Encrypts and decrypts a batch of large payloads while a timer measures
+ * how long the event loop is held up — the wait every other request on the
+ * server would see. Run with: pnpm bench:pool [payloadKiB] [count]
+ */
+
+const PAYLOAD_KIB = Number(process.argv[2] ?? 1024);
+const COUNT = Number(process.argv[3] ?? 20);
+
+const masterKey = generateMasterKey();
+const payload = {
+  partyId: "party_bench",
+  items: Array.from({ length: Math.ceil((PAYLOAD_KIB * 1024) / 64) }, (_, i) => ({
+    id: i,
+    memo: "x".repeat(40),
+  })),
+};
+
+type Result = { label: string; totalMs: number; p50: number; p99: number; max: number };
+
+async function measure(label: string, work: () => Promise<void>): Promise<Result> {
+  const histogram = monitorEventLoopDelay({ resolution: 1 });
+  histogram.enable();
+  const start = performance.now();
+  await work();
+  const totalMs = performance.now() - start;
+  histogram.disable();
+
+  const ms = (ns: number) => ns / 1e6;
+  return {
+    label,
+    totalMs,
+    p50: ms(histogram.percentile(50)),
+    p99: ms(histogram.percentile(99)),
+    max: ms(histogram.max),
+  };
+}
+
+/** Lets the event loop turn between synchronous operations, as a server would */
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+async function main(): Promise<void> {
+  const pool = createCryptoPool();
+  const results: Result[] = [];
+
+  // Warm up both paths (JIT, worker startup)
+  decrypt(masterKey, encrypt(masterKey, "party_bench", payload));
+  await pool.decryptAsync(masterKey, await pool.encryptAsync(masterKey, "party_bench", payload));
+
+  let records: TxSecureRecord[] = [];
+  results.push(
+    await measure("encrypt()", async () => {
+      records = [];
+      for (let i = 0; i < COUNT; i++) {
+        records.push(encrypt(masterKey, "party_bench", payload));
+        await tick();
+      }
+    })
+  );
+  results.push(
+    await measure("pool.encryptAsync()", async () => {
+      records = await Promise.all(
+        Array.from({ length: COUNT }, () => pool.encryptAsync(masterKey, "party_bench", payload))
+      );
+    })
+  );
+  results.push(
+    await measure("decrypt()", async () => {
+      for (const record of records) {
+        decrypt(masterKey, record);
+        await tick();
+      }
+    })
+  );
+  results.push(
+    await measure("pool.decryptAsync()", async () => {
+      await Promise.all(records.map((record) => pool.decryptAsync(masterKey, record)));
+    })
+  );
+
+  await pool.close();
+
+  console.log(`${COUNT} × ${PAYLOAD_KIB} KiB payloads, pool of ${pool.size} worker(s)\n`);
+  console.log("operation            total ms   loop delay p50 / p99 / max (ms)");
+  for (const r of results) {
+    console.log(
+      `${r.label.padEnd(20)} ${r.totalMs.toFixed(0).padStart(8)}   ` +
+        `${r.p50.toFixed(1)} / ${r.p99.toFixed(1)} / ${r.max.toFixed(1)}`
+    );
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,87 @@
+import crypto from "crypto";
+import { RecordAlgorithm } from "./types";
+import { ValidationError } from "./errors";
+
+/**
+ * Algorithm registry — everything that depends on a record's `alg`.
+ *
+ * Both AEADs take a 32-byte key, a 12-byte nonce and produce a 16-byte
+ * tag, so the record layout is identical; only the cipher differs. The
+ * record's `alg` selects the cipher for BOTH layers (payload and DEK
+ * wrap), so a host without AES-NI never runs AES for that record.
+ *
+ * WHY offer ChaCha20-Poly1305?
+ * ────────────────────────────
+ * AES-256-GCM is fastest with AES-NI hardware instructions. Without them,
+ * software AES is slow and hard to make constant-time, while
+ * ChaCha20-Poly1305 is fast and constant-time in plain software.
+ */
+
+/** Algorithms encrypt() can produce (streamed records come from encryptStream()) */
+export type EnvelopeAlgorithm = Exclude<RecordAlgorithm, "AES-256-GCM-STREAM">;
+
+export type AlgorithmSpec = {
+  /** Node.js cipher name */
+  cipher: "aes-256-gcm" | "chacha20-poly1305";
+
+  /** Nonce (IV) length in bytes */
+  nonceBytes: number;
+
+  /** Authentication tag length in bytes */
+  tagBytes: number;
+};
+
+export const ALGORITHMS: Readonly<Record<RecordAlgorithm, AlgorithmSpec>> = {
+  "AES-256-GCM": { cipher: "aes-256-gcm", nonceBytes: 12, tagBytes: 16 },
+  "ChaCha20-Poly1305": { cipher: "chacha20-poly1305", nonceBytes: 12, tagBytes: 16 },
+  "AES-256-GCM-STREAM": { cipher: "aes-256-gcm", nonceBytes: 12, tagBytes: 16 },
+};
+
+/** Algorithm identifiers in registry order */
+export const SUPPORTED_ALGORITHMS = Object.keys(ALGORITHMS) as RecordAlgorithm[];
+
+/** Algorithm used when none is requested */
+export const DEFAULT_ALGORITHM: EnvelopeAlgorithm = "AES-256-GCM";
+
+/** Type guard for algorithm identifiers */
+export function isRecordAlgorithm(alg: unknown): alg is RecordAlgorithm {
+  return typeof alg === "string" && Object.prototype.hasOwnProperty.call(ALGORITHMS, alg);
+}
+
+/**
+ * Looks up an algorithm's parameters.
+ *
+ * @throws ValidationError if the algorithm is not supported
+ */
+export function algorithmSpec(alg: string): AlgorithmSpec {
+  if (!isRecordAlgorithm(alg)) {
+    throw new ValidationError(
+      `Unsupported algorithm "${alg}" — supported: ${SUPPORTED_ALGORITHMS.join(", ")}`
+    );
+  }
+  return ALGORITHMS[alg];
+}
+
+/** An AEAD cipher: GCM and ChaCha20-Poly1305 share this surface */
+export type AeadCipher = crypto.CipherGCM | crypto.CipherChaCha20Poly1305;
+
+/** An AEAD decipher: GCM and ChaCha20-Poly1305 share this surface */
+export type AeadDecipher = crypto.DecipherGCM | crypto.DecipherChaCha20Poly1305;
+
+/** Creates the AEAD cipher for `alg` */
+export function createAeadCipher(alg: string, key: Buffer, nonce: Buffer): AeadCipher {
+  const spec = algorithmSpec(alg);
+  if (spec.cipher === "chacha20-poly1305") {
+    return crypto.createCipheriv(spec.cipher, key, nonce, { authTagLength: spec.tagBytes });
+  }
+  return crypto.createCipheriv(spec.cipher, key, nonce);
+}
+
+/** Creates the AEAD decipher for `alg` */
+export function createAeadDecipher(alg: string, key: Buffer, nonce: Buffer): AeadDecipher {
+  const spec = algorithmSpec(alg);
+  if (spec.cipher === "chacha20-poly1305") {
+    return crypto.createDecipheriv(spec.cipher, key, nonce, { authTagLength: spec.tagBytes });
+  }
+  return crypto.createDecipheriv(spec.cipher, key, nonce);
+}
@@ -0,0 +1,103 @@
+import crypto from "crypto";
+import { MasterKeyInput } from "./keyring";
+import { canonicalJson } from "./canonical";
+import { readPath } from "./fields";
+import { deriveSubkey } from "./subkeys";
+
+/**
+ * Blind indexes — equality search over encrypted fields.
+ *
+ * A blind index is an HMAC of a field's plaintext value. Storing it next to
+ * the (encrypted) record lets the database find every record whose field
+ * equals a given value, without the database ever seeing the value:
+ *
+ *   key   = deriveSubkey(MasterKey[mk_version], "blind-index", context = field)
+ *         = HKDF-SHA256(MasterKey[mk_version], info = "tx-secure/blind-index/v1:" + field)
+ *   index = HMAC-SHA256(key, normalized value)
+ *
+ * Each field gets its own key, so equal values in different fields produce
+ * unrelated indexes. The key comes from a master key version; the index
+ * records that version so search can still find records indexed before a
+ * rotation (search computes the index under every version in the keyring).
+ *
+ * Values are normalized before hashing: strings as-is, numbers and
+ * booleans as their string form (so a search for "250" matches the number
+ * 250), null as "null", objects and arrays as canonical JSON.
+ *
+ * Trade-off: an equality index reveals which records share a value, and
+ * low-entropy fields (e.g. a status with three values) can be guessed by
+ * anyone holding an index. Only index high-entropy fields like account
+ * numbers.
+ */
+
+/** A blind index for one field of one record */
+export type BlindIndex = {
+  /** Dot-separated payload path that was indexed */
+  field: string;
+
+  /** Master key version the index key was derived from */
+  mk_version: number;
+
+  /** HMAC-SHA256 of the normalized value, as 64-char hex */
+  hmac: string;
+};
+
+/**
+ * Computes the blind index of one value.
+ *
+ * @param masterKey - Hex master key, or a Keyring
+ * @param field     - The payload path being indexed (part of the key derivation)
+ * @param value     - The plaintext value
+ * @param mkVersion - Master key version to derive from (default: the
+ *                    keyring's active version, or 1 for a single hex key)
+ * @throws ValidationError if the master key cannot be resolved
+ */
+export function computeBlindIndex(
+  masterKey: MasterKeyInput,
+  field: string,
+  value: unknown,
+  mkVersion?: number
+): BlindIndex {
+  const version = mkVersion ?? (typeof masterKey === "string" ? 1 : masterKey.activeVersion);
+  const key = deriveSubkey(masterKey, "blind-index", field, version);
+
+  try {
+    const hmac = crypto
+      .createHmac("sha256", key)
+      .update(normalizeIndexValue(value), "utf-8")
+      .digest("hex");
+    return { field, mk_version: version, hmac };
+  } finally {
+    key.fill(0);
+  }
+}
+
+/**
+ * Computes blind indexes for the configured fields of a payload. Fields
+ * missing from the payload are skipped.
+ *
+ * @param masterKey - Hex master key, or a Keyring
+ * @param payload   - The plaintext payload (before encryption)
+ * @param fields    - Dot-separated paths to index
+ * @param mkVersion - Master key version to derive from (default as in computeBlindIndex())
+ */
+export function computeBlindIndexes(
+  masterKey: MasterKeyInput,
+  payload: Record<string, unknown>,
+  fields: string[],
+  mkVersion?: number
+): BlindIndex[] {
+  const indexes: BlindIndex[] = [];
+  for (const field of fields) {
+    const value = readPath(payload, field);
+    if (value === undefined) continue;
+    indexes.push(computeBlindIndex(masterKey, field, value, mkVersion));
+  }
+  return indexes;
+}
+
+function normalizeIndexValue(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  return canonicalJson(value);
+}
@@ -0,0 +1,24 @@
+/**
+ * Canonical JSON — a single byte encoding for a JSON value.
+ *
+ * Anything authenticated as AAD must encode to the same bytes every time
+ * it is read back. Plain JSON.stringify() follows key insertion order,
+ * which a database may not preserve (PostgreSQL `jsonb` reorders keys), so
+ * object keys are sorted here. Arrays keep their order; `undefined`
+ * properties are dropped exactly as JSON.stringify() drops them.
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item ?? null)).join(",")}]`;
+  }
+
+  const entries = Object.keys(value)
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(",")}}`;
+}
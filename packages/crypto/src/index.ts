@@ -1,20 +1,69 @@
 /**
  * @repo/crypto — Envelope Encryption Library
  *
- * This package implements envelope encryption using AES-256-GCM with
- * Node.js native crypto module (zero external dependencies).
+ * This package implements envelope encryption using AES-256-GCM (or
+ * ChaCha20-Poly1305) with Node.js native crypto module (zero external
+ * dependencies).
  *
  * Exports:
  * - encrypt()           — Encrypt a JSON payload with envelope encryption
+ *                         (optionally field by field, leaving other fields readable)
  * - decrypt()           — Decrypt a TxSecureRecord back to the original payload
+ *                         (refusing records past their `expiresAt`)
+ * - encryptWithProvider()/decryptWithProvider() — Same, with DEK wrapping done by a KeyProvider
+ * - createCryptoPool()  — Worker-thread pool with encryptAsync()/decryptAsync() for bulk work
+ * - createLocalKeyProvider()/createHttpKeyProvider() — In-process and remote (KMS) KeyProviders
+ * - startMockKms()      — File-backed mock KMS served over HTTP, for offline testing
+ * - encryptStream()/decryptStream() — Segmented AEAD for large payloads over Node streams
+ * - rewrap()            — Re-wrap a record's DEK under a new master key version
+ * - createPartyKeyProvider()/rewrapPartyKek() — Per-party KEKs for crypto-shredding
+ * - signRecord()/verifyRecordSignature() — Ed25519 record signatures for non-repudiation
+ * - createLedgerEntry()/verifyLedgerChain() — Hash-chained log of store writes, with
+ *                         Merkle inclusion proofs and signed checkpoints
+ * - encryptForRecipient()/openSealedRecord() — Records sealed to a party's X25519 key
+ * - definePayloadSchema()/validatePayload() — Typed payload schemas (a JSON Schema subset),
+ *                         checked by encrypt()/decrypt() when given
  * - constantTimeTagCompare() — Timing-safe tag comparison utility
  * - validateRecord()    — Validate a TxSecureRecord's structure
+ * - serializeRecord()/parseRecord() — Compact binary (and base64url) record envelope;
+ *                         parseRecord() also strictly checks records from untrusted input
+ * - toJWE()/fromJWE()   — Records as JWE (A256GCMKW + A256GCM), compact or JSON serialization
+ * - computeBlindIndex()/computeBlindIndexes() — HMAC blind indexes for equality search
+ * - deriveSubkey()      — HKDF-SHA256 subkeys of the master key, one per registered purpose
+ * - SUPPORTED_ALGORITHMS — Record algorithms: AES-256-GCM, ChaCha20-Poly1305, AES-256-GCM-STREAM
+ * - payloadAad()/dekWrapAad() — Metadata bound as GCM additional authenticated data
  * - generateMasterKey() — Generate a secure random master key
+ * - encryptKeyFile()/decryptKeyFile() — Passphrase-protected (scrypt) master key files
+ * - createKeyring()/parseKeyring() — Multi-version master keyring for rotation
  * - TxSecureRecord      — TypeScript type for encrypted records
- * - Error classes       — EncryptionError, DecryptionError, ValidationError, TamperedDataError
+ * - Error classes       — EncryptionError, DecryptionError, ValidationError, TamperedDataError,
+ *                         KeyDestroyedError, ExpiredRecordError, PayloadSchemaError,
+ *                         PoolQueueFullError, WrongKeyError, WrongPassphraseError
  */
 
-export type { TxSecureRecord } from "./types";
+export type { TxSecureRecord, RecordAlgorithm, EncryptOptions, EncryptedField } from "./types";
+export type { Keyring, MasterKeyInput } from "./keyring";
+export type { KeyProvider, KeyWrapContext, WrappedKey } from "./provider";
+export type { HttpKeyProviderOptions } from "./httpProvider";
+export type { MockKms, MockKmsOptions } from "./mockKms";
+export type { StreamEncryptOptions } from "./stream";
+export type { EnvelopeAlgorithm } from "./algorithms";
+export type { BlindIndex } from "./blindIndex";
+export type { PartyKek, PartyKeyStore } from "./partyKeys";
+export type { SigningKey, SigningPublicKeys } from "./signature";
+export type { JsonSchema, JsonSchemaType, PayloadSchema } from "./schema";
+export type { ScryptParams } from "./keyfile";
+export type { SubkeyPurpose } from "./subkeys";
+export type { CryptoPool, CryptoPoolOptions } from "./pool";
+export type { JweJson } from "./jwe";
+export type { ValidationIssue } from "./errors";
+export type {
+  LedgerEntry,
+  LedgerOp,
+  LedgerCheckpoint,
+  LedgerBreak,
+  MerkleAccumulator,
+} from "./ledger";
 
 export {
   CryptoError,
@@ -22,9 +71,87 @@ export {
   DecryptionError,
   ValidationError,
   TamperedDataError,
+  KeyDestroyedError,
+  ExpiredRecordError,
+  PayloadSchemaError,
+  PoolQueueFullError,
+  WrongKeyError,
+  WrongPassphraseError,
 } from "./errors";
 
-export { encrypt } from "./encrypt";
-export { decrypt, constantTimeTagCompare } from "./decrypt";
+export { encrypt, encryptWithProvider, encryptForRecipient } from "./encrypt";
+export { decrypt, decryptWithProvider, constantTimeTagCompare } from "./decrypt";
+export { createCryptoPool, DEFAULT_POOL_MAX_QUEUE } from "./pool";
+export { rewrap } from "./rewrap";
+export {
+  encryptStream,
+  decryptStream,
+  STREAM_ALG,
+  DEFAULT_SEGMENT_SIZE,
+  MAX_SEGMENT_SIZE,
+} from "./stream";
 export { validateRecord } from "./validate";
+export {
+  serializeRecord,
+  parseRecord,
+  RECORD_ENVELOPE_MAGIC,
+  RECORD_ENVELOPE_VERSION,
+} from "./serialize";
+export { toJWE, fromJWE, JWE_KEY_ALG, JWE_CONTENT_ALG, JWE_RECORD_HEADER } from "./jwe";
+export { computeBlindIndex, computeBlindIndexes } from "./blindIndex";
+export { deriveSubkey, SUBKEY_LABELS } from "./subkeys";
+export { SUPPORTED_ALGORITHMS, DEFAULT_ALGORITHM, isRecordAlgorithm } from "./algorithms";
+export { createKeyring, parseKeyring, keyringVersions } from "./keyring";
+export { createLocalKeyProvider } from "./provider";
+export { createHttpKeyProvider } from "./httpProvider";
+export {
+  createPartyKeyProvider,
+  createMemoryPartyKeyStore,
+  rewrapPartyKek,
+} from "./partyKeys";
+export {
+  generateSigningKeyPair,
+  signingKeyId,
+  signRecord,
+  verifyRecordSignature,
+} from "./signature";
+export {
+  createLedgerEntry,
+  verifyLedgerChain,
+  ledgerRecordHash,
+  ledgerEntryHash,
+  createMerkleAccumulator,
+  merkleRoot,
+  merkleInclusionProof,
+  verifyMerkleInclusion,
+  signLedgerCheckpoint,
+  verifyLedgerCheckpoint,
+  LEDGER_GENESIS_HASH,
+} from "./ledger";
+export {
+  generateRecipientKeyPair,
+  recipientKeyId,
+  openSealedRecord,
+  SEALED_MK_VERSION,
+} from "./sealed";
+export { definePayloadSchema, validatePayload } from "./schema";
+export { startMockKms } from "./mockKms";
+export {
+  CURRENT_RECORD_FORMAT,
+  RECORD_FORMAT_LEGACY,
+  RECORD_FORMAT_AAD,
+  RECORD_FORMAT_SUBKEYS,
+  SUPPORTED_RECORD_FORMATS,
+  payloadAad,
+  dekWrapAad,
+  fieldAad,
+} from "./aad";
+export { canonicalJson } from "./canonical";
+export {
+  encryptKeyFile,
+  decryptKeyFile,
+  promptPassphrase,
+  KEY_FILE_TYPE,
+  KEY_FILE_VERSION,
+} from "./keyfile";
 export { generateMasterKey } from "./keygen";
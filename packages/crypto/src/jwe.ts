@@ -0,0 +1,257 @@
+import { TxSecureRecord } from "./types";
+import { ValidationError } from "./errors";
+import { validateRecord, validateRecordStrict } from "./validate";
+import { canonicalJson } from "./canonical";
+
+/**
+ * JWE serialization — a record as a JSON Web Encryption object (RFC 7516).
+ *
+ * An AES-256-GCM record already has the shape of a JWE with key management
+ * "A256GCMKW" (the DEK wrapped by AES-GCM) and content encryption "A256GCM",
+ * so every field maps onto a JWE member, base64url instead of hex:
+ *
+ *   JWE                          record
+ *   protected.alg = "A256GCMKW"
+ *   protected.enc = "A256GCM"    alg = "AES-256-GCM"
+ *   protected.kid                mk_version (as a decimal string)
+ *   protected.iv / .tag          dek_wrap_nonce / dek_wrap_tag
+ *   encrypted_key                dek_wrapped
+ *   iv / ciphertext / tag        payload_nonce / payload_ct / payload_tag
+ *   protected["tx-secure"]       every other field (id, partyId, createdAt,
+ *                                format_version, expiresAt, kek_id, …) as is
+ *
+ * The protected header is canonical JSON, so a record has exactly one JWE
+ * form and fromJWE() accepts only that form: toJWE(fromJWE(jwe)) gives back
+ * the same JWE, and fromJWE(toJWE(record)) the same record.
+ *
+ * The ciphertext is the record's own, so it authenticates the record's AAD
+ * (see aad.ts) rather than the JWE protected header, and format 3 DEKs are
+ * wrapped under the "dek-wrap" subkey, not the master key itself. A generic
+ * JOSE library can read these tokens but not decrypt them; "tx-secure" is
+ * listed in `crit`, so such a library refuses them up front instead of
+ * failing on the tag.
+ * Decrypt with fromJWE() and decrypt().
+ *
+ * Only AES-256-GCM records have a JWE form: ChaCha20-Poly1305 has no
+ * registered JWE `enc`, streamed records keep their ciphertext elsewhere,
+ * and sealed records wrap their DEK by key agreement, not A256GCMKW.
+ */
+
+/** JWE `alg` of an exported record: the DEK is wrapped with AES-256-GCM */
+export const JWE_KEY_ALG = "A256GCMKW";
+
+/** JWE `enc` of an exported record: the payload is encrypted with AES-256-GCM */
+export const JWE_CONTENT_ALG = "A256GCM";
+
+/** Private header parameter holding the record's other fields */
+export const JWE_RECORD_HEADER = "tx-secure";
+
+/** A record in the (flattened) JWE JSON serialization */
+export type JweJson = {
+  protected: string;
+  encrypted_key: string;
+  iv: string;
+  ciphertext: string;
+  tag: string;
+};
+
+/** The record fields that become JWE members rather than part of the "tx-secure" header */
+const MAPPED_FIELDS = [
+  "payload_nonce",
+  "payload_ct",
+  "payload_tag",
+  "dek_wrap_nonce",
+  "dek_wrapped",
+  "dek_wrap_tag",
+  "alg",
+  "mk_version",
+] as const;
+
+type MappedField = (typeof MAPPED_FIELDS)[number];
+
+const JWE_JSON_MEMBERS = ["protected", "encrypted_key", "iv", "ciphertext", "tag"] as const;
+
+const BASE64URL_REGEX = /^[A-Za-z0-9_-]*$/;
+const utf8 = new TextDecoder("utf-8", { fatal: true });
+
+/**
+ * Exports a record as a JWE.
+ *
+ * @param record        - An AES-256-GCM record (validated first)
+ * @param serialization - "compact" (default) for the five-part dotted form,
+ *                        "json" for the flattened JSON serialization
+ * @throws ValidationError if the record is malformed or has no JWE form
+ */
+export function toJWE(record: TxSecureRecord, serialization?: "compact"): string;
+export function toJWE(record: TxSecureRecord, serialization: "json"): JweJson;
+export function toJWE(
+  record: TxSecureRecord,
+  serialization: "compact" | "json" = "compact"
+): string | JweJson {
+  validateRecord(record);
+  if (record.alg !== "AES-256-GCM") {
+    throw new ValidationError(
+      `Only AES-256-GCM records can be exported as JWE, got alg "${record.alg}"`
+    );
+  }
+  if (record.recipient_key_id !== undefined) {
+    throw new ValidationError(
+      `Sealed records cannot be exported as JWE: their DEK is not wrapped with ${JWE_KEY_ALG}`
+    );
+  }
+
+  const meta: Record<string, unknown> = { ...record };
+  for (const field of MAPPED_FIELDS) delete meta[field];
+
+  const header = {
+    alg: JWE_KEY_ALG,
+    enc: JWE_CONTENT_ALG,
+    kid: String(record.mk_version),
+    iv: hexToBase64url(record.dek_wrap_nonce),
+    tag: hexToBase64url(record.dek_wrap_tag),
+    crit: [JWE_RECORD_HEADER],
+    [JWE_RECORD_HEADER]: meta,
+  };
+
+  const jwe: JweJson = {
+    protected: Buffer.from(canonicalJson(header), "utf-8").toString("base64url"),
+    encrypted_key: hexToBase64url(record.dek_wrapped),
+    iv: hexToBase64url(record.payload_nonce),
+    ciphertext: hexToBase64url(record.payload_ct),
+    tag: hexToBase64url(record.payload_tag),
+  };
+
+  return serialization === "json" ? jwe : toCompact(jwe);
+}
+
+/**
+ * Imports a record from a JWE written by toJWE(): a compact string, or the
+ * JSON serialization as an object or as JSON text. The result is checked
+ * with validateRecordStrict(), like parseRecord().
+ *
+ * @throws ValidationError if the input is not a tx-secure JWE, or not in
+ *         the exact form toJWE() writes
+ */
+export function fromJWE(input: string | JweJson): TxSecureRecord {
+  let serialization: "compact" | "json" = "json";
+  let jwe: JweJson;
+  if (typeof input !== "string") {
+    jwe = checkJweJson(input);
+  } else if (input.trim().startsWith("{")) {
+    jwe = checkJweJson(parseJson(input));
+  } else {
+    serialization = "compact";
+    jwe = splitCompact(input.trim());
+  }
+
+  // ── Protected header ──────────────────────────────────────────────
+  const header = decodeHeader(jwe.protected);
+  if (header.alg !== JWE_KEY_ALG || header.enc !== JWE_CONTENT_ALG) {
+    throw new ValidationError(
+      `Unsupported JWE algorithms alg "${String(header.alg)}" / enc "${String(header.enc)}" — ` +
+        `supported: ${JWE_KEY_ALG} / ${JWE_CONTENT_ALG}`
+    );
+  }
+
+  const meta = header[JWE_RECORD_HEADER];
+  if (typeof meta !== "object" || meta === null || Array.isArray(meta)) {
+    throw new ValidationError(`JWE has no "${JWE_RECORD_HEADER}" header: not a tx-secure record`);
+  }
+  for (const field of MAPPED_FIELDS) {
+    if (field in meta) {
+      throw new ValidationError(`JWE "${JWE_RECORD_HEADER}" header must not contain "${field}"`);
+    }
+  }
+
+  if (typeof header.kid !== "string" || !/^\d+$/.test(header.kid)) {
+    throw new ValidationError("JWE kid must be the record's mk_version as a decimal string");
+  }
+
+  // ── Record ────────────────────────────────────────────────────────
+  const mapped: Pick<TxSecureRecord, MappedField> = {
+    payload_nonce: base64urlToHex(jwe.iv, "iv"),
+    payload_ct: base64urlToHex(jwe.ciphertext, "ciphertext"),
+    payload_tag: base64urlToHex(jwe.tag, "tag"),
+    dek_wrap_nonce: base64urlToHex(header.iv, "header iv"),
+    dek_wrapped: base64urlToHex(jwe.encrypted_key, "encrypted_key"),
+    dek_wrap_tag: base64urlToHex(header.tag, "header tag"),
+    alg: "AES-256-GCM",
+    mk_version: Number(header.kid),
+  };
+  const record: unknown = { ...meta, ...mapped };
+  validateRecordStrict(record);
+
+  // ── Exactly the form toJWE() writes ───────────────────────────────
+  // Anything else (another header order, extra members or parameters,
+  // non-canonical base64url) would not survive a round trip.
+  const canonical = serialization === "json" ? canonicalJson(toJWE(record, "json")) : toJWE(record);
+  const given = serialization === "json" ? canonicalJson(jwe) : toCompact(jwe);
+  if (given !== canonical) {
+    throw new ValidationError("JWE is not in the canonical form written by toJWE()");
+  }
+  return record;
+}
+
+function toCompact(jwe: JweJson): string {
+  return JWE_JSON_MEMBERS.map((member) => jwe[member]).join(".");
+}
+
+function splitCompact(text: string): JweJson {
+  const parts = text.split(".");
+  if (parts.length !== JWE_JSON_MEMBERS.length) {
+    throw new ValidationError(
+      `JWE compact serialization must have ${JWE_JSON_MEMBERS.length} parts, got ${parts.length}`
+    );
+  }
+  const [protectedHeader, encryptedKey, iv, ciphertext, tag] = parts;
+  return { protected: protectedHeader, encrypted_key: encryptedKey, iv, ciphertext, tag };
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error: unknown) {
+    throw new ValidationError(`JWE JSON is invalid: ${(error as Error).message}`);
+  }
+}
+
+function checkJweJson(value: unknown): JweJson {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new ValidationError("JWE JSON must be an object");
+  }
+  for (const member of JWE_JSON_MEMBERS) {
+    if (typeof (value as Record<string, unknown>)[member] !== "string") {
+      throw new ValidationError(`JWE JSON member "${member}" must be a string`);
+    }
+  }
+  return value as JweJson;
+}
+
+function decodeHeader(encoded: string): Record<string, unknown> {
+  let header: unknown;
+  try {
+    header = JSON.parse(utf8.decode(Buffer.from(assertBase64url(encoded, "protected"), "base64url")));
+  } catch (error: unknown) {
+    if (error instanceof ValidationError) throw error;
+    throw new ValidationError("JWE protected header is not valid UTF-8 JSON");
+  }
+  if (typeof header !== "object" || header === null || Array.isArray(header)) {
+    throw new ValidationError("JWE protected header must be a JSON object");
+  }
+  return header as Record<string, unknown>;
+}
+
+function assertBase64url(value: unknown, name: string): string {
+  if (typeof value !== "string" || !BASE64URL_REGEX.test(value)) {
+    throw new ValidationError(`JWE ${name} must be a base64url string`);
+  }
+  return value;
+}
+
+function base64urlToHex(value: unknown, name: string): string {
+  return Buffer.from(assertBase64url(value, name), "base64url").toString("hex");
+}
+
+function hexToBase64url(hex: string): string {
+  return Buffer.from(hex, "hex").toString("base64url");
+}
@@ -1,4 +1,7 @@
 import crypto from "crypto";
+import fs from "fs";
+import { encryptKeyFile, promptPassphrase } from "./keyfile";
+import { createKeyring, parseKeyring } from "./keyring";
 
 /**
  * Generates a cryptographically secure 32-byte (256-bit) master key.
@@ -19,10 +22,84 @@ export function generateMasterKey(): string {
 //   pnpm generate-master-key
 //
 // Copy the output and set it as your MASTER_KEY_HEX environment variable.
+//
+// With --out, the key is never shown: it is written to a passphrase-protected
+// key file (see keyfile.ts) for the API's MASTER_KEY_FILE instead.
+//   pnpm --filter @repo/crypto keygen --out master.key
+//   pnpm --filter @repo/crypto keygen --in keyring.json --out keyring.key
+//
+// --in protects an existing key (hex) or keyring JSON file instead of a new
+// key. The passphrase comes from MASTER_KEY_PASSPHRASE, or is prompted for
+// (twice) on the terminal.
 if (require.main === module) {
-  const key = generateMasterKey();
-  console.log("\n🔑 Generated Master Key (32 bytes, hex-encoded):\n");
-  console.log(`   ${key}\n`);
-  console.log("   Copy this value and set it as your MASTER_KEY_HEX environment variable.");
-  console.log("   ⚠️  Do NOT commit this key to source control.\n");
+  main(process.argv.slice(2)).catch((error: unknown) => {
+    console.error(`❌ ${(error as Error).message}`);
+    process.exit(1);
+  });
+}
+
+async function main(args: string[]): Promise<void> {
+  const options = parseArgs(args);
+
+  if (options.out === undefined) {
+    if (options.in !== undefined) throw new Error("--in requires --out");
+    const key = generateMasterKey();
+    console.log("\n🔑 Generated Master Key (32 bytes, hex-encoded):\n");
+    console.log(`   ${key}\n`);
+    console.log("   Copy this value and set it as your MASTER_KEY_HEX environment variable.");
+    console.log("   ⚠️  Do NOT commit this key to source control.\n");
+    return;
+  }
+
+  const secret = options.in === undefined ? generateMasterKey() : readExistingKey(options.in);
+  const passphrase = await readNewPassphrase();
+
+  // "wx": never overwrite an existing key file; 0600: readable by the owner only
+  fs.writeFileSync(options.out, encryptKeyFile(secret, passphrase), { flag: "wx", mode: 0o600 });
+  console.log(`\n🔐 Wrote passphrase-protected key file ${options.out}\n`);
+  console.log(`   Set MASTER_KEY_FILE=${options.out} for the API, and provide the passphrase`);
+  console.log("   with MASTER_KEY_PASSPHRASE, MASTER_KEY_PASSPHRASE_FD or at the startup prompt.");
+  console.log("   ⚠️  Keep the passphrase apart from the file.\n");
+}
+
+function parseArgs(args: string[]): { in?: string; out?: string } {
+  const options: { in?: string; out?: string } = {};
+  for (let i = 0; i < args.length; i += 2) {
+    const flag = args[i];
+    const value = args[i + 1];
+    if ((flag !== "--in" && flag !== "--out") || value === undefined) {
+      throw new Error("Usage: keygen [--out <key file> [--in <key or keyring file>]]");
+    }
+    options[flag === "--in" ? "in" : "out"] = value;
+  }
+  return options;
+}
+
+/**
+ * Reads the --in file and checks it the way the API will load it: keyring
+ * JSON, or a single 32-byte hex key like MASTER_KEY_HEX.
+ */
+function readExistingKey(file: string): string {
+  const secret = fs.readFileSync(file, "utf-8").trim();
+  try {
+    if (secret.startsWith("{")) parseKeyring(secret);
+    else createKeyring({ 1: secret });
+  } catch (error: unknown) {
+    throw new Error(
+      `--in ${file} is neither a 32-byte hex key nor keyring JSON: ${(error as Error).message}`
+    );
+  }
+  return secret;
+}
+
+async function readNewPassphrase(): Promise<string> {
+  const fromEnv = process.env.MASTER_KEY_PASSPHRASE;
+  if (fromEnv) return fromEnv;
+
+  const passphrase = await promptPassphrase("New key file passphrase: ");
+  const confirmation = await promptPassphrase("Repeat passphrase: ");
+  if (passphrase !== confirmation) {
+    throw new Error("Passphrases do not match");
+  }
+  return passphrase;
 }
@@ -0,0 +1,131 @@
+import { CryptoError, ValidationError } from "./errors";
+
+/**
+ * Keyring — multiple master key versions for zero-downtime rotation.
+ *
+ * Every record stores the `mk_version` of the master key that wrapped its
+ * DEK. A keyring maps those versions to keys and marks one version as
+ * active:
+ *
+ *   encrypt() → wraps new DEKs with keys[activeVersion]
+ *   decrypt() → unwraps with keys[record.mk_version]
+ *
+ * Rotation is then: add version N+1, make it active, keep version N in the
+ * keyring until every old record has been re-wrapped.
+ */
+export type Keyring = {
+  /** Version used to encrypt new records — must exist in `keys` */
+  activeVersion: number;
+
+  /** Hex-encoded 32-byte master keys (64 hex chars), by version */
+  keys: Record<number, string>;
+};
+
+/** Anything encrypt()/decrypt() accept as master key material */
+export type MasterKeyInput = string | Keyring;
+
+const MASTER_KEY_REGEX = /^[0-9a-fA-F]{64}$/;
+
+/**
+ * Builds a validated keyring.
+ *
+ * @param keys          - Hex-encoded master keys by version
+ * @param activeVersion - Version for new records (default: the highest version)
+ * @throws ValidationError if a version or key is malformed or the active version is missing
+ */
+export function createKeyring(keys: Record<number, string>, activeVersion?: number): Keyring {
+  const versions = Object.keys(keys).map(Number);
+  if (versions.length === 0) {
+    throw new ValidationError("Keyring must contain at least one master key");
+  }
+
+  for (const version of versions) {
+    if (!Number.isInteger(version) || version < 1) {
+      throw new ValidationError(`Keyring version must be a positive integer, got "${version}"`);
+    }
+    if (!MASTER_KEY_REGEX.test(keys[version])) {
+      throw new ValidationError(
+        `Master key version ${version} must be exactly 64 hex characters (32 bytes)`
+      );
+    }
+  }
+
+  const active = activeVersion ?? Math.max(...versions);
+  if (!(active in keys)) {
+    throw new ValidationError(`Active version ${active} is not present in the keyring`);
+  }
+
+  return { activeVersion: active, keys: { ...keys } };
+}
+
+/**
+ * Parses a keyring from its JSON form:
+ *
+ *   { "activeVersion": 2, "keys": { "1": "<64 hex>", "2": "<64 hex>" } }
+ *
+ * `activeVersion` is optional and defaults to the highest version.
+ *
+ * @throws ValidationError if the JSON is malformed
+ */
+export function parseKeyring(json: string): Keyring {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new ValidationError("Keyring is not valid JSON");
+  }
+
+  if (typeof parsed !== "object" || parsed === null) {
+    throw new ValidationError("Keyring must be a JSON object");
+  }
+
+  const { activeVersion, keys } = parsed as { activeVersion?: unknown; keys?: unknown };
+  if (typeof keys !== "object" || keys === null || Array.isArray(keys)) {
+    throw new ValidationError('Keyring must have a "keys" object mapping versions to hex keys');
+  }
+  if (activeVersion !== undefined && typeof activeVersion !== "number") {
+    throw new ValidationError('Keyring "activeVersion" must be a number');
+  }
+
+  return createKeyring(keys as Record<number, string>, activeVersion);
+}
+
+/** Lists the versions held by a keyring, in ascending order */
+export function keyringVersions(keyring: Keyring): number[] {
+  return Object.keys(keyring.keys)
+    .map(Number)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Resolves master key material to the raw key for one version.
+ *
+ * A plain hex string is a single key and is used whatever the version;
+ * a keyring is looked up by version.
+ *
+ * @param ErrorType - Error class to throw, so encrypt/decrypt keep their own error types
+ */
+export function resolveMasterKey(
+  masterKey: MasterKeyInput,
+  version: number,
+  ErrorType: new (message: string) => CryptoError
+): Buffer {
+  let hex: string;
+  if (typeof masterKey === "string") {
+    hex = masterKey;
+  } else {
+    const found = masterKey.keys[version];
+    if (found === undefined) {
+      throw new ErrorType(`No master key for mk_version ${version} in the keyring`);
+    }
+    hex = found;
+  }
+
+  const mkBuffer = Buffer.from(hex, "hex");
+  if (mkBuffer.length !== 32) {
+    throw new ErrorType(
+      `Master key must be 32 bytes (64 hex chars), got ${mkBuffer.length} bytes`
+    );
+  }
+  return mkBuffer;
+}
@@ -0,0 +1,250 @@
+import crypto from "crypto";
+import fs from "fs";
+import http from "http";
+import path from "path";
+import { AddressInfo } from "net";
+import { CryptoError, TamperedDataError, EncryptionError, WrongKeyError } from "./errors";
+import { createKeyring, parseKeyring, Keyring } from "./keyring";
+import { createLocalKeyProvider, KeyWrapContext, WrappedKey } from "./provider";
+import { KmsErrorBody } from "./httpProvider";
+import { generateMasterKey } from "./keygen";
+
+/**
+ * Mock KMS — a file-backed stand-in for a cloud KMS, run as its own process.
+ *
+ * It holds the master keyring (a JSON file in the parseKeyring() format)
+ * and serves the wrap/unwrap protocol that createHttpKeyProvider() speaks.
+ * Pointing the API at it keeps the master key out of the API process and
+ * exercises the remote-KMS code path entirely offline.
+ *
+ * Internally it wraps with createLocalKeyProvider(), so records are
+ * byte-for-byte the same as those produced with the keyring in-process.
+ *
+ * This is a development tool: it listens on 127.0.0.1 by default and has
+ * no TLS. A real KMS must only be reached over TLS.
+ */
+
+export type MockKmsOptions = {
+  /** Keyring JSON file; created with a fresh version-1 key if missing */
+  keyringFile: string;
+
+  /** Port to listen on (default: 0 = any free port) */
+  port?: number;
+
+  /** Interface to bind (default: 127.0.0.1) */
+  host?: string;
+
+  /** If set, requests must carry "Authorization: Bearer <token>" */
+  token?: string;
+};
+
+export type MockKms = {
+  /** Base URL for createHttpKeyProvider() */
+  url: string;
+
+  /** Stop listening */
+  close(): Promise<void>;
+};
+
+/** Requests only carry a DEK and some metadata — anything large is bogus */
+const MAX_BODY_BYTES = 64 * 1024;
+
+/**
+ * Starts the mock KMS HTTP server.
+ */
+export async function startMockKms(options: MockKmsOptions): Promise<MockKms> {
+  const provider = createLocalKeyProvider(loadOrCreateKeyring(options.keyringFile));
+  const expectedToken = options.token
+    ? crypto.createHash("sha256").update(options.token).digest()
+    : null;
+
+  const server = http.createServer((req, res) => {
+    handle(req)
+      .then((body) => send(res, 200, body))
+      .catch((error: unknown) => {
+        const [status, body] = toErrorResponse(error);
+        send(res, status, body);
+      });
+  });
+
+  async function handle(req: http.IncomingMessage): Promise<unknown> {
+    if (expectedToken && !hasToken(req, expectedToken)) {
+      throw new KmsRequestError(401, "UNAUTHORIZED", "Missing or invalid bearer token");
+    }
+    if (req.method !== "POST") {
+      throw new KmsRequestError(405, "BAD_REQUEST", "Only POST is supported");
+    }
+
+    const body = await readJson(req);
+
+    if (req.url === "/wrap") {
+      const { key, context } = body as { key?: string; context?: KeyWrapContext };
+      if (typeof key !== "string" || !isContext(context)) {
+        throw new KmsRequestError(400, "BAD_REQUEST", "Expected { key, context }");
+      }
+      const dek = Buffer.from(key, "base64");
+      try {
+        return await provider.wrapKey(dek, context);
+      } finally {
+        dek.fill(0);
+      }
+    }
+
+    if (req.url === "/unwrap") {
+      const { wrapped, context } = body as { wrapped?: WrappedKey; context?: KeyWrapContext };
+      if (!isWrappedKey(wrapped) || !isContext(context)) {
+        throw new KmsRequestError(400, "BAD_REQUEST", "Expected { wrapped, context }");
+      }
+      const dek = await provider.unwrapKey(wrapped, context);
+      try {
+        return { key: dek.toString("base64") };
+      } finally {
+        dek.fill(0);
+      }
+    }
+
+    throw new KmsRequestError(404, "BAD_REQUEST", `Unknown endpoint ${req.url}`);
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 0, options.host ?? "127.0.0.1", () => resolve());
+  });
+
+  const { address, port } = server.address() as AddressInfo;
+  const host = address.includes(":") ? `[${address}]` : address;
+
+  return {
+    url: `http://${host}:${port}`,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((err) => (err ? reject(err) : resolve()));
+      }),
+  };
+}
+
+/**
+ * Reads the keyring file, or writes a new single-key keyring if the file
+ * does not exist yet (readable by the owner only).
+ */
+function loadOrCreateKeyring(file: string): Keyring {
+  if (!fs.existsSync(file)) {
+    const keyring = createKeyring({ 1: generateMasterKey() });
+    fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(keyring, null, 2) + "\n", { mode: 0o600 });
+    return keyring;
+  }
+  return parseKeyring(fs.readFileSync(file, "utf-8"));
+}
+
+class KmsRequestError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: KmsErrorBody["code"],
+    message: string
+  ) {
+    super(message);
+    this.name = "KmsRequestError";
+  }
+}
+
+function toErrorResponse(error: unknown): [number, KmsErrorBody] {
+  if (error instanceof KmsRequestError) {
+    return [error.status, { error: error.message, code: error.code }];
+  }
+  if (error instanceof TamperedDataError) {
+    return [400, { error: error.message, code: "TAMPERED" }];
+  }
+  if (error instanceof WrongKeyError) {
+    return [400, { error: error.message, code: "WRONG_KEY" }];
+  }
+  if (error instanceof CryptoError) {
+    const code = error instanceof EncryptionError ? "ENCRYPTION" : "DECRYPTION";
+    return [400, { error: error.message, code }];
+  }
+  return [500, { error: "Internal KMS error", code: "DECRYPTION" }];
+}
+
+function hasToken(req: http.IncomingMessage, expected: Buffer): boolean {
+  const header = req.headers.authorization ?? "";
+  if (!header.startsWith("Bearer ")) return false;
+  const actual = crypto.createHash("sha256").update(header.slice(7)).digest();
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+async function readJson(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new KmsRequestError(413, "BAD_REQUEST", "Request body too large");
+    }
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+  } catch {
+    throw new KmsRequestError(400, "BAD_REQUEST", "Request body is not valid JSON");
+  }
+}
+
+function send(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function isContext(value: unknown): value is KeyWrapContext {
+  const c = value as KeyWrapContext | undefined;
+  return (
+    typeof c === "object" &&
+    c !== null &&
+    typeof c.id === "string" &&
+    typeof c.partyId === "string" &&
+    typeof c.createdAt === "string" &&
+    typeof c.alg === "string" &&
+    (c.format_version === undefined || typeof c.format_version === "number")
+  );
+}
+
+function isWrappedKey(value: unknown): value is WrappedKey {
+  const w = value as WrappedKey | undefined;
+  return (
+    typeof w === "object" &&
+    w !== null &&
+    typeof w.mk_version === "number" &&
+    typeof w.dek_wrap_nonce === "string" &&
+    typeof w.dek_wrapped === "string" &&
+    typeof w.dek_wrap_tag === "string" &&
+    (w.key_check === undefined || typeof w.key_check === "string")
+  );
+}
+
+// ── CLI entry point ─────────────────────────────────────────────────────
+// Runs the mock KMS as a standalone process. Usage:
+//   pnpm --filter @repo/crypto mock-kms
+//
+// Environment:
+//   MOCK_KMS_KEYRING_FILE — keyring file (default: ./data/mock-kms-keyring.json)
+//   MOCK_KMS_PORT         — port (default: 4100)
+//   MOCK_KMS_HOST         — interface (default: 127.0.0.1)
+//   MOCK_KMS_TOKEN        — optional bearer token
+if (require.main === module) {
+  const keyringFile = process.env.MOCK_KMS_KEYRING_FILE || "./data/mock-kms-keyring.json";
+
+  startMockKms({
+    keyringFile,
+    port: parseInt(process.env.MOCK_KMS_PORT || "4100", 10),
+    host: process.env.MOCK_KMS_HOST || "127.0.0.1",
+    token: process.env.MOCK_KMS_TOKEN,
+  })
+    .then((kms) => {
+      console.log(`\n🔐 Mock KMS listening at ${kms.url}`);
+      console.log(`   Keyring file: ${path.resolve(keyringFile)}`);
+      console.log(`   Point the API at it with KEY_PROVIDER=http KMS_URL=${kms.url}\n`);
+    })
+    .catch((err) => {
+      console.error("❌ Failed to start mock KMS:", err instanceof Error ? err.message : err);
+      process.exit(1);
+    });
+}
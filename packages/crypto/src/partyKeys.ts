@@ -0,0 +1,301 @@
+import crypto from "crypto";
+import { TxSecureRecord } from "./types";
+import {
+  CryptoError,
+  DecryptionError,
+  EncryptionError,
+  KeyDestroyedError,
+  TamperedDataError,
+} from "./errors";
+import { CURRENT_RECORD_FORMAT, RECORD_FORMAT_AAD } from "./aad";
+import { MasterKeyInput } from "./keyring";
+import { KeyProvider, KeyWrapContext, WrappedKey } from "./provider";
+import { rewrap } from "./rewrap";
+import { unwrapDek, wrapDek } from "./wrap";
+
+/**
+ * Per-party key hierarchy — crypto-shredding for one partyId.
+ *
+ *   Master Key (MK)
+ *     └── wraps each party's key-encryption key (KEK)
+ *           └── wraps every DEK of that party's records
+ *                 └── encrypts the payload
+ *
+ * Destroying a party's KEKs (erasing the wrapped key material) makes every
+ * DEK they wrapped — and so every record of that party — permanently
+ * undecryptable, without touching the records themselves. Decryption then
+ * fails with KeyDestroyedError.
+ *
+ * KEKs are wrapped by an ordinary KeyProvider, so the master key can stay
+ * in a remote KMS; each KEK is wrapped with its own id, partyId and
+ * creation time as context. Records carry the `kek_id` of their KEK, which
+ * is bound into the DEK-wrap AAD (see aad.ts).
+ *
+ * Caveats: copies of the wrapped KEK in database backups are not erased,
+ * and `payload_clear` (field-level encryption) is not encrypted, so it is
+ * not shredded either.
+ */
+
+/** A party KEK, wrapped by the master key */
+export type PartyKek = {
+  /** UUIDv4 identifier, recorded as `kek_id` on every record it wraps */
+  kek_id: string;
+
+  /** Party this KEK belongs to */
+  partyId: string;
+
+  /** ISO 8601 creation time (part of the KEK's wrap context) */
+  createdAt: string;
+
+  /** Master key version that wraps this KEK */
+  mk_version: number;
+
+  /**
+   * Record format of the KEK wrap (see aad.ts). Absent on KEKs created
+   * before format 3, which are wrapped with format 2.
+   */
+  format_version?: number;
+
+  /** 12-byte nonce of the KEK wrap, as hex (empty once destroyed) */
+  kek_wrap_nonce: string;
+
+  /** The KEK encrypted with the master key, as hex (empty once destroyed) */
+  kek_wrapped: string;
+
+  /** 16-byte tag of the KEK wrap, as hex (empty once destroyed) */
+  kek_wrap_tag: string;
+
+  /**
+   * Key check value of the master key that wraps this KEK, as hex (see
+   * wrap.ts). Absent on KEKs wrapped before key check values.
+   */
+  kek_key_check?: string;
+
+  /** Set when the KEK was destroyed; its key material is then erased */
+  destroyedAt?: string;
+};
+
+/** Persistence for party KEKs */
+export interface PartyKeyStore {
+  /** The party's newest KEK that has not been destroyed, if any */
+  findActiveKek(partyId: string): Promise<PartyKek | undefined>;
+
+  /** A KEK by id, including destroyed ones (kept as tombstones) */
+  getKek(kekId: string): Promise<PartyKek | undefined>;
+
+  /** Store a new KEK */
+  saveKek(kek: PartyKek): Promise<void>;
+
+  /**
+   * Erase the key material of every KEK of a party, keeping tombstones
+   * (kek_id, partyId, destroyedAt) so decryption can report why it fails.
+   *
+   * @returns The number of KEKs destroyed
+   */
+  destroyKeks(partyId: string): Promise<number>;
+}
+
+/**
+ * Creates a provider that wraps DEKs under per-party KEKs, which are in
+ * turn wrapped by `master`. A party's first record creates its KEK.
+ *
+ * Records without a `kek_id` (wrapped by the master key directly) are
+ * unwrapped by `master`, so existing records keep working.
+ *
+ * @param master - Provider that wraps the KEKs (local keyring or KMS)
+ * @param store  - Where KEKs are kept
+ */
+export function createPartyKeyProvider(master: KeyProvider, store: PartyKeyStore): KeyProvider {
+  return {
+    async wrapKey(key, context) {
+      const kek =
+        (await store.findActiveKek(context.partyId)) ??
+        (await createKek(master, store, context.partyId));
+
+      const kekBuffer = await unwrapKek(master, kek);
+      try {
+        const metadata = { ...context, mk_version: kek.mk_version, kek_id: kek.kek_id };
+        return {
+          ...wrapDek(kekBuffer, key, metadata),
+          mk_version: kek.mk_version,
+          kek_id: kek.kek_id,
+        };
+      } finally {
+        kekBuffer.fill(0);
+      }
+    },
+
+    async unwrapKey(wrapped, context) {
+      if (wrapped.kek_id === undefined) {
+        return master.unwrapKey(wrapped, context);
+      }
+
+      const kek = await store.getKek(wrapped.kek_id);
+      if (!kek) {
+        throw new DecryptionError(`Unknown party KEK "${wrapped.kek_id}"`);
+      }
+      if (kek.partyId !== context.partyId) {
+        throw new TamperedDataError(
+          `Party KEK "${kek.kek_id}" does not belong to party "${context.partyId}"`
+        );
+      }
+      if (kek.destroyedAt !== undefined) {
+        throw new KeyDestroyedError(
+          `The key for party "${kek.partyId}" was destroyed at ${kek.destroyedAt} — this record can no longer be decrypted`
+        );
+      }
+
+      const kekBuffer = await unwrapKek(master, kek);
+      try {
+        return unwrapDek(kekBuffer, { ...context, ...wrapped });
+      } finally {
+        kekBuffer.fill(0);
+      }
+    },
+  };
+}
+
+/**
+ * Re-wraps a party KEK under a new master key version — the KEK-layer
+ * counterpart of rewrap(). The records it wraps are not touched.
+ *
+ * @param kek        - The KEK to re-wrap (must not be destroyed)
+ * @param oldKey     - Master key (or keyring) that currently wraps it
+ * @param newKey     - Master key (or keyring) to wrap it with
+ * @param newVersion - Master key version to record
+ * @returns A new PartyKek; the input is not modified
+ */
+export function rewrapPartyKek(
+  kek: PartyKek,
+  oldKey: MasterKeyInput,
+  newKey: MasterKeyInput,
+  newVersion: number
+): PartyKek {
+  if (kek.destroyedAt !== undefined) {
+    throw new KeyDestroyedError(`Party KEK "${kek.kek_id}" was destroyed`);
+  }
+
+  const rewrapped = rewrap(kekAsRecord(kek), oldKey, newKey, newVersion);
+  return { ...kek, ...fromWrappedKey(rewrapped) };
+}
+
+/**
+ * An in-memory PartyKeyStore, for tests and single-process use.
+ * Destroyed KEKs lose their key material but stay as tombstones.
+ */
+export function createMemoryPartyKeyStore(): PartyKeyStore {
+  const keks = new Map<string, PartyKek>();
+
+  return {
+    async findActiveKek(partyId) {
+      let newest: PartyKek | undefined;
+      for (const kek of keks.values()) {
+        if (kek.partyId !== partyId || kek.destroyedAt !== undefined) continue;
+        if (!newest || kek.createdAt > newest.createdAt) newest = kek;
+      }
+      return newest;
+    },
+
+    async getKek(kekId) {
+      return keks.get(kekId);
+    },
+
+    async saveKek(kek) {
+      keks.set(kek.kek_id, { ...kek });
+    },
+
+    async destroyKeks(partyId) {
+      const destroyedAt = new Date().toISOString();
+      let destroyed = 0;
+      for (const kek of keks.values()) {
+        if (kek.partyId !== partyId || kek.destroyedAt !== undefined) continue;
+        keks.set(kek.kek_id, destroyedKek(kek, destroyedAt));
+        destroyed++;
+      }
+      return destroyed;
+    },
+  };
+}
+
+/** A KEK with its key material erased, as stored after destruction */
+function destroyedKek(kek: PartyKek, destroyedAt: string): PartyKek {
+  return { ...kek, kek_wrap_nonce: "", kek_wrapped: "", kek_wrap_tag: "", destroyedAt };
+}
+
+async function createKek(
+  master: KeyProvider,
+  store: PartyKeyStore,
+  partyId: string
+): Promise<PartyKek> {
+  const kekBuffer = crypto.randomBytes(32);
+  const context: KeyWrapContext = {
+    id: crypto.randomUUID(),
+    partyId,
+    createdAt: new Date().toISOString(),
+    alg: "AES-256-GCM",
+    format_version: CURRENT_RECORD_FORMAT,
+  };
+
+  try {
+    const wrapped = await master.wrapKey(kekBuffer, context);
+    const kek: PartyKek = {
+      kek_id: context.id,
+      partyId,
+      createdAt: context.createdAt,
+      format_version: context.format_version,
+      ...fromWrappedKey(wrapped),
+    };
+    await store.saveKek(kek);
+    return kek;
+  } catch (error: unknown) {
+    if (error instanceof CryptoError) throw error;
+    const message = error instanceof Error ? error.message : "Unknown error";
+    throw new EncryptionError(`Party KEK creation failed: ${message}`);
+  } finally {
+    kekBuffer.fill(0);
+  }
+}
+
+async function unwrapKek(master: KeyProvider, kek: PartyKek): Promise<Buffer> {
+  const asRecord = kekAsRecord(kek);
+  return master.unwrapKey(asRecord, asRecord);
+}
+
+/**
+ * A KEK in the shape of a record's key-wrap fields, so KeyProviders and
+ * rewrap() handle it exactly like a DEK. Its own id, partyId and creation
+ * time form the wrap context.
+ */
+function kekAsRecord(kek: PartyKek): TxSecureRecord {
+  return {
+    id: kek.kek_id,
+    partyId: kek.partyId,
+    createdAt: kek.createdAt,
+    alg: "AES-256-GCM",
+    format_version: kek.format_version ?? RECORD_FORMAT_AAD,
+    mk_version: kek.mk_version,
+    dek_wrap_nonce: kek.kek_wrap_nonce,
+    dek_wrapped: kek.kek_wrapped,
+    dek_wrap_tag: kek.kek_wrap_tag,
+    ...(kek.kek_key_check !== undefined && { key_check: kek.kek_key_check }),
+    // No payload: only the key-wrap fields of this record are ever used
+    payload_nonce: "",
+    payload_ct: "",
+    payload_tag: "",
+  };
+}
+
+function fromWrappedKey(
+  wrapped: WrappedKey
+): Pick<
+  PartyKek,
+  "mk_version" | "kek_wrap_nonce" | "kek_wrapped" | "kek_wrap_tag" | "kek_key_check"
+> {
+  return {
+    mk_version: wrapped.mk_version,
+    kek_wrap_nonce: wrapped.dek_wrap_nonce,
+    kek_wrapped: wrapped.dek_wrapped,
+    kek_wrap_tag: wrapped.dek_wrap_tag,
+    kek_key_check: wrapped.key_check,
+  };
+}
@@ -0,0 +1,92 @@
+import crypto from "crypto";
+import { TxSecureRecord } from "./types";
+import { createAeadCipher, createAeadDecipher } from "./algorithms";
+import { DecryptionError, TamperedDataError } from "./errors";
+import { SealedPayloadAadFields, payloadAad } from "./aad";
+
+/**
+ * Payload encryption — the DEK layer of envelope encryption.
+ *
+ * Shared by the synchronous encrypt()/decrypt() and their KeyProvider
+ * counterparts, which differ only in how the DEK is wrapped.
+ *
+ *   payload_ct = AEAD[alg](DEK, JSON(payload), nonce = payload_nonce, AAD = payloadAad)
+ */
+
+/** The record fields produced by encrypting a payload */
+export type SealedPayload = Pick<TxSecureRecord, "payload_nonce" | "payload_ct" | "payload_tag">;
+
+/**
+ * Encrypts a JSON payload with a DEK.
+ *
+ * @param dek      - The raw 32-byte DEK
+ * @param payload  - The JSON-serializable object to encrypt
+ * @param metadata - Record metadata authenticated as AAD
+ */
+export function sealPayload(
+  dek: Buffer,
+  payload: Record<string, unknown>,
+  metadata: SealedPayloadAadFields
+): SealedPayload {
+  // Convert the JSON payload to a UTF-8 string, then encrypt it with
+  // the record's AEAD using the DEK and a fresh random 12-byte nonce.
+  const payloadPlaintext = Buffer.from(JSON.stringify(payload), "utf-8");
+  const payloadNonce = crypto.randomBytes(12); // 12 bytes = 96 bits, standard for both AEADs
+
+  const payloadCipher = createAeadCipher(metadata.alg, dek, payloadNonce);
+  const aad = payloadAad(metadata);
+  if (aad) payloadCipher.setAAD(aad, { plaintextLength: payloadPlaintext.length });
+
+  const payloadCt = Buffer.concat([
+    payloadCipher.update(payloadPlaintext),
+    payloadCipher.final(),
+  ]);
+  const payloadTag = payloadCipher.getAuthTag(); // 16-byte authentication tag
+
+  return {
+    payload_nonce: payloadNonce.toString("hex"),
+    payload_ct: payloadCt.toString("hex"),
+    payload_tag: payloadTag.toString("hex"),
+  };
+}
+
+/**
+ * Decrypts a record's payload with its (already unwrapped) DEK.
+ *
+ * @throws TamperedDataError if the ciphertext, its tag or the authenticated
+ *         metadata was modified
+ * @throws DecryptionError for other failures (e.g. the plaintext is not JSON)
+ */
+export function openPayload(
+  dek: Buffer,
+  record: SealedPayloadAadFields & SealedPayload
+): Record<string, unknown> {
+  const payloadNonce = Buffer.from(record.payload_nonce, "hex");
+  const payloadCt = Buffer.from(record.payload_ct, "hex");
+  const payloadTag = Buffer.from(record.payload_tag, "hex");
+
+  try {
+    // The AEAD verifies the payload_tag to detect tampering.
+    const payloadDecipher = createAeadDecipher(record.alg, dek, payloadNonce);
+    payloadDecipher.setAuthTag(payloadTag);
+
+    const aad = payloadAad(record);
+    if (aad) payloadDecipher.setAAD(aad, { plaintextLength: payloadCt.length });
+
+    const payloadPlaintext = Buffer.concat([
+      payloadDecipher.update(payloadCt),
+      payloadDecipher.final(), // Tag verification happens here
+    ]);
+
+    // Parse the decrypted UTF-8 string back into a JSON object
+    return JSON.parse(payloadPlaintext.toString("utf-8")) as Record<string, unknown>;
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    if (message.includes("Unsupported state or unable to authenticate data")) {
+      throw new TamperedDataError(
+        "Payload decryption failed — the ciphertext, its tag or the record metadata may have been tampered with"
+      );
+    }
+    throw new DecryptionError(`Payload decryption failed: ${message}`);
+  }
+}
@@ -0,0 +1,339 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Worker } from "worker_threads";
+import { TxSecureRecord, EncryptOptions } from "./types";
+import {
+  CryptoError,
+  DecryptionError,
+  EncryptionError,
+  PayloadSchemaError,
+  PoolQueueFullError,
+  TamperedDataError,
+  ValidationError,
+} from "./errors";
+import { MasterKeyInput } from "./keyring";
+import { KeyProvider, createLocalKeyProvider } from "./provider";
+import {
+  PayloadSealer,
+  RecordMetadata,
+  SealOptions,
+  SealedRecordPayload,
+  encryptWithSealer,
+} from "./encrypt";
+import { PayloadOpener, decryptWithOpener } from "./decrypt";
+import { JsonSchema, PayloadSchema } from "./schema";
+
+/**
+ * CryptoPool — encrypt and decrypt on worker threads.
+ *
+ * encrypt()/decrypt() are synchronous, so a large payload blocks the event
+ * loop (and every other request) for as long as it takes to encode and
+ * encrypt it. A pool moves that work to worker_threads:
+ *
+ *   calling thread: generate DEK → [worker: seal payload] → wrap DEK → record
+ *   calling thread: checks → unwrap DEK → [worker: open payload] → payload
+ *
+ * Only the payload layer runs in a worker — that is where the time goes
+ * (schema check, JSON, AEAD and hex over the whole payload). Master key
+ * material never leaves the calling thread: DEK wrapping stays with the
+ * KeyProvider (local keyring, KMS or party KEKs), and a worker only gets
+ * the record's DEK, copied into a fresh buffer that is transferred rather
+ * than cloned, and zeroed by the worker when the task is done.
+ *
+ * Each worker runs one task at a time. Tasks beyond that wait in a queue
+ * of at most `maxQueue`; once it is full, new tasks are refused with
+ * PoolQueueFullError instead of piling up without bound.
+ *
+ * The pool loads its worker from poolWorker.js next to this file. From the
+ * TypeScript sources (tests, `tsx`) it loads poolWorker.ts through tsx,
+ * which must then be installed.
+ */
+
+/** Default number of tasks allowed to wait for a free worker */
+export const DEFAULT_POOL_MAX_QUEUE = 1000;
+
+export type CryptoPoolOptions = {
+  /** Worker threads (default: available CPUs − 1, at least 1) */
+  size?: number;
+
+  /**
+   * Tasks allowed to wait for a free worker; more are refused with
+   * PoolQueueFullError (default: DEFAULT_POOL_MAX_QUEUE)
+   */
+  maxQueue?: number;
+};
+
+export type CryptoPool = {
+  /** Number of worker threads */
+  readonly size: number;
+
+  /**
+   * encryptWithProvider(), with the payload encrypted on a worker thread.
+   * The payload must be structured-cloneable (plain JSON is).
+   *
+   * @param keys - A KeyProvider, or a master key / keyring (wrapped in
+   *               createLocalKeyProvider(); new DEKs use its active version)
+   * @throws PoolQueueFullError if the queue is full
+   */
+  encryptAsync<T extends object = Record<string, unknown>>(
+    keys: MasterKeyInput | KeyProvider,
+    partyId: string,
+    payload: T,
+    options?: Omit<EncryptOptions<T>, "mkVersion">
+  ): Promise<TxSecureRecord>;
+
+  /**
+   * decryptWithProvider(), with the payload decrypted on a worker thread.
+   *
+   * @param keys - A KeyProvider, or a master key / keyring
+   * @throws PoolQueueFullError if the queue is full
+   */
+  decryptAsync(keys: MasterKeyInput | KeyProvider, record: TxSecureRecord): Promise<Record<string, unknown>>;
+  decryptAsync<T>(
+    keys: MasterKeyInput | KeyProvider,
+    record: TxSecureRecord,
+    schema: PayloadSchema<T>
+  ): Promise<T>;
+
+  /** Tasks running on a worker, and tasks waiting for one */
+  stats(): { active: number; queued: number };
+
+  /**
+   * Refuses new tasks, fails queued ones, lets running ones finish and
+   * stops the workers.
+   */
+  close(): Promise<void>;
+};
+
+// ── Worker protocol (see poolWorker.ts) ──────────────────────────────
+
+/** What a worker is asked to do */
+type PoolTaskBody =
+  | { op: "seal"; payload: object; options: SealOptions; metadata: RecordMetadata }
+  | { op: "open"; record: TxSecureRecord; schema: JsonSchema | undefined };
+
+/** A task as sent to a worker; `dek` is transferred, not cloned */
+export type PoolRequest = PoolTaskBody & { dek: ArrayBuffer };
+
+export type PoolResponse =
+  | { ok: true; result: unknown }
+  | { ok: false; error: SerializedError };
+
+export type SerializedError = { name: string; message: string; issues?: string[] };
+
+type Task = {
+  request: PoolRequest;
+  resolve(result: unknown): void;
+  reject(error: Error): void;
+};
+
+type Slot = { worker: Worker; task: Task | null };
+
+/**
+ * Starts a pool of worker threads.
+ *
+ * @throws ValidationError if `size` or `maxQueue` is not a valid count
+ */
+export function createCryptoPool(options: CryptoPoolOptions = {}): CryptoPool {
+  const size = options.size ?? Math.max(1, os.availableParallelism() - 1);
+  const maxQueue = options.maxQueue ?? DEFAULT_POOL_MAX_QUEUE;
+  if (!Number.isSafeInteger(size) || size < 1) {
+    throw new ValidationError(`Pool size must be a positive integer, got ${size}`);
+  }
+  if (!Number.isSafeInteger(maxQueue) || maxQueue < 0) {
+    throw new ValidationError(`Pool maxQueue must be a non-negative integer, got ${maxQueue}`);
+  }
+
+  const script = workerScript();
+  const slots: Slot[] = [];
+  const queue: Task[] = [];
+  const running = new Set<Promise<unknown>>();
+  let closed = false;
+
+  function spawn(): Slot {
+    const slot: Slot = {
+      worker: new Worker(script.filename, { execArgv: script.execArgv }),
+      task: null,
+    };
+    // An idle pool must not keep the process alive
+    slot.worker.unref();
+
+    slot.worker.on("message", (response: PoolResponse) => {
+      const task = finish(slot);
+      if (!task) return;
+      if (response.ok) task.resolve(response.result);
+      else task.reject(reviveError(response.error));
+      dispatch(slot);
+    });
+
+    // A crashed worker fails its task and is replaced
+    slot.worker.on("error", (error: Error) => {
+      const task = finish(slot);
+      task?.reject(taskError(task.request, `Crypto worker failed: ${error.message}`));
+    });
+    slot.worker.on("exit", (code) => {
+      const task = finish(slot);
+      task?.reject(taskError(task.request, `Crypto worker exited with code ${code}`));
+      slots.splice(slots.indexOf(slot), 1);
+      if (!closed) dispatch(spawn());
+    });
+
+    slots.push(slot);
+    return slot;
+  }
+
+  /** Detaches the slot's task, if any, and lets the process exit again */
+  function finish(slot: Slot): Task | null {
+    const task = slot.task;
+    slot.task = null;
+    slot.worker.unref();
+    return task;
+  }
+
+  /** Gives an idle worker the next queued task */
+  function dispatch(slot: Slot): void {
+    const task = queue.shift();
+    if (task) assign(slot, task);
+  }
+
+  function assign(slot: Slot, task: Task): void {
+    slot.task = task;
+    slot.worker.ref();
+    try {
+      slot.worker.postMessage(task.request, [task.request.dek]);
+    } catch (error: unknown) {
+      // e.g. a payload that cannot be cloned; the DEK copy was not transferred
+      finish(slot);
+      new Uint8Array(task.request.dek).fill(0);
+      task.reject(
+        taskError(task.request, `Cannot send task to crypto worker: ${(error as Error).message}`)
+      );
+      dispatch(slot);
+    }
+  }
+
+  /** Runs a task on the next free worker; resolves with the worker's result */
+  function submit(request: PoolTaskBody, dek: Buffer): Promise<unknown> {
+    if (closed) {
+      return Promise.reject(taskError(request, "Crypto pool is closed"));
+    }
+
+    const idle = slots.find((slot) => slot.task === null);
+    if (!idle && queue.length >= maxQueue) {
+      return Promise.reject(new PoolQueueFullError());
+    }
+
+    // The worker gets its own copy, in a buffer of its own to transfer;
+    // the caller zeroes the original as usual
+    const copy = new Uint8Array(dek.length);
+    copy.set(dek);
+
+    const done = new Promise<unknown>((resolve, reject) => {
+      const task = { request: { ...request, dek: copy.buffer } as PoolRequest, resolve, reject };
+      if (idle) assign(idle, task);
+      else queue.push(task);
+    });
+
+    // close() waits for these; failures are the caller's to handle
+    const settled = done.catch(() => undefined);
+    running.add(settled);
+    void settled.then(() => running.delete(settled));
+    return done;
+  }
+
+  const sealInWorker: PayloadSealer = (dek, payload, sealOptions, metadata) =>
+    submit({ op: "seal", payload, options: sealOptions, metadata }, dek) as Promise<SealedRecordPayload>;
+
+  const openInWorker: PayloadOpener = (dek, record, schema) =>
+    submit({ op: "open", record, schema }, dek);
+
+  function decryptAsync(
+    keys: MasterKeyInput | KeyProvider,
+    record: TxSecureRecord
+  ): Promise<Record<string, unknown>>;
+  function decryptAsync<T>(
+    keys: MasterKeyInput | KeyProvider,
+    record: TxSecureRecord,
+    schema: PayloadSchema<T>
+  ): Promise<T>;
+  function decryptAsync(
+    keys: MasterKeyInput | KeyProvider,
+    record: TxSecureRecord,
+    schema?: PayloadSchema
+  ): Promise<unknown> {
+    return decryptWithOpener(toProvider(keys), record, schema, openInWorker);
+  }
+
+  for (let i = 0; i < size; i++) spawn();
+
+  return {
+    size,
+
+    encryptAsync(keys, partyId, payload, encryptOptions = {}) {
+      return encryptWithSealer(toProvider(keys), partyId, payload, encryptOptions, sealInWorker);
+    },
+
+    decryptAsync,
+
+    stats() {
+      return {
+        active: slots.filter((slot) => slot.task !== null).length,
+        queued: queue.length,
+      };
+    },
+
+    async close() {
+      if (closed) return;
+      closed = true;
+      for (const task of queue.splice(0)) {
+        new Uint8Array(task.request.dek).fill(0);
+        task.reject(taskError(task.request, "Crypto pool is closed"));
+      }
+      await Promise.all(running);
+      await Promise.all(slots.map((slot) => slot.worker.terminate()));
+    },
+  };
+}
+
+function toProvider(keys: MasterKeyInput | KeyProvider): KeyProvider {
+  return typeof keys === "string" || !("wrapKey" in keys) ? createLocalKeyProvider(keys) : keys;
+}
+
+/** Failures outside the worker's own code surface like other encrypt/decrypt failures */
+function taskError(request: Pick<PoolRequest, "op">, message: string): CryptoError {
+  return request.op === "seal" ? new EncryptionError(message) : new DecryptionError(message);
+}
+
+/** Error classes a worker can throw, rebuilt on the calling thread */
+const ERROR_TYPES: Record<string, new (message: string) => CryptoError> = {
+  CryptoError,
+  EncryptionError,
+  DecryptionError,
+  ValidationError,
+  TamperedDataError,
+};
+
+function reviveError(serialized: SerializedError): Error {
+  if (serialized.name === "PayloadSchemaError" && serialized.issues) {
+    return new PayloadSchemaError(serialized.issues);
+  }
+  const ErrorType = ERROR_TYPES[serialized.name];
+  if (ErrorType) return new ErrorType(serialized.message);
+
+  const error = new Error(serialized.message);
+  error.name = serialized.name;
+  return error;
+}
+
+/** The compiled worker, or its TypeScript source loaded through tsx */
+function workerScript(): { filename: string; execArgv?: string[] } {
+  const compiled = path.join(__dirname, "poolWorker.js");
+  if (fs.existsSync(compiled)) {
+    return { filename: compiled };
+  }
+  return {
+    filename: path.join(__dirname, "poolWorker.ts"),
+    execArgv: ["--require", require.resolve("tsx/cjs")],
+  };
+}
@@ -0,0 +1,251 @@
+import crypto from "crypto";
+import { TxSecureRecord } from "./types";
+import { DecryptionError, EncryptionError, ValidationError } from "./errors";
+import { PayloadAadFields } from "./aad";
+import {
+  assertNotExpired,
+  assertSupportedFormat,
+  openCheckedPayload,
+} from "./decrypt";
+import { PayloadSchema } from "./schema";
+import { validateRecord } from "./validate";
+import { WrappedDek, unwrapDek, wrapDek } from "./wrap";
+
+/**
+ * Sealed records — the DEK wrapped to a recipient's X25519 public key.
+ *
+ * Instead of the master key, the DEK is wrapped under a one-time key that
+ * only the holder of the recipient's private key can derive (ECIES):
+ *
+ *   ephemeral = fresh X25519 key pair, per record
+ *   shared    = X25519(ephemeral private, recipient public)
+ *   wrap key  = HKDF-SHA256(shared, salt = ephemeral public ‖ recipient public,
+ *                           info = "tx-secure/recipient-wrap/v1")
+ *   dek_wrapped = AEAD[alg](wrap key, DEK, AAD = dekWrapAad)
+ *
+ * The record stores the ephemeral public key (`recipient_epk`) and the id
+ * of the recipient key (`recipient_key_id`), both bound into the DEK-wrap
+ * AAD. No master key is involved, so `mk_version` is 0 and the server that
+ * created the record cannot decrypt it: the recipient opens it on their
+ * side with openSealedRecord().
+ */
+
+/** `mk_version` of sealed records, which are not wrapped by any master key */
+export const SEALED_MK_VERSION = 0;
+
+/** The record fields produced by sealing a DEK to a recipient */
+export type SealedDek = WrappedDek &
+  Required<Pick<TxSecureRecord, "recipient_key_id" | "recipient_epk">> & {
+    mk_version: typeof SEALED_MK_VERSION;
+  };
+
+const HKDF_INFO = "tx-secure/recipient-wrap/v1";
+
+/**
+ * Generates an X25519 key pair for receiving sealed records.
+ *
+ * @returns The key id, the private key (PKCS#8 PEM) and the public key (SPKI PEM)
+ */
+export function generateRecipientKeyPair(): { keyId: string; privateKey: string; publicKey: string } {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync("x25519");
+  return {
+    keyId: recipientKeyId(publicKey),
+    privateKey: privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+    publicKey: publicKey.export({ type: "spki", format: "pem" }).toString(),
+  };
+}
+
+/**
+ * The id of a recipient key, as recorded in `recipient_key_id`: the first
+ * 16 bytes of the SHA-256 of its public key (SPKI DER), as 32-char hex.
+ * Accepts either half of the pair.
+ *
+ * @throws ValidationError if the key is not an X25519 key
+ */
+export function recipientKeyId(key: crypto.KeyObject | string): string {
+  const der = toPublicKey(key).export({ type: "spki", format: "der" });
+  return crypto.createHash("sha256").update(der).digest("hex").slice(0, 32);
+}
+
+/**
+ * Wraps a DEK to a recipient's public key.
+ *
+ * @param recipientPublicKey - X25519 public key (KeyObject or SPKI PEM)
+ * @param dek                - The raw 32-byte DEK
+ * @param metadata           - Record metadata authenticated as AAD
+ * @throws EncryptionError if the key is not an X25519 public key
+ */
+export function sealDek(
+  recipientPublicKey: crypto.KeyObject | string,
+  dek: Buffer,
+  metadata: PayloadAadFields
+): SealedDek {
+  let recipient: crypto.KeyObject;
+  try {
+    recipient = toPublicKey(recipientPublicKey);
+  } catch (error: unknown) {
+    throw new EncryptionError(`Recipient key rejected: ${(error as Error).message}`);
+  }
+
+  const ephemeral = crypto.generateKeyPairSync("x25519");
+  const sealed = {
+    mk_version: SEALED_MK_VERSION,
+    recipient_key_id: recipientKeyId(recipient),
+    recipient_epk: rawPublicKey(ephemeral.publicKey).toString("hex"),
+  } as const;
+
+  const wrapKey = deriveWrapKey(
+    ephemeral.privateKey,
+    recipient,
+    ephemeral.publicKey,
+    recipient,
+    EncryptionError
+  );
+  try {
+    // No key_check: the wrap key is agreed per record from recipient_epk,
+    // and recipient_key_id already names the key that can open it
+    const { key_check: _keyCheck, ...wrapped } = wrapDek(wrapKey, dek, { ...metadata, ...sealed });
+    return { ...wrapped, ...sealed };
+  } finally {
+    wrapKey.fill(0);
+  }
+}
+
+/**
+ * Decrypts a sealed record with the recipient's private key — on the
+ * recipient's side, without the server or its master key.
+ *
+ * @param record              - A record sealed with encryptForRecipient()
+ * @param recipientPrivateKey - X25519 private key (KeyObject or PKCS#8 PEM)
+ * @param schema              - Optional schema the payload must match (see decrypt())
+ * @returns The original JSON payload
+ * @throws TamperedDataError if any ciphertext, tag or authenticated metadata has been modified
+ * @throws ValidationError if the record is malformed
+ * @throws ExpiredRecordError if the record's `expiresAt` has passed
+ * @throws PayloadSchemaError if the decrypted payload does not match `schema`
+ * @throws DecryptionError if the record is not sealed, or is sealed to another key
+ */
+export function openSealedRecord(
+  record: TxSecureRecord,
+  recipientPrivateKey: crypto.KeyObject | string
+): Record<string, unknown>;
+export function openSealedRecord<T>(
+  record: TxSecureRecord,
+  recipientPrivateKey: crypto.KeyObject | string,
+  schema: PayloadSchema<T>
+): T;
+export function openSealedRecord(
+  record: TxSecureRecord,
+  recipientPrivateKey: crypto.KeyObject | string,
+  schema?: PayloadSchema
+): unknown {
+  validateRecord(record);
+  assertSupportedFormat(record);
+  assertNotExpired(record);
+  if (record.recipient_key_id === undefined || record.recipient_epk === undefined) {
+    throw new DecryptionError("Record is not sealed to a recipient key — use decrypt()");
+  }
+
+  let privateKey: crypto.KeyObject;
+  try {
+    privateKey = toKeyObject(recipientPrivateKey);
+  } catch (error: unknown) {
+    throw new DecryptionError(`Recipient key rejected: ${(error as Error).message}`);
+  }
+  if (privateKey.type !== "private") {
+    throw new DecryptionError("Recipient key rejected: an X25519 private key is required");
+  }
+
+  const recipient = crypto.createPublicKey(privateKey);
+  const keyId = recipientKeyId(recipient);
+  if (keyId !== record.recipient_key_id) {
+    throw new DecryptionError(
+      `Record is sealed to recipient key "${record.recipient_key_id}", not "${keyId}"`
+    );
+  }
+
+  const ephemeral = publicKeyFromRaw(record.recipient_epk);
+  const wrapKey = deriveWrapKey(privateKey, ephemeral, ephemeral, recipient, DecryptionError);
+  let dek: Buffer;
+  try {
+    dek = unwrapDek(wrapKey, record);
+  } finally {
+    wrapKey.fill(0);
+  }
+
+  try {
+    return openCheckedPayload(dek, record, schema);
+  } finally {
+    dek.fill(0);
+  }
+}
+
+/**
+ * Both sides derive the same wrap key: the sender agrees (ephemeral
+ * private, recipient public), the recipient (recipient private, ephemeral
+ * public).
+ */
+function deriveWrapKey(
+  privateKey: crypto.KeyObject,
+  peer: crypto.KeyObject,
+  ephemeral: crypto.KeyObject,
+  recipient: crypto.KeyObject,
+  ErrorType: typeof EncryptionError | typeof DecryptionError
+): Buffer {
+  let shared: Buffer;
+  try {
+    shared = crypto.diffieHellman({ privateKey, publicKey: peer });
+  } catch (error: unknown) {
+    throw new ErrorType(`X25519 key agreement failed: ${(error as Error).message}`);
+  }
+
+  try {
+    const salt = Buffer.concat([rawPublicKey(ephemeral), rawPublicKey(recipient)]);
+    return Buffer.from(crypto.hkdfSync("sha256", shared, salt, HKDF_INFO, 32));
+  } finally {
+    shared.fill(0);
+  }
+}
+
+/** The 32-byte raw form of an X25519 public key */
+function rawPublicKey(publicKey: crypto.KeyObject): Buffer {
+  const jwk = publicKey.export({ format: "jwk" });
+  return Buffer.from(jwk.x as string, "base64url");
+}
+
+function publicKeyFromRaw(hex: string): crypto.KeyObject {
+  try {
+    return crypto.createPublicKey({
+      key: { kty: "OKP", crv: "X25519", x: Buffer.from(hex, "hex").toString("base64url") },
+      format: "jwk",
+    });
+  } catch (error: unknown) {
+    throw new ValidationError(`recipient_epk is not an X25519 public key: ${(error as Error).message}`);
+  }
+}
+
+function toPublicKey(key: crypto.KeyObject | string): crypto.KeyObject {
+  const keyObject = toKeyObject(key);
+  return keyObject.type === "private" ? crypto.createPublicKey(keyObject) : keyObject;
+}
+
+/** Parses a PEM key (private or public) and checks that it is X25519 */
+function toKeyObject(key: crypto.KeyObject | string): crypto.KeyObject {
+  let keyObject = key;
+  if (typeof keyObject === "string") {
+    try {
+      keyObject = keyObject.includes("PRIVATE KEY")
+        ? crypto.createPrivateKey(keyObject)
+        : crypto.createPublicKey(keyObject);
+    } catch (error: unknown) {
+      throw new ValidationError(`Invalid recipient key: ${(error as Error).message}`);
+    }
+  }
+
+  if (keyObject.asymmetricKeyType !== "x25519") {
+    throw new ValidationError(
+      `Recipient keys must be X25519, got ${keyObject.asymmetricKeyType ?? keyObject.type}`
+    );
+  }
+  return keyObject;
+}
@@ -0,0 +1,400 @@
+import crypto from "crypto";
+import { Readable, Transform, TransformCallback, Writable } from "stream";
+import { pipeline } from "stream/promises";
+import { TxSecureRecord } from "./types";
+import { DecryptionError, EncryptionError, TamperedDataError, ValidationError } from "./errors";
+import { CURRENT_RECORD_FORMAT, PayloadAadFields, payloadAad } from "./aad";
+import { MasterKeyInput, resolveMasterKey } from "./keyring";
+import {
+  assertNotExpired,
+  assertSupportedFormatVersion,
+  constantTimeTagCompare,
+} from "./decrypt";
+import { unwrapDek, wrapDek } from "./wrap";
+
+/**
+ * Streaming Encryption — segmented AEAD for large payloads.
+ *
+ * encrypt() holds the whole payload (and its hex encoding) in memory.
+ * For multi-megabyte payloads we instead split the plaintext into
+ * segments and encrypt each one separately with the record's DEK:
+ *
+ *   segment i = AES-256-GCM(DEK, plaintext_i,
+ *                           nonce = payload_nonce XOR (counter i ‖ final flag),
+ *                           AAD   = payloadAad(record))
+ *
+ * Ciphertext wire format (written to the caller's Writable, not the record):
+ *
+ *   ┌──────────────────┬─────────────────────┬──────────────┐
+ *   │ length (u32, BE) │ ciphertext (length) │ tag (16 B)   │  × N segments
+ *   └──────────────────┴─────────────────────┴──────────────┘
+ *
+ * WHY a counter and a final flag in the nonce?
+ * ─────────────────────────────────────────────
+ * Each segment's tag only proves that segment is intact. Deriving the nonce
+ * from the segment's position makes a reordered segment fail its tag check,
+ * and marking the last segment means a stream cut off at a segment boundary
+ * is detected too: the (now) last segment was not encrypted as final, so
+ * its tag fails. The final segment's tag is also stored as `payload_tag`,
+ * tying the record to exactly one ciphertext stream.
+ *
+ * Streamed records use alg "AES-256-GCM-STREAM" and an empty `payload_ct`.
+ * The DEK is wrapped exactly as in encrypt().
+ */
+
+/** Algorithm identifier for records whose payload is a segmented stream */
+export const STREAM_ALG = "AES-256-GCM-STREAM";
+
+/** Default plaintext bytes per segment */
+export const DEFAULT_SEGMENT_SIZE = 64 * 1024;
+
+/** Upper bound on a segment, so a corrupt length prefix can't exhaust memory */
+export const MAX_SEGMENT_SIZE = 16 * 1024 * 1024;
+
+const LENGTH_BYTES = 4;
+const TAG_BYTES = 16;
+const MAX_SEGMENTS = 0xffffffff;
+
+export type StreamEncryptOptions = {
+  /** Master key version to record (defaults as in encrypt()) */
+  mkVersion?: number;
+
+  /** Plaintext bytes per segment (default: 64 KiB) */
+  segmentSize?: number;
+};
+
+/**
+ * Encrypts a byte stream using envelope encryption with segmented AEAD.
+ *
+ * @param masterKey - Hex-encoded master key, or a keyring whose active key is used
+ * @param partyId   - Identifier for the party owning this transaction
+ * @param source    - Plaintext input
+ * @param sink      - Receives the framed ciphertext; store it alongside the record
+ * @param options   - Optional master key version and segment size
+ * @returns The TxSecureRecord (alg "AES-256-GCM-STREAM") once the whole stream is written
+ */
+export async function encryptStream(
+  masterKey: MasterKeyInput,
+  partyId: string,
+  source: Readable,
+  sink: Writable,
+  options: StreamEncryptOptions = {}
+): Promise<TxSecureRecord> {
+  const segmentSize = options.segmentSize ?? DEFAULT_SEGMENT_SIZE;
+  if (!Number.isInteger(segmentSize) || segmentSize < 1 || segmentSize > MAX_SEGMENT_SIZE) {
+    throw new EncryptionError(
+      `segmentSize must be an integer between 1 and ${MAX_SEGMENT_SIZE}, got ${segmentSize}`
+    );
+  }
+
+  const mkVersion =
+    options.mkVersion ?? (typeof masterKey === "string" ? 1 : masterKey.activeVersion);
+  const mkBuffer = resolveMasterKey(masterKey, mkVersion, EncryptionError);
+
+  const dek = crypto.randomBytes(32);
+  const baseNonce = crypto.randomBytes(12);
+  const metadata = {
+    id: crypto.randomUUID(),
+    partyId,
+    createdAt: new Date().toISOString(),
+    alg: STREAM_ALG as typeof STREAM_ALG,
+    mk_version: mkVersion,
+    format_version: CURRENT_RECORD_FORMAT,
+  };
+
+  try {
+    const encryptor = new SegmentEncryptor(dek, baseNonce, payloadAad(metadata), segmentSize);
+    await pipeline(source, encryptor, sink);
+
+    const finalTag = encryptor.finalTag;
+    if (finalTag === null) {
+      throw new EncryptionError("Stream ended without a final segment");
+    }
+
+    const wrapped = wrapDek(mkBuffer, dek, metadata);
+
+    return {
+      id: metadata.id,
+      partyId: metadata.partyId,
+      createdAt: metadata.createdAt,
+
+      // The ciphertext lives in the sink; the record keeps the base nonce
+      // and the final segment's tag
+      payload_nonce: baseNonce.toString("hex"),
+      payload_ct: "",
+      payload_tag: finalTag.toString("hex"),
+
+      dek_wrap_nonce: wrapped.dek_wrap_nonce,
+      dek_wrapped: wrapped.dek_wrapped,
+      dek_wrap_tag: wrapped.dek_wrap_tag,
+      key_check: wrapped.key_check,
+
+      alg: metadata.alg,
+      mk_version: metadata.mk_version,
+      format_version: metadata.format_version,
+    };
+  } finally {
+    dek.fill(0);
+  }
+}
+
+/**
+ * Decrypts a segmented ciphertext stream produced by encryptStream().
+ *
+ * Every segment is authenticated before its plaintext is written, but
+ * truncation can only be detected at the end of the stream. If the
+ * returned promise rejects, discard everything written to `sink`.
+ *
+ * @param masterKey - Hex-encoded master key, or a keyring (picked by `record.mk_version`)
+ * @param record    - The record returned by encryptStream()
+ * @param source    - The framed ciphertext
+ * @param sink      - Receives the plaintext
+ * The record is checked the same way decrypt() checks one — a supported
+ * format version and an `expiresAt` still in the future — before its DEK
+ * is unwrapped, so nothing reaches `sink` for a record decrypt() refuses.
+ *
+ * @throws TamperedDataError if a segment was modified, reordered, removed or appended
+ * @throws ValidationError if the record is not a streamed record, uses an unknown
+ *         format version, or a frame is malformed
+ * @throws ExpiredRecordError if the record's `expiresAt` has passed
+ */
+export async function decryptStream(
+  masterKey: MasterKeyInput,
+  record: TxSecureRecord,
+  source: Readable,
+  sink: Writable
+): Promise<void> {
+  if (record.alg !== STREAM_ALG) {
+    throw new ValidationError(
+      `decryptStream() requires alg "${STREAM_ALG}", got "${record.alg}" — use decrypt()`
+    );
+  }
+  assertSupportedFormatVersion(record);
+  assertNotExpired(record);
+
+  const mkBuffer = resolveMasterKey(masterKey, record.mk_version, DecryptionError);
+  const dek = unwrapDek(mkBuffer, record);
+
+  try {
+    const decryptor = new SegmentDecryptor(dek, record);
+    await pipeline(source, decryptor, sink);
+  } finally {
+    dek.fill(0);
+  }
+}
+
+/** Derives segment i's nonce: base XOR (0…0 ‖ counter u32 ‖ final flag u8) */
+function segmentNonce(baseNonce: Buffer, counter: number, final: boolean): Buffer {
+  const nonce = Buffer.from(baseNonce);
+  nonce.writeUInt32BE((nonce.readUInt32BE(7) ^ counter) >>> 0, 7);
+  if (final) nonce[11] ^= 0x01;
+  return nonce;
+}
+
+/**
+ * Splits plaintext into segments and frames their ciphertext.
+ *
+ * A segment is only emitted as non-final once more data has arrived after
+ * it, so the last segment is always the one flagged as final.
+ */
+class SegmentEncryptor extends Transform {
+  finalTag: Buffer | null = null;
+  private readonly pending = new ChunkQueue();
+  private counter = 0;
+
+  constructor(
+    private readonly dek: Buffer,
+    private readonly baseNonce: Buffer,
+    private readonly aad: Buffer | undefined,
+    private readonly segmentSize: number
+  ) {
+    super();
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.pending.push(chunk);
+
+    try {
+      while (this.pending.length > this.segmentSize) {
+        this.push(this.seal(this.pending.shift(this.segmentSize), false));
+      }
+      callback();
+    } catch (error: unknown) {
+      callback(error as Error);
+    }
+  }
+
+  _flush(callback: TransformCallback): void {
+    try {
+      this.push(this.seal(this.pending.shift(this.pending.length), true));
+      callback();
+    } catch (error: unknown) {
+      callback(error as Error);
+    }
+  }
+
+  private seal(plaintext: Buffer, final: boolean): Buffer {
+    if (this.counter >= MAX_SEGMENTS) {
+      throw new EncryptionError("Stream exceeds the maximum number of segments");
+    }
+
+    const nonce = segmentNonce(this.baseNonce, this.counter++, final);
+    const cipher = crypto.createCipheriv("aes-256-gcm", this.dek, nonce);
+    if (this.aad) cipher.setAAD(this.aad);
+
+    const ct = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    const tag = cipher.getAuthTag();
+    if (final) this.finalTag = tag;
+
+    const length = Buffer.alloc(LENGTH_BYTES);
+    length.writeUInt32BE(ct.length);
+    return Buffer.concat([length, ct, tag]);
+  }
+}
+
+/**
+ * Parses frames and decrypts them. The most recent complete frame is held
+ * back until more input arrives (→ not final) or the input ends (→ final).
+ */
+class SegmentDecryptor extends Transform {
+  private readonly buffered = new ChunkQueue();
+  private held: Buffer | null = null;
+  private counter = 0;
+  private readonly baseNonce: Buffer;
+  private readonly aad: Buffer | undefined;
+  private readonly expectedFinalTag: string;
+
+  constructor(
+    private readonly dek: Buffer,
+    record: PayloadAadFields & Pick<TxSecureRecord, "payload_nonce" | "payload_tag">
+  ) {
+    super();
+    this.baseNonce = Buffer.from(record.payload_nonce, "hex");
+    this.aad = payloadAad(record);
+    this.expectedFinalTag = record.payload_tag;
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.buffered.push(chunk);
+
+    try {
+      for (;;) {
+        const frame = this.nextFrame();
+        if (!frame) break;
+
+        // Another frame follows, so the held one was not the last
+        if (this.held) this.push(this.open(this.held, false));
+        this.held = frame;
+      }
+      callback();
+    } catch (error: unknown) {
+      callback(error as Error);
+    }
+  }
+
+  _flush(callback: TransformCallback): void {
+    try {
+      if (this.buffered.length > 0) {
+        throw new TamperedDataError("Stream ends with an incomplete segment — it was truncated");
+      }
+      if (!this.held) {
+        throw new TamperedDataError("Stream contains no segments — it was truncated");
+      }
+
+      const frameTag = this.held.subarray(this.held.length - TAG_BYTES).toString("hex");
+      this.push(this.open(this.held, true));
+
+      if (!constantTimeTagCompare(frameTag, this.expectedFinalTag)) {
+        throw new TamperedDataError("Final segment does not match the record's payload_tag");
+      }
+      callback();
+    } catch (error: unknown) {
+      callback(error as Error);
+    }
+  }
+
+  /** Cuts the next complete frame off the buffer, or returns null */
+  private nextFrame(): Buffer | null {
+    if (this.buffered.length < LENGTH_BYTES) return null;
+
+    const ctLength = this.buffered.peek(LENGTH_BYTES).readUInt32BE(0);
+    if (ctLength > MAX_SEGMENT_SIZE) {
+      throw new ValidationError(
+        `Segment length ${ctLength} exceeds the maximum of ${MAX_SEGMENT_SIZE} bytes`
+      );
+    }
+
+    const frameLength = LENGTH_BYTES + ctLength + TAG_BYTES;
+    if (this.buffered.length < frameLength) return null;
+
+    return this.buffered.shift(frameLength);
+  }
+
+  private open(frame: Buffer, final: boolean): Buffer {
+    const ct = frame.subarray(LENGTH_BYTES, frame.length - TAG_BYTES);
+    const tag = frame.subarray(frame.length - TAG_BYTES);
+    const nonce = segmentNonce(this.baseNonce, this.counter++, final);
+
+    try {
+      const decipher = crypto.createDecipheriv("aes-256-gcm", this.dek, nonce);
+      decipher.setAuthTag(tag);
+      if (this.aad) decipher.setAAD(this.aad);
+      return Buffer.concat([decipher.update(ct), decipher.final()]);
+    } catch {
+      throw new TamperedDataError(
+        `Segment ${this.counter - 1} failed authentication — the stream was modified, reordered or truncated`
+      );
+    }
+  }
+}
+
+/**
+ * Bytes received in chunks, read off the front. Chunks are kept as they
+ * arrive and only the bytes read are copied, so input that arrives in
+ * many small chunks (or segments cut from one large chunk) is not copied
+ * over and over.
+ */
+class ChunkQueue {
+  /** Bytes in the queue */
+  length = 0;
+  private chunks: Buffer[] = [];
+
+  /** Bytes of chunks[0] already read */
+  private offset = 0;
+
+  push(chunk: Buffer): void {
+    if (chunk.length === 0) return;
+    this.chunks.push(chunk);
+    this.length += chunk.length;
+  }
+
+  /** The first `count` bytes (at most `length`), left in the queue */
+  peek(count: number): Buffer {
+    const first = this.chunks[0];
+    if (first && first.length - this.offset >= count) {
+      return first.subarray(this.offset, this.offset + count);
+    }
+
+    const bytes = Buffer.alloc(count);
+    let copied = 0;
+    let offset = this.offset;
+    for (const chunk of this.chunks) {
+      if (copied === count) break;
+      copied += chunk.copy(bytes, copied, offset, Math.min(chunk.length, offset + count - copied));
+      offset = 0;
+    }
+    return bytes;
+  }
+
+  /** The first `count` bytes (at most `length`), removed from the queue */
+  shift(count: number): Buffer {
+    const bytes = this.peek(count);
+    this.length -= count;
+    this.offset += count;
+    while (this.chunks.length > 0 && this.offset >= this.chunks[0].length) {
+      this.offset -= this.chunks[0].length;
+      this.chunks.shift();
+    }
+    return bytes;
+  }
+}
@@ -0,0 +1,170 @@
+import crypto from "crypto";
+import { TxSecureRecord } from "./types";
+import { createAeadCipher, createAeadDecipher } from "./algorithms";
+import { DecryptionError, TamperedDataError, WrongKeyError } from "./errors";
+import { DekWrapAadFields, RECORD_FORMAT_SUBKEYS, dekWrapAad, recordFormat } from "./aad";
+import { hkdfSubkey } from "./subkeys";
+
+/**
+ * DEK wrapping — the master-key layer of envelope encryption.
+ *
+ * Shared by encrypt() (wrap a fresh DEK), decrypt() (unwrap it) and
+ * rewrap() (unwrap under the old master key, wrap under the new one).
+ *
+ *   dek_wrapped = AEAD[alg](wrap key, DEK, nonce = dek_wrap_nonce, AAD = dekWrapAad)
+ *
+ * The wrapping key is the master key, a party KEK (partyKeys.ts) or a
+ * recipient key-agreement key (sealed.ts). From format_version 3 it is not
+ * used as the AEAD key itself: the AEAD key is its "dek-wrap" subkey
+ *
+ *   wrap key = HKDF-SHA256(wrapping key, info = "tx-secure/dek-wrap-key/v1:")
+ *
+ * so the master key is never used raw. Older records are wrapped (and
+ * re-wrapped) with the raw key, as they always were.
+ *
+ * A failed tag check alone cannot say whether the record was modified or
+ * the key is wrong. Every wrap therefore also records a key check value of
+ * the wrapping key,
+ *
+ *   key_check = HKDF-SHA256(wrapping key, info = "tx-secure/key-check/v1:")[0..8]
+ *
+ * (HKDF-Expand is an HMAC of the fixed label under the key), which unwrap
+ * compares before touching the ciphertext: a mismatch is WrongKeyError, a
+ * match followed by a failed tag is tampering. key_check is one-way and
+ * the same for every record under a key, so it reveals no more than
+ * mk_version does. It is not authenticated — it is checked before the key
+ * is known to be right — so an edited key_check reads as a wrong key, but
+ * can never make a record decrypt. Records without one (written before it
+ * existed) skip the check.
+ */
+
+/** Length of a key check value in bytes */
+export const KEY_CHECK_BYTES = 8;
+
+/** The record fields produced by wrapping a DEK */
+export type WrappedDek = Pick<
+  TxSecureRecord,
+  "dek_wrap_nonce" | "dek_wrapped" | "dek_wrap_tag" | "key_check"
+>;
+
+/**
+ * Wraps (encrypts) a DEK with a master key.
+ *
+ * @param mkBuffer - The raw 32-byte master key (or other wrapping key)
+ * @param dek      - The raw 32-byte DEK
+ * @param metadata - Record metadata authenticated as AAD; its format_version
+ *                   decides whether the subkey is used
+ */
+export function wrapDek(mkBuffer: Buffer, dek: Buffer, metadata: DekWrapAadFields): WrappedDek {
+  const dekWrapNonce = crypto.randomBytes(12);
+  const wrapKey = dekWrapKey(mkBuffer, metadata);
+
+  try {
+    const dekCipher = createAeadCipher(metadata.alg, wrapKey, dekWrapNonce);
+    const aad = dekWrapAad(metadata);
+    if (aad) dekCipher.setAAD(aad, { plaintextLength: dek.length });
+
+    const dekWrapped = Buffer.concat([dekCipher.update(dek), dekCipher.final()]);
+    const dekWrapTag = dekCipher.getAuthTag();
+
+    return {
+      dek_wrap_nonce: dekWrapNonce.toString("hex"),
+      dek_wrapped: dekWrapped.toString("hex"),
+      dek_wrap_tag: dekWrapTag.toString("hex"),
+      key_check: keyCheckValue(mkBuffer),
+    };
+  } finally {
+    if (wrapKey !== mkBuffer) wrapKey.fill(0);
+  }
+}
+
+/**
+ * Unwraps (decrypts) a record's DEK with a master key.
+ *
+ * The caller owns the returned buffer and must zero it after use.
+ *
+ * @throws WrongKeyError if the record's key_check does not match the key
+ * @throws TamperedDataError if the wrapped DEK, its tag or the authenticated
+ *         metadata was modified (or, on records without a key_check, the
+ *         master key is wrong)
+ * @throws DecryptionError for other unwrap failures
+ */
+export function unwrapDek(
+  mkBuffer: Buffer,
+  record: DekWrapAadFields & WrappedDek
+): Buffer {
+  if (record.key_check !== undefined) {
+    assertKeyCheck(mkBuffer, record);
+  }
+
+  const dekWrapNonce = Buffer.from(record.dek_wrap_nonce, "hex");
+  const dekWrapped = Buffer.from(record.dek_wrapped, "hex");
+  const dekWrapTag = Buffer.from(record.dek_wrap_tag, "hex");
+  const wrapKey = dekWrapKey(mkBuffer, record);
+
+  // The DEK was encrypted with the record's AEAD using the Master Key.
+  // If the dek_wrap_tag doesn't match (tampering), Node.js will throw an
+  // "Unsupported state or unable to authenticate data" error.
+  try {
+    const dekDecipher = createAeadDecipher(record.alg, wrapKey, dekWrapNonce);
+
+    const aad = dekWrapAad(record);
+    if (aad) dekDecipher.setAAD(aad, { plaintextLength: dekWrapped.length });
+
+    // Set the authentication tag BEFORE calling update/final.
+    // The AEAD uses this tag to verify the integrity of the wrapped DEK.
+    dekDecipher.setAuthTag(dekWrapTag);
+
+    return Buffer.concat([
+      dekDecipher.update(dekWrapped),
+      dekDecipher.final(), // This is where tag verification happens
+    ]);
+  } catch (error: unknown) {
+    // Auth failure means the DEK wrap was tampered with — or, if there
+    // was no key check value to rule it out, the wrong master key was used.
+    const message = error instanceof Error ? error.message : "Unknown error";
+    if (message.includes("Unsupported state or unable to authenticate data")) {
+      throw new TamperedDataError(
+        record.key_check !== undefined
+          ? "DEK unwrap failed — the wrapped DEK, its tag or the record metadata have been tampered with"
+          : "DEK unwrap failed — the wrapped DEK, its tag or the record metadata may have been tampered with, or the wrong master key was used"
+      );
+    }
+    throw new DecryptionError(`DEK unwrap failed: ${message}`);
+  } finally {
+    if (wrapKey !== mkBuffer) wrapKey.fill(0);
+  }
+}
+
+/** The key check value of a wrapping key, as hex */
+export function keyCheckValue(key: Buffer): string {
+  const subkey = hkdfSubkey(key, "key-check");
+  try {
+    return subkey.subarray(0, KEY_CHECK_BYTES).toString("hex");
+  } finally {
+    subkey.fill(0);
+  }
+}
+
+function assertKeyCheck(
+  key: Buffer,
+  record: Pick<DekWrapAadFields, "mk_version" | "kek_id"> & WrappedDek
+): void {
+  const expected = Buffer.from(keyCheckValue(key), "hex");
+  const actual = Buffer.from(record.key_check ?? "", "hex");
+  if (actual.length === expected.length && crypto.timingSafeEqual(actual, expected)) return;
+
+  const which =
+    record.kek_id !== undefined
+      ? `party KEK "${record.kek_id}"`
+      : `master key version ${record.mk_version}`;
+  throw new WrongKeyError(
+    `DEK unwrap failed — key check mismatch: the record was wrapped under a different key than the ${which} supplied`
+  );
+}
+
+/** The AEAD key of the DEK wrap: the "dek-wrap" subkey from format 3 on */
+function dekWrapKey(mkBuffer: Buffer, record: Pick<DekWrapAadFields, "format_version">): Buffer {
+  if (recordFormat(record) < RECORD_FORMAT_SUBKEYS) return mkBuffer;
+  return hkdfSubkey(mkBuffer, "dek-wrap");
+}
@@ -1,4 +1,9 @@
-import { describe, it, expect } from "vitest";
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Readable, Writable } from "stream";
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from "vitest";
 import {
   encrypt,
   decrypt,
@@ -8,6 +13,65 @@ import {
   TamperedDataError,
   ValidationError,
   DecryptionError,
+  CURRENT_RECORD_FORMAT,
+  createKeyring,
+  parseKeyring,
+  rewrap,
+  encryptWithProvider,
+  decryptWithProvider,
+  createLocalKeyProvider,
+  createHttpKeyProvider,
+  startMockKms,
+  MockKms,
+  encryptStream,
+  decryptStream,
+  STREAM_ALG,
+  EncryptionError,
+  EnvelopeAlgorithm,
+  serializeRecord,
+  parseRecord,
+  computeBlindIndex,
+  computeBlindIndexes,
+  createPartyKeyProvider,
+  createMemoryPartyKeyStore,
+  rewrapPartyKek,
+  KeyDestroyedError,
+  generateSigningKeyPair,
+  signingKeyId,
+  signRecord,
+  verifyRecordSignature,
+  generateRecipientKeyPair,
+  encryptForRecipient,
+  openSealedRecord,
+  definePayloadSchema,
+  validatePayload,
+  PayloadSchemaError,
+  encryptKeyFile,
+  decryptKeyFile,
+  WrongPassphraseError,
+  ExpiredRecordError,
+  deriveSubkey,
+  RECORD_FORMAT_AAD,
+  RECORD_FORMAT_SUBKEYS,
+  dekWrapAad,
+  createCryptoPool,
+  CryptoPool,
+  PoolQueueFullError,
+  toJWE,
+  fromJWE,
+  WrongKeyError,
+  LedgerEntry,
+  createLedgerEntry,
+  verifyLedgerChain,
+  ledgerRecordHash,
+  ledgerEntryHash,
+  createMerkleAccumulator,
+  merkleRoot,
+  merkleInclusionProof,
+  verifyMerkleInclusion,
+  signLedgerCheckpoint,
+  verifyLedgerCheckpoint,
+  LEDGER_GENESIS_HASH,
 } from "../src/index";
 
 /**
@@ -180,6 +244,1719 @@ describe("Envelope Encryption", () => {
   });
 });
 
+describe("Metadata binding (AAD)", () => {
+  it("records are written with the current format version", () => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+    expect(record.format_version).toBe(CURRENT_RECORD_FORMAT);
+  });
+
+  it.each([
+    ["partyId", { partyId: "party_evil" }],
+    ["createdAt", { createdAt: "2020-01-01T00:00:00.000Z" }],
+    ["id", { id: "00000000-0000-4000-8000-000000000000" }],
+    ["mk_version", { mk_version: 2 }],
+    ["alg", { alg: "ChaCha20-Poly1305" as const }],
+  ])("tampered %s → decryption throws TamperedDataError", (_field, change) => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+    const tampered: TxSecureRecord = { ...record, ...change };
+
+    expect(() => decrypt(TEST_MASTER_KEY, tampered)).toThrow(TamperedDataError);
+  });
+
+  it("payload fields swapped between records → decryption throws TamperedDataError", () => {
+    const victim = encrypt(TEST_MASTER_KEY, "party_A", { data: "alpha" });
+    const donor = encrypt(TEST_MASTER_KEY, "party_B", { data: "beta" });
+
+    const swapped: TxSecureRecord = {
+      ...victim,
+      payload_nonce: donor.payload_nonce,
+      payload_ct: donor.payload_ct,
+      payload_tag: donor.payload_tag,
+    };
+
+    expect(() => decrypt(TEST_MASTER_KEY, swapped)).toThrow(TamperedDataError);
+  });
+
+  it("DEK wrap fields swapped between records → decryption throws TamperedDataError", () => {
+    const victim = encrypt(TEST_MASTER_KEY, "party_A", { data: "alpha" });
+    const donor = encrypt(TEST_MASTER_KEY, "party_B", { data: "beta" });
+
+    const swapped: TxSecureRecord = {
+      ...victim,
+      dek_wrap_nonce: donor.dek_wrap_nonce,
+      dek_wrapped: donor.dek_wrapped,
+      dek_wrap_tag: donor.dek_wrap_tag,
+    };
+
+    expect(() => decrypt(TEST_MASTER_KEY, swapped)).toThrow(TamperedDataError);
+  });
+
+  it("legacy records without format_version still decrypt", () => {
+    const legacy = encryptLegacy(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+
+    expect(legacy.format_version).toBeUndefined();
+    expect(() => validateRecord(legacy)).not.toThrow();
+    expect(decrypt(TEST_MASTER_KEY, legacy)).toEqual(TEST_PAYLOAD);
+  });
+
+  it("upgrading a legacy record's format_version → decryption throws TamperedDataError", () => {
+    const legacy = encryptLegacy(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+    const upgraded: TxSecureRecord = { ...legacy, format_version: CURRENT_RECORD_FORMAT };
+
+    expect(() => decrypt(TEST_MASTER_KEY, upgraded)).toThrow(TamperedDataError);
+  });
+
+  it("unknown format_version → validation throws ValidationError", () => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+    const badRecord: TxSecureRecord = { ...record, format_version: 99 };
+
+    expect(() => validateRecord(badRecord)).toThrow("Unsupported format_version");
+    expect(() => decrypt(TEST_MASTER_KEY, badRecord)).toThrow(ValidationError);
+  });
+});
+
+describe("Subkeys", () => {
+  it("deriveSubkey is deterministic and separates purposes, contexts and key versions", () => {
+    const keyring = createKeyring({ 1: TEST_MASTER_KEY, 2: generateMasterKey() });
+    const dekWrap = deriveSubkey(TEST_MASTER_KEY, "dek-wrap");
+
+    expect(dekWrap).toHaveLength(32);
+    expect(deriveSubkey(TEST_MASTER_KEY, "dek-wrap")).toEqual(dekWrap);
+    expect(deriveSubkey(keyring, "dek-wrap", "", 1)).toEqual(dekWrap);
+    expect(deriveSubkey(keyring, "dek-wrap")).not.toEqual(dekWrap);
+    expect(deriveSubkey(TEST_MASTER_KEY, "blind-index")).not.toEqual(dekWrap);
+    expect(deriveSubkey(TEST_MASTER_KEY, "blind-index", "a")).not.toEqual(
+      deriveSubkey(TEST_MASTER_KEY, "blind-index", "b")
+    );
+    expect(dekWrap).not.toEqual(Buffer.from(TEST_MASTER_KEY, "hex"));
+  });
+
+  it("unknown purpose → throws ValidationError", () => {
+    expect(() => deriveSubkey(TEST_MASTER_KEY, "signing" as "dek-wrap")).toThrow(ValidationError);
+  });
+
+  it("new records wrap their DEK under the dek-wrap subkey", () => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+    expect(record.format_version).toBe(RECORD_FORMAT_SUBKEYS);
+
+    // Relabelled as format 2, the raw master key is tried and fails
+    const relabelled: TxSecureRecord = { ...record, format_version: RECORD_FORMAT_AAD };
+    expect(() => decrypt(TEST_MASTER_KEY, relabelled)).toThrow(TamperedDataError);
+  });
+
+  it("format-2 records wrapped under the raw master key still decrypt and re-wrap", () => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+    const format2 = downgradeToFormat2(TEST_MASTER_KEY, record);
+
+    expect(decrypt(TEST_MASTER_KEY, format2)).toEqual(TEST_PAYLOAD);
+    expect(() => decrypt(TEST_MASTER_KEY, { ...format2, format_version: RECORD_FORMAT_SUBKEYS })).toThrow(
+      TamperedDataError
+    );
+
+    const newKey = generateMasterKey();
+    const rewrapped = rewrap(format2, TEST_MASTER_KEY, newKey, 2);
+    expect(rewrapped.format_version).toBe(RECORD_FORMAT_AAD);
+    expect(decrypt(createKeyring({ 2: newKey }), rewrapped)).toEqual(TEST_PAYLOAD);
+  });
+});
+
+describe("Key check values", () => {
+  it("records carry the key check value of their wrapping key", () => {
+    const a = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+    const b = encrypt(TEST_MASTER_KEY, "party_other", { other: true });
+    const c = encrypt(generateMasterKey(), TEST_PARTY_ID, TEST_PAYLOAD);
+
+    expect(a.key_check).toMatch(/^[0-9a-f]{16}$/);
+    expect(b.key_check).toBe(a.key_check);
+    expect(c.key_check).not.toBe(a.key_check);
+
+    const sealed = encryptForRecipient(generateRecipientKeyPair().publicKey, TEST_PARTY_ID, TEST_PAYLOAD);
+    expect(sealed.key_check).toBeUndefined();
+    expect(() => validateRecord({ ...sealed, key_check: a.key_check })).toThrow(ValidationError);
+  });
+
+  it("wrong master key → WrongKeyError; tampering with the right key → TamperedDataError", () => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+
+    expect(() => decrypt(generateMasterKey(), record)).toThrow(WrongKeyError);
+
+    const tampered = { ...record, dek_wrap_tag: flipHexChar(record.dek_wrap_tag) };
+    expect(() => decrypt(TEST_MASTER_KEY, tampered)).toThrow(TamperedDataError);
+    expect(() => decrypt(TEST_MASTER_KEY, tampered)).not.toThrow(/wrong master key/);
+  });
+
+  it("an edited key_check reads as a wrong key and never decrypts", () => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+    const edited = { ...record, key_check: flipHexChar(record.key_check!) };
+
+    expect(() => decrypt(TEST_MASTER_KEY, edited)).toThrow(WrongKeyError);
+    expect(() => validateRecord({ ...record, key_check: "abcd" })).toThrow("key_check must be exactly 8 bytes");
+  });
+
+  it("records without a key_check keep reporting a wrong key as tampering", () => {
+    const { key_check: _dropped, ...older } = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+
+    expect(decrypt(TEST_MASTER_KEY, older)).toEqual(TEST_PAYLOAD);
+    expect(() => decrypt(generateMasterKey(), older)).toThrow(TamperedDataError);
+  });
+
+  it("party KEKs carry the master key's key check value", async () => {
+    const store = createMemoryPartyKeyStore();
+    const provider = createPartyKeyProvider(createLocalKeyProvider(TEST_MASTER_KEY), store);
+    const record = await encryptWithProvider(provider, TEST_PARTY_ID, TEST_PAYLOAD);
+
+    const kek = await store.getKek(record.kek_id!);
+    expect(kek?.kek_key_check).toBe(encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD).key_check);
+    expect(record.key_check).not.toBe(kek?.kek_key_check);
+
+    const wrongMaster = createPartyKeyProvider(createLocalKeyProvider(generateMasterKey()), store);
+    await expect(decryptWithProvider(wrongMaster, record)).rejects.toThrow(WrongKeyError);
+  });
+});
+
+describe("Master keyring", () => {
+  const KEY_V1 = generateMasterKey();
+  const KEY_V2 = generateMasterKey();
+
+  it("encrypts with the active version and decrypts by mk_version", () => {
+    const before = createKeyring({ 1: KEY_V1 });
+    const oldRecord = encrypt(before, TEST_PARTY_ID, TEST_PAYLOAD);
+    expect(oldRecord.mk_version).toBe(1);
+
+    // Rotate: add version 2 and make it active
+    const after = createKeyring({ 1: KEY_V1, 2: KEY_V2 }, 2);
+    const newRecord = encrypt(after, TEST_PARTY_ID, TEST_PAYLOAD);
+    expect(newRecord.mk_version).toBe(2);
+
+    expect(decrypt(after, oldRecord)).toEqual(TEST_PAYLOAD);
+    expect(decrypt(after, newRecord)).toEqual(TEST_PAYLOAD);
+    expect(decrypt(KEY_V2, newRecord)).toEqual(TEST_PAYLOAD);
+    expect(() => decrypt(KEY_V2, oldRecord)).toThrow(WrongKeyError);
+  });
+
+  it("record version missing from the keyring → decryption throws DecryptionError", () => {
+    const record = encrypt(createKeyring({ 1: KEY_V1, 2: KEY_V2 }), TEST_PARTY_ID, TEST_PAYLOAD);
+
+    expect(() => decrypt(createKeyring({ 1: KEY_V1 }), record)).toThrow(DecryptionError);
+    expect(() => decrypt(createKeyring({ 1: KEY_V1 }), record)).toThrow("No master key for mk_version 2");
+  });
+
+  it("still accepts a bare version number as the fourth argument", () => {
+    const keyring = createKeyring({ 1: KEY_V1, 2: KEY_V2 }, 2);
+    const record = encrypt(keyring, TEST_PARTY_ID, TEST_PAYLOAD, 1);
+
+    expect(record.mk_version).toBe(1);
+    expect(decrypt(KEY_V1, record)).toEqual(TEST_PAYLOAD);
+  });
+
+  it("parses the JSON form and defaults the active version to the highest", () => {
+    const keyring = parseKeyring(JSON.stringify({ keys: { "1": KEY_V1, "3": KEY_V2 } }));
+
+    expect(keyring.activeVersion).toBe(3);
+    expect(encrypt(keyring, TEST_PARTY_ID, TEST_PAYLOAD).mk_version).toBe(3);
+  });
+
+  it("malformed keyrings → ValidationError", () => {
+    expect(() => parseKeyring("not json")).toThrow(ValidationError);
+    expect(() => parseKeyring(JSON.stringify({ keys: {} }))).toThrow("at least one master key");
+    expect(() => createKeyring({ 1: "abcd" })).toThrow("64 hex characters");
+    expect(() => createKeyring({ 1: KEY_V1 }, 2)).toThrow("Active version 2");
+  });
+});
+
+describe("DEK re-wrap", () => {
+  const KEY_V1 = generateMasterKey();
+  const KEY_V2 = generateMasterKey();
+
+  it("re-wraps under the new key without touching the payload", () => {
+    const record = encrypt(KEY_V1, TEST_PARTY_ID, TEST_PAYLOAD);
+    const rewrapped = rewrap(record, KEY_V1, KEY_V2, 2);
+
+    expect(rewrapped.mk_version).toBe(2);
+    expect(rewrapped.dek_wrapped).not.toBe(record.dek_wrapped);
+    expect(rewrapped.dek_wrap_nonce).not.toBe(record.dek_wrap_nonce);
+    expect(rewrapped.payload_ct).toBe(record.payload_ct);
+    expect(rewrapped.payload_nonce).toBe(record.payload_nonce);
+    expect(rewrapped.payload_tag).toBe(record.payload_tag);
+
+    expect(decrypt(KEY_V2, rewrapped)).toEqual(TEST_PAYLOAD);
+    expect(() => decrypt(KEY_V1, rewrapped)).toThrow(WrongKeyError);
+  });
+
+  it("works with keyrings and legacy records", () => {
+    const keyring = createKeyring({ 1: KEY_V1, 2: KEY_V2 });
+    const legacy = encryptLegacy(KEY_V1, TEST_PARTY_ID, TEST_PAYLOAD);
+    const rewrapped = rewrap(legacy, keyring, keyring, 2);
+
+    expect(rewrapped.format_version).toBeUndefined();
+    expect(decrypt(keyring, rewrapped)).toEqual(TEST_PAYLOAD);
+  });
+
+  it("tampered DEK wrap → rewrap throws TamperedDataError", () => {
+    const record = encrypt(KEY_V1, TEST_PARTY_ID, TEST_PAYLOAD);
+    const tampered: TxSecureRecord = { ...record, dek_wrap_tag: flipHexChar(record.dek_wrap_tag) };
+
+    expect(() => rewrap(tampered, KEY_V1, KEY_V2, 2)).toThrow(TamperedDataError);
+  });
+});
+
+describe("KeyProvider", () => {
+  it("local provider records are interchangeable with encrypt()/decrypt()", async () => {
+    const keyring = createKeyring({ 1: generateMasterKey(), 2: TEST_MASTER_KEY });
+    const provider = createLocalKeyProvider(keyring);
+
+    const record = await encryptWithProvider(provider, TEST_PARTY_ID, TEST_PAYLOAD);
+    expect(record.mk_version).toBe(2);
+    expect(decrypt(keyring, record)).toEqual(TEST_PAYLOAD);
+
+    const syncRecord = encrypt(keyring, TEST_PARTY_ID, TEST_PAYLOAD);
+    expect(await decryptWithProvider(provider, syncRecord)).toEqual(TEST_PAYLOAD);
+  });
+
+  it("local provider detects tampered metadata", async () => {
+    const provider = createLocalKeyProvider(TEST_MASTER_KEY);
+    const record = await encryptWithProvider(provider, TEST_PARTY_ID, TEST_PAYLOAD);
+
+    await expect(
+      decryptWithProvider(provider, { ...record, partyId: "party_evil" })
+    ).rejects.toThrow(TamperedDataError);
+  });
+
+  describe("mock KMS over HTTP", () => {
+    let dir: string;
+    let kms: MockKms;
+
+    beforeAll(async () => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "mock-kms-"));
+      kms = await startMockKms({ keyringFile: path.join(dir, "keyring.json"), token: "s3cret" });
+    });
+
+    afterAll(async () => {
+      await kms.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("encrypt → decrypt roundtrip through the KMS", async () => {
+      const provider = createHttpKeyProvider({ url: kms.url, token: "s3cret" });
+
+      const record = await encryptWithProvider(provider, TEST_PARTY_ID, TEST_PAYLOAD);
+      expect(record.mk_version).toBe(1);
+      expect(await decryptWithProvider(provider, record)).toEqual(TEST_PAYLOAD);
+
+      // The KMS's keyring file holds the same key a local provider would use
+      const keyring = parseKeyring(fs.readFileSync(path.join(dir, "keyring.json"), "utf-8"));
+      expect(decrypt(keyring, record)).toEqual(TEST_PAYLOAD);
+    });
+
+    it("tampering reported by the KMS → TamperedDataError", async () => {
+      const provider = createHttpKeyProvider({ url: kms.url, token: "s3cret" });
+      const record = await encryptWithProvider(provider, TEST_PARTY_ID, TEST_PAYLOAD);
+
+      const tampered: TxSecureRecord = { ...record, createdAt: "2020-01-01T00:00:00.000Z" };
+      await expect(decryptWithProvider(provider, tampered)).rejects.toThrow(TamperedDataError);
+    });
+
+    it("record under another master key → WrongKeyError", async () => {
+      const provider = createHttpKeyProvider({ url: kms.url, token: "s3cret" });
+      const record = encrypt(generateMasterKey(), TEST_PARTY_ID, TEST_PAYLOAD);
+
+      await expect(decryptWithProvider(provider, record)).rejects.toThrow(WrongKeyError);
+    });
+
+    it("wrong token → DecryptionError", async () => {
+      const good = createHttpKeyProvider({ url: kms.url, token: "s3cret" });
+      const bad = createHttpKeyProvider({ url: kms.url, token: "wrong" });
+      const record = await encryptWithProvider(good, TEST_PARTY_ID, TEST_PAYLOAD);
+
+      await expect(decryptWithProvider(bad, record)).rejects.toThrow(DecryptionError);
+    });
+  });
+});
+
+describe("Crypto pool", () => {
+  let pool: CryptoPool;
+
+  beforeAll(() => {
+    pool = createCryptoPool({ size: 2 });
+  });
+
+  afterAll(async () => {
+    await pool.close();
+  });
+
+  it("encryptAsync → decryptAsync roundtrip", async () => {
+    const record = await pool.encryptAsync(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+    expect(() => validateRecord(record)).not.toThrow();
+    expect(await pool.decryptAsync(TEST_MASTER_KEY, record)).toEqual(TEST_PAYLOAD);
+  });
+
+  it("records are interchangeable with encrypt()/decrypt()", async () => {
+    const keyring = createKeyring({ 1: generateMasterKey(), 2: TEST_MASTER_KEY });
+
+    const record = await pool.encryptAsync(keyring, TEST_PARTY_ID, TEST_PAYLOAD, {
+      encryptFields: ["note"],
+      ttlSeconds: 60,
+    });
+    expect(record.mk_version).toBe(2);
+    expect(decrypt(keyring, record)).toEqual(TEST_PAYLOAD);
+
+    const syncRecord = encrypt(keyring, TEST_PARTY_ID, TEST_PAYLOAD);
+    expect(await pool.decryptAsync(keyring, syncRecord)).toEqual(TEST_PAYLOAD);
+  });
+
+  it("wraps DEKs through a KeyProvider", async () => {
+    const provider = createLocalKeyProvider(TEST_MASTER_KEY);
+    const record = await pool.encryptAsync(provider, TEST_PARTY_ID, TEST_PAYLOAD);
+    expect(await decryptWithProvider(provider, record)).toEqual(TEST_PAYLOAD);
+  });
+
+  it("runs concurrent tasks across workers and queues the rest", async () => {
+    const payloads = Array.from({ length: 8 }, (_, i) => ({ ...TEST_PAYLOAD, amount: i }));
+    const records = await Promise.all(
+      payloads.map((payload) => pool.encryptAsync(TEST_MASTER_KEY, TEST_PARTY_ID, payload))
+    );
+    const opened = await Promise.all(
+      records.map((record) => pool.decryptAsync(TEST_MASTER_KEY, record))
+    );
+    expect(opened).toEqual(payloads);
+    expect(pool.stats()).toEqual({ active: 0, queued: 0 });
+  });
+
+  it("worker errors arrive as the same error classes", async () => {
+    const record = await pool.encryptAsync(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+
+    const tampered = { ...record, payload_ct: flipHexChar(record.payload_ct) };
+    await expect(pool.decryptAsync(TEST_MASTER_KEY, tampered)).rejects.toThrow(TamperedDataError);
+
+    const schema = definePayloadSchema<{ amount: number }>({
+      type: "object",
+      required: ["amount"],
+      properties: { amount: { type: "number" } },
+    });
+    const attempt = pool.encryptAsync(TEST_MASTER_KEY, TEST_PARTY_ID, { amount: "100" } as never, {
+      schema,
+    });
+    await expect(attempt).rejects.toThrow(PayloadSchemaError);
+    await expect(attempt).rejects.toThrow(
+      expect.objectContaining({ issues: ["$.amount: expected number, got string"] })
+    );
+  });
+
+  it("full queue → PoolQueueFullError", async () => {
+    const small = createCryptoPool({ size: 1, maxQueue: 0 });
+    try {
+      const first = small.encryptAsync(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+      await expect(
+        small.encryptAsync(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD)
+      ).rejects.toThrow(PoolQueueFullError);
+      expect(decrypt(TEST_MASTER_KEY, await first)).toEqual(TEST_PAYLOAD);
+    } finally {
+      await small.close();
+    }
+  });
+
+  it("closed pool → rejects new tasks", async () => {
+    const closed = createCryptoPool({ size: 1 });
+    await closed.close();
+    await expect(
+      closed.encryptAsync(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD)
+    ).rejects.toThrow(EncryptionError);
+  });
+
+  it("invalid size → ValidationError", () => {
+    expect(() => createCryptoPool({ size: 0 })).toThrow(ValidationError);
+    expect(() => createCryptoPool({ maxQueue: -1 })).toThrow(ValidationError);
+  });
+});
+
+describe("Streaming encryption", () => {
+  const SEGMENT = 1024;
+  const LARGE = crypto.randomBytes(SEGMENT * 5 + 123);
+
+  async function encryptBytes(plaintext: Buffer) {
+    const sink = collector();
+    const record = await encryptStream(
+      TEST_MASTER_KEY,
+      TEST_PARTY_ID,
+      Readable.from(chunks(plaintext, 700)),
+      sink.stream,
+      { segmentSize: SEGMENT }
+    );
+    return { record, ciphertext: sink.result() };
+  }
+
+  async function decryptBytes(record: TxSecureRecord, ciphertext: Buffer) {
+    const sink = collector();
+    await decryptStream(TEST_MASTER_KEY, record, Readable.from(chunks(ciphertext, 500)), sink.stream);
+    return sink.result();
+  }
+
+  it("encryptStream → decryptStream roundtrip across many segments", async () => {
+    const { record, ciphertext } = await encryptBytes(LARGE);
+
+    expect(record.alg).toBe(STREAM_ALG);
+    expect(record.payload_ct).toBe("");
+    expect(splitFrames(ciphertext)).toHaveLength(6);
+    expect(() => validateRecord(record)).not.toThrow();
+    expect((await decryptBytes(record, ciphertext)).equals(LARGE)).toBe(true);
+  });
+
+  it("any chunking of the input gives the same result", async () => {
+    const sink = collector();
+    const record = await encryptStream(
+      TEST_MASTER_KEY,
+      TEST_PARTY_ID,
+      Readable.from([LARGE]),
+      sink.stream,
+      { segmentSize: SEGMENT }
+    );
+    const ciphertext = sink.result();
+    expect(splitFrames(ciphertext)).toHaveLength(6);
+
+    // 3-byte chunks split the frame length prefixes
+    const plain = collector();
+    await decryptStream(TEST_MASTER_KEY, record, Readable.from(chunks(ciphertext, 3)), plain.stream);
+    expect(plain.result().equals(LARGE)).toBe(true);
+  });
+
+  it("empty input still produces one final segment", async () => {
+    const { record, ciphertext } = await encryptBytes(Buffer.alloc(0));
+
+    expect(splitFrames(ciphertext)).toHaveLength(1);
+    expect((await decryptBytes(record, ciphertext)).length).toBe(0);
+  });
+
+  it("truncated stream (last segment removed) → TamperedDataError", async () => {
+    const { record, ciphertext } = await encryptBytes(LARGE);
+    const frames = splitFrames(ciphertext);
+
+    const truncated = Buffer.concat(frames.slice(0, -1));
+    await expect(decryptBytes(record, truncated)).rejects.toThrow(TamperedDataError);
+  });
+
+  it("reordered segments → TamperedDataError", async () => {
+    const { record, ciphertext } = await encryptBytes(LARGE);
+    const frames = splitFrames(ciphertext);
+
+    [frames[1], frames[2]] = [frames[2], frames[1]];
+    await expect(decryptBytes(record, Buffer.concat(frames))).rejects.toThrow(TamperedDataError);
+  });
+
+  it("appended segment → TamperedDataError", async () => {
+    const { record, ciphertext } = await encryptBytes(LARGE);
+    const frames = splitFrames(ciphertext);
+
+    const extended = Buffer.concat([...frames, frames[0]]);
+    await expect(decryptBytes(record, extended)).rejects.toThrow(TamperedDataError);
+  });
+
+  it("stream swapped between records → TamperedDataError", async () => {
+    const first = await encryptBytes(LARGE);
+    const second = await encryptBytes(LARGE);
+
+    await expect(decryptBytes(first.record, second.ciphertext)).rejects.toThrow(TamperedDataError);
+  });
+
+  it("decrypt() rejects streamed records; validation rejects a non-empty payload_ct", async () => {
+    const { record } = await encryptBytes(LARGE);
+
+    expect(() => decrypt(TEST_MASTER_KEY, record)).toThrow("use decryptStream()");
+    expect(() => validateRecord({ ...record, payload_ct: "aabb" })).toThrow(ValidationError);
+  });
+
+  it("unknown format version or past expiresAt → rejected before any plaintext", async () => {
+    const { record, ciphertext } = await encryptBytes(LARGE);
+    const past = new Date(Date.now() - 1000).toISOString();
+
+    for (const [changed, error] of [
+      [{ ...record, format_version: 99 }, ValidationError],
+      [{ ...record, expiresAt: past }, ExpiredRecordError],
+    ] as const) {
+      const sink = collector();
+      await expect(
+        decryptStream(TEST_MASTER_KEY, changed, Readable.from([ciphertext]), sink.stream)
+      ).rejects.toThrow(error);
+      expect(sink.result().length).toBe(0);
+    }
+  });
+});
+
+describe("Algorithm selection", () => {
+  const ALGS: EnvelopeAlgorithm[] = ["AES-256-GCM", "ChaCha20-Poly1305"];
+
+  it("defaults to AES-256-GCM", () => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+    expect(record.alg).toBe("AES-256-GCM");
+  });
+
+  it.each(ALGS)("%s: encrypt → decrypt roundtrip", (alg) => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD, { alg });
+
+    expect(record.alg).toBe(alg);
+    expect(() => validateRecord(record)).not.toThrow();
+    expect(decrypt(TEST_MASTER_KEY, record)).toEqual(TEST_PAYLOAD);
+  });
+
+  it.each(ALGS)("%s: tampered payload_ct, payload_tag or dek_wrapped → TamperedDataError", (alg) => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD, { alg });
+
+    for (const field of ["payload_ct", "payload_tag", "dek_wrapped"] as const) {
+      const tampered: TxSecureRecord = { ...record, [field]: flipHexChar(record[field]) };
+      expect(() => decrypt(TEST_MASTER_KEY, tampered)).toThrow(TamperedDataError);
+    }
+  });
+
+  it.each([
+    ["AES-256-GCM", "ChaCha20-Poly1305"],
+    ["ChaCha20-Poly1305", "AES-256-GCM"],
+  ] as const)("record written as %s but relabelled %s → TamperedDataError", (from, to) => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD, { alg: from });
+    const relabelled: TxSecureRecord = { ...record, alg: to };
+
+    expect(() => decrypt(TEST_MASTER_KEY, relabelled)).toThrow(TamperedDataError);
+  });
+
+  it("ChaCha20-Poly1305 records work with keyrings, providers and rewrap", async () => {
+    const oldKey = generateMasterKey();
+    const newKey = generateMasterKey();
+    const keyring = createKeyring({ 1: oldKey, 2: newKey }, 1);
+    const provider = createLocalKeyProvider(keyring);
+
+    const record = await encryptWithProvider(provider, TEST_PARTY_ID, TEST_PAYLOAD, {
+      alg: "ChaCha20-Poly1305",
+    });
+    expect(record.alg).toBe("ChaCha20-Poly1305");
+
+    const rewrapped = rewrap(record, oldKey, newKey, 2);
+    expect(rewrapped.alg).toBe("ChaCha20-Poly1305");
+    expect(decrypt(keyring, rewrapped)).toEqual(TEST_PAYLOAD);
+  });
+
+  it("unknown or streaming algorithm passed to encrypt() → EncryptionError", () => {
+    expect(() =>
+      encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD, {
+        alg: "AES-128-CBC" as EnvelopeAlgorithm,
+      })
+    ).toThrow(EncryptionError);
+    expect(() =>
+      encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD, {
+        alg: STREAM_ALG as unknown as EnvelopeAlgorithm,
+      })
+    ).toThrow("encryptStream()");
+  });
+});
+
+describe("Record serialization", () => {
+  it("binary and base64url envelopes roundtrip and still decrypt", () => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+
+    const binary = serializeRecord(record);
+    const text = serializeRecord(record, "base64url");
+
+    expect(parseRecord(binary)).toEqual(record);
+    expect(parseRecord(text)).toEqual(record);
+    expect(decrypt(TEST_MASTER_KEY, parseRecord(text))).toEqual(TEST_PAYLOAD);
+  });
+
+  it("envelope is smaller than the hex JSON form", () => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, { blob: "x".repeat(4096) });
+
+    expect(serializeRecord(record).length).toBeLessThan(JSON.stringify(record).length * 0.6);
+  });
+
+  it("omits absent optional fields and keeps streamed records' empty ciphertext", () => {
+    const legacy = encryptLegacy(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+    expect(parseRecord(serializeRecord(legacy))).toEqual(legacy);
+
+    const streamed: TxSecureRecord = { ...legacy, alg: STREAM_ALG, payload_ct: "" };
+    expect(parseRecord(serializeRecord(streamed)).payload_ct).toBe("");
+  });
+
+  it("still accepts the hex JSON form", () => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+    expect(parseRecord(JSON.stringify(record))).toEqual(record);
+  });
+
+  it.each([
+    ["bad magic", (env: Buffer) => Buffer.concat([Buffer.from("XXXX"), env.subarray(4)]), "bad magic"],
+    ["unknown version", (env: Buffer) => Buffer.concat([env.subarray(0, 4), Buffer.from([9]), env.subarray(5)]), "envelope version 9"],
+    ["truncated", (env: Buffer) => env.subarray(0, env.length - 3), "truncated"],
+    ["unknown field tag", (env: Buffer) => Buffer.concat([env, Buffer.from([200, 0, 0, 0, 0])]), "unknown field tag 200"],
+    ["missing field", (env: Buffer) => env.subarray(0, 5), "missing field"],
+  ])("%s → ValidationError", (_case, mangle, message) => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+    const mangled = mangle(serializeRecord(record));
+
+    expect(() => parseRecord(mangled)).toThrow(ValidationError);
+    expect(() => parseRecord(mangled)).toThrow(message);
+  });
+
+  it("invalid text input → ValidationError", () => {
+    expect(() => parseRecord("not a record!")).toThrow(ValidationError);
+    expect(() => parseRecord("{ broken json")).toThrow(ValidationError);
+    expect(() => parseRecord("[]")).toThrow(ValidationError);
+  });
+
+  it("envelope with a wrong-length nonce → ValidationError", () => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+    const envelope = serializeRecord(record);
+
+    // Drop the nonce's last byte and fix up its length prefix
+    const index = envelope.indexOf(Buffer.from(record.payload_nonce, "hex"));
+    const mangled = Buffer.concat([
+      envelope.subarray(0, index - 4),
+      Buffer.from([0, 0, 0, 11]),
+      envelope.subarray(index, index + 11),
+      envelope.subarray(index + 12),
+    ]);
+
+    expect(() => parseRecord(mangled)).toThrow("payload_nonce must be exactly 12 bytes");
+  });
+});
+
+describe("Strict record parsing", () => {
+  const fieldsOf = (fn: () => unknown) => {
+    try {
+      fn();
+    } catch (error: unknown) {
+      expect(error).toBeInstanceOf(ValidationError);
+      return (error as ValidationError).issues.map((issue) => issue.field);
+    }
+    throw new Error("expected a ValidationError");
+  };
+
+  it("accepts a record object as-is", () => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD, { encryptFields: ["amount"] });
+    expect(parseRecord(JSON.parse(JSON.stringify(record)))).toEqual(record);
+  });
+
+  it("collects every violation into one ValidationError", () => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+    const { partyId: _partyId, ...rest } = record;
+    const input = { ...rest, id: "record-1", payload_nonce: "abcd", note: "hi" };
+
+    expect(fieldsOf(() => parseRecord(input))).toEqual(["note", "partyId", "id", "payload_nonce"]);
+    expect(() => parseRecord(input)).toThrow('Unknown field "note" (and 3 more)');
+    expect(() => parseRecord(JSON.stringify(input))).toThrow("(and 3 more)");
+  });
+
+  it("checks identity fields and types, without repeating a mistyped field's rules", () => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+    const input = { ...record, partyId: "", createdAt: "yesterday", mk_version: "1", alg: 7 };
+
+    expect(fieldsOf(() => parseRecord(input))).toEqual([
+      "alg",
+      "mk_version",
+      "partyId",
+      "createdAt",
+    ]);
+  });
+
+  it.each([null, 42, [], "null"])("rejects a non-object (%j)", (input) => {
+    expect(() => parseRecord(input)).toThrow(ValidationError);
+  });
+
+  it("validateRecord() also reports every rule violation", () => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+    const bad = { ...record, payload_nonce: "zz", dek_wrap_tag: "00", mk_version: 0 };
+
+    expect(fieldsOf(() => validateRecord(bad))).toEqual([
+      "payload_nonce",
+      "dek_wrap_tag",
+      "mk_version",
+    ]);
+  });
+});
+
+describe("JWE serialization", () => {
+  /** Decodes the protected header of a compact JWE */
+  const headerOf = (jwe: string) =>
+    JSON.parse(Buffer.from(jwe.split(".")[0], "base64url").toString("utf-8"));
+
+  it("compact JWE roundtrips exactly and still decrypts", () => {
+    const keyring = createKeyring({ 1: generateMasterKey(), 2: TEST_MASTER_KEY });
+    const record = encrypt(keyring, TEST_PARTY_ID, TEST_PAYLOAD);
+
+    const jwe = toJWE(record);
+    expect(jwe.split(".")).toHaveLength(5);
+    expect(fromJWE(jwe)).toEqual(record);
+    expect(toJWE(fromJWE(jwe))).toBe(jwe);
+    expect(decrypt(keyring, fromJWE(jwe))).toEqual(TEST_PAYLOAD);
+
+    const header = headerOf(jwe);
+    expect(header).toMatchObject({ alg: "A256GCMKW", enc: "A256GCM", kid: "2", crit: ["tx-secure"] });
+    expect(header["tx-secure"]).toEqual({
+      id: record.id,
+      partyId: TEST_PARTY_ID,
+      createdAt: record.createdAt,
+      format_version: CURRENT_RECORD_FORMAT,
+      key_check: record.key_check,
+    });
+  });
+
+  it("JSON serialization roundtrips as an object or as text", () => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+    const jwe = toJWE(record, "json");
+
+    expect(Object.keys(jwe)).toEqual(["protected", "encrypted_key", "iv", "ciphertext", "tag"]);
+    expect(Buffer.from(jwe.iv, "base64url").toString("hex")).toBe(record.payload_nonce);
+    expect(fromJWE(jwe)).toEqual(record);
+    expect(fromJWE(JSON.stringify(jwe))).toEqual(record);
+  });
+
+  it("carries field-level, expiring, signed and party-KEK records", async () => {
+    const signer = generateSigningKeyPair();
+    const provider = createPartyKeyProvider(
+      createLocalKeyProvider(TEST_MASTER_KEY),
+      createMemoryPartyKeyStore()
+    );
+    const record = await encryptWithProvider(provider, TEST_PARTY_ID, TEST_PAYLOAD, {
+      encryptFields: ["amount"],
+      ttlSeconds: 3600,
+      signingKey: { keyId: signer.keyId, privateKey: signer.privateKey },
+    });
+
+    const restored = fromJWE(toJWE(record));
+    expect(restored).toEqual(record);
+    expect(verifyRecordSignature(restored, { [signer.keyId]: signer.publicKey })).toBe(true);
+    expect(await decryptWithProvider(provider, restored)).toEqual(TEST_PAYLOAD);
+  });
+
+  it("metadata edited in the header → TamperedDataError", () => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+    const edited = fromJWE(toJWE({ ...record, partyId: "party_evil" }));
+
+    expect(() => decrypt(TEST_MASTER_KEY, edited)).toThrow(TamperedDataError);
+  });
+
+  it("records without a JWE form → ValidationError", () => {
+    const chacha = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD, { alg: "ChaCha20-Poly1305" });
+    expect(() => toJWE(chacha)).toThrow('got alg "ChaCha20-Poly1305"');
+
+    const sealed = encryptForRecipient(generateRecipientKeyPair().publicKey, TEST_PARTY_ID, TEST_PAYLOAD);
+    expect(() => toJWE(sealed)).toThrow(ValidationError);
+  });
+
+  it("any other form of the JWE → ValidationError", () => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+    const jwe = toJWE(record);
+    const [, ...rest] = jwe.split(".");
+    const { alg, enc, ...header } = headerOf(jwe);
+    const withHeader = (value: object) =>
+      [Buffer.from(JSON.stringify(value)).toString("base64url"), ...rest].join(".");
+
+    // Same content, but not the canonical header encoding
+    expect(() => fromJWE(withHeader({ enc, alg, ...header }))).toThrow("canonical form");
+    expect(() => fromJWE(withHeader({ alg: "dir", enc, ...header }))).toThrow("Unsupported JWE");
+    expect(() => fromJWE(withHeader({ alg, enc }))).toThrow('no "tx-secure" header');
+    expect(() => fromJWE(jwe.split(".").slice(0, 4).join("."))).toThrow("5 parts");
+    expect(() => fromJWE({ ...toJWE(record, "json"), aad: "eA" } as never)).toThrow(
+      "canonical form"
+    );
+    expect(() => fromJWE("{ broken json")).toThrow(ValidationError);
+  });
+});
+
+describe("Field-level encryption", () => {
+  const PAYMENT = {
+    amount: 250,
+    currency: "AED",
+    status: "pending",
+    account: { number: "AE070331234567890123456", holder: "A. Person" },
+  };
+  const FIELDS = ["amount", "account.number"];
+
+  it("encrypts the selected paths and leaves the rest readable", () => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, PAYMENT, { encryptFields: FIELDS });
+
+    expect(record.payload_clear).toEqual({
+      currency: "AED",
+      status: "pending",
+      account: { holder: "A. Person" },
+    });
+    expect(record.payload_fields!.map((field) => field.path)).toEqual(["account.number", "amount"]);
+    expect(JSON.stringify(record)).not.toContain(PAYMENT.account.number);
+    expect(() => validateRecord(record)).not.toThrow();
+  });
+
+  it.each(["AES-256-GCM", "ChaCha20-Poly1305"] as const)("%s: decrypt rebuilds the full payload", (alg) => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, PAYMENT, { alg, encryptFields: FIELDS });
+    expect(decrypt(TEST_MASTER_KEY, record)).toEqual(PAYMENT);
+  });
+
+  it("works through a KeyProvider and the compact envelope", async () => {
+    const provider = createLocalKeyProvider(TEST_MASTER_KEY);
+    const record = await encryptWithProvider(provider, TEST_PARTY_ID, PAYMENT, { encryptFields: FIELDS });
+
+    const parsed = parseRecord(serializeRecord(record));
+    expect(await decryptWithProvider(provider, parsed)).toEqual(PAYMENT);
+  });
+
+  it("key order in payload_clear does not matter (e.g. after a jsonb roundtrip)", () => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, PAYMENT, { encryptFields: FIELDS });
+    const reordered: TxSecureRecord = {
+      ...record,
+      payload_clear: { status: "pending", account: { holder: "A. Person" }, currency: "AED" },
+    };
+
+    expect(decrypt(TEST_MASTER_KEY, reordered)).toEqual(PAYMENT);
+  });
+
+  it("edited readable field → TamperedDataError", () => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, PAYMENT, { encryptFields: FIELDS });
+    const tampered: TxSecureRecord = {
+      ...record,
+      payload_clear: { ...record.payload_clear, status: "settled" },
+    };
+
+    expect(() => decrypt(TEST_MASTER_KEY, tampered)).toThrow(TamperedDataError);
+  });
+
+  it("tampered, dropped or moved field ciphertext → TamperedDataError", () => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, PAYMENT, { encryptFields: FIELDS });
+    const [first, second] = record.payload_fields!;
+
+    const flipped = { ...record, payload_fields: [{ ...first, ct: flipHexChar(first.ct) }, second] };
+    const dropped = { ...record, payload_fields: [second] };
+    const moved = { ...record, payload_fields: [{ ...first, path: second.path }, { ...second, path: first.path }] };
+
+    expect(() => decrypt(TEST_MASTER_KEY, flipped)).toThrow(TamperedDataError);
+    expect(() => decrypt(TEST_MASTER_KEY, dropped)).toThrow(TamperedDataError);
+    expect(() => decrypt(TEST_MASTER_KEY, moved)).toThrow(TamperedDataError);
+  });
+
+  it("field ciphertext copied from another record → TamperedDataError", () => {
+    const victim = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, PAYMENT, { encryptFields: ["amount"] });
+    const donor = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, { ...PAYMENT, amount: 1 }, { encryptFields: ["amount"] });
+
+    const swapped: TxSecureRecord = { ...victim, payload_fields: donor.payload_fields };
+    expect(() => decrypt(TEST_MASTER_KEY, swapped)).toThrow(TamperedDataError);
+  });
+
+  it.each([
+    [["missing"], "not present in the payload"],
+    [["account", "account.number"], "overlap"],
+    [["account..number"], "Invalid field path"],
+    [["__proto__.polluted"], "Invalid field path"],
+    [[], "at least one path"],
+  ])("invalid encryptFields %j → EncryptionError", (paths, message) => {
+    expect(() =>
+      encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, PAYMENT, { encryptFields: paths })
+    ).toThrow(message);
+  });
+
+  it("does not modify the caller's payload", () => {
+    const payload = JSON.parse(JSON.stringify(PAYMENT));
+    encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, payload, { encryptFields: FIELDS });
+    expect(payload).toEqual(PAYMENT);
+  });
+});
+
+describe("Blind indexes", () => {
+  const PAYMENT = { amount: 250, counterparty: { account: "AE070331234567890123456" } };
+
+  it("is deterministic per key, field and value", () => {
+    const a = computeBlindIndex(TEST_MASTER_KEY, "counterparty.account", "AE07");
+    const b = computeBlindIndex(TEST_MASTER_KEY, "counterparty.account", "AE07");
+
+    expect(a).toEqual(b);
+    expect(a.hmac).toMatch(/^[0-9a-f]{64}$/);
+    expect(a.mk_version).toBe(1);
+  });
+
+  it("differs by field, value and master key", () => {
+    const base = computeBlindIndex(TEST_MASTER_KEY, "counterparty.account", "AE07").hmac;
+
+    expect(computeBlindIndex(TEST_MASTER_KEY, "reference", "AE07").hmac).not.toBe(base);
+    expect(computeBlindIndex(TEST_MASTER_KEY, "counterparty.account", "AE08").hmac).not.toBe(base);
+    expect(computeBlindIndex(generateMasterKey(), "counterparty.account", "AE07").hmac).not.toBe(base);
+  });
+
+  it("numbers match their string form", () => {
+    expect(computeBlindIndex(TEST_MASTER_KEY, "amount", 250).hmac).toBe(
+      computeBlindIndex(TEST_MASTER_KEY, "amount", "250").hmac
+    );
+  });
+
+  it("indexes the configured fields present in a payload", () => {
+    const indexes = computeBlindIndexes(TEST_MASTER_KEY, PAYMENT, ["counterparty.account", "missing"]);
+
+    expect(indexes).toEqual([
+      computeBlindIndex(TEST_MASTER_KEY, "counterparty.account", PAYMENT.counterparty.account),
+    ]);
+  });
+
+  it("derives from the keyring's active version unless one is given", () => {
+    const keyring = createKeyring({ 1: generateMasterKey(), 2: generateMasterKey() }, 2);
+
+    expect(computeBlindIndex(keyring, "amount", 1).mk_version).toBe(2);
+    expect(computeBlindIndex(keyring, "amount", 1, 1)).toEqual(
+      computeBlindIndex(keyring.keys[1], "amount", 1)
+    );
+    expect(() => computeBlindIndex(keyring, "amount", 1, 3)).toThrow(ValidationError);
+  });
+});
+
+describe("Per-party keys", () => {
+  it("encrypt → decrypt roundtrip through a party KEK", async () => {
+    const provider = createPartyKeyProvider(
+      createLocalKeyProvider(TEST_MASTER_KEY),
+      createMemoryPartyKeyStore()
+    );
+
+    const record = await encryptWithProvider(provider, TEST_PARTY_ID, TEST_PAYLOAD);
+    expect(record.kek_id).toBeDefined();
+    expect(await decryptWithProvider(provider, record)).toEqual(TEST_PAYLOAD);
+
+    // The DEK is wrapped by the KEK, not by the master key
+    expect(() => decrypt(TEST_MASTER_KEY, record)).toThrow(DecryptionError);
+  });
+
+  it("reuses one KEK per party", async () => {
+    const store = createMemoryPartyKeyStore();
+    const provider = createPartyKeyProvider(createLocalKeyProvider(TEST_MASTER_KEY), store);
+
+    const a = await encryptWithProvider(provider, "party_a", TEST_PAYLOAD);
+    const a2 = await encryptWithProvider(provider, "party_a", TEST_PAYLOAD);
+    const b = await encryptWithProvider(provider, "party_b", TEST_PAYLOAD);
+
+    expect(a2.kek_id).toBe(a.kek_id);
+    expect(b.kek_id).not.toBe(a.kek_id);
+    expect((await store.getKek(a.kek_id!))?.partyId).toBe("party_a");
+  });
+
+  it("destroying a party's keys → KeyDestroyedError, other parties unaffected", async () => {
+    const store = createMemoryPartyKeyStore();
+    const provider = createPartyKeyProvider(createLocalKeyProvider(TEST_MASTER_KEY), store);
+
+    const shredded = await encryptWithProvider(provider, "party_a", TEST_PAYLOAD);
+    const kept = await encryptWithProvider(provider, "party_b", TEST_PAYLOAD);
+
+    expect(await store.destroyKeks("party_a")).toBe(1);
+    expect(await store.destroyKeks("party_a")).toBe(0);
+
+    await expect(decryptWithProvider(provider, shredded)).rejects.toThrow(KeyDestroyedError);
+    expect(await decryptWithProvider(provider, kept)).toEqual(TEST_PAYLOAD);
+
+    // New records for the party get a fresh KEK
+    const fresh = await encryptWithProvider(provider, "party_a", TEST_PAYLOAD);
+    expect(fresh.kek_id).not.toBe(shredded.kek_id);
+    expect(await decryptWithProvider(provider, fresh)).toEqual(TEST_PAYLOAD);
+  });
+
+  it("records wrapped by the master key still decrypt", async () => {
+    const provider = createPartyKeyProvider(
+      createLocalKeyProvider(TEST_MASTER_KEY),
+      createMemoryPartyKeyStore()
+    );
+
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+    expect(await decryptWithProvider(provider, record)).toEqual(TEST_PAYLOAD);
+  });
+
+  it("decrypt() and rewrap() reject KEK-wrapped records", async () => {
+    const provider = createPartyKeyProvider(
+      createLocalKeyProvider(TEST_MASTER_KEY),
+      createMemoryPartyKeyStore()
+    );
+    const record = await encryptWithProvider(provider, TEST_PARTY_ID, TEST_PAYLOAD);
+
+    expect(() => decrypt(TEST_MASTER_KEY, record)).toThrow(/createPartyKeyProvider/);
+    expect(() => rewrap(record, TEST_MASTER_KEY, generateMasterKey(), 2)).toThrow(ValidationError);
+  });
+
+  it("tampered kek_id or partyId is detected", async () => {
+    const store = createMemoryPartyKeyStore();
+    const provider = createPartyKeyProvider(createLocalKeyProvider(TEST_MASTER_KEY), store);
+
+    const a = await encryptWithProvider(provider, "party_a", TEST_PAYLOAD);
+    const b = await encryptWithProvider(provider, "party_b", TEST_PAYLOAD);
+
+    await expect(
+      decryptWithProvider(provider, { ...a, partyId: "party_b" })
+    ).rejects.toThrow(TamperedDataError);
+    // Moved under party B's KEK, key check value included: the KEK is the
+    // right key for the key check, so the AAD catches it
+    await expect(
+      decryptWithProvider(provider, {
+        ...a,
+        kek_id: b.kek_id,
+        key_check: b.key_check,
+        partyId: "party_b",
+      })
+    ).rejects.toThrow(TamperedDataError);
+
+    // Without its kek_id the DEK is unwrapped under the master key, whose
+    // key check value is not the KEK's
+    const { kek_id: _dropped, ...stripped } = a;
+    await expect(decryptWithProvider(provider, stripped)).rejects.toThrow(WrongKeyError);
+  });
+
+  it("rewrapPartyKek() moves a KEK to a new master key version", async () => {
+    const KEY_V2 = generateMasterKey();
+    const keyring = createKeyring({ 1: generateMasterKey(), 2: KEY_V2 }, 1);
+    const store = createMemoryPartyKeyStore();
+
+    const before = createPartyKeyProvider(createLocalKeyProvider(keyring), store);
+    const record = await encryptWithProvider(before, TEST_PARTY_ID, TEST_PAYLOAD);
+    expect(record.mk_version).toBe(1);
+
+    const kek = (await store.getKek(record.kek_id!))!;
+    const rewrapped = rewrapPartyKek(kek, keyring, keyring, 2);
+    expect(rewrapped.mk_version).toBe(2);
+    expect(rewrapped.kek_wrapped).not.toBe(kek.kek_wrapped);
+    await store.saveKek(rewrapped);
+
+    // Version 1 can now be retired; the record itself was not touched
+    const v2Only = createKeyring({ 2: KEY_V2 });
+    const after = createPartyKeyProvider(createLocalKeyProvider(v2Only), store);
+    expect(await decryptWithProvider(after, record)).toEqual(TEST_PAYLOAD);
+  });
+});
+
+describe("Record signatures", () => {
+  const SIGNER = generateSigningKeyPair();
+  const SIGNING_KEY = { keyId: SIGNER.keyId, privateKey: SIGNER.privateKey };
+
+  it("signs on encrypt and verifies with the public key alone", async () => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD, { signingKey: SIGNING_KEY });
+
+    expect(record.signer_key_id).toBe(SIGNER.keyId);
+    expect(record.signature).toMatch(/^[0-9a-f]{128}$/);
+    expect(verifyRecordSignature(record, { [SIGNER.keyId]: SIGNER.publicKey })).toBe(true);
+    expect(decrypt(TEST_MASTER_KEY, record)).toEqual(TEST_PAYLOAD);
+
+    const provider = createLocalKeyProvider(TEST_MASTER_KEY);
+    const viaProvider = await encryptWithProvider(provider, TEST_PARTY_ID, TEST_PAYLOAD, {
+      signingKey: SIGNING_KEY,
+    });
+    expect(verifyRecordSignature(viaProvider, SIGNER.publicKey)).toBe(true);
+  });
+
+  it("key id is derived from the public key", () => {
+    expect(signingKeyId(SIGNER.publicKey)).toBe(SIGNER.keyId);
+    expect(signingKeyId(SIGNER.privateKey)).toBe(SIGNER.keyId);
+    expect(SIGNER.keyId).toMatch(/^[0-9a-f]{32}$/);
+  });
+
+  it("any modified field fails verification", () => {
+    const record = signRecord(
+      encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD, { encryptFields: ["amount"] }),
+      SIGNING_KEY
+    );
+
+    const tampered: TxSecureRecord[] = [
+      { ...record, partyId: "party_evil" },
+      { ...record, mk_version: 2 },
+      { ...record, payload_ct: flipHexChar(record.payload_ct) },
+      { ...record, dek_wrapped: flipHexChar(record.dek_wrapped) },
+      { ...record, payload_clear: { ...record.payload_clear, currency: "USD" } },
+      { ...record, signature: flipHexChar(record.signature!) },
+    ];
+    for (const candidate of tampered) {
+      expect(verifyRecordSignature(candidate, SIGNER.publicKey)).toBe(false);
+    }
+  });
+
+  it("survives the compact envelope and key reordering", () => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD, { signingKey: SIGNING_KEY });
+    const parsed = parseRecord(serializeRecord(record));
+    expect(verifyRecordSignature(parsed, SIGNER.publicKey)).toBe(true);
+
+    const reordered = Object.fromEntries(Object.entries(record).reverse()) as TxSecureRecord;
+    expect(verifyRecordSignature(reordered, SIGNER.publicKey)).toBe(true);
+  });
+
+  it("unsigned records, unknown signers and foreign keys are rejected", () => {
+    const other = generateSigningKeyPair();
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD, { signingKey: SIGNING_KEY });
+
+    const unsigned = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+    expect(() => verifyRecordSignature(unsigned, SIGNER.publicKey)).toThrow(ValidationError);
+    expect(() => verifyRecordSignature(record, { [other.keyId]: other.publicKey })).toThrow(ValidationError);
+
+    // A key id claimed by the wrong key does not verify
+    expect(verifyRecordSignature(record, { [SIGNER.keyId]: other.publicKey })).toBe(false);
+  });
+
+  it("validateRecord() rejects a half-present or malformed signature", () => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD, { signingKey: SIGNING_KEY });
+    const { signature: _signature, ...noSignature } = record;
+
+    expect(() => validateRecord(noSignature)).toThrow(ValidationError);
+    expect(() => validateRecord({ ...record, signature: record.signature!.slice(2) })).toThrow(ValidationError);
+  });
+
+  it("rewrap() drops the signature; signRecord() restores it", () => {
+    const KEY_V2 = generateMasterKey();
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD, { signingKey: SIGNING_KEY });
+    const rewrapped = rewrap(record, TEST_MASTER_KEY, KEY_V2, 2);
+
+    expect(rewrapped.signature).toBeUndefined();
+    expect(rewrapped.signer_key_id).toBeUndefined();
+    expect(verifyRecordSignature(signRecord(rewrapped, SIGNING_KEY), SIGNER.publicKey)).toBe(true);
+  });
+
+  it("non-Ed25519 keys are refused", () => {
+    const { privateKey } = crypto.generateKeyPairSync("ec", { namedCurve: "P-256" });
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+
+    expect(() => signRecord(record, { keyId: "ec", privateKey })).toThrow(EncryptionError);
+    expect(() => signRecord(record, { keyId: "pub", privateKey: SIGNER.publicKey })).toThrow(EncryptionError);
+  });
+});
+
+describe("Ledger", () => {
+  const SIGNER = generateSigningKeyPair();
+
+  function buildLedger(count: number): LedgerEntry[] {
+    const entries: LedgerEntry[] = [];
+    for (let i = 0; i < count; i++) {
+      const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, { n: i });
+      entries.push(createLedgerEntry(entries[i - 1] ?? null, "insert", record.id, record));
+    }
+    return entries;
+  }
+
+  it("entries chain from the genesis hash", () => {
+    const entries = buildLedger(3);
+    const deleted = createLedgerEntry(entries[2], "delete", entries[0].recordId);
+    entries.push(deleted);
+
+    expect(entries.map((entry) => entry.seq)).toEqual([1, 2, 3, 4]);
+    expect(entries[0].prev_hash).toBe(LEDGER_GENESIS_HASH);
+    expect(entries[1].prev_hash).toBe(entries[0].entry_hash);
+    expect(deleted.record_hash).toBeUndefined();
+    expect(verifyLedgerChain(entries)).toBeNull();
+
+    // Batch by batch
+    expect(verifyLedgerChain(entries.slice(2), entries[1])).toBeNull();
+  });
+
+  it("record_hash covers every field and survives serialization", () => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+    const hash = ledgerRecordHash(record);
+
+    expect(ledgerRecordHash(parseRecord(serializeRecord(record)))).toBe(hash);
+    expect(ledgerRecordHash(rewrap(record, TEST_MASTER_KEY, TEST_MASTER_KEY, 2))).not.toBe(hash);
+    expect(ledgerRecordHash({ ...record, partyId: "party_other" })).not.toBe(hash);
+  });
+
+  it("a deleted, reordered or edited entry breaks the chain", () => {
+    const entries = buildLedger(5);
+
+    expect(verifyLedgerChain([...entries.slice(0, 2), ...entries.slice(3)])).toMatchObject({
+      seq: 4,
+      reason: "gap",
+    });
+    expect(verifyLedgerChain([entries[0], entries[2], entries[1]])).toMatchObject({
+      seq: 3,
+      reason: "gap",
+    });
+    expect(verifyLedgerChain([entries[0], entries[1], entries[1]])).toMatchObject({
+      seq: 2,
+      reason: "out-of-order",
+    });
+    expect(verifyLedgerChain(entries.slice(1))).toMatchObject({ seq: 2, reason: "gap" });
+
+    const edited = entries.map((entry) => ({ ...entry }));
+    edited[2].recordId = "someone-else";
+    expect(verifyLedgerChain(edited)).toMatchObject({ seq: 3, reason: "altered-entry" });
+
+    // Re-hashed after the edit: the next entry no longer links to it
+    edited[2].entry_hash = ledgerEntryHash(edited[2]);
+    expect(verifyLedgerChain(edited)).toMatchObject({ seq: 4, reason: "broken-link" });
+  });
+
+  it("delete entries carry no record, others need one", () => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+
+    expect(() => createLedgerEntry(null, "delete", record.id, record)).toThrow(ValidationError);
+    expect(() => createLedgerEntry(null, "update", record.id)).toThrow(ValidationError);
+  });
+
+  it("inclusion proofs verify for every leaf of trees of any size", () => {
+    const hashes = buildLedger(9).map((entry) => entry.entry_hash);
+
+    expect(merkleRoot([])).toBe(crypto.createHash("sha256").digest("hex"));
+    for (let size = 1; size <= hashes.length; size++) {
+      const leaves = hashes.slice(0, size);
+      const root = merkleRoot(leaves);
+      for (let index = 0; index < size; index++) {
+        const proof = merkleInclusionProof(leaves, index);
+        expect(verifyMerkleInclusion(leaves[index], index, size, proof, root)).toBe(true);
+      }
+    }
+  });
+
+  it("accumulator roots match merkleRoot() at every size", () => {
+    const hashes = buildLedger(7).map((entry) => entry.entry_hash);
+    const accumulator = createMerkleAccumulator();
+
+    hashes.forEach((hash, i) => {
+      accumulator.add(hash);
+      expect(accumulator.size).toBe(i + 1);
+      expect(accumulator.root()).toBe(merkleRoot(hashes.slice(0, i + 1)));
+    });
+  });
+
+  it("inclusion proofs fail for another leaf, index, tree size or root", () => {
+    const hashes = buildLedger(6).map((entry) => entry.entry_hash);
+    const root = merkleRoot(hashes);
+    const proof = merkleInclusionProof(hashes, 2);
+
+    expect(verifyMerkleInclusion(hashes[3], 2, 6, proof, root)).toBe(false);
+    expect(verifyMerkleInclusion(hashes[2], 3, 6, proof, root)).toBe(false);
+    expect(verifyMerkleInclusion(hashes[2], 2, 3, proof, root)).toBe(false);
+    expect(verifyMerkleInclusion(hashes[2], 2, 6, proof, merkleRoot(hashes.slice(0, 5)))).toBe(false);
+    expect(verifyMerkleInclusion(hashes[2], 2, 6, [...proof, proof[0]], root)).toBe(false);
+    expect(() => merkleInclusionProof(hashes, 6)).toThrow(ValidationError);
+  });
+
+  it("checkpoints are signed and verified like records", () => {
+    const entries = buildLedger(4);
+    const checkpoint = signLedgerCheckpoint(
+      {
+        treeSize: 4,
+        root: merkleRoot(entries.map((entry) => entry.entry_hash)),
+        head_hash: entries[3].entry_hash,
+      },
+      SIGNER
+    );
+
+    expect(checkpoint.signer_key_id).toBe(SIGNER.keyId);
+    expect(verifyLedgerCheckpoint(checkpoint, { [SIGNER.keyId]: SIGNER.publicKey })).toBe(true);
+    expect(verifyLedgerCheckpoint({ ...checkpoint, treeSize: 3 }, SIGNER.publicKey)).toBe(false);
+    expect(() => verifyLedgerCheckpoint(checkpoint, {})).toThrow(/Checkpoint was signed by unknown key/);
+  });
+});
+
+describe("Sealed records", () => {
+  const RECIPIENT = generateRecipientKeyPair();
+
+  it("only the recipient's private key opens the record", () => {
+    const record = encryptForRecipient(RECIPIENT.publicKey, TEST_PARTY_ID, TEST_PAYLOAD);
+
+    expect(record.mk_version).toBe(0);
+    expect(record.recipient_key_id).toBe(RECIPIENT.keyId);
+    expect(record.recipient_epk).toMatch(/^[0-9a-f]{64}$/);
+    expect(() => validateRecord(record)).not.toThrow();
+    expect(openSealedRecord(record, RECIPIENT.privateKey)).toEqual(TEST_PAYLOAD);
+
+    const other = generateRecipientKeyPair();
+    expect(() => openSealedRecord(record, other.privateKey)).toThrow(DecryptionError);
+    expect(() => openSealedRecord(record, RECIPIENT.publicKey)).toThrow(DecryptionError);
+  });
+
+  it("each record uses a fresh ephemeral key", () => {
+    const a = encryptForRecipient(RECIPIENT.publicKey, TEST_PARTY_ID, TEST_PAYLOAD);
+    const b = encryptForRecipient(RECIPIENT.publicKey, TEST_PARTY_ID, TEST_PAYLOAD);
+    expect(a.recipient_epk).not.toBe(b.recipient_epk);
+  });
+
+  it("supports ChaCha20-Poly1305, field-level encryption and signing", () => {
+    const signer = generateSigningKeyPair();
+    const record = encryptForRecipient(RECIPIENT.publicKey, TEST_PARTY_ID, TEST_PAYLOAD, {
+      alg: "ChaCha20-Poly1305",
+      encryptFields: ["amount"],
+      signingKey: { keyId: signer.keyId, privateKey: signer.privateKey },
+    });
+
+    expect(record.payload_clear).toEqual({ currency: "AED", note: "Test transaction" });
+    expect(verifyRecordSignature(record, signer.publicKey)).toBe(true);
+    expect(openSealedRecord(parseRecord(serializeRecord(record)), RECIPIENT.privateKey)).toEqual(
+      TEST_PAYLOAD
+    );
+  });
+
+  it("tampered metadata or ephemeral key → TamperedDataError", () => {
+    const record = encryptForRecipient(RECIPIENT.publicKey, TEST_PARTY_ID, TEST_PAYLOAD);
+    const other = encryptForRecipient(RECIPIENT.publicKey, TEST_PARTY_ID, TEST_PAYLOAD);
+
+    const tampered: TxSecureRecord[] = [
+      { ...record, partyId: "party_evil" },
+      { ...record, recipient_epk: other.recipient_epk },
+    ];
+    for (const candidate of tampered) {
+      expect(() => openSealedRecord(candidate, RECIPIENT.privateKey)).toThrow(TamperedDataError);
+    }
+  });
+
+  it("master-key paths refuse sealed records", async () => {
+    const record = encryptForRecipient(RECIPIENT.publicKey, TEST_PARTY_ID, TEST_PAYLOAD);
+    const provider = createLocalKeyProvider(TEST_MASTER_KEY);
+
+    expect(() => decrypt(TEST_MASTER_KEY, record)).toThrow(/openSealedRecord/);
+    await expect(decryptWithProvider(provider, record)).rejects.toThrow(DecryptionError);
+    expect(() => rewrap(record, TEST_MASTER_KEY, TEST_MASTER_KEY, 2)).toThrow(ValidationError);
+    const unsealed = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+    expect(() => openSealedRecord(unsealed, RECIPIENT.privateKey)).toThrow(DecryptionError);
+  });
+
+  it("validateRecord() requires mk_version 0 and a 32-byte ephemeral key", () => {
+    const record = encryptForRecipient(RECIPIENT.publicKey, TEST_PARTY_ID, TEST_PAYLOAD);
+
+    expect(() => validateRecord({ ...record, mk_version: 1 })).toThrow(ValidationError);
+    expect(() => validateRecord({ ...record, recipient_epk: record.recipient_epk!.slice(2) })).toThrow(
+      ValidationError
+    );
+  });
+
+  it("non-X25519 recipient keys are refused", () => {
+    const signer = generateSigningKeyPair();
+    expect(() => encryptForRecipient(signer.publicKey, TEST_PARTY_ID, TEST_PAYLOAD)).toThrow(
+      EncryptionError
+    );
+  });
+});
+
+describe("Payload schemas", () => {
+  type Payment = { amount: number; currency: string; note?: string };
+
+  const PAYMENT_SCHEMA = definePayloadSchema<Payment>({
+    type: "object",
+    required: ["amount", "currency"],
+    properties: {
+      amount: { type: "number", minimum: 0 },
+      currency: { type: "string", enum: ["AED", "EUR", "USD"] },
+      note: { type: "string", maxLength: 140 },
+    },
+    additionalProperties: false,
+  });
+
+  it("decrypt() with a schema returns the typed payload", async () => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD, { schema: PAYMENT_SCHEMA });
+    const payment: Payment = decrypt(TEST_MASTER_KEY, record, PAYMENT_SCHEMA);
+    expect(payment).toEqual(TEST_PAYLOAD);
+
+    const provider = createLocalKeyProvider(TEST_MASTER_KEY);
+    await expect(decryptWithProvider(provider, record, PAYMENT_SCHEMA)).resolves.toEqual(
+      TEST_PAYLOAD
+    );
+  });
+
+  it("encrypt() refuses a payload that does not match, before encrypting", () => {
+    const bad = { amount: "100", currency: "GBP", memo: "x" } as unknown as Payment;
+
+    const attempt = () => encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, bad, { schema: PAYMENT_SCHEMA });
+
+    expect(attempt).toThrow(PayloadSchemaError);
+    expect(attempt).toThrow(
+      expect.objectContaining({
+        issues: [
+          "$.amount: expected number, got string",
+          '$.currency: must be one of "AED", "EUR", "USD"',
+          "$.memo: property is not allowed",
+        ],
+      })
+    );
+  });
+
+  it("decrypt() checks the authenticated payload against the schema", () => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, { amount: -5, currency: "AED" });
+    expect(() => decrypt(TEST_MASTER_KEY, record, PAYMENT_SCHEMA)).toThrow(
+      /\$\.amount: must be at least 0/
+    );
+
+    const sealed = encryptForRecipient(
+      generateRecipientKeyPair().publicKey,
+      TEST_PARTY_ID,
+      TEST_PAYLOAD
+    );
+    expect(() => decrypt(TEST_MASTER_KEY, sealed, PAYMENT_SCHEMA)).toThrow(DecryptionError);
+  });
+
+  it("field-level records are checked as a whole payload", () => {
+    const recipient = generateRecipientKeyPair();
+    const record = encryptForRecipient(recipient.publicKey, TEST_PARTY_ID, TEST_PAYLOAD, {
+      encryptFields: ["amount"],
+      schema: PAYMENT_SCHEMA,
+    });
+    expect(openSealedRecord(record, recipient.privateKey, PAYMENT_SCHEMA)).toEqual(TEST_PAYLOAD);
+  });
+
+  it("validates nested objects, arrays, integers and patterns", () => {
+    const schema = definePayloadSchema({
+      type: "object",
+      properties: {
+        lines: {
+          type: "array",
+          minItems: 1,
+          items: {
+            type: "object",
+            required: ["sku", "qty"],
+            properties: {
+              sku: { type: "string", pattern: "^[A-Z]{3}-\\d+$" },
+              qty: { type: "integer" },
+            },
+          },
+        },
+        tags: { type: "object", additionalProperties: { type: ["string", "null"] } },
+      },
+    });
+
+    expect(() =>
+      validatePayload(schema, { lines: [{ sku: "ABC-1", qty: 2 }], tags: { a: "x", b: null } })
+    ).not.toThrow();
+    expect(() => validatePayload(schema, { lines: [] })).toThrow(/at least 1 items/);
+    expect(() => validatePayload(schema, { lines: [{ sku: "abc", qty: 1.5 }] })).toThrow(
+      PayloadSchemaError
+    );
+    expect(() => validatePayload(schema, { tags: { a: 1 } })).toThrow(/\$\.tags\.a/);
+  });
+
+  it("definePayloadSchema() rejects unsupported or malformed schemas", () => {
+    expect(() => definePayloadSchema({ type: "object", oneOf: [] })).toThrow(/"oneOf"/);
+    expect(() => definePayloadSchema({ type: "decimal" })).toThrow(ValidationError);
+    expect(() => definePayloadSchema({ properties: { a: { pattern: "(" } } })).toThrow(
+      /schema\.properties\.a\.pattern/
+    );
+    expect(() => definePayloadSchema({ minLength: -1 })).toThrow(ValidationError);
+    expect(() => definePayloadSchema([])).toThrow(ValidationError);
+  });
+});
+
+describe("Key files", () => {
+  // Minimum scrypt cost, to keep the tests fast
+  const FAST = { N: 2 ** 10, r: 8, p: 1 };
+
+  it("round-trips a master key under a passphrase", () => {
+    const file = encryptKeyFile(TEST_MASTER_KEY, "correct horse battery staple", FAST);
+
+    expect(file).not.toContain(TEST_MASTER_KEY);
+    expect(JSON.parse(file).kdf).toMatchObject({ alg: "scrypt", ...FAST });
+    expect(decryptKeyFile(file, "correct horse battery staple")).toBe(TEST_MASTER_KEY);
+  });
+
+  it("defaults to scrypt N=2^17, r=8, p=1", () => {
+    const file = JSON.parse(encryptKeyFile(TEST_MASTER_KEY, "passphrase"));
+    expect(file.kdf).toMatchObject({ N: 2 ** 17, r: 8, p: 1 });
+  });
+
+  it("wrong passphrase → WrongPassphraseError", () => {
+    const file = encryptKeyFile(TEST_MASTER_KEY, "passphrase", FAST);
+    expect(() => decryptKeyFile(file, "Passphrase")).toThrow(WrongPassphraseError);
+  });
+
+  it("modified contents or header → TamperedDataError", () => {
+    const file = JSON.parse(encryptKeyFile(TEST_MASTER_KEY, "passphrase", FAST));
+
+    const tampered = [
+      { ...file, ct: flipHexChar(file.ct) },
+      { ...file, tag: flipHexChar(file.tag) },
+      { ...file, nonce: flipHexChar(file.nonce) },
+    ];
+    for (const candidate of tampered) {
+      expect(() => decryptKeyFile(JSON.stringify(candidate), "passphrase")).toThrow(
+        TamperedDataError
+      );
+    }
+  });
+
+  it("malformed files and unsafe scrypt parameters → ValidationError", () => {
+    const file = JSON.parse(encryptKeyFile(TEST_MASTER_KEY, "passphrase", FAST));
+
+    const malformed = [
+      "not json",
+      JSON.stringify({ ...file, type: "something-else" }),
+      JSON.stringify({ ...file, version: 2 }),
+      JSON.stringify({ ...file, nonce: "abcd" }),
+      JSON.stringify({ ...file, kdf: { ...file.kdf, N: 2 ** 30 } }),
+      JSON.stringify({ ...file, kdf: { ...file.kdf, N: 1000 } }),
+    ];
+    for (const candidate of malformed) {
+      expect(() => decryptKeyFile(candidate, "passphrase")).toThrow(ValidationError);
+    }
+    expect(() => encryptKeyFile(TEST_MASTER_KEY, "")).toThrow(ValidationError);
+  });
+});
+
+describe("Record expiry", () => {
+  const CREATED = new Date("2026-01-01T00:00:00.000Z");
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /** Freezes Date at `at`; timers keep running so other code is unaffected */
+  function setNow(at: Date): void {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(at);
+  }
+
+  it("ttlSeconds sets expiresAt; the record decrypts until then", () => {
+    setNow(CREATED);
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD, { ttlSeconds: 3600 });
+
+    expect(record.createdAt).toBe("2026-01-01T00:00:00.000Z");
+    expect(record.expiresAt).toBe("2026-01-01T01:00:00.000Z");
+    expect(encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD).expiresAt).toBeUndefined();
+
+    setNow(new Date("2026-01-01T00:59:59.999Z"));
+    expect(decrypt(TEST_MASTER_KEY, record)).toEqual(TEST_PAYLOAD);
+  });
+
+  it("expired records → decrypt and decryptWithProvider throw ExpiredRecordError", async () => {
+    setNow(CREATED);
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD, { ttlSeconds: 60 });
+
+    setNow(new Date("2026-01-01T00:01:00.000Z"));
+    expect(() => decrypt(TEST_MASTER_KEY, record)).toThrow(ExpiredRecordError);
+    expect(() => decrypt(TEST_MASTER_KEY, record)).toThrow(
+      expect.objectContaining({ expiresAt: "2026-01-01T00:01:00.000Z" })
+    );
+    await expect(
+      decryptWithProvider(createLocalKeyProvider(TEST_MASTER_KEY), record)
+    ).rejects.toThrow(ExpiredRecordError);
+  });
+
+  it("extending or removing expiresAt → decryption throws TamperedDataError", () => {
+    setNow(CREATED);
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD, {
+      ttlSeconds: 60,
+      encryptFields: ["amount"],
+    });
+    const { expiresAt: _expiresAt, ...withoutExpiry } = record;
+
+    setNow(new Date("2026-01-02T00:00:00.000Z"));
+    const extended: TxSecureRecord = { ...record, expiresAt: "2027-01-01T00:00:00.000Z" };
+    expect(() => decrypt(TEST_MASTER_KEY, extended)).toThrow(TamperedDataError);
+    expect(() => decrypt(TEST_MASTER_KEY, withoutExpiry)).toThrow(TamperedDataError);
+  });
+
+  it("expiresAt survives the compact envelope and re-wrapping", () => {
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD, { ttlSeconds: 3600 });
+    const parsed = parseRecord(serializeRecord(record));
+    expect(parsed.expiresAt).toBe(record.expiresAt);
+
+    const newKey = generateMasterKey();
+    const rewrapped = rewrap(parsed, TEST_MASTER_KEY, newKey, 2);
+    expect(rewrapped.expiresAt).toBe(record.expiresAt);
+    expect(decrypt(createKeyring({ 2: newKey }), rewrapped)).toEqual(TEST_PAYLOAD);
+  });
+
+  it("invalid TTLs and expiry timestamps are rejected", () => {
+    for (const ttlSeconds of [0, -1, 1.5, Number.NaN]) {
+      expect(() => encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD, { ttlSeconds })).toThrow(
+        EncryptionError
+      );
+    }
+
+    const record = encrypt(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD, { ttlSeconds: 60 });
+    expect(() => validateRecord({ ...record, expiresAt: "tomorrow" })).toThrow(
+      "expiresAt must be an ISO 8601 timestamp"
+    );
+
+    const legacy = encryptLegacy(TEST_MASTER_KEY, TEST_PARTY_ID, TEST_PAYLOAD);
+    expect(() => validateRecord({ ...legacy, expiresAt: record.expiresAt })).toThrow(
+      "format_version 2 or later"
+    );
+  });
+});
+
+/** Helper: splits a buffer into fixed-size chunks to feed a Readable */
+function chunks(buffer: Buffer, size: number): Buffer[] {
+  const result: Buffer[] = [];
+  for (let offset = 0; offset < buffer.length; offset += size) {
+    result.push(buffer.subarray(offset, offset + size));
+  }
+  return result;
+}
+
+/** Helper: a Writable that collects everything written to it */
+function collector(): { stream: Writable; result: () => Buffer } {
+  const parts: Buffer[] = [];
+  return {
+    stream: new Writable({
+      write(chunk, _encoding, callback) {
+        parts.push(chunk);
+        callback();
+      },
+    }),
+    result: () => Buffer.concat(parts),
+  };
+}
+
+/** Helper: splits framed stream ciphertext into its [length ‖ ct ‖ tag] frames */
+function splitFrames(ciphertext: Buffer): Buffer[] {
+  const frames: Buffer[] = [];
+  let offset = 0;
+  while (offset < ciphertext.length) {
+    const frameLength = 4 + ciphertext.readUInt32BE(offset) + 16;
+    frames.push(ciphertext.subarray(offset, offset + frameLength));
+    offset += frameLength;
+  }
+  return frames;
+}
+
+/**
+ * Helper: builds a record the way encrypt() did before AAD binding
+ * (no format_version, no AAD on either layer).
+ */
+function encryptLegacy(
+  masterKey: string,
+  partyId: string,
+  payload: Record<string, unknown>
+): TxSecureRecord {
+  const dek = crypto.randomBytes(32);
+  const payloadNonce = crypto.randomBytes(12);
+  const payloadCipher = crypto.createCipheriv("aes-256-gcm", dek, payloadNonce);
+  const payloadCt = Buffer.concat([
+    payloadCipher.update(JSON.stringify(payload), "utf-8"),
+    payloadCipher.final(),
+  ]);
+
+  const dekWrapNonce = crypto.randomBytes(12);
+  const dekCipher = crypto.createCipheriv("aes-256-gcm", Buffer.from(masterKey, "hex"), dekWrapNonce);
+  const dekWrapped = Buffer.concat([dekCipher.update(dek), dekCipher.final()]);
+
+  return {
+    id: crypto.randomUUID(),
+    partyId,
+    createdAt: new Date().toISOString(),
+    payload_nonce: payloadNonce.toString("hex"),
+    payload_ct: payloadCt.toString("hex"),
+    payload_tag: payloadCipher.getAuthTag().toString("hex"),
+    dek_wrap_nonce: dekWrapNonce.toString("hex"),
+    dek_wrapped: dekWrapped.toString("hex"),
+    dek_wrap_tag: dekCipher.getAuthTag().toString("hex"),
+    alg: "AES-256-GCM",
+    mk_version: 1,
+  };
+}
+
+/**
+ * Helper: turns a record into the format-2 record encrypt() wrote before
+ * subkeys, by re-wrapping its DEK under the raw master key.
+ */
+function downgradeToFormat2(masterKey: string, record: TxSecureRecord): TxSecureRecord {
+  const wrapKey = deriveSubkey(masterKey, "dek-wrap");
+  const unwrapper = crypto.createDecipheriv(
+    "aes-256-gcm",
+    wrapKey,
+    Buffer.from(record.dek_wrap_nonce, "hex")
+  );
+  unwrapper.setAAD(dekWrapAad(record)!);
+  unwrapper.setAuthTag(Buffer.from(record.dek_wrap_tag, "hex"));
+  const dek = Buffer.concat([
+    unwrapper.update(Buffer.from(record.dek_wrapped, "hex")),
+    unwrapper.final(),
+  ]);
+
+  const downgraded: TxSecureRecord = { ...record, format_version: RECORD_FORMAT_AAD };
+  const dekWrapNonce = crypto.randomBytes(12);
+  const dekCipher = crypto.createCipheriv("aes-256-gcm", Buffer.from(masterKey, "hex"), dekWrapNonce);
+  dekCipher.setAAD(dekWrapAad(downgraded)!);
+  const dekWrapped = Buffer.concat([dekCipher.update(dek), dekCipher.final()]);
+
+  return {
+    ...downgraded,
+    dek_wrap_nonce: dekWrapNonce.toString("hex"),
+    dek_wrapped: dekWrapped.toString("hex"),
+    dek_wrap_tag: dekCipher.getAuthTag().toString("hex"),
+  };
+}
+
 /**
  * Helper: flips the first hex character in a string to produce a tampered value.
  * e.g. "a1b2c3" → "b1b2c3"